@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "PageOperation" (
+    "id" TEXT NOT NULL,
+    "pageId" TEXT NOT NULL,
+    "seq" INTEGER NOT NULL,
+    "opId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "strokeId" TEXT,
+    "stroke" JSONB,
+    "clock" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PageOperation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PageOperation_opId_key" ON "PageOperation"("opId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PageOperation_pageId_seq_key" ON "PageOperation"("pageId", "seq");
+
+-- AddForeignKey
+ALTER TABLE "PageOperation" ADD CONSTRAINT "PageOperation_pageId_fkey" FOREIGN KEY ("pageId") REFERENCES "Page"("id") ON DELETE CASCADE ON UPDATE CASCADE;
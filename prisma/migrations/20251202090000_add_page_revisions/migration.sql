@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "PageRevision" (
+    "id" TEXT NOT NULL,
+    "pageId" TEXT NOT NULL,
+    "content" JSONB NOT NULL,
+    "thumbnail" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 0,
+    "strokeCount" INTEGER NOT NULL DEFAULT 0,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PageRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PageRevision_pageId_createdAt_idx" ON "PageRevision"("pageId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PageRevision" ADD CONSTRAINT "PageRevision_pageId_fkey" FOREIGN KEY ("pageId") REFERENCES "Page"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Board" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedBy" TEXT;
+
+-- AlterTable
+ALTER TABLE "Page" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedBy" TEXT;
+
+-- AlterTable
+ALTER TABLE "Topic" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedBy" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Board_workspaceId_deletedAt_idx" ON "Board"("workspaceId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Page_boardId_deletedAt_idx" ON "Page"("boardId", "deletedAt");
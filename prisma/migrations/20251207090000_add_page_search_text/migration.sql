@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Page" ADD COLUMN "searchText" TEXT,
+ADD COLUMN "recognizedText" TEXT;
+
+-- Backfill searchText from the text strokes of existing pages (content is
+-- either `{ strokes: [...] }` or, for legacy pages, the stroke array itself)
+UPDATE "Page" AS p
+SET "searchText" = (
+    SELECT string_agg(stroke->>'text', E'\n')
+    FROM jsonb_array_elements(
+        CASE
+            WHEN jsonb_typeof(p."content") = 'array' THEN p."content"
+            WHEN jsonb_typeof(p."content"->'strokes') = 'array' THEN p."content"->'strokes'
+            ELSE '[]'::jsonb
+        END
+    ) AS stroke
+    WHERE stroke->>'tool' = 'text' AND coalesce(stroke->>'text', '') <> ''
+)
+WHERE p."content" IS NOT NULL;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Page" ADD COLUMN "inkHash" TEXT,
+ADD COLUMN "indexedInkHash" TEXT,
+ADD COLUMN "handwritingText" TEXT;
+
+-- CreateTable
+CREATE TABLE "HandwritingWord" (
+    "id" TEXT NOT NULL,
+    "pageId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "x" DOUBLE PRECISION NOT NULL,
+    "y" DOUBLE PRECISION NOT NULL,
+    "width" DOUBLE PRECISION NOT NULL,
+    "height" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "HandwritingWord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HandwritingWord_pageId_idx" ON "HandwritingWord"("pageId");
+
+-- AddForeignKey
+ALTER TABLE "HandwritingWord" ADD CONSTRAINT "HandwritingWord_pageId_fkey" FOREIGN KEY ("pageId") REFERENCES "Page"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- Comment links only ever granted view access
+UPDATE "ShareLink" SET "scope" = 'VIEW' WHERE "scope" = 'COMMENT';
+
+-- AlterEnum
+BEGIN;
+CREATE TYPE "ShareScope_new" AS ENUM ('VIEW', 'EDIT');
+ALTER TABLE "ShareLink" ALTER COLUMN "scope" DROP DEFAULT;
+ALTER TABLE "ShareLink" ALTER COLUMN "scope" TYPE "ShareScope_new" USING ("scope"::text::"ShareScope_new");
+ALTER TYPE "ShareScope" RENAME TO "ShareScope_old";
+ALTER TYPE "ShareScope_new" RENAME TO "ShareScope";
+DROP TYPE "ShareScope_old";
+ALTER TABLE "ShareLink" ALTER COLUMN "scope" SET DEFAULT 'VIEW';
+COMMIT;
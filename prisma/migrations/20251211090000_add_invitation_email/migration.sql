@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Invitation" ADD COLUMN "email" TEXT;
+
+-- Links without an invitee could be accepted by anyone holding them
+UPDATE "Invitation" SET "revokedAt" = CURRENT_TIMESTAMP WHERE "revokedAt" IS NULL;
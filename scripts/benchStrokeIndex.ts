@@ -0,0 +1,94 @@
+/**
+ * Benchmark of the stroke index on a dense page
+ *
+ * Fills a page with 10k handwriting-sized strokes and times hit-testing and
+ * the split eraser with and without the index, plus building the index and
+ * catching it up after a stroke moves.
+ *
+ *   npm run bench:strokes
+ */
+
+import type { Point, Stroke } from '../src/store/whiteboardStore';
+import { StrokeIndex } from '../src/utils/strokeIndex';
+import { findStrokeAtPoint } from '../src/utils/strokeHitTest';
+import { eraseAlongPath } from '../src/utils/strokeEraser';
+
+const STROKE_COUNT = 10000;
+const POINTS_PER_STROKE = 30;
+const PAGE_WIDTH = 4000;
+const PAGE_HEIGHT = 6000;
+const ROUNDS = 200;
+
+// Deterministic, so runs compare
+let seed = 42;
+function random() {
+    seed = (seed * 16807) % 2147483647;
+    return (seed - 1) / 2147483646;
+}
+
+function makeStroke(i: number): Stroke {
+    const x = random() * PAGE_WIDTH;
+    const y = random() * PAGE_HEIGHT;
+    const points: Point[] = [];
+    for (let j = 0; j < POINTS_PER_STROKE; j++) {
+        points.push({ x: x + j * 1.5 + random() * 4, y: y + Math.sin(j / 3) * 12 + random() * 4 });
+    }
+    return { id: `stroke-${i}`, tool: 'pen', points, color: '#000000', width: 3, opacity: 1, pageId: 'bench', createdAt: '' };
+}
+
+function makePath(size: number, count: number): Point[] {
+    const cx = random() * PAGE_WIDTH;
+    const cy = random() * PAGE_HEIGHT;
+    return Array.from({ length: count }, (_, i) => {
+        const angle = (i / count) * Math.PI * 2;
+        return { x: cx + Math.cos(angle) * size, y: cy + Math.sin(angle) * size };
+    });
+}
+
+function time(label: string, run: () => void) {
+    const start = performance.now();
+    run();
+    const total = performance.now() - start;
+    console.log(`${label.padEnd(36)} ${total.toFixed(1).padStart(9)} ms`);
+    return total;
+}
+
+function compare(name: string, linear: () => void, indexed: () => void) {
+    const a = time(`${name} (linear)`, linear);
+    const b = time(`${name} (indexed)`, indexed);
+    console.log(`${''.padEnd(36)} ${(a / b).toFixed(1).padStart(9)} x faster\n`);
+}
+
+const strokes = Array.from({ length: STROKE_COUNT }, (_, i) => makeStroke(i));
+const index = new StrokeIndex();
+const probes = Array.from({ length: ROUNDS }, () => ({ x: random() * PAGE_WIDTH, y: random() * PAGE_HEIGHT }));
+const erasers = Array.from({ length: ROUNDS }, () => makePath(40, 20));
+
+console.log(`${STROKE_COUNT} strokes of ${POINTS_PER_STROKE} points, ${ROUNDS} queries each\n`);
+
+time('build index', () => index.sync(strokes));
+
+const moved = strokes.map((s, i) => (i === 0 ? { ...s, points: s.points.map(p => ({ ...p, x: p.x + 10 })) } : s));
+time('catch up after one move', () => index.sync(moved));
+index.sync(strokes);
+console.log('');
+
+compare(
+    'hit-test',
+    () => probes.forEach(p => findStrokeAtPoint(p, strokes)),
+    () => probes.forEach(p => findStrokeAtPoint(p, index.search(strokes, { ...p, width: 0, height: 0 })))
+);
+compare(
+    'split eraser',
+    () => erasers.forEach(path => eraseAlongPath(strokes, path, 10)),
+    () => erasers.forEach(path => eraseAlongPath(strokes, path, 10, index))
+);
+
+// Both paths must agree
+const mismatches = probes.filter(p =>
+    findStrokeAtPoint(p, strokes)?.id !== findStrokeAtPoint(p, index.search(strokes, { ...p, width: 0, height: 0 }))?.id
+).length + erasers.filter(path =>
+    eraseAlongPath(strokes, path, 10).removedIds.join() !== eraseAlongPath(strokes, path, 10, index).removedIds.join()
+).length;
+console.log(mismatches === 0 ? 'Indexed results match the linear scans' : `${mismatches} indexed results differ!`);
+if (mismatches > 0) process.exit(1);
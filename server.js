@@ -1,9 +1,8 @@
-
 const { createServer } = require('http');
 const { parse } = require('url');
+const path = require('path');
 const next = require('next');
-const { Server } = require('socket.io');
-const { PrismaClient } = require('@prisma/client');
+const { createJiti } = require('jiti');
 
 const dev = process.env.NODE_ENV !== 'production';
 const hostname = 'localhost';
@@ -12,12 +11,13 @@ const port = parseInt(process.env.PORT || '3000', 10);
 const app = next({ dev, hostname, port });
 const handle = app.getRequestHandler();
 
-const prisma = new PrismaClient();
-
-// Store active connections per page
-const pageConnections = new Map();
+// The realtime server is TypeScript (shared protocol + page operation log);
+// jiti loads it with the same `@/` alias the app uses
+const jiti = createJiti(__filename, {
+    alias: { '@': path.join(__dirname, 'src') },
+});
 
-app.prepare().then(() => {
+app.prepare().then(async () => {
     const server = createServer(async (req, res) => {
         try {
             const parsedUrl = parse(req.url, true);
@@ -29,143 +29,35 @@ app.prepare().then(() => {
         }
     });
 
-    const io = new Server(server, {
-        cors: {
-            origin: dev ? ['http://localhost:3000'] : process.env.ALLOWED_ORIGINS?.split(',') || [],
-            methods: ['GET', 'POST'],
-            credentials: true,
-        },
-        transports: ['websocket', 'polling'],
-    });
-
-    io.on('connection', (socket) => {
-        console.log('Client connected:', socket.id);
-        let currentPageId = null;
-        let userId = null;
-
-        // Join a page room for collaborative editing
-        socket.on('join-page', async (data) => {
-            try {
-                const { pageId, authToken } = data;
-
-                // For now, we'll trust the client's auth token
-                // In production, verify the token with Clerk
-                userId = data.userId;
-                currentPageId = pageId;
-
-                // Leave any previous room
-                if (socket.rooms.size > 1) {
-                    socket.rooms.forEach((room) => {
-                        if (room !== socket.id) {
-                            socket.leave(room);
-                        }
-                    });
-                }
-
-                // Join the new page room
-                socket.join(`page:${pageId}`);
-
-                // Track connection
-                if (!pageConnections.has(pageId)) {
-                    pageConnections.set(pageId, new Set());
-                }
-                pageConnections.get(pageId).add(socket.id);
-
-                console.log(`User ${userId} joined page ${pageId}`);
-
-                // Notify client of successful join
-                socket.emit('joined', {
-                    pageId,
-                    connectedUsers: pageConnections.get(pageId).size
-                });
-
-                // Notify others in the room
-                socket.to(`page:${pageId}`).emit('user-joined', {
-                    userId,
-                    connectedUsers: pageConnections.get(pageId).size
-                });
-            } catch (error) {
-                console.error('Error joining page:', error);
-                socket.emit('error', { message: 'Failed to join page' });
-            }
-        });
-
-        // Handle save events
-        socket.on('save', async (data) => {
-            try {
-                const { pageId, content, thumbnail } = data;
-
-                if (!pageId) {
-                    socket.emit('save-error', { message: 'No page ID provided' });
-                    return;
-                }
+    const { initSocketServer } = await jiti.import('./src/lib/socket-server.ts');
+    // Rooms are shared through Redis when REDIS_URL is set (see roomAdapter.ts)
+    await initSocketServer(server);
 
-                // Save to database
-                const contentToSave = {
-                    ...content,
-                    thumbnail: thumbnail || content?.thumbnail,
-                };
-
-                await prisma.page.update({
-                    where: { id: pageId },
-                    data: { content: contentToSave },
-                });
-
-                // Confirm save to sender
-                socket.emit('saved', {
-                    pageId,
-                    timestamp: new Date().toISOString()
-                });
-
-                // Broadcast to other clients in the same room
-                socket.to(`page:${pageId}`).emit('sync', {
-                    pageId,
-                    content: contentToSave,
-                    userId,
-                    timestamp: new Date().toISOString()
-                });
-
-                console.log(`Page ${pageId} saved by user ${userId}`);
-            } catch (error) {
-                console.error('Error saving page:', error);
-                socket.emit('save-error', {
-                    message: 'Failed to save',
-                    error: error.message
-                });
-            }
-        });
-
-        // Handle cursor position updates (for real-time collaboration)
-        socket.on('cursor-move', (data) => {
-            if (currentPageId) {
-                socket.to(`page:${currentPageId}`).emit('cursor-update', {
-                    userId,
-                    position: data.position,
-                    socketId: socket.id
-                });
-            }
-        });
-
-        // Handle disconnection
-        socket.on('disconnect', () => {
-            console.log('Client disconnected:', socket.id);
-
-            if (currentPageId && pageConnections.has(currentPageId)) {
-                pageConnections.get(currentPageId).delete(socket.id);
-
-                // Notify others
-                socket.to(`page:${currentPageId}`).emit('user-left', {
-                    userId,
-                    connectedUsers: pageConnections.get(currentPageId).size
-                });
-
-                // Clean up empty rooms
-                if (pageConnections.get(currentPageId).size === 0) {
-                    pageConnections.delete(currentPageId);
-                }
-            }
-        });
-    });
+    // Permanently remove trashed boards, pages and topics past their retention
+    // window (see src/lib/trash.ts); once at startup, then every 6 hours
+    const { purgeExpiredTrash } = await jiti.import('./src/lib/trash.ts');
+    const purgeTrash = async () => {
+        try {
+            const purged = await purgeExpiredTrash();
+            console.log('> Purged expired trash:', purged);
+        } catch (error) {
+            console.error('Failed to purge expired trash:', error);
+        }
+    };
+    purgeTrash();
+    setInterval(purgeTrash, 6 * 60 * 60 * 1000);
+
+    // Read handwriting on pages whose ink changed, for search
+    // (see src/lib/handwritingRecognizer.ts); every 30 seconds
+    const { recognizeStaleHandwriting } = await jiti.import('./src/lib/handwritingRecognizer.ts');
+    const recognizeHandwriting = async () => {
+        try {
+            await recognizeStaleHandwriting();
+        } catch (error) {
+            console.error('Failed to recognize handwriting:', error);
+        }
+    };
+    setInterval(recognizeHandwriting, 30 * 1000);
 
     server.listen(port, () => {
         console.log(`> Ready on http://${hostname}:${port}`);
@@ -1,10 +1,11 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useParams } from 'next/navigation';
+import { useParams, useSearchParams } from 'next/navigation';
 import dynamic from 'next/dynamic';
 import TopBar from '@/components/TopBar';
 import ErrorBoundary from '@/components/ErrorBoundary';
+import { useWhiteboardStore } from '@/store/whiteboardStore';
 
 // Dynamically import WhiteboardCanvas to avoid SSR issues with Konva
 const WhiteboardCanvas = dynamic(() => import('@/components/WhiteboardCanvas'), {
@@ -19,6 +20,10 @@ const WhiteboardCanvas = dynamic(() => import('@/components/WhiteboardCanvas'),
 export default function BoardPage() {
     const params = useParams();
     const boardId = params.boardId as string;
+    const searchParams = useSearchParams();
+    const focusPageId = searchParams.get('page');
+    const focusStrokeId = searchParams.get('stroke');
+    const focusArea = searchParams.get('area');
     const [mounted, setMounted] = useState(false);
     const [boardData, setBoardData] = useState<{ workspaceId?: string; workspace?: { name?: string }; title?: string } | null>(null);
 
@@ -39,6 +44,18 @@ export default function BoardPage() {
         fetchData();
     }, [boardId]);
 
+    // `?page=<id>&stroke=<id>` or `&area=x,y,width,height` (from search) opens
+    // that page and zooms to the stroke or area
+    useEffect(() => {
+        if (!focusPageId) return;
+        const [x, y, width, height] = (focusArea ?? '').split(',').map(Number);
+        useWhiteboardStore.getState().setFocusTarget({
+            pageId: focusPageId,
+            strokeId: focusStrokeId ?? undefined,
+            area: [x, y, width, height].every(Number.isFinite) ? { x, y, width, height } : undefined,
+        });
+    }, [focusPageId, focusStrokeId, focusArea]);
+
     if (!mounted) return null;
 
     return (
@@ -0,0 +1,109 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import FlipbookViewer from '@/components/FlipbookViewer';
+import { exportAllPagesAsPDF } from '@/utils/exportPDF';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { renderPageToImage, type PageData } from '@/utils/renderPageImage';
+
+export default function FlipbookPage() {
+    const params = useParams();
+    const boardId = params.boardId as string;
+    // Opened through a share link: every request carries its token
+    const shareToken = useSearchParams().get('share');
+    const shareQuery = shareToken ? `?share=${encodeURIComponent(shareToken)}` : '';
+    const [pages, setPages] = useState<PageData[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [isExporting, setIsExporting] = useState(false);
+
+    useEffect(() => {
+        const loadBoard = async () => {
+            try {
+                const res = await fetch(`/api/boards/${boardId}${shareQuery}`);
+                if (!res.ok) throw new Error('Failed to load board');
+                const data = await res.json();
+
+                if (data.pages?.length > 0) {
+                    // Load page content
+                    const loadedPages = await Promise.all(
+                        data.pages.map(async (page: any) => {
+                            try {
+                                const pageRes = await fetch(`/api/pages/${page.id}${shareQuery}`);
+                                if (pageRes.ok) {
+                                    const pageData = await pageRes.json();
+                                    return { ...page, content: pageData.content };
+                                }
+                            } catch (e) { console.error('Page load error:', e); }
+                            return page;
+                        })
+                    );
+
+                    // Render to images
+                    const pagesWithImages = await Promise.all(
+                        loadedPages.map(async (page) => ({
+                            ...page,
+                            thumbnail: await renderPageToImage(page),
+                        }))
+                    );
+                    setPages(pagesWithImages);
+                }
+            } catch (error) {
+                console.error('Flipbook load error:', error);
+            } finally {
+                setLoading(false);
+            }
+        };
+        loadBoard();
+    }, [boardId, shareQuery]);
+
+    const handleDownloadPDF = async () => {
+        if (isExporting) return;
+        setIsExporting(true);
+        try {
+            await exportAllPagesAsPDF({ boardId, pixelRatio: 2, shareToken });
+        } catch (error) {
+            console.error('PDF export failed:', error);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-slate-900">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500" />
+            </div>
+        );
+    }
+
+    if (pages.length === 0) {
+        return (
+            <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 text-white">
+                <h2 className="text-xl mb-4">No pages found</h2>
+                <Link
+                    href={shareToken ? `/share/${shareToken}` : `/board/${boardId}`}
+                    className="text-blue-400 hover:underline"
+                >
+                    {shareToken ? 'Back to shared board' : 'Go back to editor'}
+                </Link>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800">
+            <div className="absolute top-4 left-4 z-10">
+                <Link
+                    href={shareToken ? `/share/${shareToken}` : `/board/${boardId}`}
+                    className="flex items-center gap-2 text-white/70 hover:text-white transition-colors"
+                >
+                    <ArrowLeft size={20} />
+                    <span>{shareToken ? 'Back to Board' : 'Back to Editor'}</span>
+                </Link>
+            </div>
+            <FlipbookViewer boardId={boardId} pages={pages} onDownloadPDF={handleDownloadPDF} />
+        </div>
+    );
+}
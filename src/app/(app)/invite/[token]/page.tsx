@@ -0,0 +1,145 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { Loader, Users, AlertCircle } from 'lucide-react';
+
+interface InvitationPreview {
+    workspace: { id: string; name: string };
+    role: 'ADMIN' | 'MEMBER' | 'VIEWER';
+    expiresAt: string | null;
+    status: 'active' | 'expired' | 'revoked' | 'used';
+    email: string | null;
+    isInvitee: boolean;
+    isMember: boolean;
+}
+
+const ROLE_DESCRIPTIONS: Record<InvitationPreview['role'], string> = {
+    ADMIN: 'manage boards and invite people',
+    MEMBER: 'create and edit boards',
+    VIEWER: 'view boards',
+};
+
+const STATUS_MESSAGES: Record<Exclude<InvitationPreview['status'], 'active'>, string> = {
+    expired: 'This invite link has expired.',
+    revoked: 'This invite link has been revoked.',
+    used: 'This invite link has already been used.',
+};
+
+export default function InvitePage() {
+    const router = useRouter();
+    const params = useParams();
+    const token = params.token as string;
+
+    const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [accepting, setAccepting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadInvitation();
+    }, [token]);
+
+    const loadInvitation = async () => {
+        try {
+            const res = await fetch(`/api/invitations/${token}`);
+            if (res.ok) {
+                setInvitation(await res.json());
+            } else {
+                const data = await res.json().catch(() => ({}));
+                setError(data.error || 'Invitation not found');
+            }
+        } catch (error) {
+            console.error('Error loading invitation:', error);
+            setError('Failed to load invitation');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleAccept = async () => {
+        if (accepting) return;
+
+        setAccepting(true);
+        try {
+            const res = await fetch(`/api/invitations/${token}`, { method: 'POST' });
+            const data = await res.json().catch(() => ({}));
+            if (res.ok) {
+                router.push(`/workspaces/${data.workspaceId}`);
+            } else {
+                setError(data.error || 'Failed to accept invitation');
+            }
+        } catch (error) {
+            console.error('Error accepting invitation:', error);
+            setError('Failed to accept invitation');
+        } finally {
+            setAccepting(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+                <div className="text-center">
+                    <Loader className="animate-spin mx-auto mb-4 text-blue-600" size={40} />
+                    <p className="text-gray-600 font-medium">Loading invitation...</p>
+                </div>
+            </div>
+        );
+    }
+
+    const unavailable = !invitation || invitation.isMember ? null
+        : invitation.status !== 'active' ? STATUS_MESSAGES[invitation.status]
+            : !invitation.isInvitee ? `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`
+                : null;
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 px-4">
+            <div className="bg-white rounded-xl p-8 max-w-md w-full shadow-2xl text-center">
+                {!invitation || unavailable || error ? (
+                    <>
+                        <div className="w-16 h-16 bg-red-50 rounded-full flex items-center justify-center mx-auto mb-4">
+                            <AlertCircle className="text-red-500" size={32} />
+                        </div>
+                        <h1 className="text-2xl font-bold text-gray-900 mb-2">Can&apos;t join workspace</h1>
+                        <p className="text-gray-600 mb-6">{error || unavailable}</p>
+                        <button
+                            onClick={() => router.push('/workspaces')}
+                            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                        >
+                            Go to Workspaces
+                        </button>
+                    </>
+                ) : (
+                    <>
+                        <div className="w-16 h-16 bg-blue-50 rounded-full flex items-center justify-center mx-auto mb-4">
+                            <Users className="text-blue-600" size={32} />
+                        </div>
+                        <h1 className="text-2xl font-bold text-gray-900 mb-2">
+                            Join {invitation.workspace.name}
+                        </h1>
+                        {invitation.isMember ? (
+                            <p className="text-gray-600 mb-6">You are already a member of this workspace.</p>
+                        ) : (
+                            <p className="text-gray-600 mb-6">
+                                You&apos;ve been invited as {invitation.role === 'ADMIN' ? 'an' : 'a'}{' '}
+                                <strong>{invitation.role.toLowerCase()}</strong>, so you can {ROLE_DESCRIPTIONS[invitation.role]}.
+                                {invitation.expiresAt && (
+                                    <> This link expires on {new Date(invitation.expiresAt).toLocaleDateString()}.</>
+                                )}
+                            </p>
+                        )}
+                        <button
+                            onClick={invitation.isMember ? () => router.push(`/workspaces/${invitation.workspace.id}`) : handleAccept}
+                            disabled={accepting}
+                            className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 flex items-center justify-center gap-2 font-medium"
+                        >
+                            {accepting ? <Loader className="animate-spin" size={16} /> : null}
+                            {invitation.isMember ? 'Open Workspace' : accepting ? 'Joining...' : 'Accept Invitation'}
+                        </button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
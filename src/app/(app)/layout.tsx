@@ -0,0 +1,23 @@
+import { ClerkProvider } from "@clerk/nextjs";
+import GlobalCameraOverlay from "@/components/GlobalCameraOverlay";
+import { ModalProvider } from "@/components/providers/ModalProvider";
+import { RealTimeProvider } from "@/components/providers/RealTimeProvider";
+
+// Everything but the embeds, which anonymous iframe viewers load without
+// signing in or connecting to the real-time server
+export default function AppLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <ClerkProvider>
+      <ModalProvider>
+        <RealTimeProvider>
+          {children}
+          <GlobalCameraOverlay />
+        </RealTimeProvider>
+      </ModalProvider>
+    </ClerkProvider>
+  );
+}
@@ -0,0 +1,27 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+
+// Lets LMSs and blog engines discover the oEmbed endpoint from a pasted share link
+export async function generateMetadata(
+  { params }: { params: Promise<{ token: string }> }
+): Promise<Metadata> {
+  const { token } = await params;
+  const host = headers().get("x-forwarded-host") ?? headers().get("host");
+  const protocol = headers().get("x-forwarded-proto") ?? "https";
+  const origin = `${protocol}://${host}`;
+  const shareUrl = `${origin}/share/${encodeURIComponent(token)}`;
+
+  return {
+    title: "Shared Board",
+    robots: { index: false, follow: false },
+    alternates: {
+      types: {
+        "application/json+oembed": `${origin}/api/oembed?url=${encodeURIComponent(shareUrl)}&format=json`,
+      },
+    },
+  };
+}
+
+export default function SharedBoardLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { AlertCircle, BookOpen, Loader, Lock } from 'lucide-react';
+import type { PageData } from '@/utils/renderPageImage';
+import { fetchSharePreview, fetchSharedPages, shareQuery, type SharePreview } from '@/utils/sharedBoard';
+
+// Read-only view of a board opened through a share link; no account needed
+export default function SharedBoardPage() {
+    const params = useParams();
+    const token = params.token as string;
+
+    const [share, setShare] = useState<SharePreview | null>(null);
+    const [pages, setPages] = useState<PageData[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [password, setPassword] = useState('');
+    const [unlocking, setUnlocking] = useState(false);
+    const [passwordError, setPasswordError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadShare();
+    }, [token]);
+
+    const loadShare = async () => {
+        try {
+            const data = await fetchSharePreview(token);
+            setShare(data);
+            if (data.unlocked && data.board) {
+                setPages(await fetchSharedPages(data.board.id, token));
+            }
+        } catch (error) {
+            console.error('Error loading share link:', error);
+            setError(error instanceof Error ? error.message : 'Failed to load shared board');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleUnlock = async () => {
+        if (!password || unlocking) return;
+
+        setUnlocking(true);
+        setPasswordError(null);
+        try {
+            const res = await fetch(`/api/share/${token}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ password }),
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) {
+                setPasswordError(data.error || 'Incorrect password');
+                return;
+            }
+
+            setShare(data);
+            setLoading(true);
+            setPages(await fetchSharedPages(data.board.id, token));
+        } catch (error) {
+            console.error('Error unlocking share link:', error);
+            setPasswordError('Failed to unlock board');
+        } finally {
+            setUnlocking(false);
+            setLoading(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-slate-900">
+                <Loader className="animate-spin text-blue-500" size={40} />
+            </div>
+        );
+    }
+
+    if (error || !share) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 px-4">
+                <div className="bg-white rounded-xl p-8 max-w-md w-full shadow-2xl text-center">
+                    <div className="w-16 h-16 bg-red-50 rounded-full flex items-center justify-center mx-auto mb-4">
+                        <AlertCircle className="text-red-500" size={32} />
+                    </div>
+                    <h1 className="text-2xl font-bold text-gray-900 mb-2">Can&apos;t open board</h1>
+                    <p className="text-gray-600">{error || 'Share link not found'}</p>
+                </div>
+            </div>
+        );
+    }
+
+    if (!share.unlocked || !share.board) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 px-4">
+                <div className="bg-white rounded-xl p-8 max-w-md w-full shadow-2xl text-center">
+                    <div className="w-16 h-16 bg-blue-50 rounded-full flex items-center justify-center mx-auto mb-4">
+                        <Lock className="text-blue-600" size={32} />
+                    </div>
+                    <h1 className="text-2xl font-bold text-gray-900 mb-2">Password required</h1>
+                    <p className="text-gray-600 mb-6">Enter the password you were given to open this board.</p>
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 mb-2"
+                        placeholder="Password"
+                        autoFocus
+                        disabled={unlocking}
+                    />
+                    {passwordError && <p className="text-sm text-red-600 mb-2">{passwordError}</p>}
+                    <button
+                        onClick={handleUnlock}
+                        disabled={!password || unlocking}
+                        className="w-full mt-4 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 flex items-center justify-center gap-2 font-medium"
+                    >
+                        {unlocking ? <Loader className="animate-spin" size={16} /> : null}
+                        {unlocking ? 'Unlocking...' : 'Open Board'}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800">
+            <header className="sticky top-0 z-10 flex items-center justify-between gap-4 px-6 py-4 bg-slate-900/90 backdrop-blur-sm border-b border-white/10">
+                <div className="min-w-0">
+                    <h1 className="text-lg font-semibold text-white truncate">{share.board.title}</h1>
+                    <p className="text-xs text-white/50">Shared board · View only</p>
+                </div>
+                <Link
+                    href={`/flipbook/${share.board.id}${shareQuery(token)}`}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium flex-shrink-0"
+                >
+                    <BookOpen size={16} />
+                    Open Flipbook
+                </Link>
+            </header>
+
+            <main className="max-w-3xl mx-auto px-4 py-8 flex flex-col gap-8">
+                {pages.length === 0 ? (
+                    <p className="text-center text-white/60">This board has no pages yet</p>
+                ) : (
+                    pages.map(page => (
+                        <figure key={page.id} className="flex flex-col gap-2">
+                            <img
+                                src={page.thumbnail}
+                                alt={page.title}
+                                className="w-full rounded-lg shadow-2xl"
+                            />
+                            <figcaption className="text-sm text-white/60 text-center">{page.title}</figcaption>
+                        </figure>
+                    ))
+                )}
+            </main>
+        </div>
+    );
+}
@@ -5,6 +5,8 @@ import { useRouter, useParams } from 'next/navigation';
 import { Layout, Plus, Loader, ArrowLeft, Search, Clock } from 'lucide-react';
 import TopBar from '@/components/TopBar';
 import BoardActions from '@/components/BoardActions';
+import WorkspaceActions from '@/components/WorkspaceActions';
+import WorkspaceActivity from '@/components/WorkspaceActivity';
 import { useModal } from '@/components/providers/ModalProvider';
 
 interface Board {
@@ -149,13 +151,20 @@ export default function WorkspaceDetailPage() {
                                 {filteredBoards.length} {filteredBoards.length === 1 ? 'board' : 'boards'}
                             </p>
                         </div>
-                        <button
-                            onClick={() => setShowCreateDialog(true)}
-                            className="flex items-center gap-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-md hover:shadow-lg font-medium"
-                        >
-                            <Plus size={20} />
-                            <span>New Board</span>
-                        </button>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => setShowCreateDialog(true)}
+                                className="flex items-center gap-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors shadow-md hover:shadow-lg font-medium"
+                            >
+                                <Plus size={20} />
+                                <span>New Board</span>
+                            </button>
+                            <WorkspaceActions
+                                workspaceId={workspaceId}
+                                workspaceName={workspace.name}
+                                onUpdate={loadWorkspace}
+                            />
+                        </div>
                     </div>
 
                     {/* Search Bar */}
@@ -236,6 +245,9 @@ export default function WorkspaceDetailPage() {
                             ))}
                         </div>
                     )}
+
+                    {/* Activity (owners and admins only) */}
+                    <WorkspaceActivity workspaceId={workspaceId} />
                 </div>
             </div>
 
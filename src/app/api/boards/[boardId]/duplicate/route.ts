@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { isTrashed } from '@/lib/trash';
+import { recordAuditEvent } from '@/lib/audit';
+import { BoardDestinationError, copyBoard, resolveBoardDestination } from '@/lib/boardTransfer';
+
+// Copy the board with its pages and labels - next to the original, or into
+// another topic or workspace
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ boardId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { boardId } = await params;
+        const body = await request.json().catch(() => ({}));
+        const { workspaceId, topicId } = body;
+
+        const board = await prisma.board.findUnique({
+            where: { id: boardId },
+            include: { workspace: { include: { members: true } } },
+        });
+
+        if (!board || isTrashed(board)) {
+            return NextResponse.json({ error: 'Board not found' }, { status: 404 });
+        }
+
+        if (!can(getBoardRole(board, userId), 'board:edit')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const destination = await resolveBoardDestination(
+            userId,
+            { workspaceId, topicId },
+            { workspaceId: board.workspaceId, topicId: board.topicId }
+        );
+        const title = typeof body.title === 'string' && body.title.trim()
+            ? body.title.trim()
+            : `${board.title} (copy)`;
+
+        const copy = await copyBoard(boardId, userId, title, destination);
+
+        await recordAuditEvent({
+            workspaceId: copy.workspaceId,
+            actorId: userId,
+            action: 'board.copied',
+            targetId: copy.id,
+            targetName: copy.title,
+            boardId: copy.id,
+            metadata: { from: board.title, sourceBoardId: boardId, sourceWorkspaceId: board.workspaceId },
+        });
+
+        return NextResponse.json(copy);
+    } catch (error) {
+        if (error instanceof BoardDestinationError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error('Error duplicating board:', error);
+        return NextResponse.json({ error: 'Failed to duplicate board' }, { status: 500 });
+    }
+}
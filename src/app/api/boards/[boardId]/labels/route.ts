@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { isTrashed } from '@/lib/trash';
+import { recordAuditEvent } from '@/lib/audit';
 import { auth } from '@clerk/nextjs/server';
 
 export async function GET(
@@ -19,15 +22,12 @@ export async function GET(
             include: { workspace: { include: { members: true } } }
         });
 
-        if (!board) {
+        if (!board || isTrashed(board)) {
             return new NextResponse('Board not found', { status: 404 });
         }
 
-        const isOwner = board.userId === userId;
-        const isMember = board.workspace?.members.some((m: { userId: string }) => m.userId === userId) ?? false;
-
-        if (!isOwner && !isMember) {
-            return new NextResponse('Unauthorized', { status: 401 });
+        if (!can(getBoardRole(board, userId), 'board:read')) {
+            return new NextResponse('Forbidden', { status: 403 });
         }
 
         const labels = await prisma.label.findMany({
@@ -66,15 +66,12 @@ export async function POST(
             include: { workspace: { include: { members: true } } }
         });
 
-        if (!board) {
+        if (!board || isTrashed(board)) {
             return new NextResponse('Board not found', { status: 404 });
         }
 
-        const isOwner = board.userId === userId;
-        const isMember = board.workspace?.members.some((m: { userId: string }) => m.userId === userId) ?? false;
-
-        if (!isOwner && !isMember) {
-            return new NextResponse('Unauthorized', { status: 401 });
+        if (!can(getBoardRole(board, userId), 'labels:manage')) {
+            return new NextResponse('Forbidden', { status: 403 });
         }
 
         const label = await prisma.label.create({
@@ -85,6 +82,16 @@ export async function POST(
             }
         });
 
+        await recordAuditEvent({
+            workspaceId: board.workspaceId,
+            actorId: userId,
+            action: 'label.created',
+            targetId: label.id,
+            targetName: label.name,
+            boardId,
+            metadata: { color: label.color, boardTitle: board.title },
+        });
+
         return NextResponse.json(label);
     } catch (error) {
         console.error('[LABELS_POST]', error);
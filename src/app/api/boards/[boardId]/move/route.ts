@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { isTrashed } from '@/lib/trash';
+import { recordAuditEvent } from '@/lib/audit';
+import {
+    BoardDestinationError,
+    listBoardDestinations,
+    moveBoard,
+    resolveBoardDestination,
+} from '@/lib/boardTransfer';
+
+async function loadBoard(boardId: string) {
+    const board = await prisma.board.findUnique({
+        where: { id: boardId },
+        include: { workspace: { include: { members: true } } },
+    });
+    return board && !isTrashed(board) ? board : null;
+}
+
+// Where the board can be moved or copied to
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ boardId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { boardId } = await params;
+        const board = await loadBoard(boardId);
+
+        if (!board) {
+            return NextResponse.json({ error: 'Board not found' }, { status: 404 });
+        }
+
+        const role = getBoardRole(board, userId);
+        if (!can(role, 'board:edit')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        return NextResponse.json({
+            current: { workspaceId: board.workspaceId, topicId: board.topicId },
+            // Taking a board out of its workspace is as final as deleting it there
+            canMoveOut: can(role, 'board:delete'),
+            workspaces: await listBoardDestinations(userId),
+        });
+    } catch (error) {
+        console.error('Error listing board destinations:', error);
+        return NextResponse.json({ error: 'Failed to list destinations' }, { status: 500 });
+    }
+}
+
+// Move the board to another topic, or to another workspace
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ boardId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { boardId } = await params;
+        const body = await request.json();
+        const { workspaceId, topicId } = body;
+
+        if (!workspaceId && !topicId) {
+            return NextResponse.json({ error: 'workspaceId or topicId is required' }, { status: 400 });
+        }
+
+        const board = await loadBoard(boardId);
+
+        if (!board) {
+            return NextResponse.json({ error: 'Board not found' }, { status: 404 });
+        }
+
+        const current = { workspaceId: board.workspaceId, topicId: board.topicId };
+        const destination = await resolveBoardDestination(userId, { workspaceId, topicId }, current);
+        const leavesWorkspace = !!board.workspaceId && destination.workspaceId !== board.workspaceId;
+
+        if (!can(getBoardRole(board, userId), leavesWorkspace ? 'board:delete' : 'board:edit')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const moved = await moveBoard(boardId, destination);
+
+        // A move between workspaces shows up in the activity of both
+        const workspaceIds = new Set([board.workspaceId, moved.workspaceId].filter(Boolean));
+        for (const id of workspaceIds) {
+            await recordAuditEvent({
+                workspaceId: id,
+                actorId: userId,
+                action: 'board.moved',
+                targetId: boardId,
+                targetName: moved.title,
+                boardId,
+                metadata: {
+                    fromWorkspaceId: board.workspaceId,
+                    toWorkspaceId: moved.workspaceId,
+                    fromTopicId: board.topicId,
+                    toTopicId: moved.topicId,
+                },
+            });
+        }
+
+        return NextResponse.json(moved);
+    } catch (error) {
+        if (error instanceof BoardDestinationError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error('Error moving board:', error);
+        return NextResponse.json({ error: 'Failed to move board' }, { status: 500 });
+    }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { isTrashed } from '@/lib/trash';
+import { PageTransferError, reorderPages } from '@/lib/pageTransfer';
+
+// Put the board's pages in a new order
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ boardId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { boardId } = await params;
+        const body = await request.json();
+        const { pageIds } = body;
+
+        if (!Array.isArray(pageIds) || pageIds.some((id) => typeof id !== 'string')) {
+            return NextResponse.json({ error: 'pageIds must be an array of page ids' }, { status: 400 });
+        }
+
+        const board = await prisma.board.findUnique({
+            where: { id: boardId },
+            include: { workspace: { include: { members: true } } },
+        });
+
+        if (!board || isTrashed(board)) {
+            return NextResponse.json({ error: 'Board not found' }, { status: 404 });
+        }
+
+        if (!can(getBoardRole(board, userId), 'board:edit')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        return NextResponse.json(await reorderPages(boardId, pageIds));
+    } catch (error) {
+        if (error instanceof PageTransferError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error('Error reordering pages:', error);
+        return NextResponse.json({ error: 'Failed to reorder pages' }, { status: 500 });
+    }
+}
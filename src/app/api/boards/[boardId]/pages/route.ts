@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { isTrashed } from '@/lib/trash';
+import { recordAuditEvent } from '@/lib/audit';
+import { getShareRole, getShareToken } from '@/lib/shareLinks';
+import { makeRoomAt } from '@/lib/pageTransfer';
 
 export async function GET(
     request: NextRequest,
@@ -8,7 +13,8 @@ export async function GET(
 ) {
     try {
         const { userId } = await auth();
-        if (!userId) {
+        // Signed-out visitors get in through a share link
+        if (!userId && !getShareToken(request)) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -19,22 +25,17 @@ export async function GET(
             include: { workspace: { include: { members: true } } },
         });
 
-        if (!board) {
+        if (!board || isTrashed(board)) {
             return NextResponse.json({ error: 'Board not found' }, { status: 404 });
         }
 
-        // Check access
-        const isMember = board.workspace?.members.some(
-            (m: { userId: string }) => m.userId === userId
-        ) ?? false;
-        const isOwner = board.userId === userId;
-
-        if (!isMember && !isOwner) {
+        const role = (userId ? getBoardRole(board, userId) : null) ?? await getShareRole(request, boardId);
+        if (!can(role, 'board:read')) {
             return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
         }
 
         const pages = await prisma.page.findMany({
-            where: { boardId },
+            where: { boardId, deletedAt: null },
             orderBy: { order: 'asc' },
         });
 
@@ -65,36 +66,39 @@ export async function POST(
             include: { workspace: { include: { members: true } } },
         });
 
-        if (!board) {
+        if (!board || isTrashed(board)) {
             return NextResponse.json({ error: 'Board not found' }, { status: 404 });
         }
 
-        // Check access (only members can create pages)
-        const isMember = board.workspace?.members.some(
-            (m: { userId: string }) => m.userId === userId
-        ) ?? false;
-        const isOwner = board.userId === userId;
-
-        if (!isMember && !isOwner) {
+        if (!can(getBoardRole(board, userId), 'board:edit')) {
             return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
         }
 
-        // Get max order
-        const lastPage = await prisma.page.findFirst({
-            where: { boardId },
-            orderBy: { order: 'desc' },
+        // At the end unless a position (index among the live pages) is given
+        const body = await request.json().catch(() => ({}));
+        const position = typeof body?.position === 'number' ? body.position : null;
+        const page = await prisma.$transaction(async (tx) => {
+            const newOrder = await makeRoomAt(tx, boardId, position);
+            const pageCount = await tx.page.count({ where: { boardId, deletedAt: null } });
+
+            return tx.page.create({
+                data: {
+                    boardId,
+                    title: `Page ${pageCount + 1}`,
+                    order: newOrder,
+                    content: { strokes: [] }, // Initialize with empty content
+                },
+            });
         });
 
-        const newOrder = (lastPage?.order ?? -1) + 1;
-        const pageCount = await prisma.page.count({ where: { boardId } });
-
-        const page = await prisma.page.create({
-            data: {
-                boardId,
-                title: `Page ${pageCount + 1}`,
-                order: newOrder,
-                content: { strokes: [] }, // Initialize with empty content
-            },
+        await recordAuditEvent({
+            workspaceId: board.workspaceId,
+            actorId: userId,
+            action: 'page.created',
+            targetId: page.id,
+            targetName: page.title,
+            boardId,
+            metadata: { boardTitle: board.title },
         });
 
         return NextResponse.json(page);
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
+import { isTrashed, trashBoard } from '@/lib/trash';
 
 export async function PATCH(
     request: NextRequest,
@@ -34,14 +37,11 @@ export async function PATCH(
             },
         });
 
-        if (!board) {
+        if (!board || isTrashed(board)) {
             return NextResponse.json({ error: 'Board not found' }, { status: 404 });
         }
 
-        const isMember = board.workspace?.members && board.workspace.members.length > 0;
-        const isOwner = board.userId === userId;
-
-        if (!isMember && !isOwner) {
+        if (!can(getBoardRole(board, userId), 'board:edit')) {
             return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
         }
 
@@ -50,6 +50,18 @@ export async function PATCH(
             data: { title: title.trim() },
         });
 
+        if (updated.title !== board.title) {
+            await recordAuditEvent({
+                workspaceId: board.workspaceId,
+                actorId: userId,
+                action: 'board.renamed',
+                targetId: boardId,
+                targetName: updated.title,
+                boardId,
+                metadata: { from: board.title },
+            });
+        }
+
         return NextResponse.json(updated);
     } catch (error) {
         console.error('Error renaming board:', error);
@@ -83,21 +95,25 @@ export async function DELETE(
             },
         });
 
-        if (!board) {
+        if (!board || isTrashed(board)) {
             return NextResponse.json({ error: 'Board not found' }, { status: 404 });
         }
 
-        const userRole = board.workspace?.members[0]?.role;
-        const isOwner = board.userId === userId;
-
-        // Allow deletion if user is board owner, workspace owner, or workspace admin
-        if (!isOwner && userRole !== 'OWNER' && userRole !== 'ADMIN') {
+        // Board creators count as OWNER when they aren't in the workspace
+        if (!can(getBoardRole(board, userId), 'board:delete')) {
             return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
         }
 
-        // Delete board (cascades to pages)
-        await prisma.board.delete({
-            where: { id: boardId },
+        // Moves the board (and with it its pages) to the workspace trash
+        await trashBoard(boardId, userId);
+
+        await recordAuditEvent({
+            workspaceId: board.workspaceId,
+            actorId: userId,
+            action: 'board.deleted',
+            targetId: boardId,
+            targetName: board.title,
+            boardId,
         });
 
         return NextResponse.json({ success: true });
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
+import { restoreBoard } from '@/lib/trash';
+
+// Bring a board and its pages back from the trash
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ boardId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { boardId } = await params;
+
+        const board = await prisma.board.findUnique({
+            where: { id: boardId },
+            include: {
+                topic: true,
+                workspace: { include: { members: true } },
+            },
+        });
+
+        if (!board || !board.deletedAt) {
+            return NextResponse.json({ error: 'Board not found in trash' }, { status: 404 });
+        }
+
+        // Whoever may delete a board may take it back out of the trash
+        if (!can(getBoardRole(board, userId), 'board:delete')) {
+            return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+        }
+
+        const restored = await restoreBoard(board);
+
+        await recordAuditEvent({
+            workspaceId: board.workspaceId,
+            actorId: userId,
+            action: 'board.restored',
+            targetId: boardId,
+            targetName: board.title,
+            boardId,
+        });
+
+        return NextResponse.json(restored);
+    } catch (error) {
+        console.error('Error restoring board:', error);
+        return NextResponse.json({ error: 'Failed to restore board' }, { status: 500 });
+    }
+}
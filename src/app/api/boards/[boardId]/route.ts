@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { isTrashed } from '@/lib/trash';
+import { getShareRole, getShareToken } from '@/lib/shareLinks';
 
 export async function GET(
     request: NextRequest,
@@ -8,7 +11,8 @@ export async function GET(
 ) {
     try {
         const { userId } = await auth();
-        if (!userId) {
+        // Signed-out visitors get in through a share link
+        if (!userId && !getShareToken(request)) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -18,21 +22,16 @@ export async function GET(
             where: { id: boardId },
             include: {
                 workspace: { include: { members: true } },
-                pages: { orderBy: { order: 'asc' } }
+                pages: { where: { deletedAt: null }, orderBy: { order: 'asc' } }
             },
         });
 
-        if (!board) {
+        if (!board || isTrashed(board)) {
             return NextResponse.json({ error: 'Board not found' }, { status: 404 });
         }
 
-        // Check access
-        const isMember = board.workspace?.members.some(
-            (m: { userId: string }) => m.userId === userId
-        ) ?? false;
-        const isOwner = board.userId === userId;
-
-        if (!isMember && !isOwner) {
+        const role = (userId ? getBoardRole(board, userId) : null) ?? await getShareRole(request, boardId);
+        if (!can(role, 'board:read')) {
             return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
         }
 
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { isTrashed } from '@/lib/trash';
 
 export async function POST(
     request: NextRequest,
@@ -20,16 +22,11 @@ export async function POST(
             include: { workspace: { include: { members: true } } },
         });
 
-        if (!board) {
+        if (!board || isTrashed(board)) {
             return NextResponse.json({ error: 'Board not found' }, { status: 404 });
         }
 
-        const isMember = board.workspace?.members.some(
-            (m: { userId: string }) => m.userId === userId
-        ) ?? false;
-        const isOwner = board.userId === userId;
-
-        if (!isMember && !isOwner) {
+        if (!can(getBoardRole(board, userId), 'board:edit')) {
             return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
         }
 
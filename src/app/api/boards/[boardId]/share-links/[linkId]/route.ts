@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { isTrashed } from '@/lib/trash';
+
+// Revoke a share link; anyone holding it loses access immediately
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ boardId: string; linkId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { boardId, linkId } = await params;
+
+        const board = await prisma.board.findUnique({
+            where: { id: boardId },
+            include: { workspace: { include: { members: true } } },
+        });
+
+        if (!board || isTrashed(board)) {
+            return NextResponse.json({ error: 'Board not found' }, { status: 404 });
+        }
+
+        if (!can(getBoardRole(board, userId), 'board:share')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const link = await prisma.shareLink.findUnique({
+            where: { id: linkId },
+        });
+
+        if (!link || link.boardId !== boardId) {
+            return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+        }
+
+        await prisma.shareLink.update({
+            where: { id: linkId },
+            data: { revokedAt: link.revokedAt ?? new Date() },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error revoking share link:', error);
+        return NextResponse.json({ error: 'Failed to revoke share link' }, { status: 500 });
+    }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { isTrashed } from '@/lib/trash';
+import {
+    SHARE_SCOPES,
+    createShareToken,
+    getShareLinkExpiry,
+    getShareLinkStatus,
+    hashSharePassword,
+} from '@/lib/shareLinks';
+
+// Password hashes never leave the server
+function toResponse(link: any) {
+    const { passwordHash, ...rest } = link;
+    return { ...rest, hasPassword: !!passwordHash, status: getShareLinkStatus(link) };
+}
+
+async function loadBoard(boardId: string) {
+    return prisma.board.findUnique({
+        where: { id: boardId },
+        include: { workspace: { include: { members: true } } },
+    });
+}
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ boardId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { boardId } = await params;
+
+        const board = await loadBoard(boardId);
+        if (!board || isTrashed(board)) {
+            return NextResponse.json({ error: 'Board not found' }, { status: 404 });
+        }
+
+        if (!can(getBoardRole(board, userId), 'board:share')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const links = await prisma.shareLink.findMany({
+            where: { boardId, revokedAt: null },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        return NextResponse.json({ links: links.map(toResponse) });
+    } catch (error) {
+        console.error('Error loading share links:', error);
+        return NextResponse.json({ error: 'Failed to load share links' }, { status: 500 });
+    }
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ boardId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { boardId } = await params;
+        const body = await request.json();
+        const { scope = 'VIEW', password, expiresInDays } = body;
+
+        if (!SHARE_SCOPES.includes(scope)) {
+            return NextResponse.json({ error: 'Invalid scope' }, { status: 400 });
+        }
+
+        if (password != null && (typeof password !== 'string' || password.length < 4)) {
+            return NextResponse.json({ error: 'Password must be at least 4 characters' }, { status: 400 });
+        }
+
+        const board = await loadBoard(boardId);
+        if (!board || isTrashed(board)) {
+            return NextResponse.json({ error: 'Board not found' }, { status: 404 });
+        }
+
+        if (!can(getBoardRole(board, userId), 'board:share')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const link = await prisma.shareLink.create({
+            data: {
+                boardId,
+                token: createShareToken(),
+                scope,
+                passwordHash: password ? await hashSharePassword(password) : null,
+                expiresAt: getShareLinkExpiry(expiresInDays),
+                createdBy: userId,
+            },
+        });
+
+        return NextResponse.json(toResponse(link), { status: 201 });
+    } catch (error) {
+        console.error('Error creating share link:', error);
+        return NextResponse.json({ error: 'Failed to create share link' }, { status: 500 });
+    }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma, toJson } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { isTrashed } from '@/lib/trash';
+import { recordAuditEvent } from '@/lib/audit';
+import { readBoardTemplatePages } from '@/lib/templates';
+
+// Save the board's pages as a template of its workspace
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ boardId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { boardId } = await params;
+        const body = await request.json();
+        const name = typeof body.name === 'string' ? body.name.trim() : '';
+        const description = typeof body.description === 'string' ? body.description.trim() : '';
+
+        if (!name) {
+            return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+        }
+
+        const board = await prisma.board.findUnique({
+            where: { id: boardId },
+            include: { workspace: { include: { members: true } } },
+        });
+
+        if (!board || isTrashed(board)) {
+            return NextResponse.json({ error: 'Board not found' }, { status: 404 });
+        }
+
+        if (!board.workspaceId) {
+            return NextResponse.json({ error: 'Only boards in a workspace can be saved as templates' }, { status: 400 });
+        }
+
+        if (!can(getBoardRole(board, userId), 'templates:manage')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const pages = await readBoardTemplatePages(boardId);
+
+        const template = await prisma.template.create({
+            data: {
+                name,
+                description: description || null,
+                workspaceId: board.workspaceId,
+                pages: toJson(pages),
+                createdBy: userId,
+            },
+        });
+
+        await recordAuditEvent({
+            workspaceId: board.workspaceId,
+            actorId: userId,
+            action: 'template.created',
+            targetId: template.id,
+            targetName: template.name,
+            boardId,
+            metadata: { boardTitle: board.title },
+        });
+
+        return NextResponse.json({ id: template.id, name: template.name, pageCount: pages.length });
+    } catch (error) {
+        console.error('Error saving template:', error);
+        return NextResponse.json({ error: 'Failed to save template' }, { status: 500 });
+    }
+}
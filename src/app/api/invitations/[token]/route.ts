@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import {
+    acceptInvitation,
+    getInvitationStatus,
+    isInvitedEmail,
+    InvitationEmailMismatchError,
+    InvitationUnavailableError,
+} from '@/lib/invitations';
+import { recordAuditEvent } from '@/lib/audit';
+
+// Addresses the signed-in user has proven they own
+async function getVerifiedEmails(): Promise<string[]> {
+    const user = await currentUser();
+    return (user?.emailAddresses ?? [])
+        .filter((address) => address.verification?.status === 'verified')
+        .map((address) => address.emailAddress);
+}
+
+// What the link is for, shown on the accept page before joining
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ token: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { token } = await params;
+
+        const invitation = await prisma.invitation.findUnique({
+            where: { token },
+            include: {
+                workspace: {
+                    select: { id: true, name: true },
+                },
+            },
+        });
+
+        if (!invitation) {
+            return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+        }
+
+        const membership = await prisma.workspaceMember.findUnique({
+            where: {
+                workspaceId_userId: {
+                    workspaceId: invitation.workspaceId,
+                    userId,
+                },
+            },
+        });
+
+        return NextResponse.json({
+            workspace: invitation.workspace,
+            role: invitation.role,
+            expiresAt: invitation.expiresAt,
+            status: getInvitationStatus(invitation),
+            email: invitation.email,
+            isInvitee: isInvitedEmail(invitation, await getVerifiedEmails()),
+            isMember: !!membership,
+        });
+    } catch (error) {
+        console.error('Error loading invitation:', error);
+        return NextResponse.json({ error: 'Failed to load invitation' }, { status: 500 });
+    }
+}
+
+// Accept the invitation: join the workspace with the invited role
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ token: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { token } = await params;
+
+        const result = await acceptInvitation(token, userId, await getVerifiedEmails());
+        if (!result) {
+            return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+        }
+
+        if (!result.alreadyMember) {
+            await recordAuditEvent({
+                workspaceId: result.workspaceId,
+                actorId: userId,
+                action: 'member.joined',
+                targetId: userId,
+                metadata: { role: result.membership.role },
+            });
+        }
+
+        return NextResponse.json(result, { status: result.alreadyMember ? 200 : 201 });
+    } catch (error) {
+        if (error instanceof InvitationUnavailableError) {
+            return NextResponse.json({ error: error.message, status: error.status }, { status: 410 });
+        }
+        if (error instanceof InvitationEmailMismatchError) {
+            return NextResponse.json({ error: error.message }, { status: 403 });
+        }
+        console.error('Error accepting invitation:', error);
+        return NextResponse.json({ error: 'Failed to accept invitation' }, { status: 500 });
+    }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
+import { isTrashed } from '@/lib/trash';
 import { auth } from '@clerk/nextjs/server';
 
 export async function PUT(
@@ -31,18 +34,12 @@ export async function PUT(
       }
     });
 
-    if (!label) {
+    if (!label || isTrashed(label.board)) {
       return new NextResponse('Label not found', { status: 404 });
     }
 
-    const isOwner = label.board.userId === userId;
-    const isMember =
-      label.board.workspace?.members.some(
-        (m: { userId: string }) => m.userId === userId
-      ) ?? false;
-
-    if (!isOwner && !isMember) {
-      return new NextResponse('Unauthorized', { status: 401 });
+    if (!can(getBoardRole(label.board, userId), 'labels:manage')) {
+      return new NextResponse('Forbidden', { status: 403 });
     }
 
     const updatedLabel = await prisma.label.update({
@@ -53,6 +50,16 @@ export async function PUT(
       }
     });
 
+    await recordAuditEvent({
+      workspaceId: label.board.workspaceId,
+      actorId: userId,
+      action: 'label.updated',
+      targetId: labelId,
+      targetName: updatedLabel.name,
+      boardId: label.boardId,
+      metadata: { from: { name: label.name, color: label.color }, boardTitle: label.board.title },
+    });
+
     return NextResponse.json(updatedLabel);
   } catch (error) {
     console.error('[LABEL_UPDATE]', error);
@@ -86,24 +93,28 @@ export async function DELETE(
       }
     });
 
-    if (!label) {
+    if (!label || isTrashed(label.board)) {
       return new NextResponse('Label not found', { status: 404 });
     }
 
-    const isOwner = label.board.userId === userId;
-    const isMember =
-      label.board.workspace?.members.some(
-        (m: { userId: string }) => m.userId === userId
-      ) ?? false;
-
-    if (!isOwner && !isMember) {
-      return new NextResponse('Unauthorized', { status: 401 });
+    if (!can(getBoardRole(label.board, userId), 'labels:manage')) {
+      return new NextResponse('Forbidden', { status: 403 });
     }
 
     await prisma.label.delete({
       where: { id: labelId }
     });
 
+    await recordAuditEvent({
+      workspaceId: label.board.workspaceId,
+      actorId: userId,
+      action: 'label.deleted',
+      targetId: labelId,
+      targetName: label.name,
+      boardId: label.boardId,
+      metadata: { boardTitle: label.board.title },
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('[LABEL_DELETE]', error);
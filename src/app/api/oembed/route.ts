@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getShareLinkStatus } from '@/lib/shareLinks';
+import { isTrashed } from '@/lib/trash';
+import { getEmbedHtml, getEmbedSize, getEmbedUrl, getShareTokenFromUrl } from '@/lib/oembed';
+
+// oEmbed provider endpoint for shared flipbooks; public, like the links themselves
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams, origin } = request.nextUrl;
+
+        const format = searchParams.get('format');
+        if (format && format !== 'json') {
+            return NextResponse.json({ error: 'Only JSON is supported' }, { status: 501 });
+        }
+
+        let url: URL;
+        try {
+            url = new URL(searchParams.get('url') ?? '');
+        } catch {
+            return NextResponse.json({ error: 'A valid url is required' }, { status: 400 });
+        }
+
+        const token = getShareTokenFromUrl(url);
+        if (!token) {
+            return NextResponse.json({ error: 'Not an embeddable URL' }, { status: 404 });
+        }
+
+        const link = await prisma.shareLink.findUnique({
+            where: { token },
+            include: {
+                board: {
+                    select: { title: true, deletedAt: true },
+                },
+            },
+        });
+
+        if (!link || getShareLinkStatus(link) !== 'active' || isTrashed(link.board)) {
+            return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+        }
+
+        // Password links can't be unlocked inside someone else's page
+        if (link.passwordHash) {
+            return NextResponse.json({ error: 'This board is password protected' }, { status: 401 });
+        }
+
+        const { width, height } = getEmbedSize(
+            Number(searchParams.get('maxwidth')) || undefined,
+            Number(searchParams.get('maxheight')) || undefined
+        );
+
+        return NextResponse.json({
+            version: '1.0',
+            type: 'rich',
+            title: link.board.title,
+            provider_name: 'AIFA Board',
+            provider_url: origin,
+            html: getEmbedHtml(getEmbedUrl(origin, token, url), link.board.title, width, height),
+            width,
+            height,
+        });
+    } catch (error) {
+        console.error('Error building oEmbed response:', error);
+        return NextResponse.json({ error: 'Failed to build embed' }, { status: 500 });
+    }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { isTrashed } from '@/lib/trash';
+import { recordAuditEvent } from '@/lib/audit';
+import { copyPage, listLivePages } from '@/lib/pageTransfer';
+
+// Copy a page right after itself
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ pageId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { pageId } = await params;
+
+        const page = await prisma.page.findUnique({
+            where: { id: pageId },
+            include: { board: { include: { workspace: { include: { members: true } } } } },
+        });
+
+        if (!page || isTrashed(page)) {
+            return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+        }
+
+        if (!can(getBoardRole(page.board, userId), 'board:edit')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const pages = await listLivePages(page.boardId);
+        const position = pages.findIndex((p: any) => p.id === pageId) + 1;
+        const copy = await copyPage(pageId, page.boardId, `${page.title} (copy)`, position);
+
+        await recordAuditEvent({
+            workspaceId: page.board.workspaceId,
+            actorId: userId,
+            action: 'page.copied',
+            targetId: copy.id,
+            targetName: copy.title,
+            boardId: page.boardId,
+            metadata: { from: page.title, boardTitle: page.board.title },
+        });
+
+        return NextResponse.json(copy);
+    } catch (error) {
+        console.error('Error duplicating page:', error);
+        return NextResponse.json({ error: 'Failed to duplicate page' }, { status: 500 });
+    }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { isTrashed } from '@/lib/trash';
+import { recordAuditEvent } from '@/lib/audit';
+import { copyPage, listPageDestinations, movePage } from '@/lib/pageTransfer';
+
+async function loadPage(pageId: string) {
+    const page = await prisma.page.findUnique({
+        where: { id: pageId },
+        include: { board: { include: { workspace: { include: { members: true } } } } },
+    });
+    return page && !isTrashed(page) ? page : null;
+}
+
+// Boards the page can be moved or copied to
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ pageId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { pageId } = await params;
+        const page = await loadPage(pageId);
+
+        if (!page) {
+            return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+        }
+
+        if (!can(getBoardRole(page.board, userId), 'page:read')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const boards = await listPageDestinations(userId);
+        return NextResponse.json({ boards: boards.filter((board: any) => board.id !== page.boardId) });
+    } catch (error) {
+        console.error('Error listing page destinations:', error);
+        return NextResponse.json({ error: 'Failed to list destinations' }, { status: 500 });
+    }
+}
+
+// Move or copy the page to another board, at the end or at `position`
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ pageId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { pageId } = await params;
+        const body = await request.json();
+        const { boardId, mode = 'move', position } = body;
+
+        if (!boardId || (mode !== 'move' && mode !== 'copy')) {
+            return NextResponse.json({ error: 'boardId and a mode of move or copy are required' }, { status: 400 });
+        }
+
+        const page = await loadPage(pageId);
+
+        if (!page) {
+            return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+        }
+
+        if (boardId === page.boardId) {
+            return NextResponse.json({ error: 'The page is already on that board' }, { status: 400 });
+        }
+
+        // Copying only reads the page; moving takes it off its board
+        const sourceRole = getBoardRole(page.board, userId);
+        if (!can(sourceRole, mode === 'move' ? 'board:edit' : 'page:read')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const target = await prisma.board.findUnique({
+            where: { id: boardId },
+            include: { workspace: { include: { members: true } } },
+        });
+
+        if (!target || isTrashed(target)) {
+            return NextResponse.json({ error: 'Board not found' }, { status: 404 });
+        }
+
+        if (!can(getBoardRole(target, userId), 'board:edit')) {
+            return NextResponse.json({ error: 'You cannot add pages to that board' }, { status: 403 });
+        }
+
+        // Like moving a board, taking content out of its workspace takes delete rights there
+        const leavesWorkspace = mode === 'move' && !!page.board.workspaceId && target.workspaceId !== page.board.workspaceId;
+        if (leavesWorkspace && !can(sourceRole, 'board:delete')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        if (mode === 'move') {
+            const remaining = await prisma.page.count({ where: { boardId: page.boardId, deletedAt: null } });
+            if (remaining <= 1) {
+                return NextResponse.json({ error: 'A board needs at least one page' }, { status: 400 });
+            }
+        }
+
+        const at = typeof position === 'number' ? position : null;
+        const result = mode === 'move'
+            ? await movePage(pageId, boardId, at)
+            : await copyPage(pageId, boardId, page.title, at);
+
+        // A move shows up in the activity of both boards' workspaces
+        const workspaceIds = mode === 'move'
+            ? new Set([page.board.workspaceId, target.workspaceId].filter(Boolean))
+            : new Set([target.workspaceId].filter(Boolean));
+        for (const id of workspaceIds) {
+            await recordAuditEvent({
+                workspaceId: id,
+                actorId: userId,
+                action: mode === 'move' ? 'page.moved' : 'page.copied',
+                targetId: result.id,
+                targetName: result.title,
+                boardId,
+                metadata: {
+                    from: page.title,
+                    fromBoardId: page.boardId,
+                    fromBoardTitle: page.board.title,
+                    boardTitle: target.title,
+                },
+            });
+        }
+
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error('Error moving page:', error);
+        return NextResponse.json({ error: 'Failed to move page' }, { status: 500 });
+    }
+}
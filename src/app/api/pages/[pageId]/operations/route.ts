@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { isTrashed } from '@/lib/trash';
+import { readPageCatchUp } from '@/lib/pageOperations';
+
+// Stroke operations logged after `since`, or the whole page when they can't be
+// served (same shape as the socket catch-up)
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ pageId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { pageId } = await params;
+        const since = request.nextUrl.searchParams.get('since');
+        const sinceSeq = since !== null && /^\d+$/.test(since) ? Number(since) : undefined;
+
+        const page = await prisma.page.findUnique({
+            where: { id: pageId },
+            include: { board: { include: { workspace: { include: { members: true } } } } },
+        });
+
+        if (!page || isTrashed(page)) {
+            return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+        }
+
+        if (!can(getBoardRole(page.board, userId), 'page:read')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const catchUp = await readPageCatchUp(pageId, sinceSeq);
+        return NextResponse.json({ pageId, ...catchUp });
+    } catch (error) {
+        console.error('Error reading page operations:', error);
+        return NextResponse.json(
+            { error: 'Failed to read page operations' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { isTrashed } from '@/lib/trash';
+
+// Add handwriting recognized on the page (OcrButton) to its searchable text.
+// Lines the page already has are skipped, so recognizing a region twice
+// doesn't duplicate it.
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ pageId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { pageId } = await params;
+        const body = await request.json();
+        const { text } = body;
+
+        if (typeof text !== 'string' || !text.trim()) {
+            return NextResponse.json({ error: 'Text is required' }, { status: 400 });
+        }
+
+        const page = await prisma.page.findUnique({
+            where: { id: pageId },
+            include: { board: { include: { workspace: { include: { members: true } } } } },
+        });
+
+        if (!page || isTrashed(page)) {
+            return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+        }
+
+        if (!can(getBoardRole(page.board, userId), 'page:edit')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const lines: string[] = page.recognizedText ? page.recognizedText.split('\n') : [];
+        for (const line of text.split('\n').map((l: string) => l.trim()).filter(Boolean)) {
+            if (!lines.includes(line)) lines.push(line);
+        }
+
+        const updated = await prisma.page.update({
+            where: { id: pageId },
+            data: { recognizedText: lines.join('\n') },
+            select: { id: true, recognizedText: true },
+        });
+
+        return NextResponse.json(updated);
+    } catch (error) {
+        console.error('Error saving recognized text:', error);
+        return NextResponse.json({ error: 'Failed to save recognized text' }, { status: 500 });
+    }
+}
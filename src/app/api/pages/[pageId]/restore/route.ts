@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
+import { restorePage, TrashRestoreError } from '@/lib/trash';
+
+// Bring a page back from the trash
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ pageId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { pageId } = await params;
+
+        const page = await prisma.page.findUnique({
+            where: { id: pageId },
+            include: { board: { include: { workspace: { include: { members: true } } } } },
+        });
+
+        if (!page || !page.deletedAt) {
+            return NextResponse.json({ error: 'Page not found in trash' }, { status: 404 });
+        }
+
+        if (!can(getBoardRole(page.board, userId), 'page:edit')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const restored = await restorePage(page);
+
+        await recordAuditEvent({
+            workspaceId: page.board.workspaceId,
+            actorId: userId,
+            action: 'page.restored',
+            targetId: pageId,
+            targetName: page.title,
+            boardId: page.boardId,
+            metadata: { boardTitle: page.board.title },
+        });
+
+        return NextResponse.json(restored);
+    } catch (error) {
+        if (error instanceof TrashRestoreError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        console.error('Error restoring page:', error);
+        return NextResponse.json({ error: 'Failed to restore page' }, { status: 500 });
+    }
+}
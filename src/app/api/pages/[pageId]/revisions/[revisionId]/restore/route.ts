@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
+import { restorePageRevision } from '@/lib/pageRevisions';
+import { isTrashed } from '@/lib/trash';
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ pageId: string; revisionId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { pageId, revisionId } = await params;
+
+        const revision = await prisma.pageRevision.findUnique({
+            where: { id: revisionId },
+            include: { page: { include: { board: { include: { workspace: { include: { members: true } } } } } } },
+        });
+
+        if (!revision || revision.pageId !== pageId || isTrashed(revision.page)) {
+            return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+        }
+
+        if (!can(getBoardRole(revision.page.board, userId), 'page:edit')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const page = await restorePageRevision(pageId, revision, userId);
+
+        await recordAuditEvent({
+            workspaceId: revision.page.board.workspaceId,
+            actorId: userId,
+            action: 'page.reverted',
+            targetId: pageId,
+            targetName: revision.page.title,
+            boardId: revision.page.boardId,
+            metadata: { revisionId, revisionCreatedAt: revision.createdAt, boardTitle: revision.page.board.title },
+        });
+
+        return NextResponse.json(page);
+    } catch (error) {
+        console.error('Error restoring page revision:', error);
+        return NextResponse.json(
+            { error: 'Failed to restore page revision' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { isTrashed } from '@/lib/trash';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ pageId: string; revisionId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { pageId, revisionId } = await params;
+
+        const revision = await prisma.pageRevision.findUnique({
+            where: { id: revisionId },
+            include: { page: { include: { board: { include: { workspace: { include: { members: true } } } } } } },
+        });
+
+        if (!revision || revision.pageId !== pageId || isTrashed(revision.page)) {
+            return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+        }
+
+        if (!can(getBoardRole(revision.page.board, userId), 'page:read')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const { page: _page, ...preview } = revision;
+        return NextResponse.json(preview);
+    } catch (error) {
+        console.error('Error loading page revision:', error);
+        return NextResponse.json(
+            { error: 'Failed to load page revision' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { isTrashed } from '@/lib/trash';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ pageId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { pageId } = await params;
+
+        const page = await prisma.page.findUnique({
+            where: { id: pageId },
+            include: { board: { include: { workspace: { include: { members: true } } } } },
+        });
+
+        if (!page || isTrashed(page)) {
+            return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+        }
+
+        if (!can(getBoardRole(page.board, userId), 'page:read')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        // Content and thumbnails are loaded per revision when previewing
+        const revisions = await prisma.pageRevision.findMany({
+            where: { pageId },
+            orderBy: { createdAt: 'desc' },
+            select: {
+                id: true,
+                version: true,
+                strokeCount: true,
+                userId: true,
+                createdAt: true,
+                updatedAt: true,
+            },
+        });
+
+        return NextResponse.json({ revisions });
+    } catch (error) {
+        console.error('Error listing page revisions:', error);
+        return NextResponse.json(
+            { error: 'Failed to list page revisions' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { prisma } from '@/lib/prisma';
+import { can, getBoardRole } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
+import { getShareRole, getShareToken } from '@/lib/shareLinks';
+import { savePageSnapshot, PageVersionConflictError } from '@/lib/pageOperations';
+import { recordPageRevision } from '@/lib/pageRevisions';
+import { isTrashed, trashPage } from '@/lib/trash';
 
 export async function GET(
     request: NextRequest,
@@ -8,7 +14,8 @@ export async function GET(
 ) {
     try {
         const { userId } = await auth();
-        if (!userId) {
+        // Signed-out visitors get in through a share link
+        if (!userId && !getShareToken(request)) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
@@ -19,21 +26,18 @@ export async function GET(
             include: { board: { include: { workspace: { include: { members: true } } } } },
         });
 
-        if (!page) {
+        if (!page || isTrashed(page)) {
             return NextResponse.json({ error: 'Page not found' }, { status: 404 });
         }
 
-        // Check access
-        const isMember = page.board.workspace?.members.some(
-            (m: { userId: string }) => m.userId === userId
-        ) ?? false;
-        const isOwner = page.board.userId === userId;
-
-        if (!isMember && !isOwner) {
+        const role = (userId ? getBoardRole(page.board, userId) : null) ?? await getShareRole(request, page.boardId);
+        if (!can(role, 'page:read')) {
             return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
         }
 
-        return NextResponse.json(page);
+        // The board (with its workspace's member list) isn't for share link visitors
+        const { board: _board, ...pageData } = page;
+        return NextResponse.json(pageData);
     } catch (error) {
         console.error('Error loading page:', error);
         return NextResponse.json(
@@ -61,17 +65,13 @@ export async function PUT(
             include: { board: { include: { workspace: { include: { members: true } } } } },
         });
 
-        if (!page) {
+        if (!page || isTrashed(page)) {
             return NextResponse.json({ error: 'Page not found' }, { status: 404 });
         }
 
-        // Check access
-        const isMember = page.board.workspace?.members.some(
-            (m: { userId: string }) => m.userId === userId
-        ) ?? false;
-        const isOwner = page.board.userId === userId;
-
-        if (!isMember && !isOwner) {
+        // Signed-in people outside the workspace can edit through an EDIT link
+        const role = getBoardRole(page.board, userId) ?? await getShareRole(request, page.boardId);
+        if (!can(role, 'page:edit')) {
             return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
         }
 
@@ -81,16 +81,46 @@ export async function PUT(
             thumbnail: body.thumbnail || body.content?.thumbnail,
         };
 
-        const updatedPage = await prisma.page.update({
-            where: { id: pageId },
-            data: {
-                content: contentToSave,
-                title: body.title, // Allow updating title if provided
-            },
+        // Strokes are merged with the page's operation log instead of overwritten,
+        // so a snapshot from one collaborator can't drop another's strokes
+        const { page: updatedPage } = await savePageSnapshot(pageId, userId, contentToSave, {
+            title: body.title, // Allow updating title if provided
+            baseVersion: typeof body.baseVersion === 'number' ? body.baseVersion : undefined,
         });
 
+        // History is best effort: a failed snapshot must not fail the save
+        try {
+            await recordPageRevision(updatedPage, userId);
+        } catch (revisionError) {
+            console.error('Error recording page revision:', revisionError);
+        }
+
+        if (updatedPage.title !== page.title) {
+            await recordAuditEvent({
+                workspaceId: page.board.workspaceId,
+                actorId: userId,
+                action: 'page.renamed',
+                targetId: pageId,
+                targetName: updatedPage.title,
+                boardId: page.boardId,
+                metadata: { from: page.title, boardTitle: page.board.title },
+            });
+        }
+
         return NextResponse.json(updatedPage);
     } catch (error) {
+        if (error instanceof PageVersionConflictError) {
+            // Stale write: hand back the server copy so the client can resolve
+            return NextResponse.json(
+                {
+                    error: 'Page was modified by someone else',
+                    serverVersion: error.serverVersion,
+                    content: error.serverContent,
+                },
+                { status: 409 }
+            );
+        }
+
         console.error('Error updating page:', error);
         return NextResponse.json(
             { error: 'Failed to update page' },
@@ -116,25 +146,27 @@ export async function DELETE(
             include: { board: { include: { workspace: { include: { members: true } } } } },
         });
 
-        if (!page) {
+        if (!page || isTrashed(page)) {
             return NextResponse.json({ error: 'Page not found' }, { status: 404 });
         }
 
-        // Check access
-        const isMember = page.board.workspace?.members.some(
-            (m: { userId: string }) => m.userId === userId
-        ) ?? false;
-        const isOwner = page.board.userId === userId;
-
-        if (!isMember && !isOwner) {
+        if (!can(getBoardRole(page.board, userId), 'page:edit')) {
             return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
         }
 
         // Prevent deleting the last page? Or maybe just allow it and handle empty state?
-        // For now, let's allow it.
-
-        await prisma.page.delete({
-            where: { id: pageId },
+        // For now, let's allow it. The page goes to the trash and can be restored.
+
+        await trashPage(pageId, userId);
+
+        await recordAuditEvent({
+            workspaceId: page.board.workspaceId,
+            actorId: userId,
+            action: 'page.deleted',
+            targetId: pageId,
+            targetName: page.title,
+            boardId: page.boardId,
+            metadata: { boardTitle: page.board.title },
         });
 
         return NextResponse.json({ success: true });
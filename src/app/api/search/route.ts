@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { MIN_QUERY_LENGTH, searchWorkspaces } from '@/lib/search';
+
+// Search boards, pages, labels and page text across the user's workspaces
+// (or one of them with `workspaceId`)
+export async function GET(request: NextRequest) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const searchParams = request.nextUrl.searchParams;
+        const query = (searchParams.get('q') || '').trim();
+
+        if (query.length < MIN_QUERY_LENGTH) {
+            return NextResponse.json({ query, results: [] });
+        }
+
+        const results = await searchWorkspaces(userId, query, {
+            workspaceId: searchParams.get('workspaceId') || undefined,
+        });
+
+        return NextResponse.json({ query, results });
+    } catch (error) {
+        console.error('Error searching:', error);
+        return NextResponse.json({ error: 'Search failed' }, { status: 500 });
+    }
+}
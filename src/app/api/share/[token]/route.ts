@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+    getShareCookieName,
+    getShareCookieValue,
+    getShareLinkStatus,
+    getPasswordRetryAfter,
+    isShareLinkUnlocked,
+    recordPasswordFailure,
+    verifySharePassword,
+} from '@/lib/shareLinks';
+import { isTrashed } from '@/lib/trash';
+
+const UNLOCK_COOKIE_MAX_AGE = 30 * 24 * 60 * 60; // 30 days, in seconds
+
+async function loadLink(token: string) {
+    return prisma.shareLink.findUnique({
+        where: { token },
+        include: {
+            board: {
+                select: { id: true, title: true, deletedAt: true },
+            },
+        },
+    });
+}
+
+// What the link opens; works without an account
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ token: string }> }
+) {
+    try {
+        const { token } = await params;
+
+        const link = await loadLink(token);
+        if (!link || isTrashed(link.board)) {
+            return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+        }
+
+        const status = getShareLinkStatus(link);
+        if (status !== 'active') {
+            return NextResponse.json(
+                { error: status === 'revoked' ? 'This link has been revoked' : 'This link has expired', status },
+                { status: 410 }
+            );
+        }
+
+        const unlocked = isShareLinkUnlocked(link, request);
+
+        return NextResponse.json({
+            // The board stays hidden until the password has been entered
+            board: unlocked ? { id: link.board.id, title: link.board.title } : null,
+            scope: link.scope,
+            requiresPassword: !!link.passwordHash,
+            unlocked,
+        });
+    } catch (error) {
+        console.error('Error loading share link:', error);
+        return NextResponse.json({ error: 'Failed to load share link' }, { status: 500 });
+    }
+}
+
+// Unlock a password-protected link for this browser
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ token: string }> }
+) {
+    try {
+        const { token } = await params;
+        const body = await request.json();
+        const { password } = body;
+
+        const link = await loadLink(token);
+        if (!link || isTrashed(link.board)) {
+            return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+        }
+
+        if (getShareLinkStatus(link) !== 'active') {
+            return NextResponse.json({ error: 'This link is no longer available' }, { status: 410 });
+        }
+
+        if (link.passwordHash) {
+            const retryAfter = await getPasswordRetryAfter(link, request);
+            if (retryAfter > 0) {
+                return NextResponse.json(
+                    { error: 'Too many incorrect passwords. Try again later.' },
+                    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+                );
+            }
+
+            if (typeof password !== 'string' || !(await verifySharePassword(password, link.passwordHash))) {
+                await recordPasswordFailure(link, request);
+                return NextResponse.json({ error: 'Incorrect password' }, { status: 403 });
+            }
+        }
+
+        const response = NextResponse.json({
+            board: { id: link.board.id, title: link.board.title },
+            scope: link.scope,
+            requiresPassword: !!link.passwordHash,
+            unlocked: true,
+        });
+
+        if (link.passwordHash) {
+            response.cookies.set(getShareCookieName(link), getShareCookieValue(link), {
+                httpOnly: true,
+                sameSite: 'lax',
+                secure: process.env.NODE_ENV === 'production',
+                path: '/',
+                maxAge: UNLOCK_COOKIE_MAX_AGE,
+            });
+        }
+
+        return response;
+    } catch (error) {
+        console.error('Error unlocking share link:', error);
+        return NextResponse.json({ error: 'Failed to unlock share link' }, { status: 500 });
+    }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getWorkspaceRole } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
+
+// Editors can delete templates they saved; owners and admins any template
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ templateId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { templateId } = await params;
+
+        const template = await prisma.template.findUnique({
+            where: { id: templateId },
+            include: { workspace: { include: { members: true } } },
+        });
+
+        if (!template) {
+            return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+        }
+
+        const role = getWorkspaceRole(template.workspace, userId);
+        if (!can(role, 'templates:manage') || (template.createdBy !== userId && !can(role, 'board:delete'))) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        await prisma.template.delete({ where: { id: templateId } });
+
+        await recordAuditEvent({
+            workspaceId: template.workspaceId,
+            actorId: userId,
+            action: 'template.deleted',
+            targetId: templateId,
+            targetName: template.name,
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error deleting template:', error);
+        return NextResponse.json({ error: 'Failed to delete template' }, { status: 500 });
+    }
+}
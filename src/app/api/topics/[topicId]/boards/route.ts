@@ -1,5 +1,9 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { can, getWorkspaceRole } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
+import { isTrashed } from '@/lib/trash';
+import { createPagesFromTemplate, getTemplatePages } from '@/lib/templates';
 import { auth } from '@clerk/nextjs/server';
 
 export async function GET(
@@ -19,17 +23,16 @@ export async function GET(
             include: { workspace: { include: { members: true } } }
         });
 
-        if (!topic) {
+        if (!topic || isTrashed(topic)) {
             return new NextResponse('Topic not found', { status: 404 });
         }
 
-        const isMember = topic.workspace.members.some((m: { userId: string }) => m.userId === userId) ?? false;
-        if (!isMember) {
-            return new NextResponse('Unauthorized', { status: 401 });
+        if (!can(getWorkspaceRole(topic.workspace, userId), 'board:read')) {
+            return new NextResponse('Forbidden', { status: 403 });
         }
 
         const boards = await prisma.board.findMany({
-            where: { topicId: topicId },
+            where: { topicId: topicId, deletedAt: null },
             include: { labels: true },
             orderBy: { updatedAt: 'desc' }
         });
@@ -54,7 +57,7 @@ export async function POST(
 
     try {
         const json = await request.json();
-        const { title } = json;
+        const { title, templateId } = json;
 
         if (!title) {
             return new NextResponse('Title is required', { status: 400 });
@@ -65,23 +68,45 @@ export async function POST(
             include: { workspace: { include: { members: true } } }
         });
 
-        if (!topic) {
+        if (!topic || isTrashed(topic)) {
             return new NextResponse('Topic not found', { status: 404 });
         }
 
-        const isMember = topic.workspace.members.some((m: { userId: string }) => m.userId === userId) ?? false;
-        if (!isMember) {
-            return new NextResponse('Unauthorized', { status: 401 });
+        if (!can(getWorkspaceRole(topic.workspace, userId), 'board:create')) {
+            return new NextResponse('Forbidden', { status: 403 });
         }
 
-        const board = await prisma.board.create({
-            data: {
-                title,
-                userId: userId,
-                workspaceId: topic.workspaceId,
-                topicId: topicId,
-                content: {}
+        const templatePages = templateId ? await getTemplatePages(templateId, topic.workspaceId) : null;
+        if (templateId && !templatePages) {
+            return new NextResponse('Template not found', { status: 404 });
+        }
+
+        // The board and its template pages are created together or not at all
+        const board = await prisma.$transaction(async (tx) => {
+            const board = await tx.board.create({
+                data: {
+                    title,
+                    userId: userId,
+                    workspaceId: topic.workspaceId,
+                    topicId: topicId,
+                    content: {}
+                }
+            });
+
+            if (templatePages) {
+                await createPagesFromTemplate(tx, board.id, templatePages);
             }
+            return board;
+        });
+
+        await recordAuditEvent({
+            workspaceId: topic.workspaceId,
+            actorId: userId,
+            action: 'board.created',
+            targetId: board.id,
+            targetName: board.title,
+            boardId: board.id,
+            metadata: { topicId, topicName: topic.name, ...(templateId ? { templateId } : {}) },
         });
 
         return NextResponse.json(board);
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { can, getWorkspaceRole } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
+import { restoreTopic } from '@/lib/trash';
+import { auth } from '@clerk/nextjs/server';
+
+// Bring a topic back from the trash, with the boards deleted along with it
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ topicId: string }> }
+) {
+    const { userId } = await auth();
+    if (!userId) {
+        return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { topicId } = await params;
+
+    try {
+        const topic = await prisma.topic.findUnique({
+            where: { id: topicId },
+            include: { workspace: { include: { members: true } } }
+        });
+
+        if (!topic || !topic.deletedAt) {
+            return new NextResponse('Topic not found in trash', { status: 404 });
+        }
+
+        // The topic's boards go to the trash with it (or come back with it),
+        // which takes the same rights as deleting (or restoring) a board
+        const role = getWorkspaceRole(topic.workspace, userId);
+        const boardCount = await prisma.board.count({ where: { topicId } });
+        if (!can(role, 'topics:manage') || (boardCount > 0 && !can(role, 'board:delete'))) {
+            return new NextResponse('Forbidden', { status: 403 });
+        }
+
+        const restored = await restoreTopic(topic);
+
+        await recordAuditEvent({
+            workspaceId: topic.workspaceId,
+            actorId: userId,
+            action: 'topic.restored',
+            targetId: topicId,
+            targetName: topic.name,
+        });
+
+        return NextResponse.json(restored);
+    } catch (error) {
+        console.error('[TOPIC_RESTORE]', error);
+        return new NextResponse('Internal Error', { status: 500 });
+    }
+}
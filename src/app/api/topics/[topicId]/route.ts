@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { can, getWorkspaceRole } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
+import { isTrashed, trashTopic } from '@/lib/trash';
 import { auth } from '@clerk/nextjs/server';
 
 export async function PUT(
@@ -22,23 +25,80 @@ export async function PUT(
             include: { workspace: { include: { members: true } } }
         });
 
-        if (!topic) {
+        if (!topic || isTrashed(topic)) {
             return new NextResponse('Topic not found', { status: 404 });
         }
 
-        const isMember = topic.workspace.members.some((m: { userId: string }) => m.userId === userId) ?? false;
-        if (!isMember) {
-            return new NextResponse('Unauthorized', { status: 401 });
+        const role = getWorkspaceRole(topic.workspace, userId);
+        if (!can(role, 'topics:manage')) {
+            return new NextResponse('Forbidden', { status: 403 });
         }
 
-        const updatedTopic = await prisma.topic.update({
-            where: { id: topicId },
-            data: {
-                name: name || undefined,
-                workspaceId: workspaceId || undefined
+        const moving = !!workspaceId && workspaceId !== topic.workspaceId;
+        if (moving) {
+            const destination = await prisma.workspace.findUnique({
+                where: { id: workspaceId },
+                include: { members: true }
+            });
+            if (!destination) {
+                return new NextResponse('Workspace not found', { status: 404 });
+            }
+
+            const destinationRole = getWorkspaceRole(destination, userId);
+            if (!can(destinationRole, 'topics:manage') || !can(destinationRole, 'board:create')) {
+                return new NextResponse('Forbidden', { status: 403 });
+            }
+
+            // Its boards leave the workspace too, which takes delete rights here (as moving a board does)
+            const boardCount = await prisma.board.count({ where: { topicId } });
+            if (boardCount > 0 && !can(role, 'board:delete')) {
+                return new NextResponse('Forbidden', { status: 403 });
+            }
+        }
+
+        // The topic's boards (trashed ones too) move with it
+        const updatedTopic = await prisma.$transaction(async (tx) => {
+            const updated = await tx.topic.update({
+                where: { id: topicId },
+                data: {
+                    name: name || undefined,
+                    workspaceId: moving ? workspaceId : undefined
+                }
+            });
+            if (moving) {
+                await tx.board.updateMany({
+                    where: { topicId },
+                    data: { workspaceId }
+                });
             }
+            return updated;
         });
 
+        if (updatedTopic.name !== topic.name) {
+            await recordAuditEvent({
+                workspaceId: updatedTopic.workspaceId,
+                actorId: userId,
+                action: 'topic.renamed',
+                targetId: topicId,
+                targetName: updatedTopic.name,
+                metadata: { from: topic.name },
+            });
+        }
+
+        // A move shows up in the activity of both workspaces
+        if (updatedTopic.workspaceId !== topic.workspaceId) {
+            for (const id of [topic.workspaceId, updatedTopic.workspaceId]) {
+                await recordAuditEvent({
+                    workspaceId: id,
+                    actorId: userId,
+                    action: 'topic.moved',
+                    targetId: topicId,
+                    targetName: updatedTopic.name,
+                    metadata: { fromWorkspaceId: topic.workspaceId, toWorkspaceId: updatedTopic.workspaceId },
+                });
+            }
+        }
+
         return NextResponse.json(updatedTopic);
     } catch (error) {
         console.error('[TOPIC_UPDATE]', error);
@@ -63,17 +123,27 @@ export async function DELETE(
             include: { workspace: { include: { members: true } } }
         });
 
-        if (!topic) {
+        if (!topic || isTrashed(topic)) {
             return new NextResponse('Topic not found', { status: 404 });
         }
 
-        const isMember = topic.workspace.members.some((m: { userId: string }) => m.userId === userId) ?? false;
-        if (!isMember) {
-            return new NextResponse('Unauthorized', { status: 401 });
+        // The topic's boards go to the trash with it (or come back with it),
+        // which takes the same rights as deleting (or restoring) a board
+        const role = getWorkspaceRole(topic.workspace, userId);
+        const boardCount = await prisma.board.count({ where: { topicId } });
+        if (!can(role, 'topics:manage') || (boardCount > 0 && !can(role, 'board:delete'))) {
+            return new NextResponse('Forbidden', { status: 403 });
         }
 
-        await prisma.topic.delete({
-            where: { id: topicId }
+        // Moves the topic and its boards to the workspace trash
+        await trashTopic(topicId, userId);
+
+        await recordAuditEvent({
+            workspaceId: topic.workspaceId,
+            actorId: userId,
+            action: 'topic.deleted',
+            targetId: topicId,
+            targetName: topic.name,
         });
 
         return NextResponse.json({ success: true });
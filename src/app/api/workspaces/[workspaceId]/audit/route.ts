@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getWorkspaceRole } from '@/lib/permissions';
+import { AUDIT_TARGET_TYPES, type AuditTargetType } from '@/lib/audit';
+import { getMemberProfiles } from '@/lib/workspace';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+
+// Workspace activity, newest first. Filters: action, targetType, actorId,
+// boardId; page with `before` (the previous response's nextCursor).
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ workspaceId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { workspaceId } = await params;
+        const searchParams = request.nextUrl.searchParams;
+
+        const workspace = await prisma.workspace.findUnique({
+            where: { id: workspaceId },
+            include: { members: true },
+        });
+
+        if (!workspace) {
+            return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+        }
+
+        if (!can(getWorkspaceRole(workspace, userId), 'audit:read')) {
+            return NextResponse.json({ error: 'Only owners and admins can view workspace activity' }, { status: 403 });
+        }
+
+        const targetType = searchParams.get('targetType');
+        if (targetType && !AUDIT_TARGET_TYPES.includes(targetType as AuditTargetType)) {
+            return NextResponse.json({ error: 'Invalid targetType' }, { status: 400 });
+        }
+
+        const before = searchParams.get('before');
+        const beforeDate = before ? new Date(before) : null;
+        if (beforeDate && isNaN(beforeDate.getTime())) {
+            return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+        }
+
+        const limit = Math.min(Math.max(Number(searchParams.get('limit')) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+        // One extra row tells us whether there is another page
+        const events = await prisma.auditEvent.findMany({
+            where: {
+                workspaceId,
+                action: searchParams.get('action') || undefined,
+                targetType: targetType || undefined,
+                actorId: searchParams.get('actorId') || undefined,
+                boardId: searchParams.get('boardId') || undefined,
+                createdAt: beforeDate ? { lt: beforeDate } : undefined,
+            },
+            orderBy: { createdAt: 'desc' },
+            take: limit + 1,
+        });
+
+        const hasMore = events.length > limit;
+        const page = hasMore ? events.slice(0, limit) : events;
+
+        // Member events point at a user, so resolve those alongside the actors
+        const userIds = new Set<string>();
+        for (const event of page) {
+            userIds.add(event.actorId);
+            if (event.targetType === 'member') userIds.add(event.targetId);
+        }
+        const profiles = await getMemberProfiles(Array.from(userIds));
+        const profileOf = (id: string) => profiles.get(id) ?? { name: null, email: null, imageUrl: null };
+
+        return NextResponse.json({
+            events: page.map((event: any) => ({
+                ...event,
+                actor: { userId: event.actorId, ...profileOf(event.actorId) },
+                targetUser: event.targetType === 'member'
+                    ? { userId: event.targetId, ...profileOf(event.targetId) }
+                    : null,
+            })),
+            nextCursor: hasMore ? page[page.length - 1].createdAt : null,
+        });
+    } catch (error) {
+        console.error('Error loading workspace activity:', error);
+        return NextResponse.json({ error: 'Failed to load activity' }, { status: 500 });
+    }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can } from '@/lib/permissions';
+
+// Revoke an invite link; memberships created through it stay
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ workspaceId: string; invitationId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { workspaceId, invitationId } = await params;
+
+        const membership = await prisma.workspaceMember.findUnique({
+            where: {
+                workspaceId_userId: {
+                    workspaceId,
+                    userId,
+                },
+            },
+        });
+
+        if (!can(membership?.role, 'invitations:manage')) {
+            return NextResponse.json({ error: 'Only owners and admins can revoke invitations' }, { status: 403 });
+        }
+
+        const invitation = await prisma.invitation.findUnique({
+            where: { id: invitationId },
+        });
+
+        if (!invitation || invitation.workspaceId !== workspaceId) {
+            return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+        }
+
+        await prisma.invitation.update({
+            where: { id: invitationId },
+            data: { revokedAt: invitation.revokedAt ?? new Date() },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error revoking invitation:', error);
+        return NextResponse.json({ error: 'Failed to revoke invitation' }, { status: 500 });
+    }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can } from '@/lib/permissions';
+import {
+    INVITABLE_ROLES,
+    createInvitationToken,
+    getInvitationExpiry,
+    getInvitationStatus,
+    normalizeInvitationEmail,
+} from '@/lib/invitations';
+import type { WorkspaceRole } from '@/lib/workspace';
+
+async function getMemberRole(workspaceId: string, userId: string) {
+    const membership = await prisma.workspaceMember.findUnique({
+        where: {
+            workspaceId_userId: {
+                workspaceId,
+                userId,
+            },
+        },
+    });
+    return membership?.role as WorkspaceRole | undefined;
+}
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ workspaceId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { workspaceId } = await params;
+
+        if (!can(await getMemberRole(workspaceId, userId), 'invitations:manage')) {
+            return NextResponse.json({ error: 'Only owners and admins can manage invitations' }, { status: 403 });
+        }
+
+        const invitations = await prisma.invitation.findMany({
+            where: { workspaceId, revokedAt: null },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        return NextResponse.json({
+            invitations: invitations.map((invitation: any) => ({
+                ...invitation,
+                status: getInvitationStatus(invitation),
+            })),
+        });
+    } catch (error) {
+        console.error('Error loading invitations:', error);
+        return NextResponse.json({ error: 'Failed to load invitations' }, { status: 500 });
+    }
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ workspaceId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { workspaceId } = await params;
+        const body = await request.json();
+        const { role = 'MEMBER', expiresInDays, maxUses } = body;
+        const email = normalizeInvitationEmail(body.email);
+
+        const userRole = await getMemberRole(workspaceId, userId);
+        if (!can(userRole, 'invitations:manage')) {
+            return NextResponse.json({ error: 'Only owners and admins can invite people' }, { status: 403 });
+        }
+
+        if (!email) {
+            return NextResponse.json({ error: 'A valid email address is required' }, { status: 400 });
+        }
+
+        if (!INVITABLE_ROLES.includes(role)) {
+            return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+        }
+
+        // Admins can't mint links that make other people admins
+        if (role === 'ADMIN' && userRole !== 'OWNER') {
+            return NextResponse.json({ error: 'Only owners can invite admins' }, { status: 403 });
+        }
+
+        if (maxUses != null && (!Number.isInteger(maxUses) || maxUses < 1)) {
+            return NextResponse.json({ error: 'maxUses must be a positive whole number' }, { status: 400 });
+        }
+
+        const invitation = await prisma.invitation.create({
+            data: {
+                workspaceId,
+                token: createInvitationToken(),
+                email,
+                role,
+                maxUses: maxUses ?? null,
+                expiresAt: getInvitationExpiry(expiresInDays),
+                createdBy: userId,
+            },
+        });
+
+        return NextResponse.json({ ...invitation, status: getInvitationStatus(invitation) }, { status: 201 });
+    } catch (error) {
+        console.error('Error creating invitation:', error);
+        return NextResponse.json({ error: 'Failed to create invitation' }, { status: 500 });
+    }
+}
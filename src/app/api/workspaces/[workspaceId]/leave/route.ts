@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { prisma } from '@/lib/prisma';
+import { recordAuditEvent } from '@/lib/audit';
 
 export async function POST(
     request: NextRequest,
@@ -51,6 +52,14 @@ export async function POST(
             },
         });
 
+        await recordAuditEvent({
+            workspaceId,
+            actorId: userId,
+            action: 'member.left',
+            targetId: userId,
+            metadata: { role: membership.role },
+        });
+
         return NextResponse.json({ success: true });
     } catch (error) {
         console.error('Error leaving workspace:', error);
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { canManageMember } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
+import { WORKSPACE_ROLES, type WorkspaceRole } from '@/lib/workspace';
+
+async function loadMembers(workspaceId: string, memberId: string, userId: string) {
+    const workspace = await prisma.workspace.findUnique({
+        where: { id: workspaceId },
+        include: { members: true },
+    });
+    if (!workspace) return null;
+
+    const members: { id: string; userId: string; role: WorkspaceRole }[] = workspace.members;
+    return {
+        workspace,
+        actor: members.find((m) => m.userId === userId),
+        target: members.find((m) => m.id === memberId),
+        ownerCount: members.filter((m) => m.role === 'OWNER').length,
+    };
+}
+
+// Change a member's role
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ workspaceId: string; memberId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { workspaceId, memberId } = await params;
+        const body = await request.json();
+        const { role } = body;
+
+        if (!WORKSPACE_ROLES.includes(role)) {
+            return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+        }
+
+        const loaded = await loadMembers(workspaceId, memberId, userId);
+        if (!loaded) {
+            return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+        }
+
+        const { workspace, actor, target, ownerCount } = loaded;
+        if (!actor) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+        if (!target) {
+            return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+        }
+
+        if (!canManageMember(actor.role, target.role, role)) {
+            return NextResponse.json({ error: 'You cannot change this member\'s role' }, { status: 403 });
+        }
+
+        if (target.role === 'OWNER' && role !== 'OWNER') {
+            if (ownerCount <= 1) {
+                return NextResponse.json({ error: 'A workspace needs at least one owner' }, { status: 400 });
+            }
+            if (target.userId === workspace.ownerId) {
+                return NextResponse.json(
+                    { error: 'Transfer ownership before changing the workspace owner\'s role' },
+                    { status: 400 }
+                );
+            }
+        }
+
+        const updated = await prisma.workspaceMember.update({
+            where: { id: memberId },
+            data: { role },
+        });
+
+        if (role !== target.role) {
+            await recordAuditEvent({
+                workspaceId,
+                actorId: userId,
+                action: 'member.role_changed',
+                targetId: target.userId,
+                metadata: { from: target.role, to: role },
+            });
+        }
+
+        return NextResponse.json(updated);
+    } catch (error) {
+        console.error('Error changing member role:', error);
+        return NextResponse.json({ error: 'Failed to change role' }, { status: 500 });
+    }
+}
+
+// Remove a member from the workspace
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ workspaceId: string; memberId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { workspaceId, memberId } = await params;
+
+        const loaded = await loadMembers(workspaceId, memberId, userId);
+        if (!loaded) {
+            return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+        }
+
+        const { workspace, actor, target, ownerCount } = loaded;
+        if (!actor) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+        if (!target) {
+            return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+        }
+
+        // Anyone may remove themselves (same as leaving)
+        if (target.id !== actor.id && !canManageMember(actor.role, target.role, null)) {
+            return NextResponse.json({ error: 'You cannot remove this member' }, { status: 403 });
+        }
+
+        if (target.role === 'OWNER' && ownerCount <= 1) {
+            return NextResponse.json({ error: 'The last owner cannot be removed' }, { status: 400 });
+        }
+        if (target.userId === workspace.ownerId) {
+            return NextResponse.json(
+                { error: 'Transfer ownership before removing the workspace owner' },
+                { status: 400 }
+            );
+        }
+
+        await prisma.workspaceMember.delete({
+            where: { id: memberId },
+        });
+
+        await recordAuditEvent({
+            workspaceId,
+            actorId: userId,
+            action: target.id === actor.id ? 'member.left' : 'member.removed',
+            targetId: target.userId,
+            metadata: { role: target.role },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error removing member:', error);
+        return NextResponse.json({ error: 'Failed to remove member' }, { status: 500 });
+    }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getWorkspaceRole } from '@/lib/permissions';
+import { getMemberProfiles } from '@/lib/workspace';
+
+// Everyone with access to the workspace, with their roles
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ workspaceId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { workspaceId } = await params;
+
+        const workspace = await prisma.workspace.findUnique({
+            where: { id: workspaceId },
+            include: {
+                members: {
+                    orderBy: { createdAt: 'asc' },
+                },
+            },
+        });
+
+        if (!workspace) {
+            return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+        }
+
+        const currentUserRole = getWorkspaceRole(workspace, userId);
+        if (!can(currentUserRole, 'workspace:read')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const profiles = await getMemberProfiles(workspace.members.map((m: { userId: string }) => m.userId));
+
+        return NextResponse.json({
+            ownerId: workspace.ownerId,
+            currentUserRole,
+            members: workspace.members.map((member: any) => ({
+                ...member,
+                ...(profiles.get(member.userId) ?? { name: null, email: null, imageUrl: null }),
+            })),
+        });
+    } catch (error) {
+        console.error('Error loading workspace members:', error);
+        return NextResponse.json({ error: 'Failed to load members' }, { status: 500 });
+    }
+}
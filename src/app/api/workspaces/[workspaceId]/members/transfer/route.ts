@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { recordAuditEvent } from '@/lib/audit';
+
+// Hand the workspace to another member; the previous owner stays on as an admin
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ workspaceId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { workspaceId } = await params;
+        const body = await request.json();
+        const { memberId } = body;
+
+        if (!memberId) {
+            return NextResponse.json({ error: 'memberId is required' }, { status: 400 });
+        }
+
+        const workspace = await prisma.workspace.findUnique({
+            where: { id: workspaceId },
+            include: { members: true },
+        });
+
+        if (!workspace) {
+            return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+        }
+
+        if (workspace.ownerId !== userId) {
+            return NextResponse.json({ error: 'Only the workspace owner can transfer ownership' }, { status: 403 });
+        }
+
+        const target = workspace.members.find((m: { id: string }) => m.id === memberId);
+        if (!target) {
+            return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+        }
+        if (target.userId === userId) {
+            return NextResponse.json({ error: 'You already own this workspace' }, { status: 400 });
+        }
+
+        const [updated] = await prisma.$transaction([
+            prisma.workspace.update({
+                where: { id: workspaceId },
+                data: { ownerId: target.userId },
+            }),
+            prisma.workspaceMember.update({
+                where: { id: target.id },
+                data: { role: 'OWNER' },
+            }),
+            prisma.workspaceMember.update({
+                where: {
+                    workspaceId_userId: {
+                        workspaceId,
+                        userId,
+                    },
+                },
+                data: { role: 'ADMIN' },
+            }),
+        ]);
+
+        await recordAuditEvent({
+            workspaceId,
+            actorId: userId,
+            action: 'member.ownership_transferred',
+            targetId: target.userId,
+            metadata: { from: target.role },
+        });
+
+        return NextResponse.json(updated);
+    } catch (error) {
+        console.error('Error transferring workspace ownership:', error);
+        return NextResponse.json({ error: 'Failed to transfer ownership' }, { status: 500 });
+    }
+}
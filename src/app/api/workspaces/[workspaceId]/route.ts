@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { prisma } from '@/lib/prisma';
+import { can, getWorkspaceRole } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
 
 export async function GET(
     request: NextRequest,
@@ -18,6 +20,7 @@ export async function GET(
             where: { id: workspaceId },
             include: {
                 boards: {
+                    where: { deletedAt: null },
                     orderBy: { updatedAt: 'desc' },
                 },
                 members: true,
@@ -28,9 +31,7 @@ export async function GET(
             return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
         }
 
-        // Check if user is a member
-        const isMember = workspace.members.some((m: { userId: string }) => m.userId === userId);
-        if (!isMember) {
+        if (!can(getWorkspaceRole(workspace, userId), 'workspace:read')) {
             return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
         }
 
@@ -59,7 +60,6 @@ export async function PATCH(
             return NextResponse.json({ error: 'Name is required' }, { status: 400 });
         }
 
-        // Check if user is owner or admin
         const workspace = await prisma.workspace.findUnique({
             where: { id: workspaceId },
             include: {
@@ -73,8 +73,7 @@ export async function PATCH(
             return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
         }
 
-        const userRole = workspace.members[0]?.role;
-        if (userRole !== 'OWNER' && userRole !== 'ADMIN') {
+        if (!can(getWorkspaceRole(workspace, userId), 'workspace:rename')) {
             return NextResponse.json({ error: 'Only owners and admins can rename workspaces' }, { status: 403 });
         }
 
@@ -83,6 +82,17 @@ export async function PATCH(
             data: { name: name.trim() },
         });
 
+        if (updated.name !== workspace.name) {
+            await recordAuditEvent({
+                workspaceId,
+                actorId: userId,
+                action: 'workspace.renamed',
+                targetId: workspaceId,
+                targetName: updated.name,
+                metadata: { from: workspace.name },
+            });
+        }
+
         return NextResponse.json(updated);
     } catch (error) {
         console.error('Error renaming workspace:', error);
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getWorkspaceRole } from '@/lib/permissions';
+import { listTemplates } from '@/lib/templates';
+
+// Templates a board in this workspace can be created from
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ workspaceId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { workspaceId } = await params;
+
+        const workspace = await prisma.workspace.findUnique({
+            where: { id: workspaceId },
+            include: { members: true },
+        });
+
+        if (!workspace) {
+            return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+        }
+
+        const role = getWorkspaceRole(workspace, userId);
+        if (!can(role, 'workspace:read')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const templates = await listTemplates(workspaceId);
+
+        return NextResponse.json(templates.map((template) => ({
+            ...template,
+            // Editors remove their own templates, managers any of them
+            canDelete: !template.builtIn && can(role, 'templates:manage')
+                && (template.createdBy === userId || can(role, 'board:delete')),
+        })));
+    } catch (error) {
+        console.error('Error loading templates:', error);
+        return NextResponse.json({ error: 'Failed to load templates' }, { status: 500 });
+    }
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { can, getWorkspaceRole } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
 import { auth } from '@clerk/nextjs/server';
 
 export async function GET(
@@ -17,6 +19,7 @@ export async function GET(
         const topics = await prisma.topic.findMany({
             where: {
                 workspaceId: workspaceId,
+                deletedAt: null,
                 workspace: {
                     members: {
                         some: {
@@ -27,7 +30,7 @@ export async function GET(
             },
             include: {
                 _count: {
-                    select: { boards: true }
+                    select: { boards: { where: { deletedAt: null } } }
                 }
             },
             orderBy: {
@@ -62,18 +65,16 @@ export async function POST(
         }
 
         const workspace = await prisma.workspace.findUnique({
-            where: {
-                id: workspaceId,
-                members: {
-                    some: {
-                        userId: userId
-                    }
-                }
-            }
+            where: { id: workspaceId },
+            include: { members: true }
         });
 
         if (!workspace) {
-            return new NextResponse('Workspace not found or unauthorized', { status: 404 });
+            return new NextResponse('Workspace not found', { status: 404 });
+        }
+
+        if (!can(getWorkspaceRole(workspace, userId), 'topics:manage')) {
+            return new NextResponse('Forbidden', { status: 403 });
         }
 
         const topic = await prisma.topic.create({
@@ -83,6 +84,14 @@ export async function POST(
             }
         });
 
+        await recordAuditEvent({
+            workspaceId,
+            actorId: userId,
+            action: 'topic.created',
+            targetId: topic.id,
+            targetName: topic.name,
+        });
+
         return NextResponse.json(topic);
     } catch (error) {
         console.error('[TOPICS_POST]', error);
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/prisma';
+import { can, getWorkspaceRole } from '@/lib/permissions';
+import { getPurgeDate, TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { getMemberProfiles } from '@/lib/workspace';
+
+// Everything in the workspace trash, most recently deleted first
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ workspaceId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { workspaceId } = await params;
+
+        const workspace = await prisma.workspace.findUnique({
+            where: { id: workspaceId },
+            include: { members: true },
+        });
+
+        if (!workspace) {
+            return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+        }
+
+        const role = getWorkspaceRole(workspace, userId);
+        if (!can(role, 'trash:read')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const [topics, boards, pages] = await Promise.all([
+            prisma.topic.findMany({
+                where: { workspaceId, deletedAt: { not: null } },
+            }),
+            prisma.board.findMany({
+                where: { workspaceId, deletedAt: { not: null } },
+                include: {
+                    topic: { select: { id: true, deletedAt: true } },
+                    _count: { select: { pages: { where: { deletedAt: null } } } },
+                },
+            }),
+            prisma.page.findMany({
+                where: { deletedAt: { not: null }, board: { workspaceId } },
+                include: { board: { select: { id: true, title: true, deletedAt: true } } },
+            }),
+        ]);
+
+        // Boards deleted together with their topic come back with it, so they
+        // are listed under the topic rather than on their own
+        const deletedWithTopic = (board: any) =>
+            board.topic?.deletedAt && board.topic.deletedAt.getTime() === board.deletedAt.getTime();
+
+        const items = [
+            ...topics.map((topic: any) => ({
+                type: 'topic' as const,
+                id: topic.id,
+                name: topic.name,
+                deletedAt: topic.deletedAt,
+                deletedBy: topic.deletedBy,
+                boardCount: boards.filter((b: any) => b.topicId === topic.id && deletedWithTopic(b)).length,
+                canRestore: can(role, 'topics:manage'),
+            })),
+            ...boards.filter((board: any) => !deletedWithTopic(board)).map((board: any) => ({
+                type: 'board' as const,
+                id: board.id,
+                name: board.title,
+                deletedAt: board.deletedAt,
+                deletedBy: board.deletedBy,
+                pageCount: board._count.pages,
+                canRestore: can(role, 'board:delete'),
+            })),
+            ...pages.map((page: any) => ({
+                type: 'page' as const,
+                id: page.id,
+                name: page.title,
+                deletedAt: page.deletedAt,
+                deletedBy: page.deletedBy,
+                board: { id: page.board.id, title: page.board.title, inTrash: !!page.board.deletedAt },
+                canRestore: can(role, 'page:edit'),
+            })),
+        ].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+
+        const profiles = await getMemberProfiles(
+            Array.from(new Set(items.map((item) => item.deletedBy).filter(Boolean)))
+        );
+
+        return NextResponse.json({
+            retentionDays: TRASH_RETENTION_DAYS,
+            items: items.map((item) => ({
+                ...item,
+                purgeAt: getPurgeDate(item.deletedAt),
+                deletedBy: item.deletedBy
+                    ? { userId: item.deletedBy, ...(profiles.get(item.deletedBy) ?? { name: null, email: null, imageUrl: null }) }
+                    : null,
+            })),
+        });
+    } catch (error) {
+        console.error('Error loading workspace trash:', error);
+        return NextResponse.json({ error: 'Failed to load trash' }, { status: 500 });
+    }
+}
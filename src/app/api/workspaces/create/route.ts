@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { prisma } from '@/lib/prisma';
+import { recordAuditEvent } from '@/lib/audit';
 
 export async function POST(request: Request) {
     try {
@@ -37,6 +38,14 @@ export async function POST(request: Request) {
             },
         });
 
+        await recordAuditEvent({
+            workspaceId: workspace.id,
+            actorId: userId,
+            action: 'workspace.created',
+            targetId: workspace.id,
+            targetName: workspace.name,
+        });
+
         return NextResponse.json(workspace);
     } catch (error) {
         console.error('Error creating workspace:', error);
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { prisma } from '@/lib/prisma';
+import { can } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
+import { createPagesFromTemplate, getTemplatePages } from '@/lib/templates';
 
 export async function GET(_request: NextRequest) {
     try {
@@ -28,11 +31,12 @@ export async function GET(_request: NextRequest) {
                 },
                 _count: {
                     select: {
-                        boards: true,
+                        boards: { where: { deletedAt: null } },
                         members: true,
                     },
                 },
                 boards: {
+                    where: { deletedAt: null },
                     select: {
                         id: true,
                         title: true,
@@ -76,7 +80,7 @@ export async function POST(request: NextRequest) {
 
         const body = await request.json();
         console.log('[API] Request body:', body);
-        const { name, workspaceId } = body;
+        const { name, workspaceId, templateId } = body;
 
         if (!name) {
             return NextResponse.json(
@@ -97,27 +101,50 @@ export async function POST(request: NextRequest) {
                 },
             });
 
-            if (!membership) {
+            if (!can(membership?.role, 'board:create')) {
                 return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
             }
 
-            const board = await (prisma as any).board.create({
-                data: {
-                    title: name,
-                    workspaceId,
-                    userId: userId,
-                    content: [],
-                },
+            const templatePages = templateId ? await getTemplatePages(templateId, workspaceId) : null;
+            if (templateId && !templatePages) {
+                return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+            }
+
+            // The board and its pages are created together or not at all
+            const board = await prisma.$transaction(async (tx) => {
+                const board = await tx.board.create({
+                    data: {
+                        title: name,
+                        workspaceId,
+                        userId: userId,
+                        content: [],
+                    },
+                });
+
+                if (templatePages) {
+                    await createPagesFromTemplate(tx, board.id, templatePages);
+                } else {
+                    // Create exactly ONE default page for the new board
+                    await tx.page.create({
+                        data: {
+                            boardId: board.id,
+                            title: 'Page 1',
+                            order: 0,
+                            content: { strokes: [] },
+                        },
+                    });
+                }
+                return board;
             });
 
-            // Create exactly ONE default page for the new board
-            await (prisma as any).page.create({
-                data: {
-                    boardId: board.id,
-                    title: 'Page 1',
-                    order: 0,
-                    content: { strokes: [] },
-                },
+            await recordAuditEvent({
+                workspaceId,
+                actorId: userId,
+                action: 'board.created',
+                targetId: board.id,
+                targetName: board.title,
+                boardId: board.id,
+                ...(templateId ? { metadata: { templateId } } : {}),
             });
 
             return NextResponse.json({ board });
@@ -140,6 +167,14 @@ export async function POST(request: NextRequest) {
             },
         });
 
+        await recordAuditEvent({
+            workspaceId: workspace.id,
+            actorId: userId,
+            action: 'workspace.created',
+            targetId: workspace.id,
+            targetName: workspace.name,
+        });
+
         // Create a default board for the new workspace
         await (prisma as any).board.create({
             data: {
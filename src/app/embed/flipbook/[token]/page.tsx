@@ -0,0 +1,109 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import { Lock } from 'lucide-react';
+import FlipbookViewer from '@/components/FlipbookViewer';
+import type { PageData } from '@/utils/renderPageImage';
+import { fetchSharePreview, fetchSharedPages, type SharePreview } from '@/utils/sharedBoard';
+
+const MIN_AUTOPLAY_SECONDS = 2;
+const MAX_AUTOPLAY_SECONDS = 60;
+
+/**
+ * Flipbook for iframes (LMS lessons, blog posts). Options come from the query:
+ * - page: page to open on (1-based)
+ * - bg: background name from FlipbookViewer's BACKGROUNDS, e.g. `dark`
+ * - sound: `off` (or `0`/`false`) mutes page flips
+ * - autoplay: seconds between automatic flips
+ */
+export default function EmbedFlipbookPage() {
+    const params = useParams();
+    const searchParams = useSearchParams();
+    const token = params.token as string;
+
+    const [share, setShare] = useState<SharePreview | null>(null);
+    const [pages, setPages] = useState<PageData[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const startPage = Number(searchParams.get('page')) || undefined;
+    const background = searchParams.get('bg') ?? undefined;
+    const soundEnabled = !['off', '0', 'false'].includes(searchParams.get('sound')?.toLowerCase() ?? '');
+    const autoplaySeconds = Number(searchParams.get('autoplay')) || 0;
+    const autoplayInterval = autoplaySeconds > 0
+        ? Math.min(Math.max(autoplaySeconds, MIN_AUTOPLAY_SECONDS), MAX_AUTOPLAY_SECONDS)
+        : 0;
+
+    useEffect(() => {
+        const loadBoard = async () => {
+            try {
+                const data = await fetchSharePreview(token);
+                setShare(data);
+                if (data.unlocked && data.board) {
+                    setPages(await fetchSharedPages(data.board.id, token));
+                }
+            } catch (error) {
+                console.error('Embedded flipbook load error:', error);
+                setError(error instanceof Error ? error.message : 'Failed to load flipbook');
+            } finally {
+                setLoading(false);
+            }
+        };
+        loadBoard();
+    }, [token]);
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-slate-900">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500" />
+            </div>
+        );
+    }
+
+    if (error || !share) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-slate-900 text-white/70 text-sm px-4 text-center">
+                {error || 'Flipbook not found'}
+            </div>
+        );
+    }
+
+    // Unlock cookies don't reach third-party iframes reliably, so send people to the full page
+    if (!share.unlocked || !share.board) {
+        return (
+            <div className="flex flex-col items-center justify-center gap-3 min-h-screen bg-slate-900 text-white px-4 text-center">
+                <Lock size={28} className="text-white/60" />
+                <p className="text-sm text-white/70">This flipbook is password protected.</p>
+                <a
+                    href={`/share/${token}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+                >
+                    Open in a new tab
+                </a>
+            </div>
+        );
+    }
+
+    if (pages.length === 0) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-slate-900 text-white/70 text-sm">
+                No pages found
+            </div>
+        );
+    }
+
+    return (
+        <FlipbookViewer
+            boardId={share.board.id}
+            pages={pages}
+            embedded
+            initialPage={startPage}
+            initialBackground={background}
+            initialSoundEnabled={soundEnabled}
+            autoplayInterval={autoplayInterval}
+        />
+    );
+}
@@ -0,0 +1,14 @@
+import type { Metadata } from "next";
+
+// Anonymous iframe viewers: no app providers (see (app)/layout.tsx), nothing to index
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+};
+
+export default function EmbedLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return children;
+}
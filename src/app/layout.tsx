@@ -1,10 +1,6 @@
 import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
-import { ClerkProvider } from "@clerk/nextjs";
-import GlobalCameraOverlay from "@/components/GlobalCameraOverlay";
-import { ModalProvider } from "@/components/providers/ModalProvider";
-import { RealTimeProvider } from "@/components/providers/RealTimeProvider";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -177,14 +173,7 @@ export default function RootLayout({
         className={`${inter.className} antialiased`}
         suppressHydrationWarning
       >
-        <ClerkProvider>
-          <ModalProvider>
-            <RealTimeProvider>
-              {children}
-              <GlobalCameraOverlay />
-            </RealTimeProvider>
-          </ModalProvider>
-        </ClerkProvider>
+        {children}
       </body>
     </html>
   );
@@ -1,8 +1,9 @@
 'use client';
 
 import { useState } from 'react';
-import { MoreVertical, Edit, Trash, Loader } from 'lucide-react';
+import { MoreVertical, Edit, Trash, Loader, LayoutTemplate, Copy, FolderInput } from 'lucide-react';
 import { useModal } from '@/components/providers/ModalProvider';
+import BoardTransferDialog from '@/components/BoardTransferDialog';
 
 interface BoardActionsProps {
     boardId: string;
@@ -16,7 +17,11 @@ export default function BoardActions({ boardId, boardTitle, onUpdate, onDelete }
     const [showMenu, setShowMenu] = useState(false);
     const [showRenameDialog, setShowRenameDialog] = useState(false);
     const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+    const [showTemplateDialog, setShowTemplateDialog] = useState(false);
+    const [showTransferDialog, setShowTransferDialog] = useState(false);
     const [newTitle, setNewTitle] = useState(boardTitle);
+    const [templateName, setTemplateName] = useState(boardTitle);
+    const [templateDescription, setTemplateDescription] = useState('');
     const [loading, setLoading] = useState(false);
 
     const handleRename = async () => {
@@ -69,6 +74,54 @@ export default function BoardActions({ boardId, boardTitle, onUpdate, onDelete }
         }
     };
 
+    const handleDuplicate = async () => {
+        if (loading) return;
+
+        setLoading(true);
+        try {
+            const res = await fetch(`/api/boards/${boardId}/duplicate`, { method: 'POST' });
+
+            if (res.ok) {
+                setShowMenu(false);
+                onUpdate?.();
+            } else {
+                const error = await res.json();
+                showAlert('Error', error.error || 'Failed to duplicate board', 'danger');
+            }
+        } catch (error) {
+            console.error('Error duplicating board:', error);
+            showAlert('Error', 'Failed to duplicate board', 'danger');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSaveTemplate = async () => {
+        if (!templateName.trim() || loading) return;
+
+        setLoading(true);
+        try {
+            const res = await fetch(`/api/boards/${boardId}/template`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name: templateName, description: templateDescription }),
+            });
+
+            if (res.ok) {
+                setShowTemplateDialog(false);
+                showAlert('Template Saved', `"${templateName.trim()}" is now offered when creating boards in this workspace.`, 'success');
+            } else {
+                const error = await res.json();
+                showAlert('Error', error.error || 'Failed to save template', 'danger');
+            }
+        } catch (error) {
+            console.error('Error saving template:', error);
+            showAlert('Error', 'Failed to save template', 'danger');
+        } finally {
+            setLoading(false);
+        }
+    };
+
     return (
         <div className="relative" onClick={(e) => e.stopPropagation()}>
             {/* Menu Button */}
@@ -106,6 +159,41 @@ export default function BoardActions({ boardId, boardTitle, onUpdate, onDelete }
                             <Edit size={14} />
                             <span>Rename</span>
                         </button>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                setTemplateName(boardTitle);
+                                setTemplateDescription('');
+                                setShowTemplateDialog(true);
+                                setShowMenu(false);
+                            }}
+                            className="w-full px-4 py-2 text-left flex items-center gap-2 hover:bg-gray-50 text-gray-700 text-sm whitespace-nowrap"
+                        >
+                            <LayoutTemplate size={14} />
+                            <span>Save as Template</span>
+                        </button>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                handleDuplicate();
+                            }}
+                            disabled={loading}
+                            className="w-full px-4 py-2 text-left flex items-center gap-2 hover:bg-gray-50 text-gray-700 text-sm"
+                        >
+                            {loading ? <Loader className="animate-spin" size={14} /> : <Copy size={14} />}
+                            <span>Duplicate</span>
+                        </button>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                setShowTransferDialog(true);
+                                setShowMenu(false);
+                            }}
+                            className="w-full px-4 py-2 text-left flex items-center gap-2 hover:bg-gray-50 text-gray-700 text-sm whitespace-nowrap"
+                        >
+                            <FolderInput size={14} />
+                            <span>Move or Copy...</span>
+                        </button>
                         <button
                             onClick={(e) => {
                                 e.stopPropagation();
@@ -163,6 +251,69 @@ export default function BoardActions({ boardId, boardTitle, onUpdate, onDelete }
                 </div>
             )}
 
+            {showTransferDialog && (
+                <BoardTransferDialog
+                    boardId={boardId}
+                    boardTitle={boardTitle}
+                    onClose={() => setShowTransferDialog(false)}
+                    onDone={() => onUpdate?.()}
+                />
+            )}
+
+            {/* Save as Template Dialog */}
+            {showTemplateDialog && (
+                <div
+                    className="fixed inset-0 bg-black/50 flex items-center justify-center backdrop-blur-sm"
+                    style={{ zIndex: 'var(--z-modal)' }}
+                    onClick={() => !loading && setShowTemplateDialog(false)}
+                >
+                    <div
+                        className="bg-white rounded-xl p-6 max-w-md w-full mx-4 shadow-2xl"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <h2 className="text-2xl font-bold text-gray-900 mb-2">Save as Template</h2>
+                        <p className="text-sm text-gray-600 mb-4">
+                            The pages of <strong>{boardTitle}</strong>, with their backgrounds and everything drawn
+                            on them, become a starting point for new boards in this workspace.
+                        </p>
+                        <input
+                            type="text"
+                            value={templateName}
+                            onChange={(e) => setTemplateName(e.target.value)}
+                            placeholder="Template name"
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 mb-3"
+                            autoFocus
+                            disabled={loading}
+                        />
+                        <textarea
+                            value={templateDescription}
+                            onChange={(e) => setTemplateDescription(e.target.value)}
+                            placeholder="Description (optional)"
+                            rows={2}
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 mb-6 resize-none"
+                            disabled={loading}
+                        />
+                        <div className="flex gap-3 justify-end">
+                            <button
+                                onClick={() => setShowTemplateDialog(false)}
+                                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
+                                disabled={loading}
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleSaveTemplate}
+                                disabled={!templateName.trim() || loading}
+                                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 flex items-center gap-2"
+                            >
+                                {loading ? <Loader className="animate-spin" size={16} /> : null}
+                                {loading ? 'Saving...' : 'Save Template'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* Delete Dialog */}
             {showDeleteDialog && (
                 <div
@@ -176,8 +327,8 @@ export default function BoardActions({ boardId, boardTitle, onUpdate, onDelete }
                     >
                         <h2 className="text-2xl font-bold text-gray-900 mb-4">Delete Board?</h2>
                         <p className="text-gray-600 mb-6">
-                            Are you sure you want to delete <strong>{boardTitle}</strong>? All pages and content
-                            will be permanently removed. This action cannot be undone.
+                            Are you sure you want to delete <strong>{boardTitle}</strong>? The board and its pages
+                            move to the workspace trash, where they can be restored for 30 days.
                         </p>
                         <div className="flex gap-3 justify-end">
                             <button
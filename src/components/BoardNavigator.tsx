@@ -5,11 +5,13 @@ import { useRouter } from 'next/navigation';
 import { useWorkspaceStore } from '@/store/workspaceStore';
 import { ChevronDown, Plus, FileText } from 'lucide-react';
 import { useModal } from '@/components/providers/ModalProvider';
+import TemplateGallery from '@/components/TemplateGallery';
 
 export default function BoardNavigator() {
     const router = useRouter();
     const {
         boards,
+        currentWorkspaceId,
         currentTopicId,
         currentBoardId,
         setBoards,
@@ -20,6 +22,7 @@ export default function BoardNavigator() {
 
     const [isOpen, setIsOpen] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
+    const [showTemplates, setShowTemplates] = useState(false);
 
     const topicBoards = boards.filter((b) => b.topicId === currentTopicId);
     const currentBoard = boards.find((b) => b.id === currentBoardId);
@@ -52,12 +55,23 @@ export default function BoardNavigator() {
         }
     };
 
-    const handleCreateBoard = async () => {
+    const handleCreateBoard = () => {
         if (!currentTopicId) {
             showAlert('Error', 'Please select a topic first', 'warning');
             return;
         }
 
+        setIsOpen(false);
+        if (currentWorkspaceId) {
+            setShowTemplates(true);
+        } else {
+            handleTemplateSelected(null);
+        }
+    };
+
+    const handleTemplateSelected = async (templateId: string | null) => {
+        setShowTemplates(false);
+
         const title = await showPrompt('New Board', 'Enter board name:', 'Board Name');
         if (!title) return;
 
@@ -65,7 +79,7 @@ export default function BoardNavigator() {
             const res = await fetch(`/api/topics/${currentTopicId}/boards`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ title }),
+                body: JSON.stringify({ title, templateId }),
             });
 
             if (!res.ok) throw new Error('Failed to create board');
@@ -152,6 +166,14 @@ export default function BoardNavigator() {
                     </div>
                 </>
             )}
+
+            {showTemplates && currentWorkspaceId && (
+                <TemplateGallery
+                    workspaceId={currentWorkspaceId}
+                    onClose={() => setShowTemplates(false)}
+                    onSelect={handleTemplateSelected}
+                />
+            )}
         </div>
     );
 }
@@ -2,7 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { ChevronDown, Layout, Search, Grid3x3 } from 'lucide-react';
+import { ChevronDown, Layout, LayoutTemplate, Search, Grid3x3 } from 'lucide-react';
+import { useModal } from '@/components/providers/ModalProvider';
+import TemplateGallery from '@/components/TemplateGallery';
 
 type Board = {
     id: string;
@@ -27,6 +29,8 @@ export default function BoardSelector({ currentBoardId }: BoardSelectorProps) {
     const [loading, setLoading] = useState(true);
     const [isOpen, setIsOpen] = useState(false);
     const [searchQuery, setSearchQuery] = useState('');
+    const [showTemplates, setShowTemplates] = useState(false);
+    const { showAlert, showPrompt } = useModal();
 
     useEffect(() => {
         fetchWorkspaces();
@@ -52,6 +56,32 @@ export default function BoardSelector({ currentBoardId }: BoardSelectorProps) {
 
     const currentBoard = currentWorkspace?.boards.find(b => b.id === currentBoardId);
 
+    // New boards go to the workspace of the open board
+    const targetWorkspace = currentWorkspace ?? workspaces[0];
+
+    const handleTemplateSelected = async (templateId: string | null) => {
+        setShowTemplates(false);
+        if (!targetWorkspace) return;
+
+        const name = await showPrompt('New Board', `Create a board in ${targetWorkspace.name}:`, 'Board Name');
+        if (!name) return;
+
+        try {
+            const res = await fetch('/api/workspaces', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name, workspaceId: targetWorkspace.id, templateId }),
+            });
+
+            if (!res.ok) throw new Error('Failed to create board');
+            const data = await res.json();
+            router.push(`/board/${data.board.id}`);
+        } catch (error) {
+            console.error('Error creating board:', error);
+            showAlert('Error', 'Failed to create board', 'danger');
+        }
+    };
+
     // Get recent boards (up to 8 most recently updated across all workspaces)
     const allBoards = workspaces.flatMap(w =>
         w.boards.map(b => ({ ...b, workspaceName: w.name }))
@@ -139,6 +169,19 @@ export default function BoardSelector({ currentBoardId }: BoardSelectorProps) {
                                 <span>View All Boards</span>
                             </button>
 
+                            {targetWorkspace && (
+                                <button
+                                    onClick={() => {
+                                        setShowTemplates(true);
+                                        setIsOpen(false);
+                                    }}
+                                    className="w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm transition-all text-blue-600 hover:bg-blue-50 font-medium mb-2"
+                                >
+                                    <LayoutTemplate size={18} />
+                                    <span>New Board from Template</span>
+                                </button>
+                            )}
+
                             <div className="h-px bg-gray-200 my-2" />
 
                             {/* Recent Boards */}
@@ -182,6 +225,14 @@ export default function BoardSelector({ currentBoardId }: BoardSelectorProps) {
                     </div>
                 </>
             )}
+
+            {showTemplates && targetWorkspace && (
+                <TemplateGallery
+                    workspaceId={targetWorkspace.id}
+                    onClose={() => setShowTemplates(false)}
+                    onSelect={handleTemplateSelected}
+                />
+            )}
         </div>
     );
 }
@@ -0,0 +1,206 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader, X } from 'lucide-react';
+import { useModal } from '@/components/providers/ModalProvider';
+
+type TransferMode = 'copy' | 'move';
+
+interface Destination {
+    id: string;
+    name: string;
+    topics: { id: string; name: string }[];
+}
+
+interface BoardTransferDialogProps {
+    boardId: string;
+    boardTitle: string;
+    onClose: () => void;
+    /** Called with the copy, or the moved board */
+    onDone?: (board: { id: string; workspaceId: string | null }, mode: TransferMode) => void;
+}
+
+export default function BoardTransferDialog({ boardId, boardTitle, onClose, onDone }: BoardTransferDialogProps) {
+    const { showAlert } = useModal();
+    const [workspaces, setWorkspaces] = useState<Destination[]>([]);
+    const [current, setCurrent] = useState<{ workspaceId: string | null; topicId: string | null } | null>(null);
+    const [canMoveOut, setCanMoveOut] = useState(false);
+    const [mode, setMode] = useState<TransferMode>('copy');
+    const [workspaceId, setWorkspaceId] = useState('');
+    const [topicId, setTopicId] = useState('');
+    const [title, setTitle] = useState(`${boardTitle} (copy)`);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        loadDestinations();
+    }, [boardId]);
+
+    const loadDestinations = async () => {
+        try {
+            const res = await fetch(`/api/boards/${boardId}/move`, { cache: 'no-store' });
+            if (res.ok) {
+                const data = await res.json();
+                setWorkspaces(data.workspaces);
+                setCurrent(data.current);
+                setCanMoveOut(data.canMoveOut);
+                setWorkspaceId(data.current.workspaceId ?? data.workspaces[0]?.id ?? '');
+                setTopicId(data.current.topicId ?? '');
+            } else {
+                const error = await res.json().catch(() => ({}));
+                showAlert('Error', error.error || 'Failed to load workspaces', 'danger');
+                onClose();
+            }
+        } catch (error) {
+            console.error('Error loading board destinations:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const topics = workspaces.find(w => w.id === workspaceId)?.topics ?? [];
+    const leavesWorkspace = !!current?.workspaceId && workspaceId !== current.workspaceId;
+    const unchanged = workspaceId === (current?.workspaceId ?? '') && topicId === (current?.topicId ?? '');
+    const blocked = mode === 'move' && (unchanged || (leavesWorkspace && !canMoveOut));
+
+    const handleSubmit = async () => {
+        if (saving || blocked || !workspaceId) return;
+
+        setSaving(true);
+        try {
+            const destination = { workspaceId, topicId: topicId || null };
+            const res = mode === 'copy'
+                ? await fetch(`/api/boards/${boardId}/duplicate`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ ...destination, title }),
+                })
+                : await fetch(`/api/boards/${boardId}/move`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(destination),
+                });
+
+            if (res.ok) {
+                onDone?.(await res.json(), mode);
+                onClose();
+            } else {
+                const error = await res.json().catch(() => ({}));
+                showAlert('Error', error.error || `Failed to ${mode} board`, 'danger');
+            }
+        } catch (error) {
+            console.error(`Error trying to ${mode} board:`, error);
+            showAlert('Error', `Failed to ${mode} board`, 'danger');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 flex items-center justify-center backdrop-blur-sm"
+            style={{ zIndex: 'var(--z-modal)' }}
+            onClick={() => !saving && onClose()}
+        >
+            <div
+                className="bg-white rounded-xl p-6 max-w-md w-full mx-4 shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-2xl font-bold text-gray-900">Move or Copy Board</h2>
+                    <button onClick={onClose} className="p-1 rounded-lg text-gray-400 hover:bg-gray-100">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {loading ? (
+                    <div className="flex justify-center py-8">
+                        <Loader className="animate-spin text-blue-600" size={20} />
+                    </div>
+                ) : (
+                    <>
+                        <div className="flex gap-1 p-1 mb-4 bg-gray-100 rounded-lg">
+                            {(['copy', 'move'] as TransferMode[]).map(value => (
+                                <button
+                                    key={value}
+                                    onClick={() => setMode(value)}
+                                    className={`flex-1 py-1.5 rounded-md text-sm font-medium ${mode === value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600'}`}
+                                >
+                                    {value === 'copy' ? 'Copy' : 'Move'}
+                                </button>
+                            ))}
+                        </div>
+
+                        <div className="space-y-3 mb-6">
+                            <label className="flex flex-col gap-1 text-xs font-medium text-gray-600">
+                                Workspace
+                                <select
+                                    value={workspaceId}
+                                    onChange={(e) => {
+                                        setWorkspaceId(e.target.value);
+                                        setTopicId('');
+                                    }}
+                                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    {workspaces.map(workspace => (
+                                        <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="flex flex-col gap-1 text-xs font-medium text-gray-600">
+                                Topic
+                                <select
+                                    value={topicId}
+                                    onChange={(e) => setTopicId(e.target.value)}
+                                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    <option value="">No topic</option>
+                                    {topics.map(topic => (
+                                        <option key={topic.id} value={topic.id}>{topic.name}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            {mode === 'copy' && (
+                                <label className="flex flex-col gap-1 text-xs font-medium text-gray-600">
+                                    Name
+                                    <input
+                                        type="text"
+                                        value={title}
+                                        onChange={(e) => setTitle(e.target.value)}
+                                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    />
+                                </label>
+                            )}
+                        </div>
+
+                        <p className="text-xs text-gray-500 mb-4">
+                            {mode === 'copy'
+                                ? 'The copy gets every page and label, but not the page history or share links.'
+                                : leavesWorkspace && !canMoveOut
+                                    ? 'Only workspace owners and admins can move boards to another workspace.'
+                                    : 'The board keeps its pages, labels, history and share links.'}
+                        </p>
+
+                        <div className="flex gap-3 justify-end">
+                            <button
+                                onClick={onClose}
+                                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
+                                disabled={saving}
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleSubmit}
+                                disabled={saving || blocked || !workspaceId || (mode === 'copy' && !title.trim())}
+                                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 flex items-center gap-2"
+                            >
+                                {saving ? <Loader className="animate-spin" size={16} /> : null}
+                                {mode === 'copy' ? 'Copy Board' : 'Move Board'}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+/**
+ * CommandPalette - Search boards, pages, labels and page text (Ctrl/Cmd+K)
+ *
+ * Picking a result opens its board; results found on a page open that page
+ * and zoom to the text stroke or handwritten word (see FocusTarget).
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { FileText, Layout, Loader, PenTool, Search, Tag, Type } from 'lucide-react';
+
+type SearchResultType = 'board' | 'page' | 'label' | 'text' | 'handwriting';
+
+interface SearchResult {
+    type: SearchResultType;
+    workspaceId: string | null;
+    boardId: string;
+    boardTitle: string;
+    pageId?: string;
+    pageTitle?: string;
+    strokeId?: string;
+    area?: { x: number; y: number; width: number; height: number };
+    title: string;
+    snippet?: string;
+}
+
+interface CommandPaletteProps {
+    /** Search this workspace first; the user can widen to all of theirs */
+    workspaceId?: string;
+    onClose: () => void;
+}
+
+const ICONS = {
+    board: Layout,
+    page: FileText,
+    label: Tag,
+    text: Type,
+    handwriting: PenTool,
+};
+
+const DEBOUNCE_MS = 250;
+
+function describe(result: SearchResult) {
+    switch (result.type) {
+        case 'board': return 'Board';
+        case 'label': return `Label on ${result.boardTitle}`;
+        default: return `${result.pageTitle} · ${result.boardTitle}`;
+    }
+}
+
+function getResultUrl(result: SearchResult) {
+    const query = new URLSearchParams();
+    if (result.pageId) query.set('page', result.pageId);
+    if (result.strokeId) query.set('stroke', result.strokeId);
+    if (result.area) {
+        const { x, y, width, height } = result.area;
+        query.set('area', [x, y, width, height].map(Math.round).join(','));
+    }
+    const search = query.toString();
+    return `/board/${result.boardId}${search ? `?${search}` : ''}`;
+}
+
+export default function CommandPalette({ workspaceId, onClose }: CommandPaletteProps) {
+    const router = useRouter();
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<SearchResult[]>([]);
+    const [activeIndex, setActiveIndex] = useState(0);
+    const [loading, setLoading] = useState(false);
+    const [allWorkspaces, setAllWorkspaces] = useState(!workspaceId);
+
+    useEffect(() => {
+        inputRef.current?.focus();
+    }, []);
+
+    useEffect(() => {
+        const trimmed = query.trim();
+        if (trimmed.length < 2) {
+            setResults([]);
+            setLoading(false);
+            return;
+        }
+
+        setLoading(true);
+        const controller = new AbortController();
+        const timer = setTimeout(async () => {
+            const params = new URLSearchParams({ q: trimmed });
+            if (workspaceId && !allWorkspaces) params.set('workspaceId', workspaceId);
+
+            try {
+                const res = await fetch(`/api/search?${params}`, { signal: controller.signal });
+                if (res.ok) {
+                    const data = await res.json();
+                    setResults(data.results || []);
+                    setActiveIndex(0);
+                }
+            } catch (error) {
+                if ((error as Error).name !== 'AbortError') {
+                    console.error('Error searching:', error);
+                }
+            } finally {
+                if (!controller.signal.aborted) setLoading(false);
+            }
+        }, DEBOUNCE_MS);
+
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [query, workspaceId, allWorkspaces]);
+
+    const openResult = (result: SearchResult) => {
+        onClose();
+        router.push(getResultUrl(result));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            onClose();
+        } else if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setActiveIndex(i => Math.min(i + 1, results.length - 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex(i => Math.max(i - 1, 0));
+        } else if (e.key === 'Enter' && results[activeIndex]) {
+            e.preventDefault();
+            openResult(results[activeIndex]);
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 flex items-start justify-center pt-[15vh] backdrop-blur-sm"
+            style={{ zIndex: 'var(--z-modal)' }}
+            onClick={onClose}
+        >
+            <div
+                className="bg-white rounded-xl max-w-xl w-full mx-4 shadow-2xl overflow-hidden"
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={handleKeyDown}
+            >
+                <div className="flex items-center gap-3 px-4 border-b border-gray-200">
+                    {loading
+                        ? <Loader className="animate-spin text-blue-600 shrink-0" size={18} />
+                        : <Search className="text-gray-400 shrink-0" size={18} />}
+                    <input
+                        ref={inputRef}
+                        type="text"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search boards, pages and notes..."
+                        className="flex-1 py-4 text-gray-900 placeholder-gray-400 focus:outline-none"
+                    />
+                    {workspaceId && (
+                        <button
+                            onClick={() => setAllWorkspaces(v => !v)}
+                            className="px-2 py-1 rounded-md text-xs font-medium text-gray-600 bg-gray-100 hover:bg-gray-200 whitespace-nowrap"
+                            title="Switch search scope"
+                        >
+                            {allWorkspaces ? 'All workspaces' : 'This workspace'}
+                        </button>
+                    )}
+                </div>
+
+                <div className="max-h-96 overflow-y-auto py-2">
+                    {query.trim().length < 2 ? (
+                        <p className="px-4 py-6 text-center text-sm text-gray-500">
+                            Type at least two characters to search
+                        </p>
+                    ) : results.length === 0 && !loading ? (
+                        <p className="px-4 py-6 text-center text-sm text-gray-500">No results</p>
+                    ) : (
+                        results.map((result, index) => {
+                            const Icon = ICONS[result.type];
+                            return (
+                                <button
+                                    key={`${result.type}-${result.pageId ?? result.boardId}-${result.title}-${index}`}
+                                    onClick={() => openResult(result)}
+                                    onMouseEnter={() => setActiveIndex(index)}
+                                    className={`w-full flex items-start gap-3 px-4 py-2 text-left ${index === activeIndex ? 'bg-blue-50' : ''}`}
+                                >
+                                    <Icon size={16} className="mt-0.5 text-gray-400 shrink-0" />
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-medium text-gray-900 truncate">{result.title}</p>
+                                        <p className="text-xs text-gray-500 truncate">{describe(result)}</p>
+                                        {result.snippet && (
+                                            <p className="mt-0.5 text-xs text-gray-600 line-clamp-2">{result.snippet}</p>
+                                        )}
+                                    </div>
+                                </button>
+                            );
+                        })
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
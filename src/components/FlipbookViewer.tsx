@@ -14,9 +14,14 @@ interface FlipbookViewerProps {
     boardId: string;
     pages: PageData[];
     onDownloadPDF?: () => void;
+    embedded?: boolean; // Chrome-less for iframes: just the book and page navigation
+    initialPage?: number; // 1-based
+    initialBackground?: string; // Name from BACKGROUNDS, case-insensitive
+    initialSoundEnabled?: boolean;
+    autoplayInterval?: number; // Seconds between automatic flips; 0 = off
 }
 
-const BACKGROUNDS = [
+export const BACKGROUNDS = [
     { name: 'Light', value: 'bg-gradient-to-br from-slate-100 via-gray-50 to-white', dark: false },
     { name: 'Warm', value: 'bg-gradient-to-br from-amber-50 via-orange-50 to-yellow-50', dark: false },
     { name: 'Sky', value: 'bg-gradient-to-br from-blue-50 via-sky-50 to-cyan-50', dark: false },
@@ -25,12 +30,27 @@ const BACKGROUNDS = [
     { name: 'Dark', value: 'bg-gradient-to-br from-slate-800 via-gray-900 to-slate-900', dark: true },
 ];
 
-export default function FlipbookViewer({ boardId, pages, onDownloadPDF }: FlipbookViewerProps) {
-    const [background, setBackground] = useState(BACKGROUNDS[0]);
+export default function FlipbookViewer({
+    boardId,
+    pages,
+    onDownloadPDF,
+    embedded = false,
+    initialPage,
+    initialBackground,
+    initialSoundEnabled = true,
+    autoplayInterval = 0,
+}: FlipbookViewerProps) {
+    const totalSpreads = Math.ceil(pages.length / 2);
+
+    const [background, setBackground] = useState(
+        () => BACKGROUNDS.find(bg => bg.name.toLowerCase() === initialBackground?.toLowerCase()) ?? BACKGROUNDS[0]
+    );
     const [showBgPicker, setShowBgPicker] = useState(false);
     const [copied, setCopied] = useState(false);
-    const [soundEnabled, setSoundEnabled] = useState(true);
-    const [currentSpread, setCurrentSpread] = useState(0);
+    const [soundEnabled, setSoundEnabled] = useState(initialSoundEnabled);
+    const [currentSpread, setCurrentSpread] = useState(
+        () => initialPage ? Math.max(0, Math.min(Math.floor((initialPage - 1) / 2), totalSpreads - 1)) : 0
+    );
 
     // Drag state
     const [isDragging, setIsDragging] = useState(false);
@@ -41,8 +61,6 @@ export default function FlipbookViewer({ boardId, pages, onDownloadPDF }: Flipbo
     const bookRef = useRef<HTMLDivElement>(null);
     const dragStartX = useRef(0);
 
-    const totalSpreads = Math.ceil(pages.length / 2);
-
     const playFlipSound = useCallback(() => {
         if (!soundEnabled) return;
         const audio = new Audio('/sounds/page-flip.mp3');
@@ -169,6 +187,22 @@ export default function FlipbookViewer({ boardId, pages, onDownloadPDF }: Flipbo
         }, 400);
     };
 
+    // Autoplay: flip on a timer and start over after the last spread.
+    // Any flip restarts the timer; dragging a page pauses it.
+    useEffect(() => {
+        if (!autoplayInterval || isDragging || totalSpreads < 2) return;
+
+        const timer = setTimeout(() => {
+            if (currentSpread >= totalSpreads - 1) {
+                setCurrentSpread(0);
+            } else {
+                flipToNext();
+            }
+        }, autoplayInterval * 1000);
+
+        return () => clearTimeout(timer);
+    }, [autoplayInterval, isDragging, currentSpread, totalSpreads]);
+
     const copyLink = () => {
         navigator.clipboard.writeText(window.location.href);
         setCopied(true);
@@ -195,65 +229,69 @@ export default function FlipbookViewer({ boardId, pages, onDownloadPDF }: Flipbo
 
     return (
         <div className={`fixed inset-0 ${background.value} overflow-hidden transition-colors duration-500`}>
-            {/* Logo */}
-            <div className="absolute top-4 left-4 z-50">
-                <div className="bg-white px-4 py-2.5 rounded-2xl shadow-lg border border-gray-100">
-                    <span className="text-lg sm:text-xl font-bold tracking-tight">
-                        <span className="text-blue-600">ai</span>
-                        <span className="text-gray-900">fa</span>
-                    </span>
-                </div>
-            </div>
-
-            {/* Controls */}
-            <div className="absolute top-4 right-4 z-50 flex items-center gap-2">
-                <button
-                    onClick={() => setSoundEnabled(!soundEnabled)}
-                    className={`p-2.5 rounded-xl shadow-lg border transition-all ${isDark ? 'bg-white/10 border-white/20 text-white hover:bg-white/20' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'}`}
-                    title={soundEnabled ? "Mute Sound" : "Enable Sound"}
-                >
-                    {soundEnabled ? <Volume2 size={18} /> : <VolumeX size={18} />}
-                </button>
-
-                <div className="relative">
-                    <button
-                        onClick={() => setShowBgPicker(!showBgPicker)}
-                        className={`p-2.5 rounded-xl shadow-lg border transition-all ${isDark ? 'bg-white/10 border-white/20 text-white hover:bg-white/20' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'}`}
-                    >
-                        <Palette size={18} />
-                    </button>
-                    {showBgPicker && (
-                        <div className="absolute top-full right-0 mt-2 bg-white rounded-xl shadow-xl border border-gray-200 p-2 min-w-[140px] z-50">
-                            {BACKGROUNDS.map((bg) => (
-                                <button
-                                    key={bg.name}
-                                    onClick={() => { setBackground(bg); setShowBgPicker(false); }}
-                                    className={`w-full px-3 py-2 rounded-lg text-sm text-left flex items-center justify-between hover:bg-gray-100 ${background.name === bg.name ? 'bg-blue-50 text-blue-600' : 'text-gray-700'}`}
-                                >
-                                    {bg.name}
-                                    {background.name === bg.name && <Check size={14} />}
-                                </button>
-                            ))}
+            {/* Logo and controls stay out of embeds */}
+            {!embedded && (
+                <>
+                    <div className="absolute top-4 left-4 z-50">
+                        <div className="bg-white px-4 py-2.5 rounded-2xl shadow-lg border border-gray-100">
+                            <span className="text-lg sm:text-xl font-bold tracking-tight">
+                                <span className="text-blue-600">ai</span>
+                                <span className="text-gray-900">fa</span>
+                            </span>
                         </div>
-                    )}
-                </div>
+                    </div>
 
-                <button
-                    onClick={copyLink}
-                    className={`p-2.5 rounded-xl shadow-lg border transition-all ${isDark ? 'bg-white/10 border-white/20 text-white hover:bg-white/20' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'} ${copied ? 'bg-green-500 text-white border-green-500' : ''}`}
-                >
-                    {copied ? <Check size={18} /> : <Copy size={18} />}
-                </button>
+                    {/* Controls */}
+                    <div className="absolute top-4 right-4 z-50 flex items-center gap-2">
+                        <button
+                            onClick={() => setSoundEnabled(!soundEnabled)}
+                            className={`p-2.5 rounded-xl shadow-lg border transition-all ${isDark ? 'bg-white/10 border-white/20 text-white hover:bg-white/20' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                            title={soundEnabled ? "Mute Sound" : "Enable Sound"}
+                        >
+                            {soundEnabled ? <Volume2 size={18} /> : <VolumeX size={18} />}
+                        </button>
+
+                        <div className="relative">
+                            <button
+                                onClick={() => setShowBgPicker(!showBgPicker)}
+                                className={`p-2.5 rounded-xl shadow-lg border transition-all ${isDark ? 'bg-white/10 border-white/20 text-white hover:bg-white/20' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                            >
+                                <Palette size={18} />
+                            </button>
+                            {showBgPicker && (
+                                <div className="absolute top-full right-0 mt-2 bg-white rounded-xl shadow-xl border border-gray-200 p-2 min-w-[140px] z-50">
+                                    {BACKGROUNDS.map((bg) => (
+                                        <button
+                                            key={bg.name}
+                                            onClick={() => { setBackground(bg); setShowBgPicker(false); }}
+                                            className={`w-full px-3 py-2 rounded-lg text-sm text-left flex items-center justify-between hover:bg-gray-100 ${background.name === bg.name ? 'bg-blue-50 text-blue-600' : 'text-gray-700'}`}
+                                        >
+                                            {bg.name}
+                                            {background.name === bg.name && <Check size={14} />}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
 
-                {onDownloadPDF && (
-                    <button
-                        onClick={onDownloadPDF}
-                        className="p-2.5 rounded-xl shadow-lg bg-gradient-to-r from-blue-500 to-indigo-600 text-white hover:from-blue-600 hover:to-indigo-700 transition-all"
-                    >
-                        <Download size={18} />
-                    </button>
-                )}
-            </div>
+                        <button
+                            onClick={copyLink}
+                            className={`p-2.5 rounded-xl shadow-lg border transition-all ${isDark ? 'bg-white/10 border-white/20 text-white hover:bg-white/20' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'} ${copied ? 'bg-green-500 text-white border-green-500' : ''}`}
+                        >
+                            {copied ? <Check size={18} /> : <Copy size={18} />}
+                        </button>
+
+                        {onDownloadPDF && (
+                            <button
+                                onClick={onDownloadPDF}
+                                className="p-2.5 rounded-xl shadow-lg bg-gradient-to-r from-blue-500 to-indigo-600 text-white hover:from-blue-600 hover:to-indigo-700 transition-all"
+                            >
+                                <Download size={18} />
+                            </button>
+                        )}
+                    </div>
+                </>
+            )}
 
             {/* Full-screen Book Container */}
             <div className="absolute inset-0 flex items-center justify-center" style={{ perspective: '2500px' }}>
@@ -89,6 +89,15 @@ export default function OcrButton({ className = '' }: OcrButtonProps) {
             addStroke(newTextStroke);
             setSelectedStrokeIds([newTextStroke.id]);
 
+            // Keep the handwriting searchable even if the text stroke is removed later
+            if (currentPageId) {
+                fetch(`/api/pages/${currentPageId}/recognized-text`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ text: result.text }),
+                }).catch((error) => console.warn('Failed to index recognized text:', error));
+            }
+
             showAlert(
                 'Text Recognized!',
                 `Confidence: ${Math.round(result.confidence)}%\n\nRecognized: "${result.text.trim().substring(0, 100)}${result.text.length > 100 ? '...' : ''}"`,
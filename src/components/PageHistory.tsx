@@ -0,0 +1,193 @@
+'use client';
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { History, Loader2, RotateCcw, X } from 'lucide-react';
+import { useWhiteboardStore } from '@/store/whiteboardStore';
+import { useModal } from '@/components/providers/ModalProvider';
+import { saveManager } from '@/utils/saveManager';
+import { createSyncState } from '@/lib/strokeCrdt';
+
+interface RevisionSummary {
+    id: string;
+    version: number;
+    strokeCount: number;
+    userId: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface RevisionPreview extends RevisionSummary {
+    thumbnail: string | null;
+}
+
+const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+};
+
+export default function PageHistory() {
+    const { currentPageId, setStrokes, setBackgroundColor, setPageStyle, setStrokeSync } = useWhiteboardStore();
+    const { showAlert, showConfirm } = useModal();
+
+    const [isOpen, setIsOpen] = useState(false);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isRestoring, setIsRestoring] = useState(false);
+    const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+    const [preview, setPreview] = useState<RevisionPreview | null>(null);
+    const panelRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const fetchRevisions = useCallback(async () => {
+        if (!currentPageId) return;
+        setIsLoading(true);
+        try {
+            // Make sure the latest edits are part of the history
+            await saveManager.flushPage(currentPageId);
+            const res = await fetch(`/api/pages/${currentPageId}/revisions`, { cache: 'no-store' });
+            if (res.ok) {
+                const data = await res.json();
+                setRevisions(data.revisions || []);
+            }
+        } catch (error) {
+            console.error('Error fetching page revisions:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [currentPageId]);
+
+    useEffect(() => {
+        setPreview(null);
+        if (isOpen) fetchRevisions();
+    }, [isOpen, fetchRevisions]);
+
+    const handlePreview = async (revisionId: string) => {
+        if (!currentPageId) return;
+        try {
+            const res = await fetch(`/api/pages/${currentPageId}/revisions/${revisionId}`);
+            if (!res.ok) throw new Error('Failed to load revision');
+            setPreview(await res.json());
+        } catch (error) {
+            console.error('Error loading page revision:', error);
+            showAlert('Error', 'Failed to load this version', 'danger');
+        }
+    };
+
+    const handleRestore = async (revision: RevisionSummary) => {
+        if (!currentPageId || isRestoring) return;
+        const confirmed = await showConfirm(
+            'Restore Version',
+            `Replace this page with the version from ${formatDate(revision.updatedAt)}? The current page stays in the history.`,
+            'warning'
+        );
+        if (!confirmed) return;
+
+        setIsRestoring(true);
+        try {
+            await saveManager.flushPage(currentPageId);
+            const res = await fetch(`/api/pages/${currentPageId}/revisions/${revision.id}/restore`, {
+                method: 'POST',
+            });
+            if (!res.ok) {
+                const error = await res.json().catch(() => ({}));
+                throw new Error(error.error || 'Failed to restore version');
+            }
+
+            const page = await res.json();
+            if (useWhiteboardStore.getState().currentPageId === page.id) {
+                saveManager.setServerContent(page.id, page.content);
+                setStrokeSync(createSyncState(page.content?.sync));
+                setStrokes(page.content?.strokes || []);
+                setBackgroundColor(page.content?.backgroundColor || '#3b82f6');
+                setPageStyle(page.content?.pageStyle || 'plain');
+            }
+            setIsOpen(false);
+        } catch (error: any) {
+            console.error('Error restoring page revision:', error);
+            showAlert('Restore Failed', error.message, 'danger');
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    if (!currentPageId) return null;
+
+    return (
+        <div ref={panelRef} className="relative">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className={`p-2 rounded-full transition-colors ${isOpen ? 'bg-blue-100 text-blue-600' : 'text-slate-600 hover:bg-slate-100'}`}
+                title="Page History"
+            >
+                <History size={18} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute top-full mt-2 right-0 w-72 bg-white rounded-xl shadow-xl border border-gray-200 z-50 overflow-hidden">
+                    <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+                        <p className="text-xs font-semibold text-gray-700">Page History</p>
+                        <button onClick={() => setIsOpen(false)} className="p-1 rounded text-gray-400 hover:bg-gray-100">
+                            <X size={14} />
+                        </button>
+                    </div>
+
+                    {preview && (
+                        <div className="p-3 border-b border-gray-100 bg-gray-50">
+                            {preview.thumbnail ? (
+                                <img src={preview.thumbnail} alt="Version preview" className="w-full rounded-lg border border-gray-200 bg-white" />
+                            ) : (
+                                <div className="h-24 flex items-center justify-center rounded-lg border border-dashed border-gray-300 text-xs text-gray-400">
+                                    No preview available
+                                </div>
+                            )}
+                            <button
+                                onClick={() => handleRestore(preview)}
+                                disabled={isRestoring}
+                                className="mt-2 w-full flex items-center justify-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                            >
+                                {isRestoring ? <Loader2 size={14} className="animate-spin" /> : <RotateCcw size={14} />}
+                                Restore this version
+                            </button>
+                        </div>
+                    )}
+
+                    <div className="max-h-72 overflow-y-auto py-1">
+                        {isLoading ? (
+                            <div className="flex items-center justify-center py-6">
+                                <Loader2 size={18} className="animate-spin text-blue-500" />
+                            </div>
+                        ) : revisions.length === 0 ? (
+                            <p className="px-3 py-6 text-center text-xs text-gray-500">No saved versions yet</p>
+                        ) : (
+                            revisions.map((revision) => (
+                                <button
+                                    key={revision.id}
+                                    onClick={() => handlePreview(revision.id)}
+                                    className={`w-full flex items-center justify-between px-3 py-2 text-left text-sm transition-colors ${preview?.id === revision.id ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'}`}
+                                >
+                                    <span>{formatDate(revision.updatedAt)}</span>
+                                    <span className="text-xs text-gray-400">
+                                        {revision.strokeCount} {revision.strokeCount === 1 ? 'item' : 'items'}
+                                    </span>
+                                </button>
+                            ))
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+/**
+ * PageList - The board's pages as a list: drag to reorder, open, duplicate,
+ * insert a new page after one, or move/copy one to another board
+ */
+
+import React, { useState } from 'react';
+import { Copy, FolderInput, GripVertical, Plus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Page } from '@/store/whiteboardStore';
+
+interface PageListProps {
+    pages: Page[];
+    currentPageId: string | null;
+    canEdit: boolean;
+    busy: boolean;
+    onClose: () => void;
+    onSwitch: (pageId: string) => void;
+    onReorder: (pageIds: string[]) => void;
+    onInsert: (position: number) => void;
+    onDuplicate: (page: Page) => void;
+    onTransfer: (page: Page) => void;
+}
+
+export default function PageList({
+    pages,
+    currentPageId,
+    canEdit,
+    busy,
+    onClose,
+    onSwitch,
+    onReorder,
+    onInsert,
+    onDuplicate,
+    onTransfer,
+}: PageListProps) {
+    const [dragId, setDragId] = useState<string | null>(null);
+    // Index the dragged page would land before (pages.length = at the end)
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+    const canDrag = canEdit && !busy && pages.length > 1;
+
+    const handleDragOver = (e: React.DragEvent, index: number) => {
+        if (!dragId) return;
+        e.preventDefault();
+        const rect = e.currentTarget.getBoundingClientRect();
+        setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        if (dragId && dropIndex !== null) {
+            const from = pages.findIndex(p => p.id === dragId);
+            const to = dropIndex > from ? dropIndex - 1 : dropIndex;
+            if (from !== -1 && to !== from) {
+                const ids = pages.map(p => p.id);
+                ids.splice(from, 1);
+                ids.splice(to, 0, dragId);
+                onReorder(ids);
+            }
+        }
+        setDragId(null);
+        setDropIndex(null);
+    };
+
+    return (
+        <>
+            <div
+                className="fixed inset-0"
+                style={{ zIndex: 'var(--z-dropdown)' }}
+                onClick={onClose}
+            />
+            <div
+                className="absolute right-0 top-full mt-2 w-72 bg-white rounded-xl shadow-lg border border-gray-200 py-1 max-h-[60vh] overflow-y-auto"
+                style={{ zIndex: 'calc(var(--z-dropdown) + 1)' }}
+                onDragOver={(e) => dragId && e.preventDefault()}
+                onDrop={handleDrop}
+            >
+                {pages.map((page, index) => (
+                    <div
+                        key={page.id}
+                        draggable={canDrag}
+                        onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move';
+                            setDragId(page.id);
+                        }}
+                        onDragEnd={() => {
+                            setDragId(null);
+                            setDropIndex(null);
+                        }}
+                        onDragOver={(e) => handleDragOver(e, index)}
+                        className={cn(
+                            'group flex items-center gap-1 px-2 py-1.5 border-y-2 border-transparent',
+                            dropIndex === index && 'border-t-blue-500',
+                            dropIndex === pages.length && index === pages.length - 1 && 'border-b-blue-500',
+                            dragId === page.id && 'opacity-40'
+                        )}
+                    >
+                        <GripVertical
+                            size={14}
+                            className={cn('flex-shrink-0 text-gray-300', canDrag && 'cursor-grab text-gray-400')}
+                        />
+                        <button
+                            onClick={() => onSwitch(page.id)}
+                            className={cn(
+                                'flex-1 min-w-0 flex items-center gap-2 px-2 py-1 rounded-lg text-left text-sm hover:bg-gray-50',
+                                page.id === currentPageId ? 'text-blue-600 font-medium' : 'text-gray-700'
+                            )}
+                        >
+                            <span className="text-xs text-gray-400 tabular-nums w-5 text-right">{index + 1}</span>
+                            <span className="truncate">{page.title}</span>
+                        </button>
+                        {canEdit && (
+                            <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button
+                                    onClick={() => onInsert(index + 1)}
+                                    disabled={busy}
+                                    className="p-1 rounded-md text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                                    title="Insert page after"
+                                >
+                                    <Plus size={14} />
+                                </button>
+                                <button
+                                    onClick={() => onDuplicate(page)}
+                                    disabled={busy}
+                                    className="p-1 rounded-md text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                                    title="Duplicate page"
+                                >
+                                    <Copy size={14} />
+                                </button>
+                                <button
+                                    onClick={() => onTransfer(page)}
+                                    disabled={busy}
+                                    className="p-1 rounded-md text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                                    title="Move or copy to another board"
+                                >
+                                    <FolderInput size={14} />
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                ))}
+                {canEdit && (
+                    <button
+                        onClick={() => onInsert(0)}
+                        disabled={busy}
+                        className="w-full px-4 py-2 text-left flex items-center gap-2 hover:bg-gray-50 text-gray-600 text-sm border-t border-gray-100 disabled:opacity-50"
+                    >
+                        <Plus size={14} />
+                        <span>Insert page at the start</span>
+                    </button>
+                )}
+            </div>
+        </>
+    );
+}
@@ -1,11 +1,15 @@
 'use client';
 
-import React, { useState } from 'react';
-import { useWhiteboardStore } from '@/store/whiteboardStore';
-import { Plus, Trash2, ChevronLeft, ChevronRight } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { useWhiteboardStore, type Page } from '@/store/whiteboardStore';
+import { Plus, Trash2, ChevronLeft, ChevronRight, List } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useModal } from '@/components/providers/ModalProvider';
+import { useRealTime } from '@/components/providers/RealTimeProvider';
 import { saveManager } from '@/utils/saveManager';
+import { createSyncState } from '@/lib/strokeCrdt';
+import PageList from './PageList';
+import PageTransferDialog from './PageTransferDialog';
 
 interface PageManagerProps {
     boardId: string;
@@ -18,19 +22,28 @@ export default function PageManager({ boardId }: PageManagerProps) {
         setCurrentPageId,
         addPage,
         removePage,
+        setPages,
         replaceStrokes,
         setBackgroundColor,
-        setPageStyle
+        setPageStyle,
+        setStrokeSync,
+        focusTarget,
+        setFocusTarget
     } = useWhiteboardStore();
     const { showAlert, showConfirm } = useModal();
+    const { presenter, isPresenting, isFollowing, myRole, broadcastPagesChanged } = useRealTime();
 
     const [isLoading, setIsLoading] = useState(false);
+    const [isUpdating, setIsUpdating] = useState(false); // Reordering, duplicating, moving
+    const [showList, setShowList] = useState(false);
+    const [transferPage, setTransferPage] = useState<Page | null>(null);
 
     const currentIndex = pages.findIndex(p => p.id === currentPageId);
     const currentPageNumber = currentIndex !== -1 ? currentIndex + 1 : 0;
     const totalPages = pages.length;
 
-    const handleAddPage = async () => {
+    // Add a page at `position` (index in the page list), or at the end
+    const handleAddPage = async (position?: number) => {
         if (isLoading) return;
         if (!boardId) {
             showAlert('Error', 'Board ID is missing', 'danger');
@@ -41,6 +54,8 @@ export default function PageManager({ boardId }: PageManagerProps) {
         try {
             const res = await fetch(`/api/boards/${boardId}/pages`, {
                 method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ position }),
             });
 
             if (!res.ok) {
@@ -49,10 +64,18 @@ export default function PageManager({ boardId }: PageManagerProps) {
             }
 
             const newPage = await res.json();
-            addPage(newPage);
+            if (position === undefined) {
+                addPage(newPage);
+            } else {
+                const { pages } = useWhiteboardStore.getState();
+                setPages([...pages.slice(0, position), newPage, ...pages.slice(position)]);
+            }
+            broadcastPagesChanged([boardId]);
 
             // Switch to new page (which is empty)
             setCurrentPageId(newPage.id);
+            setStrokeSync(createSyncState());
+            saveManager.setServerContent(newPage.id, newPage.content);
             replaceStrokes([]);
             setBackgroundColor('#3b82f6'); // Default for new page
         } catch (error: any) {
@@ -78,11 +101,12 @@ export default function PageManager({ boardId }: PageManagerProps) {
             }
 
             // Also update the local cache
-            const { strokes, backgroundColor, pageStyle } = useWhiteboardStore.getState();
+            const { strokes, backgroundColor, pageStyle, strokeSync } = useWhiteboardStore.getState();
             useWhiteboardStore.getState().updatePageContent(currentPageId, {
                 strokes,
                 backgroundColor,
-                pageStyle
+                pageStyle,
+                sync: strokeSync
             });
         }
 
@@ -91,6 +115,7 @@ export default function PageManager({ boardId }: PageManagerProps) {
 
         // 3. Optimistic update - switch immediately if cached
         setCurrentPageId(pageId);
+        setStrokeSync(createSyncState(cachedContent?.sync));
         if (cachedContent) {
             replaceStrokes(cachedContent.strokes);
             setBackgroundColor(cachedContent.backgroundColor);
@@ -102,6 +127,15 @@ export default function PageManager({ boardId }: PageManagerProps) {
             setPageStyle('plain');
         }
 
+        // Unsent (offline) edits for the target page win over cache and server copy
+        const offlineContent = await saveManager.restoreFromOutbox(pageId);
+        if (offlineContent && useWhiteboardStore.getState().currentPageId === pageId) {
+            setStrokeSync(createSyncState({ ...cachedContent?.sync, seq: offlineContent.baseSeq ?? 0 }));
+            replaceStrokes(offlineContent.strokes);
+            setBackgroundColor(offlineContent.backgroundColor);
+            setPageStyle(offlineContent.pageStyle);
+        }
+
         // 4. Background fetch to ensure data is fresh (stale-while-revalidate)
 
         try {
@@ -109,17 +143,23 @@ export default function PageManager({ boardId }: PageManagerProps) {
             if (!res.ok) throw new Error('Failed to load page');
 
             const pageData = await res.json();
+            saveManager.setServerContent(pageId, pageData.content);
 
             // Update store with fresh data
             // Only update if we are still on the same page (user might have switched again)
-            if (useWhiteboardStore.getState().currentPageId === pageId) {
+            if (useWhiteboardStore.getState().currentPageId === pageId && !offlineContent) {
                 if (pageData.content) {
                     const newContent = {
                         strokes: Array.isArray(pageData.content) ? pageData.content : (pageData.content.strokes || []),
                         backgroundColor: !Array.isArray(pageData.content) ? (pageData.content.backgroundColor || '#3b82f6') : '#3b82f6',
-                        pageStyle: !Array.isArray(pageData.content) ? (pageData.content.pageStyle || 'plain') : 'plain'
+                        pageStyle: !Array.isArray(pageData.content) ? (pageData.content.pageStyle || 'plain') : 'plain',
+                        sync: createSyncState(!Array.isArray(pageData.content) ? pageData.content.sync : null)
                     };
 
+                    // The room's catch-up or live operations may already be ahead of this response
+                    if (newContent.sync.seq < useWhiteboardStore.getState().strokeSync.seq) return;
+
+                    setStrokeSync(newContent.sync);
                     replaceStrokes(newContent.strokes);
                     setBackgroundColor(newContent.backgroundColor);
                     setPageStyle(newContent.pageStyle as any);
@@ -135,6 +175,36 @@ export default function PageManager({ boardId }: PageManagerProps) {
         }
     };
 
+    // Follow the presenter to their page (retried once a running switch finishes)
+    const presenterPageId = presenter?.view?.pageId;
+    useEffect(() => {
+        if (!isFollowing || isPresenting || isLoading || !presenterPageId || presenterPageId === currentPageId) return;
+
+        const followPresenter = async () => {
+            // A page the presenter just added isn't in our list yet
+            if (!useWhiteboardStore.getState().pages.some(p => p.id === presenterPageId)) {
+                try {
+                    const res = await fetch(`/api/boards/${boardId}/pages`, { cache: 'no-store' });
+                    if (!res.ok) throw new Error('Failed to load pages');
+                    setPages(await res.json());
+                } catch (error) {
+                    console.error('Error loading pages to follow presenter:', error);
+                    return;
+                }
+            }
+            handleSwitchPage(presenterPageId);
+        };
+        followPresenter();
+    }, [presenterPageId, isFollowing, isPresenting, isLoading, currentPageId, boardId]);
+
+    // Go to the page of a focus target (search result); the canvas zooms to its stroke
+    const focusPageId = focusTarget?.pageId;
+    useEffect(() => {
+        if (!focusPageId || isLoading || focusPageId === currentPageId) return;
+        if (!pages.some(p => p.id === focusPageId)) return;
+        handleSwitchPage(focusPageId);
+    }, [focusPageId, isLoading, currentPageId, pages]);
+
     const handlePrevPage = () => {
         if (currentIndex > 0) {
             handleSwitchPage(pages[currentIndex - 1].id);
@@ -182,10 +252,87 @@ export default function PageManager({ boardId }: PageManagerProps) {
         }
     };
 
+    const handleReorder = async (pageIds: string[]) => {
+        if (isUpdating) return;
+
+        // Reorder right away; put it back if the server refuses
+        const previous = pages;
+        setPages(pageIds.map(id => pages.find(p => p.id === id)!));
+
+        setIsUpdating(true);
+        try {
+            const res = await fetch(`/api/boards/${boardId}/pages/order`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ pageIds }),
+            });
+
+            if (!res.ok) {
+                const err = await res.json().catch(() => ({}));
+                throw new Error(err.error || 'Failed to reorder pages');
+            }
+
+            setPages(await res.json());
+            broadcastPagesChanged([boardId]);
+        } catch (error: any) {
+            console.error('Error reordering pages:', error);
+            setPages(previous);
+            showAlert('Error', `Error reordering pages: ${error.message}`, 'danger');
+        } finally {
+            setIsUpdating(false);
+        }
+    };
+
+    const handleDuplicatePage = async (page: Page) => {
+        if (isUpdating) return;
+
+        setIsUpdating(true);
+        try {
+            // Whatever is still waiting to be saved belongs in the copy
+            await saveManager.flushPage(page.id).catch(() => { });
+
+            const res = await fetch(`/api/pages/${page.id}/duplicate`, { method: 'POST' });
+            if (!res.ok) {
+                const err = await res.json().catch(() => ({}));
+                throw new Error(err.error || 'Failed to duplicate page');
+            }
+
+            const copy = await res.json();
+            const { pages } = useWhiteboardStore.getState();
+            const index = pages.findIndex(p => p.id === page.id) + 1;
+            setPages([...pages.slice(0, index), copy, ...pages.slice(index)]);
+            broadcastPagesChanged([boardId]);
+            handleSwitchPage(copy.id);
+        } catch (error: any) {
+            console.error('Error duplicating page:', error);
+            showAlert('Error', `Error duplicating page: ${error.message}`, 'danger');
+        } finally {
+            setIsUpdating(false);
+        }
+    };
+
+    const handleTransferDone = (page: Page, targetBoardId: string, mode: 'copy' | 'move') => {
+        broadcastPagesChanged(mode === 'move' ? [boardId, targetBoardId] : [targetBoardId]);
+        if (mode === 'copy') {
+            showAlert('Page Copied', `A copy of "${page.title}" was added to the other board.`, 'success');
+            return;
+        }
+
+        // The moved page leaves the list; off it, go to the page now in its place
+        const index = pages.findIndex(p => p.id === page.id);
+        const remaining = pages.filter(p => p.id !== page.id);
+        setPages(remaining);
+        if (page.id === currentPageId && remaining.length > 0) {
+            setFocusTarget({ pageId: remaining[Math.min(index, remaining.length - 1)].id });
+        }
+    };
+
     if (pages.length === 0) return null;
 
+    const canEditPages = !!myRole && myRole !== 'VIEWER';
+
     return (
-        <div className="flex items-center">
+        <div className="relative flex items-center">
             <div className="bg-white/90 backdrop-blur-sm rounded-full shadow-lg border border-slate-200/60 p-1 sm:p-1.5 flex items-center gap-0.5 sm:gap-1 transition-all duration-300 hover:shadow-xl hover:bg-white">
                 {/* Previous Button */}
                 <button
@@ -212,12 +359,24 @@ export default function PageManager({ boardId }: PageManagerProps) {
                     <ChevronRight size={16} className="sm:w-5 sm:h-5" />
                 </button>
 
+                {/* Page List */}
+                <button
+                    onClick={() => setShowList(!showList)}
+                    className={cn(
+                        'p-1.5 sm:p-2 rounded-full hover:bg-slate-100 text-slate-600 transition-colors',
+                        showList && 'bg-slate-100'
+                    )}
+                    title="All Pages"
+                >
+                    <List size={16} className="sm:w-5 sm:h-5" />
+                </button>
+
                 {/* Divider - Hidden on mobile */}
                 <div className="w-px h-5 sm:h-6 bg-slate-200 mx-0.5 sm:mx-1 hidden sm:block" />
 
                 {/* Add Page */}
                 <button
-                    onClick={handleAddPage}
+                    onClick={() => handleAddPage()}
                     disabled={isLoading}
                     className="p-1.5 sm:p-2 rounded-full hover:bg-blue-50 text-blue-600 disabled:opacity-50 transition-colors"
                     title="New Page"
@@ -235,6 +394,43 @@ export default function PageManager({ boardId }: PageManagerProps) {
                     <Trash2 size={16} className="sm:w-[18px] sm:h-[18px]" />
                 </button>
             </div>
+
+            {showList && (
+                <PageList
+                    pages={pages}
+                    currentPageId={currentPageId}
+                    canEdit={canEditPages}
+                    busy={isLoading || isUpdating}
+                    onClose={() => setShowList(false)}
+                    onSwitch={(pageId) => {
+                        setShowList(false);
+                        handleSwitchPage(pageId);
+                    }}
+                    onReorder={handleReorder}
+                    onInsert={(position) => {
+                        setShowList(false);
+                        handleAddPage(position);
+                    }}
+                    onDuplicate={(page) => {
+                        setShowList(false);
+                        handleDuplicatePage(page);
+                    }}
+                    onTransfer={(page) => {
+                        setShowList(false);
+                        setTransferPage(page);
+                    }}
+                />
+            )}
+
+            {transferPage && (
+                <PageTransferDialog
+                    pageId={transferPage.id}
+                    pageTitle={transferPage.title}
+                    canMove={pages.length > 1}
+                    onClose={() => setTransferPage(null)}
+                    onDone={(_page, targetBoardId, mode) => handleTransferDone(transferPage, targetBoardId, mode)}
+                />
+            )}
         </div>
     );
 }
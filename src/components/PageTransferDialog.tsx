@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader, X } from 'lucide-react';
+import { useModal } from '@/components/providers/ModalProvider';
+
+type TransferMode = 'copy' | 'move';
+
+interface Destination {
+    id: string;
+    title: string;
+    workspaceName: string | null;
+}
+
+interface PageTransferDialogProps {
+    pageId: string;
+    pageTitle: string;
+    /** Moving is refused for a board's only page */
+    canMove: boolean;
+    onClose: () => void;
+    /** Called with the copy, or the moved page, and the board it went to */
+    onDone?: (page: { id: string; title: string; order: number }, boardId: string, mode: TransferMode) => void;
+}
+
+export default function PageTransferDialog({ pageId, pageTitle, canMove, onClose, onDone }: PageTransferDialogProps) {
+    const { showAlert } = useModal();
+    const [boards, setBoards] = useState<Destination[]>([]);
+    const [mode, setMode] = useState<TransferMode>('copy');
+    const [boardId, setBoardId] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        loadDestinations();
+    }, [pageId]);
+
+    const loadDestinations = async () => {
+        try {
+            const res = await fetch(`/api/pages/${pageId}/move`, { cache: 'no-store' });
+            if (res.ok) {
+                const data = await res.json();
+                setBoards(data.boards);
+                setBoardId(data.boards[0]?.id ?? '');
+            } else {
+                const error = await res.json().catch(() => ({}));
+                showAlert('Error', error.error || 'Failed to load boards', 'danger');
+                onClose();
+            }
+        } catch (error) {
+            console.error('Error loading page destinations:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const blocked = mode === 'move' && !canMove;
+
+    const handleSubmit = async () => {
+        if (saving || blocked || !boardId) return;
+
+        setSaving(true);
+        try {
+            const res = await fetch(`/api/pages/${pageId}/move`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ boardId, mode }),
+            });
+
+            if (res.ok) {
+                onDone?.(await res.json(), boardId, mode);
+                onClose();
+            } else {
+                const error = await res.json().catch(() => ({}));
+                showAlert('Error', error.error || `Failed to ${mode} page`, 'danger');
+            }
+        } catch (error) {
+            console.error(`Error trying to ${mode} page:`, error);
+            showAlert('Error', `Failed to ${mode} page`, 'danger');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 flex items-center justify-center backdrop-blur-sm"
+            style={{ zIndex: 'var(--z-modal)' }}
+            onClick={() => !saving && onClose()}
+        >
+            <div
+                className="bg-white rounded-xl p-6 max-w-md w-full mx-4 shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-2xl font-bold text-gray-900">Move or Copy Page</h2>
+                    <button onClick={onClose} className="p-1 rounded-lg text-gray-400 hover:bg-gray-100">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {loading ? (
+                    <div className="flex justify-center py-8">
+                        <Loader className="animate-spin text-blue-600" size={20} />
+                    </div>
+                ) : (
+                    <>
+                        <div className="flex gap-1 p-1 mb-4 bg-gray-100 rounded-lg">
+                            {(['copy', 'move'] as TransferMode[]).map(value => (
+                                <button
+                                    key={value}
+                                    onClick={() => setMode(value)}
+                                    className={`flex-1 py-1.5 rounded-md text-sm font-medium ${mode === value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600'}`}
+                                >
+                                    {value === 'copy' ? 'Copy' : 'Move'}
+                                </button>
+                            ))}
+                        </div>
+
+                        {boards.length === 0 ? (
+                            <p className="text-sm text-gray-500 mb-6">There are no other boards you can add pages to.</p>
+                        ) : (
+                            <label className="flex flex-col gap-1 text-xs font-medium text-gray-600 mb-6">
+                                Board
+                                <select
+                                    value={boardId}
+                                    onChange={(e) => setBoardId(e.target.value)}
+                                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    {boards.map(board => (
+                                        <option key={board.id} value={board.id}>
+                                            {board.workspaceName ? `${board.workspaceName} / ${board.title}` : board.title}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                        )}
+
+                        <p className="text-xs text-gray-500 mb-4">
+                            {mode === 'copy'
+                                ? `A copy of "${pageTitle}" is added at the end of the board, without its history.`
+                                : !canMove
+                                    ? 'A board needs at least one page, so its only page cannot be moved.'
+                                    : `"${pageTitle}" leaves this board, with its history, for the end of the other one.`}
+                        </p>
+
+                        <div className="flex gap-3 justify-end">
+                            <button
+                                onClick={onClose}
+                                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
+                                disabled={saving}
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleSubmit}
+                                disabled={saving || blocked || !boardId}
+                                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 flex items-center gap-2"
+                            >
+                                {saving ? <Loader className="animate-spin" size={16} /> : null}
+                                {mode === 'copy' ? 'Copy Page' : 'Move Page'}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+/**
+ * PresenterBanner - Shows who is presenting the board and whether we follow them
+ */
+
+import React from 'react';
+import { Presentation, X } from 'lucide-react';
+import { useRealTime } from '@/components/providers/RealTimeProvider';
+
+export default function PresenterBanner() {
+    const { presenter, isPresenting, isFollowing, setFollowing, stopPresenting } = useRealTime();
+
+    if (!presenter) return null;
+
+    if (isPresenting) {
+        return (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 pl-3 pr-1.5 py-1.5 bg-red-600 text-white rounded-full shadow-md text-xs font-medium">
+                <Presentation size={14} />
+                <span>You are presenting</span>
+                <button
+                    onClick={stopPresenting}
+                    className="px-2 py-0.5 rounded-full bg-white/20 hover:bg-white/30 transition-colors"
+                >
+                    Stop
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 pl-3 pr-1.5 py-1.5 bg-white/95 rounded-full shadow-md border border-gray-200 text-xs font-medium text-gray-700">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: presenter.userColor }} />
+            {isFollowing ? (
+                <>
+                    <span>Following {presenter.userName}</span>
+                    <button
+                        onClick={() => setFollowing(false)}
+                        className="flex items-center gap-1 px-2 py-0.5 rounded-full text-gray-600 bg-gray-100 hover:bg-gray-200 transition-colors"
+                        title="Stop following and move around on your own"
+                    >
+                        <X size={12} />
+                        Break away
+                    </button>
+                </>
+            ) : (
+                <>
+                    <span>{presenter.userName} is presenting</span>
+                    <button
+                        onClick={() => setFollowing(true)}
+                        className="px-2 py-0.5 rounded-full text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+                    >
+                        Follow
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,271 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BookOpen, Link2, Copy, Check, Code, Lock, Trash, Loader, X } from 'lucide-react';
+import { useModal } from '@/components/providers/ModalProvider';
+import { DEFAULT_EMBED_HEIGHT, DEFAULT_EMBED_WIDTH, getEmbedHtml, getEmbedUrl } from '@/lib/oembed';
+
+type ShareScope = 'VIEW' | 'EDIT';
+
+interface ShareLink {
+    id: string;
+    token: string;
+    scope: ShareScope;
+    hasPassword: boolean;
+    expiresAt: string | null;
+    status: 'active' | 'expired' | 'revoked';
+    createdAt: string;
+}
+
+interface ShareBoardDialogProps {
+    boardId: string;
+    onClose: () => void;
+}
+
+const SCOPE_LABELS: Record<ShareScope, string> = {
+    VIEW: 'Can view',
+    EDIT: 'Can edit',
+};
+
+const EXPIRY_OPTIONS = [
+    { label: '1 day', days: 1 },
+    { label: '7 days', days: 7 },
+    { label: '30 days', days: 30 },
+    { label: 'Never', days: 0 },
+];
+
+const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+const embedCode = (token: string) => getEmbedHtml(
+    getEmbedUrl(window.location.origin, token),
+    'Flipbook',
+    DEFAULT_EMBED_WIDTH,
+    DEFAULT_EMBED_HEIGHT
+);
+
+export default function ShareBoardDialog({ boardId, onClose }: ShareBoardDialogProps) {
+    const { showAlert, showConfirm } = useModal();
+    const [links, setLinks] = useState<ShareLink[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [creating, setCreating] = useState(false);
+    const [scope, setScope] = useState<ShareScope>('VIEW');
+    const [expiresInDays, setExpiresInDays] = useState(0);
+    const [password, setPassword] = useState('');
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadLinks();
+    }, [boardId]);
+
+    const loadLinks = async () => {
+        try {
+            const res = await fetch(`/api/boards/${boardId}/share-links`, { cache: 'no-store' });
+            if (res.ok) {
+                const data = await res.json();
+                setLinks(data.links || []);
+            }
+        } catch (error) {
+            console.error('Error loading share links:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleCopy = async (link: ShareLink, as: 'link' | 'embed' = 'link') => {
+        try {
+            await navigator.clipboard.writeText(as === 'embed' ? embedCode(link.token) : shareUrl(link.token));
+            setCopiedId(`${link.id}:${as}`);
+            setTimeout(() => setCopiedId(null), 2000);
+        } catch (error) {
+            console.error('Error copying share link:', error);
+            showAlert('Error', 'Could not copy the link', 'danger');
+        }
+    };
+
+    const handleCreate = async () => {
+        if (creating) return;
+
+        setCreating(true);
+        try {
+            const res = await fetch(`/api/boards/${boardId}/share-links`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    scope,
+                    expiresInDays,
+                    password: password || null,
+                }),
+            });
+
+            if (res.ok) {
+                const link = await res.json();
+                setLinks(prev => [link, ...prev]);
+                setPassword('');
+                handleCopy(link);
+            } else {
+                const error = await res.json();
+                showAlert('Error', error.error || 'Failed to create share link', 'danger');
+            }
+        } catch (error) {
+            console.error('Error creating share link:', error);
+            showAlert('Error', 'Failed to create share link', 'danger');
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    const handleRevoke = async (link: ShareLink) => {
+        const confirmed = await showConfirm(
+            'Revoke Link',
+            'Anyone using this link will lose access to the board.',
+            'warning'
+        );
+        if (!confirmed) return;
+
+        try {
+            const res = await fetch(`/api/boards/${boardId}/share-links/${link.id}`, {
+                method: 'DELETE',
+            });
+            if (res.ok) {
+                setLinks(prev => prev.filter(l => l.id !== link.id));
+            } else {
+                const error = await res.json();
+                showAlert('Error', error.error || 'Failed to revoke share link', 'danger');
+            }
+        } catch (error) {
+            console.error('Error revoking share link:', error);
+            showAlert('Error', 'Failed to revoke share link', 'danger');
+        }
+    };
+
+    const describe = (link: ShareLink) => {
+        if (link.status === 'expired') return 'Expired';
+        return link.expiresAt
+            ? `Expires ${new Date(link.expiresAt).toLocaleDateString()}`
+            : 'Never expires';
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 flex items-center justify-center backdrop-blur-sm"
+            style={{ zIndex: 'var(--z-modal)' }}
+            onClick={onClose}
+        >
+            <div
+                className="bg-white rounded-xl p-6 max-w-lg w-full mx-4 shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-2xl font-bold text-gray-900">Share Board</h2>
+                    <button onClick={onClose} className="p-1 rounded-lg text-gray-400 hover:bg-gray-100">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <button
+                    onClick={() => window.open(`/flipbook/${boardId}`, '_blank')}
+                    className="w-full mb-6 px-4 py-2 border border-gray-200 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 flex items-center justify-center gap-2"
+                >
+                    <BookOpen size={16} />
+                    Open flipbook
+                </button>
+
+                {/* New link */}
+                <div className="flex flex-wrap items-end gap-3 mb-6">
+                    <label className="flex flex-col gap-1 text-xs font-medium text-gray-600">
+                        Access
+                        <select
+                            value={scope}
+                            onChange={(e) => setScope(e.target.value as ShareScope)}
+                            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            {(Object.keys(SCOPE_LABELS) as ShareScope[]).map(value => (
+                                <option key={value} value={value}>{SCOPE_LABELS[value]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1 text-xs font-medium text-gray-600">
+                        Expires after
+                        <select
+                            value={expiresInDays}
+                            onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            {EXPIRY_OPTIONS.map(option => (
+                                <option key={option.days} value={option.days}>{option.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1 text-xs font-medium text-gray-600 flex-1 min-w-[120px]">
+                        Password (optional)
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </label>
+                    <button
+                        onClick={handleCreate}
+                        disabled={creating}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 flex items-center gap-2 text-sm font-medium"
+                    >
+                        {creating ? <Loader className="animate-spin" size={16} /> : <Link2 size={16} />}
+                        Create link
+                    </button>
+                </div>
+
+                {/* Existing links */}
+                <div className="max-h-72 overflow-y-auto -mx-2">
+                    {loading ? (
+                        <div className="flex justify-center py-6">
+                            <Loader className="animate-spin text-blue-600" size={20} />
+                        </div>
+                    ) : links.length === 0 ? (
+                        <p className="py-6 text-center text-sm text-gray-500">No share links yet</p>
+                    ) : (
+                        links.map(link => (
+                            <div
+                                key={link.id}
+                                className={`flex items-center gap-3 px-2 py-2 rounded-lg hover:bg-gray-50 ${link.status !== 'active' ? 'opacity-60' : ''}`}
+                            >
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium text-gray-900 flex items-center gap-1">
+                                        {SCOPE_LABELS[link.scope]}
+                                        {link.hasPassword && <Lock size={12} className="text-gray-400" />}
+                                    </p>
+                                    <p className="text-xs text-gray-500 truncate">{describe(link)}</p>
+                                </div>
+                                {link.status === 'active' && (
+                                    <button
+                                        onClick={() => handleCopy(link)}
+                                        className="p-2 rounded-lg text-gray-500 hover:bg-gray-100"
+                                        title="Copy link"
+                                    >
+                                        {copiedId === `${link.id}:link` ? <Check size={16} className="text-green-600" /> : <Copy size={16} />}
+                                    </button>
+                                )}
+                                {link.status === 'active' && !link.hasPassword && (
+                                    <button
+                                        onClick={() => handleCopy(link, 'embed')}
+                                        className="p-2 rounded-lg text-gray-500 hover:bg-gray-100"
+                                        title="Copy embed code"
+                                    >
+                                        {copiedId === `${link.id}:embed` ? <Check size={16} className="text-green-600" /> : <Code size={16} />}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => handleRevoke(link)}
+                                    className="p-2 rounded-lg text-red-500 hover:bg-red-50"
+                                    title="Revoke link"
+                                >
+                                    <Trash size={16} />
+                                </button>
+                            </div>
+                        ))
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+/**
+ * TemplateGallery - Pick what a new board starts from: a blank page, a
+ * built-in template or one saved in the workspace
+ */
+
+import { useEffect, useState } from 'react';
+import { FilePlus, Loader, Trash, X } from 'lucide-react';
+import { useModal } from '@/components/providers/ModalProvider';
+
+interface Template {
+    id: string;
+    name: string;
+    description: string | null;
+    builtIn: boolean;
+    pageCount: number;
+    preview: { backgroundColor: string; pageStyle: string };
+    canDelete: boolean;
+}
+
+interface TemplateGalleryProps {
+    workspaceId: string;
+    onClose: () => void;
+    /** Called with the chosen template, or null for a blank board */
+    onSelect: (templateId: string | null) => void;
+}
+
+const PAGE_STYLE_LABELS: Record<string, string> = {
+    plain: 'Plain',
+    ruled: 'Ruled',
+    'wide-ruled': 'Wide ruled',
+    graph: 'Graph',
+    dotted: 'Dotted',
+    music: 'Music staff',
+};
+
+export default function TemplateGallery({ workspaceId, onClose, onSelect }: TemplateGalleryProps) {
+    const { showAlert, showConfirm } = useModal();
+    const [templates, setTemplates] = useState<Template[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        loadTemplates();
+    }, [workspaceId]);
+
+    const loadTemplates = async () => {
+        try {
+            const res = await fetch(`/api/workspaces/${workspaceId}/templates`, { cache: 'no-store' });
+            if (res.ok) {
+                setTemplates(await res.json());
+            }
+        } catch (error) {
+            console.error('Error loading templates:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleDelete = async (template: Template) => {
+        const confirmed = await showConfirm(
+            'Delete Template?',
+            `"${template.name}" will no longer be offered for new boards. Boards already made from it are not affected.`,
+            'danger'
+        );
+        if (!confirmed) return;
+
+        try {
+            const res = await fetch(`/api/templates/${template.id}`, { method: 'DELETE' });
+            if (res.ok) {
+                setTemplates(prev => prev.filter(t => t.id !== template.id));
+            } else {
+                const error = await res.json().catch(() => ({}));
+                showAlert('Error', error.error || 'Failed to delete template', 'danger');
+            }
+        } catch (error) {
+            console.error('Error deleting template:', error);
+            showAlert('Error', 'Failed to delete template', 'danger');
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 flex items-center justify-center backdrop-blur-sm"
+            style={{ zIndex: 'var(--z-modal)' }}
+            onClick={onClose}
+        >
+            <div
+                className="bg-white rounded-xl p-6 max-w-2xl w-full mx-4 shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-2xl font-bold text-gray-900">New Board</h2>
+                    <button onClick={onClose} className="p-1 rounded-lg text-gray-400 hover:bg-gray-100">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {loading ? (
+                    <div className="flex justify-center py-10">
+                        <Loader className="animate-spin text-blue-600" size={24} />
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 max-h-[60vh] overflow-y-auto p-1">
+                        <button
+                            onClick={() => onSelect(null)}
+                            className="flex flex-col text-left rounded-lg border border-gray-200 hover:border-blue-400 hover:shadow-md transition-all overflow-hidden"
+                        >
+                            <div className="h-24 bg-gray-50 flex items-center justify-center">
+                                <FilePlus size={28} className="text-gray-400" />
+                            </div>
+                            <div className="p-3">
+                                <p className="text-sm font-semibold text-gray-900">Blank board</p>
+                                <p className="text-xs text-gray-500">One empty page</p>
+                            </div>
+                        </button>
+
+                        {templates.map(template => (
+                            <div
+                                key={template.id}
+                                onClick={() => onSelect(template.id)}
+                                className="group relative flex flex-col rounded-lg border border-gray-200 hover:border-blue-400 hover:shadow-md transition-all overflow-hidden cursor-pointer"
+                            >
+                                <div
+                                    className="h-24 flex items-end p-2"
+                                    style={{ backgroundColor: template.preview.backgroundColor }}
+                                >
+                                    <span className="px-2 py-0.5 rounded bg-black/30 text-white text-xs">
+                                        {PAGE_STYLE_LABELS[template.preview.pageStyle] ?? template.preview.pageStyle}
+                                    </span>
+                                </div>
+                                <div className="p-3">
+                                    <p className="text-sm font-semibold text-gray-900 truncate">{template.name}</p>
+                                    <p className="text-xs text-gray-500 line-clamp-2">
+                                        {template.description || `${template.pageCount} ${template.pageCount === 1 ? 'page' : 'pages'}`}
+                                    </p>
+                                    {!template.builtIn && (
+                                        <p className="mt-1 text-[10px] font-medium uppercase tracking-wider text-blue-600">Workspace</p>
+                                    )}
+                                </div>
+                                {template.canDelete && (
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleDelete(template);
+                                        }}
+                                        className="absolute top-2 right-2 p-1.5 rounded-md bg-white/90 text-red-600 opacity-0 group-hover:opacity-100 hover:bg-white transition-opacity"
+                                        title="Delete template"
+                                    >
+                                        <Trash size={14} />
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
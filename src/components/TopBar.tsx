@@ -2,9 +2,10 @@
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import Link from 'next/link';
-import { useStore } from 'zustand';
-import { useWhiteboardStore, type Stroke } from '@/store/whiteboardStore';
+import { useWhiteboardStore, type EraserMode, type Stroke } from '@/store/whiteboardStore';
 import { useModal } from '@/components/providers/ModalProvider';
+import { useRealTime } from '@/components/providers/RealTimeProvider';
+import { useStrokeHistory } from '@/hooks/useStrokeHistory';
 import { exportAllPagesAsPDF } from '@/utils/exportPDF';
 import {
     ChevronRight,
@@ -12,6 +13,7 @@ import {
     Pencil,
     Highlighter,
     Eraser,
+    Scissors,
     Square,
     Circle,
     Triangle,
@@ -32,12 +34,16 @@ import {
     ChevronDown,
     Share2,
     PenTool,
+    Search,
 } from 'lucide-react';
 import { SignInButton, SignedIn, SignedOut, UserButton } from '@clerk/nextjs';
 import BoardSelector from './BoardSelector';
 import WorkspaceMenu from './WorkspaceMenu';
 import RecordingButton from './RecordingButton';
 import PageManager from './PageManager';
+import PageHistory from './PageHistory';
+import ShareBoardDialog from './ShareBoardDialog';
+import CommandPalette from './CommandPalette';
 
 const COLORS = [
     '#000000', '#ffffff', '#ef4444', '#f97316', '#eab308',
@@ -117,6 +123,8 @@ export default function TopBar({
         backgroundColor,
         currentFontFamily,
         setTool,
+        eraserMode,
+        setEraserMode,
         setColor,
         setBackgroundColor,
         setWidth,
@@ -127,29 +135,22 @@ export default function TopBar({
         isMagicMode,
         toggleMagicMode,
         pages,
+        currentPageId,
         pageStyle,
         setPageStyle,
     } = useWhiteboardStore();
+    const { broadcastStrokeOperation } = useRealTime();
 
-    const { undo, redo, pastStates, futureStates } = useStore(
-        useWhiteboardStore.temporal,
-        (state) => ({
-            undo: state.undo,
-            redo: state.redo,
-            pastStates: state.pastStates,
-            futureStates: state.futureStates,
-        })
-    );
+    const { undo, redo, canUndo, canRedo } = useStrokeHistory();
 
     const { showAlert, showConfirm } = useModal();
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [expandedSection, setExpandedSection] = useState<string | null>(null);
     const [isExportingPDF, setIsExportingPDF] = useState(false);
+    const [showShareDialog, setShowShareDialog] = useState(false);
+    const [showSearch, setShowSearch] = useState(false);
     const toolbarRef = useRef<HTMLDivElement>(null);
 
-    const canUndo = pastStates.length > 0;
-    const canRedo = futureStates.length > 0;
-
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
             if (toolbarRef.current && !toolbarRef.current.contains(event.target as Node)) {
@@ -160,6 +161,18 @@ export default function TopBar({
         return () => document.removeEventListener('mousedown', handleClickOutside);
     }, []);
 
+    // Ctrl/Cmd+K opens search from anywhere the bar is shown
+    useEffect(() => {
+        const handleSearchShortcut = (event: KeyboardEvent) => {
+            if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+                event.preventDefault();
+                setShowSearch(true);
+            }
+        };
+        window.addEventListener('keydown', handleSearchShortcut);
+        return () => window.removeEventListener('keydown', handleSearchShortcut);
+    }, []);
+
     const toggleSection = (section: string) => {
         setExpandedSection(prev => prev === section ? null : section);
     };
@@ -225,21 +238,29 @@ export default function TopBar({
         }
     }, [currentBoardId, pages, showAlert]);
 
+    const handleClearPage = useCallback(async () => {
+        if (!(await showConfirm('Clear Board', 'Clear everything?', 'danger'))) return;
+        clearPage();
+        if (currentPageId) {
+            broadcastStrokeOperation({ type: 'clear', pageId: currentPageId });
+        }
+    }, [showConfirm, clearPage, currentPageId, broadcastStrokeOperation]);
+
     const handleShareFlipbook = useCallback(() => {
         if (!currentBoardId) {
             showAlert('Share Failed', 'Board ID not found', 'danger');
             return;
         }
-        const flipbookUrl = `/flipbook/${currentBoardId}`;
-        window.open(flipbookUrl, '_blank');
+        setShowShareDialog(true);
     }, [currentBoardId, showAlert]);
 
-    type ToolConfig = { id: string; icon: React.ComponentType<{ size?: number | string }>; label: string; value?: string };
+    type ToolConfig = { id: string; icon: React.ComponentType<{ size?: number | string }>; label: string; value?: string; eraserMode?: EraserMode };
 
     const drawTools: ToolConfig[] = [
         { id: 'pen', icon: Pencil, label: 'Pen', value: 'pen' },
         { id: 'highlighter', icon: Highlighter, label: 'Highlighter', value: 'highlighter' },
-        { id: 'eraser', icon: Eraser, label: 'Eraser', value: 'eraser' },
+        { id: 'eraser', icon: Eraser, label: 'Eraser', value: 'eraser', eraserMode: 'brush' },
+        { id: 'eraser-split', icon: Scissors, label: 'Precise Eraser', value: 'eraser', eraserMode: 'split' },
         { id: 'text', icon: Type, label: 'Text', value: 'text' },
     ];
 
@@ -266,298 +287,323 @@ export default function TopBar({
     const showToolbar = !!currentBoardId;
 
     return (
-        <header
-            className="w-full bg-blue-100/95 backdrop-blur-md border-b border-blue-200 shadow-sm"
-            style={{ zIndex: 'var(--z-topbar)' }}
-        >
-            <div className="flex items-center justify-between gap-1 sm:gap-2 px-2 py-1.5 sm:px-4 sm:py-2">
-                {/* Left Section: Logo + Breadcrumb */}
-                <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
-                    <Link href="/workspaces" className="flex items-center hover:opacity-80 transition-opacity">
-                        <span className="text-lg sm:text-xl font-bold tracking-tight">
-                            <span className="text-blue-600">ai</span>
-                            <span className="text-gray-900">fa</span>
-                        </span>
-                    </Link>
-
-                    {/* Breadcrumb - Hidden on mobile */}
-                    {(workspaceName || boardName) && (
-                        <div className="hidden sm:flex items-center gap-1">
-                            <ChevronRight size={14} className="text-gray-400" />
-                            {workspaceName && (
-                                currentWorkspaceId ? (
-                                    <Link href={`/workspaces/${currentWorkspaceId}`} className="text-xs font-medium text-gray-600 hover:text-blue-600 truncate max-w-[80px] md:max-w-[120px]">
-                                        {workspaceName}
-                                    </Link>
-                                ) : (
-                                    <span className="text-xs font-medium text-gray-600 truncate max-w-[80px]">{workspaceName}</span>
-                                )
-                            )}
-                            {boardName && (
-                                <>
-                                    {workspaceName && <ChevronRight size={14} className="text-gray-400" />}
-                                    <span className="text-xs font-semibold text-gray-900 truncate max-w-[80px] md:max-w-[120px]">{boardName}</span>
-                                </>
-                            )}
-                        </div>
-                    )}
-
-                    {/* Board Selector - Hidden on small screens */}
-                    {currentBoardId && (
-                        <div className="hidden md:flex items-center gap-1">
-                            <div className="w-px h-5 bg-gray-300 mx-1" />
-                            <BoardSelector currentBoardId={currentBoardId} />
-                        </div>
-                    )}
-                </div>
-
-                {/* Center Section: Toolbar */}
-                {showToolbar && (
-                    <div ref={toolbarRef} role="toolbar" aria-label="Whiteboard tools" className="flex items-center gap-0.5 bg-gray-50 rounded-xl px-1 sm:px-1.5 py-1 border border-gray-200">
-                        {/* Pointer */}
-                        <button
-                            onClick={() => setTool('select')}
-                            className={`p-1.5 rounded-lg transition-all flex-shrink-0 ${currentTool === 'select' ? 'bg-blue-100 text-blue-600' : 'text-gray-600 hover:bg-gray-100'}`}
-                            title="Pointer"
-                            aria-pressed={currentTool === 'select'}
-                            aria-label="Pointer tool"
-                        >
-                            <MousePointer2 size={18} />
-                        </button>
-
-                        {/* Draw Tools */}
-                        <div className="relative flex-shrink-0">
-                            <button
-                                onClick={() => toggleSection('draw')}
-                                className={`flex items-center gap-0.5 p-1.5 rounded-lg transition-all ${['pen', 'highlighter', 'eraser', 'text'].includes(currentTool) ? 'bg-blue-100 text-blue-600' : 'text-gray-600 hover:bg-gray-100'}`}
-                                title="Draw Tools"
-                                aria-pressed={['pen', 'highlighter', 'eraser', 'text'].includes(currentTool)}
-                                aria-label="Open draw tools"
-                            >
-                                <Pencil size={18} />
-                                <ChevronDown size={12} className="hidden sm:block" />
-                            </button>
-                            {expandedSection === 'draw' && (
-                                <div className="absolute top-full mt-2 left-0 bg-white rounded-xl shadow-xl border border-gray-200 p-2 min-w-[140px] z-50">
-                                    {drawTools.map((tool) => {
-                                        const Icon = tool.icon;
-                                        return (
-                                            <button
-                                                key={tool.id}
-                                                onClick={() => { if (tool.value) setTool(tool.value as any); setExpandedSection(null); }}
-                                                className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm transition-all ${currentTool === tool.value ? 'bg-blue-50 text-blue-600' : 'text-gray-700 hover:bg-gray-50'}`}
-                                            >
-                                                <Icon size={16} />
-                                                <span>{tool.label}</span>
-                                            </button>
-                                        );
-                                    })}
-                                </div>
-                            )}
-                        </div>
+        <>
+            <header
+                className="w-full bg-blue-100/95 backdrop-blur-md border-b border-blue-200 shadow-sm"
+                style={{ zIndex: 'var(--z-topbar)' }}
+            >
+                <div className="flex items-center justify-between gap-1 sm:gap-2 px-2 py-1.5 sm:px-4 sm:py-2">
+                    {/* Left Section: Logo + Breadcrumb */}
+                    <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
+                        <Link href="/workspaces" className="flex items-center hover:opacity-80 transition-opacity">
+                            <span className="text-lg sm:text-xl font-bold tracking-tight">
+                                <span className="text-blue-600">ai</span>
+                                <span className="text-gray-900">fa</span>
+                            </span>
+                        </Link>
+
+                        {/* Breadcrumb - Hidden on mobile */}
+                        {(workspaceName || boardName) && (
+                            <div className="hidden sm:flex items-center gap-1">
+                                <ChevronRight size={14} className="text-gray-400" />
+                                {workspaceName && (
+                                    currentWorkspaceId ? (
+                                        <Link href={`/workspaces/${currentWorkspaceId}`} className="text-xs font-medium text-gray-600 hover:text-blue-600 truncate max-w-[80px] md:max-w-[120px]">
+                                            {workspaceName}
+                                        </Link>
+                                    ) : (
+                                        <span className="text-xs font-medium text-gray-600 truncate max-w-[80px]">{workspaceName}</span>
+                                    )
+                                )}
+                                {boardName && (
+                                    <>
+                                        {workspaceName && <ChevronRight size={14} className="text-gray-400" />}
+                                        <span className="text-xs font-semibold text-gray-900 truncate max-w-[80px] md:max-w-[120px]">{boardName}</span>
+                                    </>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Board Selector - Hidden on small screens */}
+                        {currentBoardId && (
+                            <div className="hidden md:flex items-center gap-1">
+                                <div className="w-px h-5 bg-gray-300 mx-1" />
+                                <BoardSelector currentBoardId={currentBoardId} />
+                            </div>
+                        )}
+                    </div>
 
-                        {/* Shape Tools */}
-                        <div className="relative flex-shrink-0">
+                    {/* Center Section: Toolbar */}
+                    {showToolbar && (
+                        <div ref={toolbarRef} role="toolbar" aria-label="Whiteboard tools" className="flex items-center gap-0.5 bg-gray-50 rounded-xl px-1 sm:px-1.5 py-1 border border-gray-200">
+                            {/* Pointer */}
                             <button
-                                onClick={() => toggleSection('shapes')}
-                                className={`flex items-center gap-0.5 p-1.5 rounded-lg transition-all ${['rectangle', 'circle', 'triangle', 'pentagon', 'hexagon', 'star', 'line', 'arrow'].includes(currentTool) ? 'bg-blue-100 text-blue-600' : 'text-gray-600 hover:bg-gray-100'}`}
-                                title="Shapes"
-                                aria-pressed={['rectangle', 'circle', 'triangle', 'pentagon', 'hexagon', 'star', 'line', 'arrow'].includes(currentTool)}
-                                aria-label="Open shapes tools"
+                                onClick={() => setTool('select')}
+                                className={`p-1.5 rounded-lg transition-all flex-shrink-0 ${currentTool === 'select' ? 'bg-blue-100 text-blue-600' : 'text-gray-600 hover:bg-gray-100'}`}
+                                title="Pointer"
+                                aria-pressed={currentTool === 'select'}
+                                aria-label="Pointer tool"
                             >
-                                <Square size={18} />
-                                <ChevronDown size={12} className="hidden sm:block" />
+                                <MousePointer2 size={18} />
                             </button>
-                            {expandedSection === 'shapes' && (
-                                <div className="absolute top-full mt-2 left-0 bg-white rounded-xl shadow-xl border border-gray-200 p-2 min-w-[140px] z-50">
-                                    {shapeTools.map((tool) => {
-                                        const Icon = tool.icon;
-                                        return (
-                                            <button
-                                                key={tool.id}
-                                                onClick={() => { if (tool.value) setTool(tool.value as any); setExpandedSection(null); }}
-                                                className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm transition-all ${currentTool === tool.value ? 'bg-blue-50 text-blue-600' : 'text-gray-700 hover:bg-gray-50'}`}
-                                            >
-                                                <Icon size={16} />
-                                                <span>{tool.label}</span>
-                                            </button>
-                                        );
-                                    })}
-                                </div>
-                            )}
-                        </div>
 
-                        {/* Style Dropdown */}
-                        <div className="relative flex-shrink-0">
-                            <button
-                                onClick={() => toggleSection('style')}
-                                className="flex items-center gap-0.5 p-1.5 rounded-lg text-gray-600 hover:bg-gray-100 transition-all"
-                                title="Style & Colors"
-                            >
-                                <Palette size={18} />
-                                <ChevronDown size={12} className="hidden sm:block" />
-                            </button>
-                            {expandedSection === 'style' && (
-                                <div className="absolute top-full mt-2 left-1/2 -translate-x-1/2 bg-white rounded-xl shadow-xl border border-gray-200 p-3 w-[240px] z-50 space-y-3">
-                                    <div>
-                                        <p className="text-[10px] font-semibold text-gray-400 uppercase mb-1.5">Stroke</p>
-                                        <div className="flex flex-wrap gap-1.5">
-                                            {COLORS.map((color) => (
-                                                <button
-                                                    key={color}
-                                                    onClick={() => setColor(color)}
-                                                    className={`w-6 h-6 rounded-full border-2 transition-all ${currentColor === color ? 'scale-110 border-blue-500' : 'border-gray-200 hover:scale-105'}`}
-                                                    style={{ backgroundColor: color }}
-                                                />
-                                            ))}
-                                            <label className="w-6 h-6 rounded-full border-2 border-dashed border-gray-300 flex items-center justify-center cursor-pointer text-[10px] text-gray-500 hover:bg-gray-50">
-                                                +
-                                                <input
-                                                    type="color"
-                                                    value={currentColor}
-                                                    onChange={(e) => setColor(e.target.value)}
-                                                    className="sr-only"
-                                                />
-                                            </label>
-                                        </div>
-                                    </div>
-                                    <div className="border-t border-gray-100 pt-2">
-                                        <p className="text-[10px] font-semibold text-gray-400 uppercase mb-1.5">Background</p>
-                                        <div className="flex flex-wrap gap-1.5">
-                                            {CANVAS_COLORS.map((bg) => (
-                                                <button
-                                                    key={bg.value}
-                                                    onClick={() => setBackgroundColor(bg.value)}
-                                                    className={`w-6 h-6 rounded-full border-2 transition-all ${backgroundColor === bg.value ? 'scale-110 border-blue-500' : 'border-gray-200 hover:scale-105'}`}
-                                                    style={{ backgroundColor: bg.value }}
-                                                />
-                                            ))}
-                                            <label className="w-6 h-6 rounded-full border-2 border-dashed border-gray-300 flex items-center justify-center cursor-pointer text-[10px] text-gray-500 hover:bg-gray-50">
-                                                +
-                                                <input
-                                                    type="color"
-                                                    value={backgroundColor}
-                                                    onChange={(e) => setBackgroundColor(e.target.value)}
-                                                    className="sr-only"
-                                                />
-                                            </label>
-                                        </div>
-                                    </div>
-                                    <div className="border-t border-gray-100 pt-2">
-                                        <div className="flex items-center justify-between text-[10px] text-gray-500 mb-1">
-                                            <span className="font-semibold text-gray-400 uppercase">Width</span>
-                                            <span className="font-medium text-gray-700">{currentWidth}px</span>
-                                        </div>
-                                        <input type="range" min="1" max="30" value={currentWidth} onChange={(e) => setWidth(Number(e.target.value))} className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500" />
-                                    </div>
-                                    <div className="border-t border-gray-100 pt-2">
-                                        <p className="text-[10px] font-semibold text-gray-400 uppercase mb-1.5">Page Style</p>
-                                        <div className="grid grid-cols-3 gap-1">
-                                            {PAGE_STYLES.map((style) => (
+                            {/* Draw Tools */}
+                            <div className="relative flex-shrink-0">
+                                <button
+                                    onClick={() => toggleSection('draw')}
+                                    className={`flex items-center gap-0.5 p-1.5 rounded-lg transition-all ${['pen', 'highlighter', 'eraser', 'text'].includes(currentTool) ? 'bg-blue-100 text-blue-600' : 'text-gray-600 hover:bg-gray-100'}`}
+                                    title="Draw Tools"
+                                    aria-pressed={['pen', 'highlighter', 'eraser', 'text'].includes(currentTool)}
+                                    aria-label="Open draw tools"
+                                >
+                                    <Pencil size={18} />
+                                    <ChevronDown size={12} className="hidden sm:block" />
+                                </button>
+                                {expandedSection === 'draw' && (
+                                    <div className="absolute top-full mt-2 left-0 bg-white rounded-xl shadow-xl border border-gray-200 p-2 min-w-[140px] z-50">
+                                        {drawTools.map((tool) => {
+                                            const Icon = tool.icon;
+                                            const isActive = currentTool === tool.value && (!tool.eraserMode || tool.eraserMode === eraserMode);
+                                            return (
                                                 <button
-                                                    key={style.value}
-                                                    onClick={() => setPageStyle(style.value as any)}
-                                                    className={`px-2 py-1 rounded text-[10px] font-medium transition-all ${pageStyle === style.value ? 'bg-blue-100 text-blue-700' : 'bg-gray-50 text-gray-600 hover:bg-gray-100'}`}
+                                                    key={tool.id}
+                                                    onClick={() => {
+                                                        if (tool.value) setTool(tool.value as any);
+                                                        if (tool.eraserMode) setEraserMode(tool.eraserMode);
+                                                        setExpandedSection(null);
+                                                    }}
+                                                    className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm transition-all ${isActive ? 'bg-blue-50 text-blue-600' : 'text-gray-700 hover:bg-gray-50'}`}
                                                 >
-                                                    {style.label}
+                                                    <Icon size={16} />
+                                                    <span>{tool.label}</span>
                                                 </button>
-                                            ))}
-                                        </div>
+                                            );
+                                        })}
                                     </div>
-                                    <div className="border-t border-gray-100 pt-2">
-                                        <p className="text-[10px] font-semibold text-gray-400 uppercase mb-1.5">Handwriting Fonts</p>
-                                        <div className="max-h-[120px] overflow-y-auto space-y-0.5">
-                                            {HANDWRITING_FONTS.map((font) => (
+                                )}
+                            </div>
+
+                            {/* Shape Tools */}
+                            <div className="relative flex-shrink-0">
+                                <button
+                                    onClick={() => toggleSection('shapes')}
+                                    className={`flex items-center gap-0.5 p-1.5 rounded-lg transition-all ${['rectangle', 'circle', 'triangle', 'pentagon', 'hexagon', 'star', 'line', 'arrow'].includes(currentTool) ? 'bg-blue-100 text-blue-600' : 'text-gray-600 hover:bg-gray-100'}`}
+                                    title="Shapes"
+                                    aria-pressed={['rectangle', 'circle', 'triangle', 'pentagon', 'hexagon', 'star', 'line', 'arrow'].includes(currentTool)}
+                                    aria-label="Open shapes tools"
+                                >
+                                    <Square size={18} />
+                                    <ChevronDown size={12} className="hidden sm:block" />
+                                </button>
+                                {expandedSection === 'shapes' && (
+                                    <div className="absolute top-full mt-2 left-0 bg-white rounded-xl shadow-xl border border-gray-200 p-2 min-w-[140px] z-50">
+                                        {shapeTools.map((tool) => {
+                                            const Icon = tool.icon;
+                                            return (
                                                 <button
-                                                    key={font.value}
-                                                    onClick={() => { setFontFamily(font.value); }}
-                                                    className={`w-full text-left px-2 py-1 rounded text-sm transition-all ${currentFontFamily === font.value ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`}
-                                                    style={{ fontFamily: font.value }}
+                                                    key={tool.id}
+                                                    onClick={() => { if (tool.value) setTool(tool.value as any); setExpandedSection(null); }}
+                                                    className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm transition-all ${currentTool === tool.value ? 'bg-blue-50 text-blue-600' : 'text-gray-700 hover:bg-gray-50'}`}
                                                 >
-                                                    {font.label}
+                                                    <Icon size={16} />
+                                                    <span>{tool.label}</span>
                                                 </button>
-                                            ))}
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Style Dropdown */}
+                            <div className="relative flex-shrink-0">
+                                <button
+                                    onClick={() => toggleSection('style')}
+                                    className="flex items-center gap-0.5 p-1.5 rounded-lg text-gray-600 hover:bg-gray-100 transition-all"
+                                    title="Style & Colors"
+                                >
+                                    <Palette size={18} />
+                                    <ChevronDown size={12} className="hidden sm:block" />
+                                </button>
+                                {expandedSection === 'style' && (
+                                    <div className="absolute top-full mt-2 left-1/2 -translate-x-1/2 bg-white rounded-xl shadow-xl border border-gray-200 p-3 w-[240px] z-50 space-y-3">
+                                        <div>
+                                            <p className="text-[10px] font-semibold text-gray-400 uppercase mb-1.5">Stroke</p>
+                                            <div className="flex flex-wrap gap-1.5">
+                                                {COLORS.map((color) => (
+                                                    <button
+                                                        key={color}
+                                                        onClick={() => setColor(color)}
+                                                        className={`w-6 h-6 rounded-full border-2 transition-all ${currentColor === color ? 'scale-110 border-blue-500' : 'border-gray-200 hover:scale-105'}`}
+                                                        style={{ backgroundColor: color }}
+                                                    />
+                                                ))}
+                                                <label className="w-6 h-6 rounded-full border-2 border-dashed border-gray-300 flex items-center justify-center cursor-pointer text-[10px] text-gray-500 hover:bg-gray-50">
+                                                    +
+                                                    <input
+                                                        type="color"
+                                                        value={currentColor}
+                                                        onChange={(e) => setColor(e.target.value)}
+                                                        className="sr-only"
+                                                    />
+                                                </label>
+                                            </div>
+                                        </div>
+                                        <div className="border-t border-gray-100 pt-2">
+                                            <p className="text-[10px] font-semibold text-gray-400 uppercase mb-1.5">Background</p>
+                                            <div className="flex flex-wrap gap-1.5">
+                                                {CANVAS_COLORS.map((bg) => (
+                                                    <button
+                                                        key={bg.value}
+                                                        onClick={() => setBackgroundColor(bg.value)}
+                                                        className={`w-6 h-6 rounded-full border-2 transition-all ${backgroundColor === bg.value ? 'scale-110 border-blue-500' : 'border-gray-200 hover:scale-105'}`}
+                                                        style={{ backgroundColor: bg.value }}
+                                                    />
+                                                ))}
+                                                <label className="w-6 h-6 rounded-full border-2 border-dashed border-gray-300 flex items-center justify-center cursor-pointer text-[10px] text-gray-500 hover:bg-gray-50">
+                                                    +
+                                                    <input
+                                                        type="color"
+                                                        value={backgroundColor}
+                                                        onChange={(e) => setBackgroundColor(e.target.value)}
+                                                        className="sr-only"
+                                                    />
+                                                </label>
+                                            </div>
+                                        </div>
+                                        <div className="border-t border-gray-100 pt-2">
+                                            <div className="flex items-center justify-between text-[10px] text-gray-500 mb-1">
+                                                <span className="font-semibold text-gray-400 uppercase">Width</span>
+                                                <span className="font-medium text-gray-700">{currentWidth}px</span>
+                                            </div>
+                                            <input type="range" min="1" max="30" value={currentWidth} onChange={(e) => setWidth(Number(e.target.value))} className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500" />
+                                        </div>
+                                        <div className="border-t border-gray-100 pt-2">
+                                            <p className="text-[10px] font-semibold text-gray-400 uppercase mb-1.5">Page Style</p>
+                                            <div className="grid grid-cols-3 gap-1">
+                                                {PAGE_STYLES.map((style) => (
+                                                    <button
+                                                        key={style.value}
+                                                        onClick={() => setPageStyle(style.value as any)}
+                                                        className={`px-2 py-1 rounded text-[10px] font-medium transition-all ${pageStyle === style.value ? 'bg-blue-100 text-blue-700' : 'bg-gray-50 text-gray-600 hover:bg-gray-100'}`}
+                                                    >
+                                                        {style.label}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        </div>
+                                        <div className="border-t border-gray-100 pt-2">
+                                            <p className="text-[10px] font-semibold text-gray-400 uppercase mb-1.5">Handwriting Fonts</p>
+                                            <div className="max-h-[120px] overflow-y-auto space-y-0.5">
+                                                {HANDWRITING_FONTS.map((font) => (
+                                                    <button
+                                                        key={font.value}
+                                                        onClick={() => { setFontFamily(font.value); }}
+                                                        className={`w-full text-left px-2 py-1 rounded text-sm transition-all ${currentFontFamily === font.value ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`}
+                                                        style={{ fontFamily: font.value }}
+                                                    >
+                                                        {font.label}
+                                                    </button>
+                                                ))}
+                                            </div>
                                         </div>
                                     </div>
-                                </div>
-                            )}
-                        </div>
+                                )}
+                            </div>
+
+                            <div className="w-px h-5 bg-gray-300 mx-0.5 hidden sm:block flex-shrink-0" />
+
+                            {/* Undo/Redo */}
+                            <button onClick={() => undo()} disabled={!canUndo} className={`p-1.5 rounded-lg transition-all flex-shrink-0 ${!canUndo ? 'text-gray-300' : 'text-gray-600 hover:bg-gray-100'}`} title="Undo">
+                                <Undo2 size={18} />
+                            </button>
+                            <button onClick={() => redo()} disabled={!canRedo} className={`p-1.5 rounded-lg transition-all flex-shrink-0 ${!canRedo ? 'text-gray-300' : 'text-gray-600 hover:bg-gray-100'}`} title="Redo">
+                                <Redo2 size={18} />
+                            </button>
+
+                            {/* Export/Import - Hidden on mobile */}
+                            <div className="hidden sm:flex items-center gap-0.5 flex-shrink-0">
+                                <div className="w-px h-5 bg-gray-300 mx-0.5" />
+                                <button onClick={handleExportBoard} className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-100" title="Export Board"><Download size={18} /></button>
+                                <button onClick={() => fileInputRef.current?.click()} className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-100" title="Import Board"><Upload size={18} /></button>
+                                <button onClick={handleExportAllPages} disabled={isExportingPDF} className={`p-1.5 rounded-lg ${isExportingPDF ? 'text-blue-400 bg-blue-50' : 'text-gray-600 hover:bg-gray-100'}`} title="Export PDF"><FileDown size={18} /></button>
+                            </div>
 
-                        <div className="w-px h-5 bg-gray-300 mx-0.5 hidden sm:block flex-shrink-0" />
-
-                        {/* Undo/Redo */}
-                        <button onClick={() => undo()} disabled={!canUndo} className={`p-1.5 rounded-lg transition-all flex-shrink-0 ${!canUndo ? 'text-gray-300' : 'text-gray-600 hover:bg-gray-100'}`} title="Undo">
-                            <Undo2 size={18} />
-                        </button>
-                        <button onClick={() => redo()} disabled={!canRedo} className={`p-1.5 rounded-lg transition-all flex-shrink-0 ${!canRedo ? 'text-gray-300' : 'text-gray-600 hover:bg-gray-100'}`} title="Redo">
-                            <Redo2 size={18} />
-                        </button>
-
-                        {/* Export/Import - Hidden on mobile */}
-                        <div className="hidden sm:flex items-center gap-0.5 flex-shrink-0">
-                            <div className="w-px h-5 bg-gray-300 mx-0.5" />
-                            <button onClick={handleExportBoard} className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-100" title="Export Board"><Download size={18} /></button>
-                            <button onClick={() => fileInputRef.current?.click()} className="p-1.5 rounded-lg text-gray-600 hover:bg-gray-100" title="Import Board"><Upload size={18} /></button>
-                            <button onClick={handleExportAllPages} disabled={isExportingPDF} className={`p-1.5 rounded-lg ${isExportingPDF ? 'text-blue-400 bg-blue-50' : 'text-gray-600 hover:bg-gray-100'}`} title="Export PDF"><FileDown size={18} /></button>
+                            <input ref={fileInputRef} type="file" accept=".json" onChange={handleImportBoard} className="hidden" />
+
+                            {/* Share Flipbook - Always visible */}
+                            <button
+                                onClick={handleShareFlipbook}
+                                className="p-1.5 rounded-lg bg-blue-500 text-white hover:bg-blue-600 flex-shrink-0"
+                                title="Share"
+                            >
+                                <Share2 size={18} />
+                            </button>
+
+                            <div className="w-px h-5 bg-gray-300 mx-0.5 hidden sm:block flex-shrink-0" />
+
+                            {/* Clear & Magic */}
+                            <button
+                                onClick={handleClearPage}
+                                className="p-1.5 rounded-lg text-red-500 hover:bg-red-50 flex-shrink-0"
+                                title="Clear"
+                            >
+                                <Trash2 size={18} />
+                            </button>
+                            <button
+                                onClick={toggleMagicMode}
+                                className={`p-1.5 rounded-lg transition-all flex-shrink-0 ${isMagicMode ? 'bg-purple-100 text-purple-600' : 'text-gray-600 hover:bg-purple-50'}`}
+                                title="Magic Mode"
+                            >
+                                <Sparkles size={18} />
+                            </button>
                         </div>
+                    )}
 
-                        <input ref={fileInputRef} type="file" accept=".json" onChange={handleImportBoard} className="hidden" />
-
-                        {/* Share Flipbook - Always visible */}
-                        <button
-                            onClick={handleShareFlipbook}
-                            className="p-1.5 rounded-lg bg-blue-500 text-white hover:bg-blue-600 flex-shrink-0"
-                            title="Share Flipbook"
-                        >
-                            <Share2 size={18} />
-                        </button>
-
-                        <div className="w-px h-5 bg-gray-300 mx-0.5 hidden sm:block flex-shrink-0" />
-
-                        {/* Clear & Magic */}
-                        <button
-                            onClick={async () => { if (await showConfirm('Clear Board', 'Clear everything?', 'danger')) clearPage(); }}
-                            className="p-1.5 rounded-lg text-red-500 hover:bg-red-50 flex-shrink-0"
-                            title="Clear"
-                        >
-                            <Trash2 size={18} />
-                        </button>
-                        <button
-                            onClick={toggleMagicMode}
-                            className={`p-1.5 rounded-lg transition-all flex-shrink-0 ${isMagicMode ? 'bg-purple-100 text-purple-600' : 'text-gray-600 hover:bg-purple-50'}`}
-                            title="Magic Mode"
-                        >
-                            <Sparkles size={18} />
-                        </button>
-                    </div>
-                )}
-
-                {/* Right Section */}
-                <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
-                    {currentBoardId && <PageManager boardId={currentBoardId} />}
-                    {currentBoardId && <RecordingButton boardId={currentBoardId} />}
-                    <SignedIn>
-                        <WorkspaceMenu />
-                    </SignedIn>
-                    <SignedOut>
-                        <SignInButton mode="modal">
-                            <button className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors shadow-sm">
-                                Sign In
+                    {/* Right Section */}
+                    <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
+                        {currentBoardId && <PageManager boardId={currentBoardId} />}
+                        {currentBoardId && <PageHistory />}
+                        {currentBoardId && <RecordingButton boardId={currentBoardId} />}
+                        <SignedIn>
+                            <button
+                                onClick={() => setShowSearch(true)}
+                                className="p-2 rounded-lg text-gray-600 hover:bg-gray-100"
+                                title="Search (Ctrl+K)"
+                            >
+                                <Search size={18} />
                             </button>
-                        </SignInButton>
-                    </SignedOut>
-                    <SignedIn>
-                        <UserButton
-                            afterSignOutUrl="/"
-                            appearance={{
-                                elements: {
-                                    avatarBox: "w-9 h-9 border-2 border-white shadow-sm"
-                                }
-                            }}
-                        />
-                    </SignedIn>
+                            <WorkspaceMenu />
+                        </SignedIn>
+                        <SignedOut>
+                            <SignInButton mode="modal">
+                                <button className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors shadow-sm">
+                                    Sign In
+                                </button>
+                            </SignInButton>
+                        </SignedOut>
+                        <SignedIn>
+                            <UserButton
+                                afterSignOutUrl="/"
+                                appearance={{
+                                    elements: {
+                                        avatarBox: "w-9 h-9 border-2 border-white shadow-sm"
+                                    }
+                                }}
+                            />
+                        </SignedIn>
+                    </div>
                 </div>
-            </div>
-        </header>
+            </header>
+
+            {/* Rendered outside the header so the blurred bar doesn't clip the fixed overlay */}
+            {showShareDialog && currentBoardId && (
+                <ShareBoardDialog boardId={currentBoardId} onClose={() => setShowShareDialog(false)} />
+            )}
+            {showSearch && (
+                <SignedIn>
+                    <CommandPalette workspaceId={currentWorkspaceId} onClose={() => setShowSearch(false)} />
+                </SignedIn>
+            )}
+        </>
     );
 }
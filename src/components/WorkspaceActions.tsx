@@ -1,9 +1,12 @@
 'use client';
 
 import { useState } from 'react';
-import { MoreVertical, Edit, Trash, Loader } from 'lucide-react';
+import { MoreVertical, Edit, Trash, Trash2, Loader, UserPlus, Users } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { useModal } from '@/components/providers/ModalProvider';
+import WorkspaceInvites from '@/components/WorkspaceInvites';
+import WorkspaceMembers from '@/components/WorkspaceMembers';
+import WorkspaceTrash from '@/components/WorkspaceTrash';
 
 interface WorkspaceActionsProps {
     workspaceId: string;
@@ -17,6 +20,9 @@ export default function WorkspaceActions({ workspaceId, workspaceName, onUpdate
     const [showMenu, setShowMenu] = useState(false);
     const [showRenameDialog, setShowRenameDialog] = useState(false);
     const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+    const [showInvites, setShowInvites] = useState(false);
+    const [showMembers, setShowMembers] = useState(false);
+    const [showTrash, setShowTrash] = useState(false);
     const [newName, setNewName] = useState(workspaceName);
     const [loading, setLoading] = useState(false);
 
@@ -95,6 +101,39 @@ export default function WorkspaceActions({ workspaceId, workspaceName, onUpdate
                         className="absolute right-0 mt-1 bg-white rounded-lg shadow-lg border border-gray-200 py-1 min-w-[160px]"
                         style={{ zIndex: 'calc(var(--z-dropdown) + 1)' }}
                     >
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                setShowInvites(true);
+                                setShowMenu(false);
+                            }}
+                            className="w-full px-4 py-2 text-left flex items-center gap-2 hover:bg-gray-50 text-gray-700"
+                        >
+                            <UserPlus size={16} />
+                            <span>Invite people</span>
+                        </button>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                setShowMembers(true);
+                                setShowMenu(false);
+                            }}
+                            className="w-full px-4 py-2 text-left flex items-center gap-2 hover:bg-gray-50 text-gray-700"
+                        >
+                            <Users size={16} />
+                            <span>Members</span>
+                        </button>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                setShowTrash(true);
+                                setShowMenu(false);
+                            }}
+                            className="w-full px-4 py-2 text-left flex items-center gap-2 hover:bg-gray-50 text-gray-700"
+                        >
+                            <Trash2 size={16} />
+                            <span>Trash</span>
+                        </button>
                         <button
                             onClick={(e) => {
                                 e.stopPropagation();
@@ -121,6 +160,29 @@ export default function WorkspaceActions({ workspaceId, workspaceName, onUpdate
                 </>
             )}
 
+            {/* Invites Panel */}
+            {showInvites && (
+                <WorkspaceInvites workspaceId={workspaceId} onClose={() => setShowInvites(false)} />
+            )}
+
+            {/* Members Panel */}
+            {showMembers && (
+                <WorkspaceMembers
+                    workspaceId={workspaceId}
+                    onClose={() => setShowMembers(false)}
+                    onUpdate={onUpdate}
+                />
+            )}
+
+            {/* Trash Panel */}
+            {showTrash && (
+                <WorkspaceTrash
+                    workspaceId={workspaceId}
+                    onClose={() => setShowTrash(false)}
+                    onRestore={onUpdate}
+                />
+            )}
+
             {/* Rename Dialog */}
             {showRenameDialog && (
                 <div
@@ -0,0 +1,208 @@
+'use client';
+
+/**
+ * WorkspaceActivity - Timeline of who changed what in a workspace
+ *
+ * Only owners and admins can read the audit log; for everyone else the
+ * endpoint answers 403 and the timeline stays hidden.
+ */
+
+import { useEffect, useState } from 'react';
+import { History, Loader } from 'lucide-react';
+
+interface AuditUser {
+    userId: string;
+    name: string | null;
+    email: string | null;
+    imageUrl: string | null;
+}
+
+interface AuditEvent {
+    id: string;
+    action: string;
+    targetType: string;
+    targetId: string;
+    targetName: string | null;
+    boardId: string | null;
+    metadata: Record<string, any> | null;
+    createdAt: string;
+    actor: AuditUser;
+    targetUser: AuditUser | null;
+}
+
+interface WorkspaceActivityProps {
+    workspaceId: string;
+}
+
+const FILTERS = [
+    { label: 'All activity', value: '' },
+    { label: 'Boards', value: 'board' },
+    { label: 'Pages', value: 'page' },
+    { label: 'Topics', value: 'topic' },
+    { label: 'Labels', value: 'label' },
+    { label: 'Templates', value: 'template' },
+    { label: 'Members', value: 'member' },
+    { label: 'Workspace', value: 'workspace' },
+];
+
+const displayName = (user: AuditUser | null) => user?.name || user?.email || 'Someone';
+
+const role = (value: unknown) => String(value ?? '').toLowerCase();
+
+function describe(event: AuditEvent): string {
+    const name = `"${event.targetName ?? 'Untitled'}"`;
+    const from = `"${event.metadata?.from ?? ''}"`;
+    const onBoard = event.metadata?.boardTitle ? ` on "${event.metadata.boardTitle}"` : '';
+    const member = displayName(event.targetUser);
+
+    switch (event.action) {
+        case 'workspace.created': return 'created the workspace';
+        case 'workspace.renamed': return `renamed the workspace from ${from} to ${name}`;
+        case 'board.created': return `created board ${name}`;
+        case 'board.renamed': return `renamed board ${from} to ${name}`;
+        case 'board.deleted': return `moved board ${name} to the trash`;
+        case 'board.restored': return `restored board ${name} from the trash`;
+        case 'board.copied': return `copied board ${from} as ${name}`;
+        case 'board.moved': return event.metadata?.fromWorkspaceId === event.metadata?.toWorkspaceId
+            ? `moved board ${name} to another topic`
+            : `moved board ${name} between workspaces`;
+        case 'page.created': return `added page ${name}${onBoard}`;
+        case 'page.renamed': return `renamed page ${from} to ${name}${onBoard}`;
+        case 'page.deleted': return `moved page ${name}${onBoard} to the trash`;
+        case 'page.cleared': return 'cleared a page';
+        case 'page.restored': return `restored page ${name}${onBoard} from the trash`;
+        case 'page.reverted': return `restored an earlier version of page ${name}${onBoard}`;
+        case 'page.copied': return event.metadata?.fromBoardId && event.metadata.fromBoardId !== event.boardId
+            ? `copied page ${from} from "${event.metadata.fromBoardTitle ?? ''}"${onBoard}`
+            : `duplicated page ${from}${onBoard}`;
+        case 'page.moved': return `moved page ${name} from "${event.metadata?.fromBoardTitle ?? ''}"${onBoard}`;
+        case 'topic.created': return `created topic ${name}`;
+        case 'topic.renamed': return `renamed topic ${from} to ${name}`;
+        case 'topic.moved': return `moved topic ${name} between workspaces`;
+        case 'topic.deleted': return `moved topic ${name} to the trash`;
+        case 'topic.restored': return `restored topic ${name} from the trash`;
+        case 'label.created': return `created label ${name}${onBoard}`;
+        case 'label.updated': return `updated label ${name}${onBoard}`;
+        case 'label.deleted': return `deleted label ${name}${onBoard}`;
+        case 'template.created': return `saved board "${event.metadata?.boardTitle ?? ''}" as template ${name}`;
+        case 'template.deleted': return `deleted template ${name}`;
+        case 'member.joined': return `joined as ${role(event.metadata?.role)}`;
+        case 'member.role_changed': return `changed ${member}'s role from ${role(event.metadata?.from)} to ${role(event.metadata?.to)}`;
+        case 'member.removed': return `removed ${member}`;
+        case 'member.left': return 'left the workspace';
+        case 'member.ownership_transferred': return `made ${member} the workspace owner`;
+        default: return event.action;
+    }
+}
+
+export default function WorkspaceActivity({ workspaceId }: WorkspaceActivityProps) {
+    const [events, setEvents] = useState<AuditEvent[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [targetType, setTargetType] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [forbidden, setForbidden] = useState(false);
+
+    useEffect(() => {
+        setLoading(true);
+        loadEvents(null);
+    }, [workspaceId, targetType]);
+
+    const loadEvents = async (before: string | null) => {
+        const query = new URLSearchParams();
+        if (targetType) query.set('targetType', targetType);
+        if (before) query.set('before', before);
+
+        try {
+            const res = await fetch(`/api/workspaces/${workspaceId}/audit?${query}`, { cache: 'no-store' });
+            if (res.status === 403) {
+                setForbidden(true);
+                return;
+            }
+            if (res.ok) {
+                const data = await res.json();
+                setEvents(prev => before ? [...prev, ...data.events] : data.events);
+                setNextCursor(data.nextCursor);
+            }
+        } catch (error) {
+            console.error('Error loading workspace activity:', error);
+        } finally {
+            setLoading(false);
+            setLoadingMore(false);
+        }
+    };
+
+    const handleLoadMore = () => {
+        if (!nextCursor || loadingMore) return;
+        setLoadingMore(true);
+        loadEvents(nextCursor);
+    };
+
+    if (forbidden) return null;
+
+    return (
+        <section className="mt-12">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="flex items-center gap-2 text-xl font-semibold text-gray-900">
+                    <History size={20} className="text-gray-500" />
+                    Activity
+                </h2>
+                <select
+                    value={targetType}
+                    onChange={(e) => setTargetType(e.target.value)}
+                    className="px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-900 bg-white shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    {FILTERS.map(filter => (
+                        <option key={filter.value} value={filter.value}>{filter.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="bg-white border border-gray-200 rounded-xl shadow-sm">
+                {loading ? (
+                    <div className="flex justify-center py-8">
+                        <Loader className="animate-spin text-blue-600" size={20} />
+                    </div>
+                ) : events.length === 0 ? (
+                    <p className="py-8 text-center text-sm text-gray-500">No activity yet</p>
+                ) : (
+                    <ol className="divide-y divide-gray-100">
+                        {events.map(event => (
+                            <li key={event.id} className="flex items-center gap-3 px-4 py-3">
+                                {event.actor.imageUrl ? (
+                                    <img src={event.actor.imageUrl} alt="" className="w-8 h-8 rounded-full shrink-0" />
+                                ) : (
+                                    <div className="w-8 h-8 rounded-full bg-gray-200 shrink-0" />
+                                )}
+                                <p className="flex-1 min-w-0 text-sm text-gray-700">
+                                    <span className="font-medium text-gray-900">{displayName(event.actor)}</span>{' '}
+                                    {describe(event)}
+                                </p>
+                                <time
+                                    dateTime={event.createdAt}
+                                    title={new Date(event.createdAt).toLocaleString()}
+                                    className="text-xs text-gray-400 whitespace-nowrap"
+                                >
+                                    {new Date(event.createdAt).toLocaleDateString()}
+                                </time>
+                            </li>
+                        ))}
+                    </ol>
+                )}
+            </div>
+
+            {nextCursor && !loading && (
+                <div className="flex justify-center mt-4">
+                    <button
+                        onClick={handleLoadMore}
+                        disabled={loadingMore}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-60 flex items-center gap-2"
+                    >
+                        {loadingMore && <Loader className="animate-spin" size={14} />}
+                        Load more
+                    </button>
+                </div>
+            )}
+        </section>
+    );
+}
@@ -0,0 +1,265 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Link2, Copy, Check, Trash, Loader, X } from 'lucide-react';
+import { useModal } from '@/components/providers/ModalProvider';
+
+type InviteRole = 'ADMIN' | 'MEMBER' | 'VIEWER';
+
+interface Invitation {
+    id: string;
+    token: string;
+    email: string | null;
+    role: InviteRole;
+    maxUses: number | null;
+    useCount: number;
+    expiresAt: string | null;
+    status: 'active' | 'expired' | 'revoked' | 'used';
+    createdAt: string;
+}
+
+interface WorkspaceInvitesProps {
+    workspaceId: string;
+    onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+    { label: '1 day', days: 1 },
+    { label: '7 days', days: 7 },
+    { label: '30 days', days: 30 },
+    { label: 'Never', days: 0 },
+];
+
+const inviteUrl = (token: string) => `${window.location.origin}/invite/${token}`;
+
+export default function WorkspaceInvites({ workspaceId, onClose }: WorkspaceInvitesProps) {
+    const { showAlert, showConfirm } = useModal();
+    const [invitations, setInvitations] = useState<Invitation[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [creating, setCreating] = useState(false);
+    const [email, setEmail] = useState('');
+    const [role, setRole] = useState<InviteRole>('MEMBER');
+    const [expiresInDays, setExpiresInDays] = useState(7);
+    const [singleUse, setSingleUse] = useState(false);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadInvitations();
+    }, [workspaceId]);
+
+    const loadInvitations = async () => {
+        try {
+            const res = await fetch(`/api/workspaces/${workspaceId}/invitations`, { cache: 'no-store' });
+            if (res.ok) {
+                const data = await res.json();
+                setInvitations(data.invitations || []);
+            } else {
+                const error = await res.json().catch(() => ({}));
+                showAlert('Error', error.error || 'Failed to load invitations', 'danger');
+                onClose();
+            }
+        } catch (error) {
+            console.error('Error loading invitations:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleCopy = async (invitation: Invitation) => {
+        try {
+            await navigator.clipboard.writeText(inviteUrl(invitation.token));
+            setCopiedId(invitation.id);
+            setTimeout(() => setCopiedId(null), 2000);
+        } catch (error) {
+            console.error('Error copying invite link:', error);
+            showAlert('Error', 'Could not copy the link', 'danger');
+        }
+    };
+
+    const handleCreate = async () => {
+        if (creating || !email.trim()) return;
+
+        setCreating(true);
+        try {
+            const res = await fetch(`/api/workspaces/${workspaceId}/invitations`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    email,
+                    role,
+                    expiresInDays,
+                    maxUses: singleUse ? 1 : null,
+                }),
+            });
+
+            if (res.ok) {
+                const invitation = await res.json();
+                setInvitations(prev => [invitation, ...prev]);
+                setEmail('');
+                handleCopy(invitation);
+            } else {
+                const error = await res.json();
+                showAlert('Error', error.error || 'Failed to create invite link', 'danger');
+            }
+        } catch (error) {
+            console.error('Error creating invitation:', error);
+            showAlert('Error', 'Failed to create invite link', 'danger');
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    const handleRevoke = async (invitation: Invitation) => {
+        const confirmed = await showConfirm(
+            'Revoke Link',
+            'People who already joined keep their access, but nobody else can use this link.',
+            'warning'
+        );
+        if (!confirmed) return;
+
+        try {
+            const res = await fetch(`/api/workspaces/${workspaceId}/invitations/${invitation.id}`, {
+                method: 'DELETE',
+            });
+            if (res.ok) {
+                setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+            } else {
+                const error = await res.json();
+                showAlert('Error', error.error || 'Failed to revoke invite link', 'danger');
+            }
+        } catch (error) {
+            console.error('Error revoking invitation:', error);
+            showAlert('Error', 'Failed to revoke invite link', 'danger');
+        }
+    };
+
+    const describe = (invitation: Invitation) => {
+        const uses = invitation.maxUses === 1
+            ? 'Single use'
+            : `${invitation.useCount} joined`;
+        if (invitation.status !== 'active') {
+            return `${uses} · ${invitation.status === 'used' ? 'Used' : 'Expired'}`;
+        }
+        return invitation.expiresAt
+            ? `${uses} · Expires ${new Date(invitation.expiresAt).toLocaleDateString()}`
+            : `${uses} · Never expires`;
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 flex items-center justify-center backdrop-blur-sm"
+            style={{ zIndex: 'var(--z-modal)' }}
+            onClick={onClose}
+        >
+            <div
+                className="bg-white rounded-xl p-6 max-w-lg w-full mx-4 shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-2xl font-bold text-gray-900">Invite People</h2>
+                    <button onClick={onClose} className="p-1 rounded-lg text-gray-400 hover:bg-gray-100">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {/* New link */}
+                <div className="flex flex-wrap items-end gap-3 mb-6">
+                    <label className="flex flex-col gap-1 text-xs font-medium text-gray-600 w-full">
+                        Email
+                        <input
+                            type="email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                            placeholder="name@example.com"
+                            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-xs font-medium text-gray-600">
+                        Role
+                        <select
+                            value={role}
+                            onChange={(e) => setRole(e.target.value as InviteRole)}
+                            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            <option value="VIEWER">Viewer</option>
+                            <option value="MEMBER">Member</option>
+                            <option value="ADMIN">Admin</option>
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1 text-xs font-medium text-gray-600">
+                        Expires after
+                        <select
+                            value={expiresInDays}
+                            onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            {EXPIRY_OPTIONS.map(option => (
+                                <option key={option.days} value={option.days}>{option.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2 py-2 text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={singleUse}
+                            onChange={(e) => setSingleUse(e.target.checked)}
+                            className="rounded border-gray-300"
+                        />
+                        Single use
+                    </label>
+                    <button
+                        onClick={handleCreate}
+                        disabled={creating || !email.trim()}
+                        className="ml-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 flex items-center gap-2 text-sm font-medium"
+                    >
+                        {creating ? <Loader className="animate-spin" size={16} /> : <Link2 size={16} />}
+                        Create link
+                    </button>
+                </div>
+
+                {/* Existing links */}
+                <div className="max-h-72 overflow-y-auto -mx-2">
+                    {loading ? (
+                        <div className="flex justify-center py-6">
+                            <Loader className="animate-spin text-blue-600" size={20} />
+                        </div>
+                    ) : invitations.length === 0 ? (
+                        <p className="py-6 text-center text-sm text-gray-500">No invite links yet</p>
+                    ) : (
+                        invitations.map(invitation => (
+                            <div
+                                key={invitation.id}
+                                className={`flex items-center gap-3 px-2 py-2 rounded-lg hover:bg-gray-50 ${invitation.status !== 'active' ? 'opacity-60' : ''}`}
+                            >
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium text-gray-900 truncate">
+                                        {invitation.email}{' '}
+                                        <span className="font-normal text-gray-500 capitalize">· {invitation.role.toLowerCase()}</span>
+                                    </p>
+                                    <p className="text-xs text-gray-500 truncate">{describe(invitation)}</p>
+                                </div>
+                                {invitation.status === 'active' && (
+                                    <button
+                                        onClick={() => handleCopy(invitation)}
+                                        className="p-2 rounded-lg text-gray-500 hover:bg-gray-100"
+                                        title="Copy link"
+                                    >
+                                        {copiedId === invitation.id ? <Check size={16} className="text-green-600" /> : <Copy size={16} />}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => handleRevoke(invitation)}
+                                    className="p-2 rounded-lg text-red-500 hover:bg-red-50"
+                                    title="Revoke link"
+                                >
+                                    <Trash size={16} />
+                                </button>
+                            </div>
+                        ))
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
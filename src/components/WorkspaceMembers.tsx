@@ -0,0 +1,254 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Crown, Trash, Loader, X } from 'lucide-react';
+import { useUser } from '@clerk/nextjs';
+import { useModal } from '@/components/providers/ModalProvider';
+
+type MemberRole = 'OWNER' | 'ADMIN' | 'MEMBER' | 'VIEWER';
+
+interface Member {
+    id: string;
+    userId: string;
+    role: MemberRole;
+    name: string | null;
+    email: string | null;
+    imageUrl: string | null;
+}
+
+interface WorkspaceMembersProps {
+    workspaceId: string;
+    onClose: () => void;
+    onUpdate?: () => void;
+}
+
+const ROLE_OPTIONS: { value: MemberRole; label: string }[] = [
+    { value: 'OWNER', label: 'Owner' },
+    { value: 'ADMIN', label: 'Admin' },
+    { value: 'MEMBER', label: 'Member' },
+    { value: 'VIEWER', label: 'Viewer' },
+];
+
+export default function WorkspaceMembers({ workspaceId, onClose, onUpdate }: WorkspaceMembersProps) {
+    const { user } = useUser();
+    const { showAlert, showConfirm } = useModal();
+    const [members, setMembers] = useState<Member[]>([]);
+    const [ownerId, setOwnerId] = useState<string | null>(null);
+    const [currentUserRole, setCurrentUserRole] = useState<MemberRole | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [savingId, setSavingId] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadMembers();
+    }, [workspaceId]);
+
+    const loadMembers = async () => {
+        try {
+            const res = await fetch(`/api/workspaces/${workspaceId}/members`, { cache: 'no-store' });
+            if (res.ok) {
+                const data = await res.json();
+                setMembers(data.members || []);
+                setOwnerId(data.ownerId);
+                setCurrentUserRole(data.currentUserRole);
+            } else {
+                const error = await res.json().catch(() => ({}));
+                showAlert('Error', error.error || 'Failed to load members', 'danger');
+                onClose();
+            }
+        } catch (error) {
+            console.error('Error loading members:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Mirrors the server's rules so we only offer what will succeed
+    const canManage = (member: Member) => {
+        if (member.userId === ownerId) return false;
+        if (currentUserRole === 'OWNER') return true;
+        return currentUserRole === 'ADMIN' && (member.role === 'MEMBER' || member.role === 'VIEWER');
+    };
+
+    const roleOptionsFor = () => currentUserRole === 'OWNER'
+        ? ROLE_OPTIONS
+        : ROLE_OPTIONS.filter(option => option.value === 'MEMBER' || option.value === 'VIEWER');
+
+    const handleRoleChange = async (member: Member, role: MemberRole) => {
+        setSavingId(member.id);
+        try {
+            const res = await fetch(`/api/workspaces/${workspaceId}/members/${member.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ role }),
+            });
+            if (res.ok) {
+                setMembers(prev => prev.map(m => m.id === member.id ? { ...m, role } : m));
+            } else {
+                const error = await res.json();
+                showAlert('Error', error.error || 'Failed to change role', 'danger');
+            }
+        } catch (error) {
+            console.error('Error changing role:', error);
+            showAlert('Error', 'Failed to change role', 'danger');
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    const handleRemove = async (member: Member) => {
+        const isSelf = member.userId === user?.id;
+        const confirmed = await showConfirm(
+            isSelf ? 'Leave Workspace' : 'Remove Member',
+            isSelf
+                ? 'You will lose access to all boards in this workspace.'
+                : `${member.name || member.email || 'This member'} will lose access to all boards in this workspace.`,
+            'danger'
+        );
+        if (!confirmed) return;
+
+        setSavingId(member.id);
+        try {
+            const res = await fetch(`/api/workspaces/${workspaceId}/members/${member.id}`, {
+                method: 'DELETE',
+            });
+            if (res.ok) {
+                if (isSelf) {
+                    window.location.href = '/workspaces';
+                    return;
+                }
+                setMembers(prev => prev.filter(m => m.id !== member.id));
+            } else {
+                const error = await res.json();
+                showAlert('Error', error.error || 'Failed to remove member', 'danger');
+            }
+        } catch (error) {
+            console.error('Error removing member:', error);
+            showAlert('Error', 'Failed to remove member', 'danger');
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    const handleTransfer = async (member: Member) => {
+        const confirmed = await showConfirm(
+            'Transfer Ownership',
+            `${member.name || member.email || 'This member'} will become the workspace owner. You will stay on as an admin.`,
+            'warning'
+        );
+        if (!confirmed) return;
+
+        setSavingId(member.id);
+        try {
+            const res = await fetch(`/api/workspaces/${workspaceId}/members/transfer`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ memberId: member.id }),
+            });
+            if (res.ok) {
+                await loadMembers();
+                onUpdate?.();
+            } else {
+                const error = await res.json();
+                showAlert('Error', error.error || 'Failed to transfer ownership', 'danger');
+            }
+        } catch (error) {
+            console.error('Error transferring ownership:', error);
+            showAlert('Error', 'Failed to transfer ownership', 'danger');
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 flex items-center justify-center backdrop-blur-sm"
+            style={{ zIndex: 'var(--z-modal)' }}
+            onClick={onClose}
+        >
+            <div
+                className="bg-white rounded-xl p-6 max-w-lg w-full mx-4 shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-2xl font-bold text-gray-900">Members</h2>
+                    <button onClick={onClose} className="p-1 rounded-lg text-gray-400 hover:bg-gray-100">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="max-h-96 overflow-y-auto -mx-2">
+                    {loading ? (
+                        <div className="flex justify-center py-6">
+                            <Loader className="animate-spin text-blue-600" size={20} />
+                        </div>
+                    ) : (
+                        members.map(member => {
+                            const isSelf = member.userId === user?.id;
+                            const isPrimaryOwner = member.userId === ownerId;
+                            const manageable = canManage(member);
+
+                            return (
+                                <div key={member.id} className="flex items-center gap-3 px-2 py-2 rounded-lg hover:bg-gray-50">
+                                    {member.imageUrl ? (
+                                        <img src={member.imageUrl} alt="" className="w-8 h-8 rounded-full" />
+                                    ) : (
+                                        <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center text-xs font-medium text-gray-600">
+                                            {(member.name || member.email || '?').charAt(0).toUpperCase()}
+                                        </div>
+                                    )}
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-medium text-gray-900 truncate flex items-center gap-1">
+                                            {member.name || member.email || 'Unknown user'}
+                                            {isSelf && <span className="text-gray-400 font-normal">(you)</span>}
+                                            {isPrimaryOwner && <Crown size={12} className="text-amber-500" />}
+                                        </p>
+                                        {member.name && member.email && (
+                                            <p className="text-xs text-gray-500 truncate">{member.email}</p>
+                                        )}
+                                    </div>
+
+                                    {savingId === member.id ? (
+                                        <Loader className="animate-spin text-gray-400" size={16} />
+                                    ) : manageable ? (
+                                        <select
+                                            value={member.role}
+                                            onChange={(e) => handleRoleChange(member, e.target.value as MemberRole)}
+                                            className="px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        >
+                                            {roleOptionsFor().map(option => (
+                                                <option key={option.value} value={option.value}>{option.label}</option>
+                                            ))}
+                                        </select>
+                                    ) : (
+                                        <span className="text-xs text-gray-500 capitalize">{member.role.toLowerCase()}</span>
+                                    )}
+
+                                    {user?.id === ownerId && !isPrimaryOwner && (
+                                        <button
+                                            onClick={() => handleTransfer(member)}
+                                            disabled={savingId !== null}
+                                            className="p-2 rounded-lg text-gray-500 hover:bg-gray-100"
+                                            title="Make owner"
+                                        >
+                                            <Crown size={16} />
+                                        </button>
+                                    )}
+                                    {(manageable || (isSelf && !isPrimaryOwner)) && (
+                                        <button
+                                            onClick={() => handleRemove(member)}
+                                            disabled={savingId !== null}
+                                            className="p-2 rounded-lg text-red-500 hover:bg-red-50"
+                                            title={isSelf ? 'Leave workspace' : 'Remove member'}
+                                        >
+                                            <Trash size={16} />
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
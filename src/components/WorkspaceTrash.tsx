@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FileText, Folder, Layout, Loader, RotateCcw, X } from 'lucide-react';
+import { useModal } from '@/components/providers/ModalProvider';
+
+type TrashItemType = 'board' | 'page' | 'topic';
+
+interface TrashItem {
+    type: TrashItemType;
+    id: string;
+    name: string;
+    deletedAt: string;
+    purgeAt: string;
+    deletedBy: { userId: string; name: string | null; email: string | null } | null;
+    boardCount?: number;
+    pageCount?: number;
+    board?: { id: string; title: string; inTrash: boolean };
+    canRestore: boolean;
+}
+
+interface WorkspaceTrashProps {
+    workspaceId: string;
+    onClose: () => void;
+    onRestore?: () => void;
+}
+
+const ICONS = {
+    board: Layout,
+    page: FileText,
+    topic: Folder,
+};
+
+const RESTORE_URLS: Record<TrashItemType, (id: string) => string> = {
+    board: (id) => `/api/boards/${id}/restore`,
+    page: (id) => `/api/pages/${id}/restore`,
+    topic: (id) => `/api/topics/${id}/restore`,
+};
+
+export default function WorkspaceTrash({ workspaceId, onClose, onRestore }: WorkspaceTrashProps) {
+    const { showAlert } = useModal();
+    const [items, setItems] = useState<TrashItem[]>([]);
+    const [retentionDays, setRetentionDays] = useState(30);
+    const [loading, setLoading] = useState(true);
+    const [restoringId, setRestoringId] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadTrash();
+    }, [workspaceId]);
+
+    const loadTrash = async () => {
+        try {
+            const res = await fetch(`/api/workspaces/${workspaceId}/trash`, { cache: 'no-store' });
+            if (res.ok) {
+                const data = await res.json();
+                setItems(data.items || []);
+                setRetentionDays(data.retentionDays);
+            } else {
+                const error = await res.json().catch(() => ({}));
+                showAlert('Error', error.error || 'Failed to load trash', 'danger');
+                onClose();
+            }
+        } catch (error) {
+            console.error('Error loading trash:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRestore = async (item: TrashItem) => {
+        if (restoringId) return;
+
+        setRestoringId(item.id);
+        try {
+            const res = await fetch(RESTORE_URLS[item.type](item.id), { method: 'POST' });
+            if (res.ok) {
+                // Restoring a topic or board can bring back more than one row
+                await loadTrash();
+                onRestore?.();
+            } else {
+                const error = await res.json().catch(() => ({}));
+                showAlert('Error', error.error || `Failed to restore ${item.type}`, 'danger');
+            }
+        } catch (error) {
+            console.error(`Error restoring ${item.type}:`, error);
+            showAlert('Error', `Failed to restore ${item.type}`, 'danger');
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    const describe = (item: TrashItem) => {
+        const who = item.deletedBy?.name || item.deletedBy?.email || 'Someone';
+        const contents = item.type === 'topic'
+            ? `${item.boardCount} ${item.boardCount === 1 ? 'board' : 'boards'} · `
+            : item.type === 'board'
+                ? `${item.pageCount} ${item.pageCount === 1 ? 'page' : 'pages'} · `
+                : `${item.board?.title} · `;
+        return `${contents}Deleted by ${who} on ${new Date(item.deletedAt).toLocaleDateString()}`;
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 flex items-center justify-center backdrop-blur-sm"
+            style={{ zIndex: 'var(--z-modal)' }}
+            onClick={onClose}
+        >
+            <div
+                className="bg-white rounded-xl p-6 max-w-lg w-full mx-4 shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between mb-1">
+                    <h2 className="text-2xl font-bold text-gray-900">Trash</h2>
+                    <button onClick={onClose} className="p-1 rounded-lg text-gray-400 hover:bg-gray-100">
+                        <X size={20} />
+                    </button>
+                </div>
+                <p className="text-sm text-gray-500 mb-4">
+                    Items are deleted permanently {retentionDays} days after they were moved here.
+                </p>
+
+                <div className="max-h-96 overflow-y-auto -mx-2">
+                    {loading ? (
+                        <div className="flex justify-center py-6">
+                            <Loader className="animate-spin text-blue-600" size={20} />
+                        </div>
+                    ) : items.length === 0 ? (
+                        <p className="py-6 text-center text-sm text-gray-500">Trash is empty</p>
+                    ) : (
+                        items.map(item => {
+                            const Icon = ICONS[item.type];
+                            const blocked = item.type === 'page' && item.board?.inTrash;
+                            return (
+                                <div key={item.id} className="flex items-center gap-3 px-2 py-2 rounded-lg hover:bg-gray-50">
+                                    <Icon size={18} className="text-gray-400 shrink-0" />
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-medium text-gray-900 truncate">{item.name}</p>
+                                        <p className="text-xs text-gray-500 truncate">{describe(item)}</p>
+                                    </div>
+                                    {item.canRestore && (
+                                        <button
+                                            onClick={() => handleRestore(item)}
+                                            disabled={!!restoringId || blocked}
+                                            className="px-3 py-1.5 rounded-lg text-sm text-blue-600 hover:bg-blue-50 disabled:text-gray-300 disabled:hover:bg-transparent flex items-center gap-1.5"
+                                            title={blocked ? 'Restore its board first' : `Restore ${item.type}`}
+                                        >
+                                            {restoringId === item.id
+                                                ? <Loader className="animate-spin" size={14} />
+                                                : <RotateCcw size={14} />}
+                                            Restore
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -7,13 +7,41 @@
  * - Socket.io connection management
  * - User presence tracking
  * - Cursor synchronization
- * - Stroke operation broadcasting
+ * - Stroke operation broadcasting (stamped for the stroke CRDT)
+ * - Live streaming of strokes being drawn, shown remotely as ghost strokes
+ * - Presenter mode: follow the presenter's page and view, or break away
+ * - Page list sync when pages are added, reordered, moved or copied
+ * - Offline outbox replay on reconnect
+ *
+ * Speaks the typed protocol in lib/socketProtocol.ts; a server on another
+ * protocol version refuses the handshake and `connectionError` explains why.
  */
 
-import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react';
+import React, { createContext, useContext, useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { useUser } from '@clerk/nextjs';
-import { Stroke } from '@/store/whiteboardStore';
+import { useAuth, useUser } from '@clerk/nextjs';
+import { useWhiteboardStore, type Stroke } from '@/store/whiteboardStore';
+import type { StrokeOperation, StrokeSyncState } from '@/lib/strokeCrdt';
+import {
+    PROTOCOL_VERSION,
+    SOCKET_PATH,
+    type CatchUpPayload,
+    type ClientToServerEvents,
+    type HandshakeAuth,
+    type HandshakeErrorData,
+    type JoinedPayload,
+    type PagesUpdatePayload,
+    type PresenterState,
+    type PresenterView,
+    type RoomRole,
+    type ServerToClientEvents,
+    type StrokeProgressPayload,
+} from '@/lib/socketProtocol';
+import { offlineOutbox } from '@/utils/offlineOutbox';
+import { saveManager } from '@/utils/saveManager';
+import { useModal } from '@/components/providers/ModalProvider';
+
+export type { StrokeOperation };
 
 export interface RemoteUser {
     socketId: string;
@@ -23,28 +51,48 @@ export interface RemoteUser {
     cursor?: { x: number; y: number };
 }
 
-export interface StrokeOperation {
-    type: 'add' | 'update' | 'delete' | 'clear';
-    stroke?: Stroke;
-    strokeId?: string;
-    pageId: string;
-    userId: string;
-    timestamp: number;
-    senderId?: string;
+type ClientSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// Log position the canvas has applied for a page, if it is the page on screen
+function appliedSeq(pageId: string): number | undefined {
+    const { currentPageId, strokeSync } = useWhiteboardStore.getState();
+    return currentPageId === pageId ? strokeSync.seq : undefined;
+}
+
+type OutgoingStrokeOperation = Omit<StrokeOperation, 'userId' | 'timestamp' | 'opId' | 'clock' | 'seq' | 'senderId'>;
+
+// A local stroke being streamed: what was sent last and the pending trailing send
+interface StreamedStroke {
+    latest: Stroke;
+    sent: Stroke | null;
+    lastSentAt: number;
+    timer: ReturnType<typeof setTimeout> | null;
 }
 
 interface RealTimeContextType {
     isConnected: boolean;
+    connectionError: string | null;
     remoteUsers: RemoteUser[];
     remoteCursors: Map<string, { x: number; y: number; color: string; name: string }>;
     mySocketId: string | null;
     myColor: string | null;
+    myRole: RoomRole | null; // Room role granted by the server (VIEWER is read-only)
+    remoteActiveStrokes: Stroke[]; // Strokes others are drawing right now
+    presenter: PresenterState | null;
+    isPresenting: boolean;
+    isFollowing: boolean; // Following the presenter (until the user breaks away)
 
     // Actions
     joinBoard: (boardId: string, pageId: string) => void;
     leaveBoard: () => void;
     broadcastCursor: (x: number, y: number) => void;
-    broadcastStrokeOperation: (operation: Omit<StrokeOperation, 'userId' | 'timestamp'>) => void;
+    broadcastStrokeOperation: (operation: OutgoingStrokeOperation) => void;
+    streamActiveStrokes: (strokes: Stroke[]) => void;
+    startPresenting: () => void;
+    stopPresenting: () => void;
+    broadcastPresenterView: (view: PresenterView) => void;
+    setFollowing: (following: boolean) => void;
+    broadcastPagesChanged: (boardIds: string[]) => void;
 
     // Event handlers (set by canvas)
     onRemoteStrokeOperation?: (operation: StrokeOperation) => void;
@@ -67,43 +115,86 @@ interface RealTimeProviderProps {
 
 export function RealTimeProvider({ children }: RealTimeProviderProps) {
     const { user, isLoaded } = useUser();
-    const [socket, setSocket] = useState<Socket | null>(null);
+    const { getToken } = useAuth();
+    const { showAlert } = useModal();
+    const [socket, setSocket] = useState<ClientSocket | null>(null);
     const [isConnected, setIsConnected] = useState(false);
+    const [connectionError, setConnectionError] = useState<string | null>(null);
     const [remoteUsers, setRemoteUsers] = useState<RemoteUser[]>([]);
     const [remoteCursors, setRemoteCursors] = useState<Map<string, { x: number; y: number; color: string; name: string }>>(new Map());
     const [mySocketId, setMySocketId] = useState<string | null>(null);
     const [myColor, setMyColor] = useState<string | null>(null);
+    const [myRole, setMyRole] = useState<RoomRole | null>(null);
+    const [ghostStrokes, setGhostStrokes] = useState<Map<string, Stroke>>(new Map());
+    const [presenter, setPresenter] = useState<PresenterState | null>(null);
+    const [isFollowing, setFollowing] = useState(true);
 
     const currentBoardRef = useRef<{ boardId: string; pageId: string } | null>(null);
     const onRemoteStrokeOperationRef = useRef<((operation: StrokeOperation) => void) | undefined>();
+    // Our operations the server hasn't acknowledged, with the page as it was before each
+    const unackedOperations = useRef<Map<string, { operation: StrokeOperation; before: { strokes: Stroke[]; sync: StrokeSyncState } }>>(new Map());
+    const lastRejectionNotice = useRef<number>(0);
+    // Log position the server announced past a gap, and whether it is being fetched
+    const gapTarget = useRef<{ pageId: string; seq: number } | null>(null);
+    const fillingGap = useRef(false);
+    const REJECTION_NOTICE_INTERVAL_MS = 10000;
 
     // Throttle cursor updates
     const lastCursorUpdate = useRef<number>(0);
     const CURSOR_THROTTLE_MS = 50; // 20 FPS max
 
+    // Throttle in-progress stroke updates
+    const streamedStrokes = useRef<Map<string, StreamedStroke>>(new Map());
+    const ghostSeenAt = useRef<Map<string, number>>(new Map());
+    const STROKE_PROGRESS_THROTTLE_MS = 50;
+    const GHOST_STROKE_TIMEOUT_MS = 5000;
+
+    // Throttle presenter view updates (trailing, so the final view is always sent)
+    const pendingPresenterView = useRef<PresenterView | null>(null);
+    const presenterViewTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const PRESENTER_VIEW_THROTTLE_MS = 100;
+
     // Initialize socket connection
     useEffect(() => {
         if (!isLoaded) return;
 
-        const socketInstance = io({
-            path: '/api/socket',
+        const socketInstance: ClientSocket = io({
+            path: SOCKET_PATH,
             transports: ['websocket', 'polling'],
             reconnection: true,
             reconnectionAttempts: 5,
             reconnectionDelay: 1000,
+            // Fresh session token on every (re)connect; the server verifies it
+            auth: (cb) => {
+                const send = (token: string | null) => {
+                    const auth: HandshakeAuth = { token, protocolVersion: PROTOCOL_VERSION };
+                    cb(auth);
+                };
+                getToken().then(send, () => send(null));
+            },
         });
 
+        // A new presentation starts with everyone following
+        const updatePresenter = (next: PresenterState | null) => {
+            setPresenter(prev => {
+                if (next && next.socketId !== prev?.socketId) setFollowing(true);
+                return next;
+            });
+        };
+
         socketInstance.on('connect', () => {
             console.log('[RealTime] Connected to server');
             setIsConnected(true);
+            setConnectionError(null);
+            saveManager.replayOutbox();
 
             // Rejoin board if we were in one
             if (currentBoardRef.current && user) {
                 socketInstance.emit('join-board', {
                     boardId: currentBoardRef.current.boardId,
                     pageId: currentBoardRef.current.pageId,
-                    userId: user.id,
-                    userName: user.fullName || user.emailAddresses[0]?.emailAddress || 'Anonymous'
+                    userName: user.fullName || user.emailAddresses[0]?.emailAddress || 'Anonymous',
+                    sinceSeq: appliedSeq(currentBoardRef.current.pageId)
                 });
             }
         });
@@ -113,26 +204,102 @@ export function RealTimeProvider({ children }: RealTimeProviderProps) {
             setIsConnected(false);
         });
 
-        socketInstance.on('joined', (data: { socketId: string; userColor: string; users: RemoteUser[] }) => {
+        socketInstance.on('connect_error', (err: Error & { data?: HandshakeErrorData }) => {
+            console.warn('[RealTime] Connection refused:', err.message);
+            if (err.data?.code === 'PROTOCOL_MISMATCH') {
+                // Retrying can't help until the page is reloaded with a matching client
+                setConnectionError(err.message);
+                socketInstance.disconnect();
+            }
+        });
+
+        socketInstance.on('join-error', (data) => {
+            console.warn('[RealTime] Could not join board:', data.message);
+            setMyRole(null);
+        });
+
+        socketInstance.on('joined', (data: JoinedPayload) => {
             console.log('[RealTime] Joined room:', data);
             setMySocketId(data.socketId);
             setMyColor(data.userColor);
+            setMyRole(data.role);
             // Filter out self from users
             setRemoteUsers(data.users.filter(u => u.socketId !== data.socketId));
+            updatePresenter(data.presenter);
+
+            // Resend operations the server never acknowledged (it drops replays by opId)
+            const pageId = currentBoardRef.current?.pageId;
+            if (pageId) {
+                offlineOutbox.getOperations(pageId).then((operations) => {
+                    operations.forEach((operation) => socketInstance.emit('stroke-operation', operation));
+                });
+            }
         });
 
-        socketInstance.on('presence-update', (users: RemoteUser[]) => {
+        const applyCatchUp = (data: CatchUpPayload) => {
+            if (data.pageId !== useWhiteboardStore.getState().currentPageId) return;
+
+            if (data.snapshot) {
+                saveManager.applyServerContent(data.pageId, data.snapshot);
+            } else if (data.operations?.length) {
+                console.log(`[RealTime] Catching up ${data.operations.length} stroke operations`);
+                data.operations.forEach((operation) => onRemoteStrokeOperationRef.current?.(operation));
+            }
+        };
+
+        // The server is past a log position we have not reached: fetch the operations in between
+        const fillGap = async (pageId: string, seq: number) => {
+            if (gapTarget.current?.pageId !== pageId || gapTarget.current.seq < seq) {
+                gapTarget.current = { pageId, seq };
+            }
+            if (fillingGap.current) return;
+
+            fillingGap.current = true;
+            try {
+                for (;;) {
+                    const { currentPageId, strokeSync } = useWhiteboardStore.getState();
+                    const target = gapTarget.current;
+                    if (!target || target.pageId !== currentPageId || strokeSync.seq >= target.seq) break;
+
+                    const response = await fetch(`/api/pages/${currentPageId}/operations?since=${strokeSync.seq}`);
+                    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+                    applyCatchUp(await response.json());
+
+                    // Kept over unsaved local edits; the next save merges instead
+                    if (useWhiteboardStore.getState().strokeSync.seq === strokeSync.seq) break;
+                }
+            } catch (error) {
+                console.error('[RealTime] Failed to fetch missing stroke operations:', error);
+            } finally {
+                fillingGap.current = false;
+            }
+        };
+
+        // Whatever was logged while we were away (or before we loaded the page)
+        socketInstance.on('catch-up', applyCatchUp);
+
+        socketInstance.on('presenter-update', (data) => updatePresenter(data));
+
+        socketInstance.on('pages-update', (data: PagesUpdatePayload) => {
+            if (data.boardId !== currentBoardRef.current?.boardId || data.pages.length === 0) return;
+
+            const { pages, currentPageId, setPages, setFocusTarget } = useWhiteboardStore.getState();
+            setPages(data.pages);
+
+            // Our page went to another board: go to the page now in its place
+            if (currentPageId && !data.pages.some(p => p.id === currentPageId)) {
+                const index = Math.min(pages.findIndex(p => p.id === currentPageId), data.pages.length - 1);
+                setFocusTarget({ pageId: data.pages[Math.max(0, index)].id });
+            }
+        });
+
+        socketInstance.on('presence-update', (users) => {
             // Filter out self
             const others = users.filter(u => u.socketId !== socketInstance.id);
             setRemoteUsers(others);
         });
 
-        socketInstance.on('cursor-update', (data: {
-            socketId: string;
-            cursor: { x: number; y: number };
-            userColor: string;
-            userName: string;
-        }) => {
+        socketInstance.on('cursor-update', (data) => {
             setRemoteCursors(prev => {
                 const updated = new Map(prev);
                 updated.set(data.socketId, {
@@ -145,11 +312,84 @@ export function RealTimeProvider({ children }: RealTimeProviderProps) {
             });
         });
 
-        socketInstance.on('stroke-operation', (operation: StrokeOperation) => {
+        socketInstance.on('stroke-progress', (data: StrokeProgressPayload) => {
+            if (data.pageId !== useWhiteboardStore.getState().currentPageId) return;
+
+            ghostSeenAt.current.set(data.strokeId, Date.now());
+            setGhostStrokes(prev => {
+                const base = data.style ? { ...data.style, points: [] } : prev.get(data.strokeId);
+                // Missed the first batch: the finished stroke still arrives as 'add'
+                if (!base) return prev;
+
+                const updated = new Map(prev);
+                updated.set(data.strokeId, {
+                    ...base,
+                    points: [...base.points.slice(0, data.offset), ...data.points]
+                });
+                return updated;
+            });
+        });
+
+        socketInstance.on('stroke-operation', (operation) => {
             console.log('[RealTime] Received stroke operation:', operation.type);
+
+            // The finished stroke replaces its ghost
+            const strokeId = operation.stroke?.id ?? operation.strokeId;
+            if (strokeId && ghostSeenAt.current.delete(strokeId)) {
+                setGhostStrokes(prev => {
+                    const updated = new Map(prev);
+                    updated.delete(strokeId);
+                    return updated;
+                });
+            }
+
             if (onRemoteStrokeOperationRef.current) {
                 onRemoteStrokeOperationRef.current(operation);
             }
+
+            // Arrived ahead of operations logged before it (another node, a reconnect)
+            const { currentPageId, strokeSync } = useWhiteboardStore.getState();
+            if (operation.pageId === currentPageId && operation.seq && operation.seq > strokeSync.seq) {
+                fillGap(operation.pageId, operation.seq);
+            }
+        });
+
+        // Our own operation was logged: advance the page's log position, unless
+        // operations logged before it have not reached us yet
+        socketInstance.on('stroke-ack', (data) => {
+            offlineOutbox.deleteOperation(data.opId);
+            unackedOperations.current.delete(data.opId);
+            const { currentPageId, strokeSync, setStrokeSync } = useWhiteboardStore.getState();
+            if (data.pageId !== currentPageId || data.seq <= strokeSync.seq) return;
+
+            if (data.seq === strokeSync.seq + 1) {
+                setStrokeSync({ ...strokeSync, seq: data.seq });
+            } else {
+                fillGap(data.pageId, data.seq);
+            }
+        });
+
+        socketInstance.on('stroke-error', (data) => {
+            console.warn('[RealTime] Stroke operation rejected:', data.message);
+            // Stays in the outbox: resent on the next join, or dropped once a page save covers it
+            if (data.retryable) return;
+
+            // Resending can never succeed: forget it and take it back off the canvas
+            offlineOutbox.deleteOperation(data.opId);
+            const sent = unackedOperations.current.get(data.opId);
+            unackedOperations.current.delete(data.opId);
+
+            const store = useWhiteboardStore.getState();
+            if (sent && sent.operation.pageId === store.currentPageId) {
+                store.revertStrokeOperation(sent.operation, sent.before);
+            }
+
+            // A batch of refusals (say, after losing edit access) makes one notice
+            const now = Date.now();
+            if (now - lastRejectionNotice.current >= REJECTION_NOTICE_INTERVAL_MS) {
+                lastRejectionNotice.current = now;
+                showAlert('Change not saved', data.message, 'danger');
+            }
         });
 
         setSocket(socketInstance);
@@ -157,7 +397,18 @@ export function RealTimeProvider({ children }: RealTimeProviderProps) {
         return () => {
             socketInstance.disconnect();
         };
-    }, [isLoaded, user]);
+    }, [isLoaded, user, getToken, showAlert]);
+
+    // Presence heartbeat, so idle users aren't pruned from the room
+    useEffect(() => {
+        if (!socket || !isConnected || !mySocketId) return;
+
+        const interval = setInterval(() => {
+            socket.emit('ping-presence');
+        }, 20000);
+
+        return () => clearInterval(interval);
+    }, [socket, isConnected, mySocketId]);
 
     // Remove stale cursors
     useEffect(() => {
@@ -178,6 +429,26 @@ export function RealTimeProvider({ children }: RealTimeProviderProps) {
         return () => clearInterval(interval);
     }, [remoteUsers]);
 
+    // Remove ghosts of strokes that were never finished (sender left or cancelled)
+    useEffect(() => {
+        const interval = setInterval(() => {
+            const now = Date.now();
+            const stale = Array.from(ghostSeenAt.current)
+                .filter(([, seenAt]) => now - seenAt > GHOST_STROKE_TIMEOUT_MS)
+                .map(([strokeId]) => strokeId);
+            if (stale.length === 0) return;
+
+            stale.forEach(strokeId => ghostSeenAt.current.delete(strokeId));
+            setGhostStrokes(prev => {
+                const updated = new Map(prev);
+                stale.forEach(strokeId => updated.delete(strokeId));
+                return updated;
+            });
+        }, 1000);
+
+        return () => clearInterval(interval);
+    }, []);
+
     const joinBoard = useCallback((boardId: string, pageId: string) => {
         if (!socket || !user) return;
 
@@ -186,8 +457,8 @@ export function RealTimeProvider({ children }: RealTimeProviderProps) {
         socket.emit('join-board', {
             boardId,
             pageId,
-            userId: user.id,
-            userName: user.fullName || user.emailAddresses[0]?.emailAddress || 'Anonymous'
+            userName: user.fullName || user.emailAddresses[0]?.emailAddress || 'Anonymous',
+            sinceSeq: appliedSeq(pageId)
         });
     }, [socket, user]);
 
@@ -195,6 +466,8 @@ export function RealTimeProvider({ children }: RealTimeProviderProps) {
         currentBoardRef.current = null;
         setRemoteUsers([]);
         setRemoteCursors(new Map());
+        ghostSeenAt.current.clear();
+        setGhostStrokes(new Map());
     }, []);
 
     const broadcastCursor = useCallback((x: number, y: number) => {
@@ -207,30 +480,152 @@ export function RealTimeProvider({ children }: RealTimeProviderProps) {
         socket.emit('cursor-move', { x, y });
     }, [socket, isConnected]);
 
-    const broadcastStrokeOperation = useCallback((operation: Omit<StrokeOperation, 'userId' | 'timestamp'>) => {
-        if (!socket || !isConnected || !user) return;
+    const broadcastStrokeOperation = useCallback((operation: OutgoingStrokeOperation) => {
+        if (!user) return;
 
-        socket.emit('stroke-operation', {
+        // Stamp with the next Lamport clock and record it locally, so a later
+        // remote write to the same stroke is ordered against ours
+        const store = useWhiteboardStore.getState();
+        const stamped: StrokeOperation = {
             ...operation,
             userId: user.id,
-            timestamp: Date.now()
+            timestamp: Date.now(),
+            opId: crypto.randomUUID(),
+            clock: store.strokeSync.clock + 1,
+        };
+        unackedOperations.current.set(stamped.opId, {
+            operation: stamped,
+            before: { strokes: store.strokes, sync: store.strokeSync },
         });
+        store.applyStrokeOperation(stamped);
+
+        // Kept until acknowledged, so it is resent after a reconnect or reload
+        offlineOutbox.putOperation(stamped);
+
+        if (!socket || !isConnected) return;
+        socket.emit('stroke-operation', stamped);
     }, [socket, isConnected, user]);
 
+    const sendStrokeProgress = useCallback((strokeId: string) => {
+        const entry = streamedStrokes.current.get(strokeId);
+        if (!entry) return;
+        entry.timer = null;
+
+        const { latest, sent } = entry;
+        if (!socket || !isConnected || latest === sent) return;
+
+        // Freehand strokes only grow; shapes keep their start and move the end
+        const sentCount = sent?.points.length ?? 0;
+        const offset = latest.shapeType ? Math.min(sentCount, 1) : sentCount;
+        const { points, ...style } = latest;
+
+        socket.emit('stroke-progress', {
+            pageId: latest.pageId,
+            strokeId,
+            offset,
+            points: points.slice(offset),
+            ...(offset === 0 && { style })
+        });
+        entry.sent = latest;
+        entry.lastSentAt = Date.now();
+    }, [socket, isConnected]);
+
+    /**
+     * Stream the strokes currently being drawn (the store's activeStrokes) as
+     * throttled point deltas. Strokes no longer passed in have ended; their
+     * 'add' operation finishes them remotely.
+     */
+    const streamActiveStrokes = useCallback((strokes: Stroke[]) => {
+        const streamed = streamedStrokes.current;
+        const activeIds = new Set(strokes.map(stroke => stroke.id));
+        for (const [strokeId, entry] of streamed) {
+            if (!activeIds.has(strokeId)) {
+                if (entry.timer) clearTimeout(entry.timer);
+                streamed.delete(strokeId);
+            }
+        }
+
+        if (myRole === 'VIEWER') return;
+
+        const now = Date.now();
+        for (const stroke of strokes) {
+            let entry = streamed.get(stroke.id);
+            if (!entry) {
+                entry = { latest: stroke, sent: null, lastSentAt: 0, timer: null };
+                streamed.set(stroke.id, entry);
+            }
+            entry.latest = stroke;
+            if (entry.timer) continue;
+
+            const wait = STROKE_PROGRESS_THROTTLE_MS - (now - entry.lastSentAt);
+            if (wait <= 0) {
+                sendStrokeProgress(stroke.id);
+            } else {
+                entry.timer = setTimeout(() => sendStrokeProgress(stroke.id), wait);
+            }
+        }
+    }, [myRole, sendStrokeProgress]);
+
+    const isPresenting = !!presenter && presenter.socketId === mySocketId;
+
+    const startPresenting = useCallback(() => {
+        if (!socket || !isConnected) return;
+        socket.emit('start-presenting');
+    }, [socket, isConnected]);
+
+    const stopPresenting = useCallback(() => {
+        if (!socket) return;
+        socket.emit('stop-presenting');
+        setPresenter(prev => (prev?.socketId === socket.id ? null : prev));
+    }, [socket]);
+
+    const broadcastPresenterView = useCallback((view: PresenterView) => {
+        if (!socket || !isConnected) return;
+
+        pendingPresenterView.current = view;
+        if (presenterViewTimer.current) return;
+        presenterViewTimer.current = setTimeout(() => {
+            presenterViewTimer.current = null;
+            if (pendingPresenterView.current) {
+                socket.emit('presenter-view', pendingPresenterView.current);
+                pendingPresenterView.current = null;
+            }
+        }, PRESENTER_VIEW_THROTTLE_MS);
+    }, [socket, isConnected]);
+
+    const broadcastPagesChanged = useCallback((boardIds: string[]) => {
+        if (!socket || !isConnected) return;
+        socket.emit('pages-changed', { boardIds });
+    }, [socket, isConnected]);
+
+    const remoteActiveStrokes = useMemo(() => Array.from(ghostStrokes.values()), [ghostStrokes]);
+
     const setOnRemoteStrokeOperation = useCallback((handler: (operation: StrokeOperation) => void) => {
         onRemoteStrokeOperationRef.current = handler;
     }, []);
 
     const value: RealTimeContextType = {
         isConnected,
+        connectionError,
         remoteUsers,
         remoteCursors,
         mySocketId,
         myColor,
+        myRole,
+        remoteActiveStrokes,
+        presenter,
+        isPresenting,
+        isFollowing,
         joinBoard,
         leaveBoard,
         broadcastCursor,
         broadcastStrokeOperation,
+        streamActiveStrokes,
+        startPresenting,
+        stopPresenting,
+        broadcastPresenterView,
+        setFollowing,
+        broadcastPagesChanged,
         setOnRemoteStrokeOperation
     };
 
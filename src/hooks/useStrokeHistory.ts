@@ -0,0 +1,82 @@
+'use client';
+
+/**
+ * useStrokeHistory - undo / redo that collaborators see too
+ *
+ * Each step is diffed against the strokes before it and sent as stroke
+ * operations: deletes for strokes it took away, adds for strokes it brought
+ * back and updates for strokes it changed. A stroke that comes back after
+ * its delete was broadcast is tombstoned on every replica, so it is
+ * re-added under a new id.
+ */
+
+import { useCallback } from 'react';
+import { useStore } from 'zustand';
+import { useWhiteboardStore, type Stroke } from '@/store/whiteboardStore';
+import { useRealTime } from '@/components/providers/RealTimeProvider';
+
+interface UseStrokeHistoryReturn {
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+}
+
+export function useStrokeHistory(): UseStrokeHistoryReturn {
+    const { broadcastStrokeOperation } = useRealTime();
+    const { canUndo, canRedo } = useStore(
+        useWhiteboardStore.temporal,
+        (state) => ({
+            canUndo: state.pastStates.length > 0,
+            canRedo: state.futureStates.length > 0,
+        })
+    );
+
+    const step = useCallback((direction: 'undo' | 'redo') => {
+        const temporal = useWhiteboardStore.temporal.getState();
+        const before = useWhiteboardStore.getState().strokes;
+        temporal[direction]();
+
+        const { strokes: after, strokeSync, currentPageId, setStrokes } = useWhiteboardStore.getState();
+        if (!currentPageId) return;
+
+        // Applying our own operations must not become history of its own
+        temporal.pause();
+        try {
+            const previous = new Map(before.map(stroke => [stroke.id, stroke]));
+            const next = new Set(after.map(stroke => stroke.id));
+
+            const renamed = new Map<string, Stroke>();
+            after.forEach(stroke => {
+                if (!previous.has(stroke.id) && strokeSync.entries[stroke.id]?.deleted) {
+                    renamed.set(stroke.id, { ...stroke, id: crypto.randomUUID() });
+                }
+            });
+            if (renamed.size > 0) {
+                setStrokes(after.map(stroke => renamed.get(stroke.id) ?? stroke));
+            }
+
+            before.forEach(stroke => {
+                if (!next.has(stroke.id)) {
+                    broadcastStrokeOperation({ type: 'delete', strokeId: stroke.id, pageId: currentPageId });
+                }
+            });
+            after.forEach(stroke => {
+                const sent = renamed.get(stroke.id) ?? stroke;
+                const old = previous.get(stroke.id);
+                if (!old) {
+                    broadcastStrokeOperation({ type: 'add', stroke: sent, pageId: currentPageId });
+                } else if (old !== stroke) {
+                    broadcastStrokeOperation({ type: 'update', stroke: sent, strokeId: sent.id, pageId: currentPageId });
+                }
+            });
+        } finally {
+            temporal.resume();
+        }
+    }, [broadcastStrokeOperation]);
+
+    const undo = useCallback(() => step('undo'), [step]);
+    const redo = useCallback(() => step('redo'), [step]);
+
+    return { undo, redo, canUndo, canRedo };
+}
@@ -0,0 +1,89 @@
+/**
+ * Audit log - who did what in a workspace
+ *
+ * Route handlers (and the socket server, for page clears) record an event
+ * after a change succeeds. Events keep the target's name, so they still read
+ * well after the target is deleted. Recording is best effort: a failed write
+ * is logged and never fails the change itself.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+export type AuditTargetType = 'workspace' | 'board' | 'page' | 'topic' | 'label' | 'member' | 'template';
+
+export type AuditAction =
+    | 'workspace.created'
+    | 'workspace.renamed'
+    | 'board.created'
+    | 'board.renamed'
+    | 'board.deleted'
+    | 'board.restored'
+    | 'board.copied'
+    | 'board.moved'
+    | 'page.created'
+    | 'page.renamed'
+    | 'page.deleted'
+    | 'page.cleared'
+    | 'page.restored'
+    | 'page.reverted'
+    | 'page.copied'
+    | 'page.moved'
+    | 'topic.created'
+    | 'topic.renamed'
+    | 'topic.moved'
+    | 'topic.deleted'
+    | 'topic.restored'
+    | 'label.created'
+    | 'label.updated'
+    | 'label.deleted'
+    | 'template.created'
+    | 'template.deleted'
+    | 'member.joined'
+    | 'member.role_changed'
+    | 'member.removed'
+    | 'member.left'
+    | 'member.ownership_transferred';
+
+export const AUDIT_TARGET_TYPES: AuditTargetType[] = ['workspace', 'board', 'page', 'topic', 'label', 'member', 'template'];
+
+export interface AuditEventInput {
+    /** Workspace the event belongs to; looked up from `boardId` when omitted */
+    workspaceId?: string | null;
+    actorId: string;
+    action: AuditAction;
+    targetId: string;
+    targetName?: string | null;
+    boardId?: string | null;
+    metadata?: Prisma.InputJsonObject;
+}
+
+export async function recordAuditEvent(event: AuditEventInput) {
+    try {
+        let workspaceId = event.workspaceId;
+        if (!workspaceId && event.boardId) {
+            const board = await prisma.board.findUnique({
+                where: { id: event.boardId },
+                select: { workspaceId: true },
+            });
+            workspaceId = board?.workspaceId;
+        }
+        // Boards outside any workspace have nobody to report to
+        if (!workspaceId) return;
+
+        await prisma.auditEvent.create({
+            data: {
+                workspaceId,
+                actorId: event.actorId,
+                action: event.action,
+                targetType: event.action.split('.')[0],
+                targetId: event.targetId,
+                targetName: event.targetName ?? null,
+                boardId: event.boardId ?? null,
+                metadata: event.metadata ?? undefined,
+            },
+        });
+    } catch (error) {
+        console.error(`Error recording audit event ${event.action}:`, error);
+    }
+}
@@ -0,0 +1,164 @@
+/**
+ * Board transfer - duplicating boards and moving or copying them between
+ * topics and workspaces
+ *
+ * A copy gets the board's live pages (content, backgrounds, searchable and
+ * recognized text) and labels, but starts a fresh operation log and history:
+ * revisions, share links and trashed pages stay with the original. A moved
+ * board keeps everything, including its labels and share links.
+ */
+
+import { prisma } from './prisma';
+import { can, getWorkspaceRole } from './permissions';
+import { copyPageContent } from './pageOperations';
+import { isTrashed } from './trash';
+
+export interface BoardDestination {
+    workspaceId: string | null;
+    topicId: string | null;
+}
+
+/**
+ * Thrown when a board can't go where it was asked to, with the HTTP status
+ * to answer
+ */
+export class BoardDestinationError extends Error {
+    constructor(message: string, public status: number) {
+        super(message);
+        this.name = 'BoardDestinationError';
+    }
+}
+
+/**
+ * Where a board should go: into `topicId` (and its workspace), at the top of
+ * `workspaceId`, or - with neither - where `current` is. The user must be
+ * able to create boards in the destination workspace.
+ */
+export async function resolveBoardDestination(
+    userId: string,
+    target: { workspaceId?: string | null; topicId?: string | null },
+    current: BoardDestination
+): Promise<BoardDestination> {
+    let destination: BoardDestination = current;
+
+    if (target.topicId) {
+        const topic = await prisma.topic.findUnique({ where: { id: target.topicId } });
+        if (!topic || isTrashed(topic)) {
+            throw new BoardDestinationError('Topic not found', 404);
+        }
+        if (target.workspaceId && target.workspaceId !== topic.workspaceId) {
+            throw new BoardDestinationError('Topic is not in that workspace', 400);
+        }
+        destination = { workspaceId: topic.workspaceId, topicId: topic.id };
+    } else if (target.workspaceId) {
+        destination = { workspaceId: target.workspaceId, topicId: null };
+    }
+
+    // Boards outside any workspace only ever stay with their owner
+    if (!destination.workspaceId) return destination;
+
+    const workspace = await prisma.workspace.findUnique({
+        where: { id: destination.workspaceId },
+        include: { members: true },
+    });
+    if (!workspace) {
+        throw new BoardDestinationError('Workspace not found', 404);
+    }
+    if (!can(getWorkspaceRole(workspace, userId), 'board:create')) {
+        throw new BoardDestinationError('You cannot add boards to that workspace', 403);
+    }
+
+    return destination;
+}
+
+/**
+ * Workspaces (with their topics) the user can put boards in
+ */
+export async function listBoardDestinations(userId: string) {
+    const workspaces = await prisma.workspace.findMany({
+        where: { members: { some: { userId } } },
+        include: {
+            members: true,
+            topics: { where: { deletedAt: null }, orderBy: { name: 'asc' }, select: { id: true, name: true } },
+        },
+        orderBy: { name: 'asc' },
+    });
+
+    return workspaces
+        .filter((workspace: any) => can(getWorkspaceRole(workspace, userId), 'board:create'))
+        .map((workspace: any) => ({ id: workspace.id, name: workspace.name, topics: workspace.topics }));
+}
+
+/**
+ * Copy a board, its live pages and its labels to `destination`
+ */
+export async function copyBoard(
+    boardId: string,
+    userId: string,
+    title: string,
+    destination: BoardDestination
+) {
+    const source = await prisma.board.findUnique({
+        where: { id: boardId },
+        include: {
+            labels: true,
+            pages: {
+                where: { deletedAt: null },
+                orderBy: { order: 'asc' },
+                include: { handwritingWords: true },
+            },
+        },
+    });
+    if (!source) {
+        throw new Error(`Board ${boardId} not found`);
+    }
+
+    // Ids are picked up front so the whole copy is one transaction: a failure
+    // part way leaves nothing behind in the destination
+    const boardCopyId = crypto.randomUUID();
+    const pageCopies = source.pages.map((page) => ({ page, id: crypto.randomUUID() }));
+
+    const [board] = await prisma.$transaction([
+        prisma.board.create({
+            data: {
+                id: boardCopyId,
+                title,
+                userId,
+                workspaceId: destination.workspaceId,
+                topicId: destination.topicId,
+                content: source.content ?? {},
+            },
+        }),
+        prisma.page.createMany({
+            data: pageCopies.map(({ page, id }, order) => ({
+                id,
+                boardId: boardCopyId,
+                title: page.title,
+                order,
+                content: copyPageContent(page.content, id),
+                searchText: page.searchText,
+                recognizedText: page.recognizedText,
+                inkHash: page.inkHash,
+                indexedInkHash: page.indexedInkHash,
+                handwritingText: page.handwritingText,
+            })),
+        }),
+        prisma.handwritingWord.createMany({
+            data: pageCopies.flatMap(({ page, id }) =>
+                page.handwritingWords.map(({ id: _id, pageId: _pageId, ...word }: any) => ({ ...word, pageId: id }))
+            ),
+        }),
+        prisma.label.createMany({
+            data: source.labels.map((label: any) => ({ name: label.name, color: label.color, boardId: boardCopyId })),
+        }),
+    ]);
+
+    return board;
+}
+
+export async function moveBoard(boardId: string, destination: BoardDestination) {
+    return prisma.board.update({
+        where: { id: boardId },
+        data: { workspaceId: destination.workspaceId, topicId: destination.topicId },
+    });
+}
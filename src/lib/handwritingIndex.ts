@@ -0,0 +1,116 @@
+/**
+ * Handwriting index - words recognized in each page's ink, for search
+ *
+ * Recognition runs on the server (see handwritingRecognizer.ts), never with
+ * words sent by a client. A page is stale when its `inkHash`, rewritten with
+ * every commit, differs from the `indexedInkHash` its words were built from,
+ * so only pages whose ink changed are recognized again.
+ */
+
+import { prisma } from './prisma';
+
+export interface RecognizedWord {
+    text: string;
+    confidence: number;
+    // Box in page coordinates
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PageToIndex {
+    id: string;
+    inkHash: string;
+}
+
+// Tesseract reports 0-100; words below this are mostly noise in stray ink
+export const MIN_WORD_CONFIDENCE = 40;
+const MAX_WORDS_PER_PAGE = 2000;
+const INDEX_BATCH_SIZE = 20;
+
+/**
+ * Thrown when the page's ink changed after the words were recognized
+ */
+export class HandwritingIndexStaleError extends Error {
+    constructor(pageId: string) {
+        super(`Ink of page ${pageId} changed since it was recognized`);
+        this.name = 'HandwritingIndexStaleError';
+    }
+}
+
+async function clearHandwritingIndex(pageId: string) {
+    await prisma.$transaction([
+        prisma.handwritingWord.deleteMany({ where: { pageId } }),
+        prisma.page.update({
+            where: { id: pageId },
+            data: { indexedInkHash: null, handwritingText: null },
+        }),
+    ]);
+}
+
+/**
+ * Live pages whose handwriting needs recognizing, oldest change first, left
+ * alone since `settledBefore` so drawing can finish first. Pages whose ink
+ * was all removed have their index cleared here, as there is nothing to read.
+ */
+export async function listPagesToIndex(settledBefore: Date, limit = INDEX_BATCH_SIZE): Promise<PageToIndex[]> {
+    const emptied = await prisma.page.findMany({
+        where: { inkHash: null, indexedInkHash: { not: null } },
+        select: { id: true },
+        take: limit,
+    });
+    for (const { id } of emptied) {
+        await clearHandwritingIndex(id);
+    }
+
+    const pages = await prisma.page.findMany({
+        where: {
+            deletedAt: null,
+            board: { deletedAt: null },
+            inkHash: { not: null },
+            updatedAt: { lt: settledBefore },
+            OR: [{ indexedInkHash: null }, { indexedInkHash: { not: { equals: prisma.page.fields.inkHash } } }],
+        },
+        select: { id: true, inkHash: true },
+        orderBy: { updatedAt: 'asc' },
+        take: limit,
+    });
+    return pages.map((page: { id: string; inkHash: string | null }) => ({ id: page.id, inkHash: page.inkHash! }));
+}
+
+/**
+ * Replace a page's words with a fresh recognition of the ink `inkHash`
+ * identifies. Throws HandwritingIndexStaleError when the ink has moved on.
+ */
+export async function saveHandwritingIndex(
+    pageId: string,
+    inkHash: string,
+    text: string,
+    words: RecognizedWord[]
+) {
+    const kept = words
+        .filter((word) => word.text.trim() && word.confidence >= MIN_WORD_CONFIDENCE)
+        .slice(0, MAX_WORDS_PER_PAGE);
+
+    try {
+        await prisma.$transaction([
+            // Only matches while the page still has the ink that was recognized
+            prisma.page.update({
+                where: { id: pageId, inkHash },
+                data: { indexedInkHash: inkHash, handwritingText: text.trim() || null },
+            }),
+            prisma.handwritingWord.deleteMany({ where: { pageId } }),
+            prisma.handwritingWord.createMany({
+                data: kept.map((word) => ({ ...word, text: word.text.trim(), pageId })),
+            }),
+        ]);
+    } catch (error) {
+        if ((error as { code?: string })?.code === 'P2025') {
+            throw new HandwritingIndexStaleError(pageId);
+        }
+        throw error;
+    }
+
+    return { pageId, words: kept.length };
+}
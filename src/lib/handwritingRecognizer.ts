@@ -0,0 +1,101 @@
+/**
+ * Handwriting recognizer - reads the ink of saved pages on the server, so
+ * search finds handwriting whether or not anybody opens the page again
+ *
+ * server.js sweeps for stale pages (see handwritingIndex.ts) twice a minute.
+ * Each page whose ink has settled is drawn (inkRaster.ts) and read by one
+ * Tesseract worker, one page at a time. Its words are only stored while the
+ * page still has the ink that was read; a page edited meanwhile is simply
+ * read again on a later sweep.
+ */
+
+import type Tesseract from 'tesseract.js';
+import { prisma } from './prisma';
+import { readPageContent } from './pageOperations';
+import { encodePgm, renderInk } from './inkRaster';
+import {
+    HandwritingIndexStaleError,
+    listPagesToIndex,
+    saveHandwritingIndex,
+    type PageToIndex,
+    type RecognizedWord,
+} from './handwritingIndex';
+
+// How long a page is left alone after its last change before it is read
+const SETTLE_MS = 15000;
+
+let worker: Promise<Tesseract.Worker> | null = null;
+let sweeping = false;
+
+function getWorker(): Promise<Tesseract.Worker> {
+    if (!worker) {
+        worker = import('tesseract.js').then(({ createWorker }) => createWorker('eng'));
+        // Start over on the next sweep if the worker could not be created
+        worker.catch(() => { worker = null; });
+    }
+    return worker;
+}
+
+/**
+ * Recognize the handwriting of one page and store its words
+ */
+export async function recognizePage({ id, inkHash }: PageToIndex) {
+    const page = await prisma.page.findUnique({ where: { id }, select: { content: true } });
+    if (!page) return;
+
+    const image = renderInk(readPageContent(page.content).strokes);
+    const words: RecognizedWord[] = [];
+    let text = '';
+
+    if (image) {
+        const { data } = await (await getWorker()).recognize(encodePgm(image), {}, { text: true, blocks: true });
+        text = data.text;
+        for (const block of data.blocks ?? []) {
+            for (const paragraph of block.paragraphs) {
+                for (const line of paragraph.lines) {
+                    for (const word of line.words) {
+                        words.push({
+                            text: word.text,
+                            confidence: word.confidence,
+                            x: image.origin.x + word.bbox.x0 / image.scale,
+                            y: image.origin.y + word.bbox.y0 / image.scale,
+                            width: (word.bbox.x1 - word.bbox.x0) / image.scale,
+                            height: (word.bbox.y1 - word.bbox.y0) / image.scale,
+                        });
+                    }
+                }
+            }
+        }
+    }
+
+    try {
+        await saveHandwritingIndex(id, inkHash, text, words);
+    } catch (error) {
+        if (!(error instanceof HandwritingIndexStaleError)) throw error;
+    }
+}
+
+/**
+ * Recognize a batch of stale pages; returns how many were read. Overlapping
+ * calls return at once.
+ */
+export async function recognizeStaleHandwriting(now = new Date()): Promise<number> {
+    if (sweeping) return 0;
+
+    sweeping = true;
+    try {
+        const pages = await listPagesToIndex(new Date(now.getTime() - SETTLE_MS));
+        let recognized = 0;
+        for (const page of pages) {
+            try {
+                await recognizePage(page);
+                recognized++;
+            } catch (error) {
+                console.error(`Error recognizing handwriting on page ${page.id}:`, error);
+            }
+        }
+        return recognized;
+    } finally {
+        sweeping = false;
+    }
+}
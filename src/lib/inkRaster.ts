@@ -0,0 +1,108 @@
+/**
+ * Ink raster - a page's handwriting drawn dark on white, for recognition on
+ * the server (see handwritingRecognizer.ts)
+ *
+ * Only freehand ink is drawn: text and shapes are already searchable or
+ * aren't words. Eraser strokes paint white over what they cross. The image
+ * is sized to the ink, and it is encoded as binary PGM, which Tesseract
+ * reads without an image library.
+ */
+
+import type { Stroke } from '@/store/whiteboardStore';
+import { getStrokeBounds, type Bounds } from '@/utils/strokeBounds';
+
+export interface InkImage {
+    width: number;
+    height: number;
+    pixels: Uint8Array; // Grey levels, row by row (0 = ink, 255 = paper)
+    origin: { x: number; y: number }; // Page position of the top-left pixel
+    scale: number; // Pixels per page unit
+}
+
+const PADDING = 20;
+const MAX_SCALE = 2;
+const MAX_IMAGE_SIZE = 3000; // Longer side, in pixels
+const INK = 0;
+const PAPER = 255;
+
+function isInk(stroke: Stroke) {
+    return stroke.tool !== 'text' && !stroke.shapeType && stroke.points?.length > 0;
+}
+
+// Paint a segment with round ends, `radius` in pixels
+function paintSegment(image: InkImage, ax: number, ay: number, bx: number, by: number, radius: number, value: number) {
+    const minX = Math.max(0, Math.floor(Math.min(ax, bx) - radius));
+    const maxX = Math.min(image.width - 1, Math.ceil(Math.max(ax, bx) + radius));
+    const minY = Math.max(0, Math.floor(Math.min(ay, by) - radius));
+    const maxY = Math.min(image.height - 1, Math.ceil(Math.max(ay, by) + radius));
+
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSq = dx * dx + dy * dy;
+    const radiusSq = radius * radius;
+
+    for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) {
+            // Distance from the pixel centre to the segment
+            const px = x + 0.5 - ax;
+            const py = y + 0.5 - ay;
+            const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, (px * dx + py * dy) / lengthSq));
+            const ex = px - t * dx;
+            const ey = py - t * dy;
+            if (ex * ex + ey * ey <= radiusSq) {
+                image.pixels[y * image.width + x] = value;
+            }
+        }
+    }
+}
+
+/**
+ * Draw a page's ink, or null when it has none
+ */
+export function renderInk(strokes: Stroke[]): InkImage | null {
+    const ink = strokes.filter(isInk);
+    const pens = ink.filter((stroke) => stroke.tool !== 'eraser');
+    if (pens.length === 0) return null;
+
+    const bounds = pens.map(getStrokeBounds).reduce((a: Bounds, b: Bounds) => {
+        const x = Math.min(a.x, b.x);
+        const y = Math.min(a.y, b.y);
+        return {
+            x,
+            y,
+            width: Math.max(a.x + a.width, b.x + b.width) - x,
+            height: Math.max(a.y + a.height, b.y + b.height) - y,
+        };
+    });
+    const origin = { x: bounds.x - PADDING, y: bounds.y - PADDING };
+    const pageWidth = bounds.width + PADDING * 2;
+    const pageHeight = bounds.height + PADDING * 2;
+    const scale = Math.min(MAX_SCALE, MAX_IMAGE_SIZE / Math.max(pageWidth, pageHeight));
+
+    const width = Math.ceil(pageWidth * scale);
+    const height = Math.ceil(pageHeight * scale);
+    const image: InkImage = { width, height, pixels: new Uint8Array(width * height).fill(PAPER), origin, scale };
+
+    // Whatever the pen colour, OCR reads dark ink on white best
+    for (const stroke of ink) {
+        const value = stroke.tool === 'eraser' ? PAPER : INK;
+        const radius = Math.max(0.5, (stroke.width * scale) / 2);
+        const points = stroke.points.map((p) => ({ x: (p.x - origin.x) * scale, y: (p.y - origin.y) * scale }));
+        if (points.length === 1) {
+            paintSegment(image, points[0].x, points[0].y, points[0].x, points[0].y, radius, value);
+        }
+        for (let i = 1; i < points.length; i++) {
+            paintSegment(image, points[i - 1].x, points[i - 1].y, points[i].x, points[i].y, radius, value);
+        }
+    }
+
+    return image;
+}
+
+/**
+ * The image as a binary PGM file
+ */
+export function encodePgm(image: InkImage): Buffer {
+    const header = Buffer.from(`P5\n${image.width} ${image.height}\n255\n`, 'ascii');
+    return Buffer.concat([header, Buffer.from(image.pixels)]);
+}
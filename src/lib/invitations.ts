@@ -0,0 +1,143 @@
+/**
+ * Workspace invitations - invite links that add people to a workspace
+ *
+ * A link grants the role it was created with, and only to someone signed in
+ * with a verified copy of the email address it was sent to. It stops working
+ * once it is revoked, expires, or has been accepted `maxUses` times
+ * (null = unlimited).
+ * Accepting claims a use and creates the membership in one transaction, so a
+ * single-use link can't be accepted twice.
+ */
+
+import { randomBytes } from 'crypto';
+import { prisma } from './prisma';
+import type { WorkspaceRole } from './workspace';
+
+export type InvitationStatus = 'active' | 'expired' | 'revoked' | 'used';
+
+// Ownership is transferred, never handed out through a link
+export const INVITABLE_ROLES: WorkspaceRole[] = ['ADMIN', 'MEMBER', 'VIEWER'];
+
+const MAX_EXPIRY_DAYS = 90;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface InvitationLike {
+    maxUses: number | null;
+    useCount: number;
+    expiresAt: Date | string | null;
+    revokedAt: Date | string | null;
+}
+
+/**
+ * Thrown when accepting a link that can no longer be used
+ */
+export class InvitationUnavailableError extends Error {
+    constructor(public status: Exclude<InvitationStatus, 'active'>) {
+        super(
+            status === 'revoked' ? 'This invite link has been revoked'
+                : status === 'expired' ? 'This invite link has expired'
+                    : 'This invite link has already been used'
+        );
+        this.name = 'InvitationUnavailableError';
+    }
+}
+
+/**
+ * Thrown when accepting a link sent to an email address the user hasn't verified
+ */
+export class InvitationEmailMismatchError extends Error {
+    constructor() {
+        super('This invitation was sent to a different email address');
+        this.name = 'InvitationEmailMismatchError';
+    }
+}
+
+export function createInvitationToken(): string {
+    return randomBytes(24).toString('base64url');
+}
+
+export function getInvitationStatus(invitation: InvitationLike, now = new Date()): InvitationStatus {
+    if (invitation.revokedAt) return 'revoked';
+    if (invitation.expiresAt && new Date(invitation.expiresAt) <= now) return 'expired';
+    if (invitation.maxUses !== null && invitation.useCount >= invitation.maxUses) return 'used';
+    return 'active';
+}
+
+/**
+ * The invitee's address as it is stored, or null when it isn't an email address
+ */
+export function normalizeInvitationEmail(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+    const email = value.trim().toLowerCase();
+    return EMAIL_PATTERN.test(email) ? email : null;
+}
+
+/**
+ * Whether a link may be accepted by someone with these verified addresses
+ */
+export function isInvitedEmail(invitation: { email: string | null }, verifiedEmails: string[]): boolean {
+    return !!invitation.email && verifiedEmails.some((email) => email.toLowerCase() === invitation.email);
+}
+
+/**
+ * Expiry date for a link valid `days` days from now (null/0 = never expires)
+ */
+export function getInvitationExpiry(days: unknown, now = new Date()): Date | null {
+    const value = Number(days);
+    if (!value || value < 0) return null;
+    return new Date(now.getTime() + Math.min(value, MAX_EXPIRY_DAYS) * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Accept an invitation for a user with the given verified email addresses.
+ * Existing members keep their current role and don't use up the link.
+ */
+export async function acceptInvitation(token: string, userId: string, verifiedEmails: string[]) {
+    const invitation = await prisma.invitation.findUnique({ where: { token } });
+    if (!invitation) return null;
+
+    const existing = await prisma.workspaceMember.findUnique({
+        where: { workspaceId_userId: { workspaceId: invitation.workspaceId, userId } },
+    });
+    if (existing) {
+        return { workspaceId: invitation.workspaceId, membership: existing, alreadyMember: true };
+    }
+
+    const status = getInvitationStatus(invitation);
+    if (status !== 'active') {
+        throw new InvitationUnavailableError(status);
+    }
+
+    if (!isInvitedEmail(invitation, verifiedEmails)) {
+        throw new InvitationEmailMismatchError();
+    }
+
+    const membership = await prisma.$transaction(async (tx: any) => {
+        // Claim a use only while the link is still valid
+        const now = new Date();
+        const claimed = await tx.invitation.updateMany({
+            where: {
+                id: invitation.id,
+                revokedAt: null,
+                AND: [
+                    { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+                    { OR: [{ maxUses: null }, { useCount: { lt: prisma.invitation.fields.maxUses } }] },
+                ],
+            },
+            data: { useCount: { increment: 1 } },
+        });
+        if (claimed.count === 0) {
+            throw new InvitationUnavailableError('used');
+        }
+
+        return tx.workspaceMember.create({
+            data: {
+                workspaceId: invitation.workspaceId,
+                userId,
+                role: invitation.role,
+            },
+        });
+    });
+
+    return { workspaceId: invitation.workspaceId, membership, alreadyMember: false };
+}
@@ -0,0 +1,62 @@
+/**
+ * oEmbed (https://oembed.com) for shared flipbooks
+ *
+ * Consumers (LMSs, blog engines) send the URL someone pasted; share pages,
+ * embed URLs and flipbook URLs with a `?share=` token are all understood.
+ * The answer is a `rich` embed pointing at /embed/flipbook/<token>, carrying
+ * over the embed options (page, bg, sound, autoplay) from the pasted URL.
+ */
+
+export const EMBED_OPTION_PARAMS = ['page', 'bg', 'sound', 'autoplay'];
+
+// Two 800x1100 pages side by side
+export const DEFAULT_EMBED_WIDTH = 800;
+export const DEFAULT_EMBED_HEIGHT = 550;
+
+export function getShareTokenFromUrl(url: URL): string | null {
+    const match = url.pathname.match(/^\/(?:share|embed\/flipbook)\/([^/]+)\/?$/);
+    if (match) return decodeURIComponent(match[1]);
+
+    if (url.pathname.startsWith('/flipbook/')) {
+        return url.searchParams.get('share');
+    }
+    return null;
+}
+
+export function getEmbedUrl(origin: string, token: string, source?: URL): string {
+    const embedUrl = new URL(`/embed/flipbook/${encodeURIComponent(token)}`, origin);
+    for (const name of EMBED_OPTION_PARAMS) {
+        const value = source?.searchParams.get(name);
+        if (value) embedUrl.searchParams.set(name, value);
+    }
+    return embedUrl.toString();
+}
+
+/**
+ * Embed size within the consumer's limits, keeping the flipbook's aspect ratio
+ */
+export function getEmbedSize(maxWidth?: number, maxHeight?: number) {
+    let width = DEFAULT_EMBED_WIDTH;
+    let height = DEFAULT_EMBED_HEIGHT;
+
+    if (maxWidth && maxWidth < width) {
+        height = Math.round(height * (maxWidth / width));
+        width = maxWidth;
+    }
+    if (maxHeight && maxHeight < height) {
+        width = Math.round(width * (maxHeight / height));
+        height = maxHeight;
+    }
+    return { width, height };
+}
+
+export function getEmbedHtml(src: string, title: string, width: number, height: number): string {
+    const escape = (value: string) => value
+        .replace(/&/g, '&amp;')
+        .replace(/"/g, '&quot;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+
+    return `<iframe src="${escape(src)}" title="${escape(title)}" width="${width}" height="${height}" `
+        + 'style="border:0" allow="autoplay; fullscreen" allowfullscreen loading="lazy"></iframe>';
+}
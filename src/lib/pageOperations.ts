@@ -0,0 +1,356 @@
+/**
+ * Page operation log - server side of the stroke CRDT
+ *
+ * Every accepted stroke operation is appended to `PageOperation` under the
+ * next sequence number of its page and folded into `Page.content`, so the
+ * stored page is always the merge of the whole log. Full-page saves are
+ * diffed into operations first and go through the same path. Each commit
+ * also refreshes the page's searchable text (see search.ts) and the
+ * fingerprint of its ink (see handwritingIndex.ts).
+ */
+
+import { createHash } from 'crypto';
+import { prisma, toJson } from './prisma';
+import type { Stroke } from '@/store/whiteboardStore';
+import {
+    applyStrokeOperation,
+    createSyncState,
+    diffStrokeSnapshot,
+    MAX_STROKE_CLOCK,
+    type StrokeOperation,
+    type StrokeSyncState,
+} from './strokeCrdt';
+
+/**
+ * Thrown when a full-page save was based on an older version than the stored page
+ */
+export class PageVersionConflictError extends Error {
+    constructor(public serverVersion: number, public serverContent: unknown) {
+        super(`Page was modified (server version ${serverVersion})`);
+        this.name = 'PageVersionConflictError';
+    }
+}
+
+export interface AppendResult {
+    appended: StrokeOperation[];
+    duplicates: StrokeOperation[];
+    rejected: StrokeOperation[]; // Clock too far ahead of the page
+}
+
+interface StoredPage {
+    id: string;
+    content: any;
+    updatedAt: Date;
+}
+
+interface Commit {
+    operations: StrokeOperation[];
+    duplicates: StrokeOperation[];
+    content: Record<string, unknown>;
+    data?: Record<string, unknown>;
+}
+
+const MAX_COMMIT_ATTEMPTS = 5;
+// Beyond this many missed operations a joining client gets the page instead
+const MAX_CATCH_UP_OPERATIONS = 500;
+// How far past the page's clock an operation may be stamped: enough for a
+// long offline session, not enough for one forged clock to win every merge
+export const MAX_CLOCK_SKEW = 100_000;
+
+// Commits for one page run one at a time in this process; the
+// (pageId, seq) unique index and the updatedAt check cover other processes.
+const pageQueues = new Map<string, Promise<unknown>>();
+
+function enqueue<T>(pageId: string, task: () => Promise<T>): Promise<T> {
+    const previous = pageQueues.get(pageId) ?? Promise.resolve();
+    const run = previous.then(task, task);
+    pageQueues.set(pageId, run);
+    const cleanup = () => {
+        if (pageQueues.get(pageId) === run) pageQueues.delete(pageId);
+    };
+    run.then(cleanup, cleanup);
+    return run;
+}
+
+/**
+ * Split stored page content into strokes, sync state and everything else
+ */
+export function readPageContent(content: any): {
+    strokes: Stroke[];
+    sync: StrokeSyncState;
+    rest: Record<string, unknown>;
+} {
+    if (Array.isArray(content)) {
+        return { strokes: content, sync: createSyncState(), rest: {} };
+    }
+    const { strokes, sync, ...rest } = content ?? {};
+    return {
+        strokes: Array.isArray(strokes) ? strokes : [],
+        sync: createSyncState(sync),
+        rest,
+    };
+}
+
+/**
+ * Stored content for a copy of a page with id `pageId`. Strokes carry their
+ * page id; the copy starts its own operation log, so sync state and version stay behind.
+ */
+export function copyPageContent(content: unknown, pageId: string) {
+    const { strokes, rest } = readPageContent(content);
+    const { version: _version, ...fields } = rest;
+    return toJson({ ...fields, strokes: strokes.map((stroke) => ({ ...stroke, pageId })) });
+}
+
+/**
+ * Plain text of a page's text strokes, one stroke per line (`Page.searchText`)
+ */
+export function getPageSearchText(strokes: Stroke[]): string | null {
+    const text = strokes
+        .filter((stroke) => stroke.tool === 'text' && stroke.text?.trim())
+        .map((stroke) => stroke.text!.trim())
+        .join('\n');
+    return text || null;
+}
+
+/**
+ * Fingerprint of a page's ink - freehand and eraser strokes, which is what
+ * handwriting recognition reads (`Page.inkHash`). Null for a page without ink.
+ */
+export function getPageInkHash(strokes: Stroke[]): string | null {
+    const ink = strokes
+        .filter((stroke) => stroke.tool !== 'text' && !stroke.shapeType && stroke.points?.length > 0)
+        .map((stroke) => [stroke.id, stroke.tool, stroke.width, stroke.points]);
+    if (ink.length === 0) return null;
+    return createHash('sha1').update(JSON.stringify(ink)).digest('hex');
+}
+
+function toStrokeOperation(row: any): StrokeOperation {
+    return {
+        type: row.type,
+        stroke: row.stroke ?? undefined,
+        strokeId: row.strokeId ?? undefined,
+        pageId: row.pageId,
+        userId: row.userId,
+        timestamp: new Date(row.createdAt).getTime(),
+        opId: row.opId,
+        clock: row.clock,
+        seq: row.seq,
+    };
+}
+
+/**
+ * Columns derived from page content, rewritten with every commit
+ */
+function getDerivedFields(content: unknown) {
+    const { strokes } = readPageContent(content);
+    return { searchText: getPageSearchText(strokes), inkHash: getPageInkHash(strokes) };
+}
+
+function isRetryableConflict(error: unknown): boolean {
+    const code = (error as { code?: string })?.code;
+    // P2002: another writer took the sequence number, P2025: page changed under us
+    return code === 'P2002' || code === 'P2025';
+}
+
+/**
+ * Apply operations to the current stored page. `build` runs against a fresh
+ * read on every attempt, so it must not have side effects.
+ */
+async function commitToPage(
+    pageId: string,
+    build: (page: StoredPage, strokes: Stroke[], sync: StrokeSyncState, rest: Record<string, unknown>) => Promise<Commit> | Commit
+) {
+    return enqueue(pageId, async () => {
+        for (let attempt = 1; ; attempt++) {
+            const page = await prisma.page.findUnique({
+                where: { id: pageId },
+                select: { id: true, content: true, updatedAt: true },
+            });
+            if (!page) {
+                throw new Error(`Page ${pageId} not found`);
+            }
+
+            const { strokes, sync, rest } = readPageContent(page.content);
+            const commit = await build(page, strokes, sync, rest);
+
+            try {
+                const [updatedPage] = await prisma.$transaction([
+                    prisma.page.update({
+                        where: { id: pageId, updatedAt: page.updatedAt },
+                        data: {
+                            ...commit.data,
+                            content: toJson(commit.content),
+                            ...getDerivedFields(commit.content),
+                        },
+                    }),
+                    ...commit.operations.map((op) =>
+                        prisma.pageOperation.create({
+                            data: {
+                                pageId,
+                                seq: op.seq!,
+                                opId: op.opId,
+                                type: op.type,
+                                strokeId: op.strokeId ?? op.stroke?.id ?? null,
+                                stroke: op.stroke ? toJson(op.stroke) : undefined,
+                                clock: op.clock,
+                                userId: op.userId,
+                            },
+                        })
+                    ),
+                ]);
+                return { page: updatedPage, appended: commit.operations, duplicates: commit.duplicates };
+            } catch (error) {
+                if (attempt < MAX_COMMIT_ATTEMPTS && isRetryableConflict(error)) continue;
+                throw error;
+            }
+        }
+    });
+}
+
+/**
+ * Fold operations into the page state, numbering each one in the log
+ */
+function foldOperations(
+    pageId: string,
+    operations: StrokeOperation[],
+    strokes: Stroke[],
+    sync: StrokeSyncState
+) {
+    const appended: StrokeOperation[] = [];
+    for (const operation of operations) {
+        const op: StrokeOperation = { ...operation, pageId, seq: sync.seq + 1 };
+        delete op.senderId;
+        const result = applyStrokeOperation(strokes, sync, op);
+        strokes = result.strokes;
+        sync = result.state;
+        appended.push(op);
+    }
+    return { appended, strokes, sync };
+}
+
+/**
+ * Append client operations to a page's log.
+ * Operations whose opId is already logged (client retries) come back in
+ * `duplicates` with their original sequence number instead of being applied twice.
+ */
+export async function appendStrokeOperations(
+    pageId: string,
+    operations: StrokeOperation[]
+): Promise<AppendResult> {
+    if (operations.length === 0) {
+        return { appended: [], duplicates: [], rejected: [] };
+    }
+
+    let rejected: StrokeOperation[] = [];
+    const { appended, duplicates } = await commitToPage(pageId, async (_page, strokes, sync, rest) => {
+        const existing = await prisma.pageOperation.findMany({
+            where: { opId: { in: operations.map((op) => op.opId) } },
+        });
+        const seen = new Set(existing.map((row: { opId: string }) => row.opId));
+        const fresh = operations.filter((op) => !seen.has(op.opId));
+        const maxClock = Math.min(sync.clock + MAX_CLOCK_SKEW, MAX_STROKE_CLOCK);
+        rejected = fresh.filter((op) => op.clock > maxClock);
+        const folded = foldOperations(
+            pageId,
+            fresh.filter((op) => op.clock <= maxClock),
+            strokes,
+            sync
+        );
+
+        return {
+            operations: folded.appended,
+            duplicates: existing.map(toStrokeOperation),
+            content: { ...rest, strokes: folded.strokes, sync: folded.sync },
+        };
+    });
+
+    return { appended, duplicates, rejected };
+}
+
+/**
+ * What a client that has applied the log up to `sinceSeq` is missing.
+ * Sends the operations when the log holds all of them, the stored page
+ * otherwise (no position given, too far behind, or pages older than the log).
+ */
+export async function readPageCatchUp(
+    pageId: string,
+    sinceSeq?: number
+): Promise<{ seq: number; operations?: StrokeOperation[]; snapshot?: Record<string, unknown> }> {
+    const page = await prisma.page.findUnique({
+        where: { id: pageId },
+        select: { content: true },
+    });
+    if (!page) {
+        throw new Error(`Page ${pageId} not found`);
+    }
+
+    const { strokes, sync, rest } = readPageContent(page.content);
+    const snapshot = () => ({ seq: sync.seq, snapshot: { ...rest, strokes, sync } });
+
+    if (sinceSeq === undefined || sinceSeq < 0 || sinceSeq > sync.seq) return snapshot();
+    if (sinceSeq === sync.seq) return { seq: sync.seq, operations: [] };
+    if (sync.seq - sinceSeq > MAX_CATCH_UP_OPERATIONS) return snapshot();
+
+    const rows = await prisma.pageOperation.findMany({
+        where: { pageId, seq: { gt: sinceSeq, lte: sync.seq } },
+        orderBy: { seq: 'asc' },
+    });
+    if (rows.length !== sync.seq - sinceSeq) return snapshot();
+
+    return { seq: sync.seq, operations: rows.map(toStrokeOperation) };
+}
+
+/**
+ * Save a full-page snapshot from a client.
+ * Strokes are merged through the log rather than overwritten; the remaining
+ * content fields (background, page style, thumbnail...) are taken as sent.
+ * When `baseVersion` is given and the stored page has moved on, nothing is
+ * written and a PageVersionConflictError carries the server copy back.
+ */
+export async function savePageSnapshot(
+    pageId: string,
+    userId: string,
+    content: Record<string, any>,
+    options?: { title?: string; baseVersion?: number }
+) {
+    const { strokes: clientStrokes, sync: _clientSync, baseSeq, version: _clientVersion, ...fields } = content ?? {};
+    const { baseVersion, ...data } = options ?? {};
+
+    return commitToPage(pageId, (page, strokes, sync, rest) => {
+        const serverVersion = Number(rest.version) || 0;
+        if (baseVersion !== undefined && baseVersion !== serverVersion) {
+            throw new PageVersionConflictError(serverVersion, page.content);
+        }
+
+        const diff = Array.isArray(clientStrokes)
+            ? diffStrokeSnapshot(strokes, sync, clientStrokes, Number(baseSeq) || 0)
+            : [];
+        const now = Date.now();
+        const folded = foldOperations(
+            pageId,
+            diff.map((change, i) => ({
+                ...change,
+                pageId,
+                userId,
+                timestamp: now,
+                opId: crypto.randomUUID(),
+                clock: sync.clock + 1 + i,
+            })),
+            strokes,
+            sync
+        );
+
+        return {
+            operations: folded.appended,
+            duplicates: [],
+            content: {
+                ...rest,
+                ...fields,
+                version: serverVersion + 1,
+                strokes: folded.strokes,
+                sync: folded.sync,
+            },
+            data,
+        };
+    });
+}
@@ -0,0 +1,102 @@
+/**
+ * Page revisions - restorable history of saved pages
+ *
+ * Every successful full-page save records a revision. Saves by the same user
+ * within REVISION_INTERVAL_MS are coalesced into the latest revision, except
+ * when a save drops most of the page (a clear or a big erase): that always
+ * starts a new revision, so the state right before it stays restorable.
+ */
+
+import { prisma, toJson } from './prisma';
+import { readPageContent, savePageSnapshot } from './pageOperations';
+
+const REVISION_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_REVISIONS_PER_PAGE = 100;
+
+/**
+ * Record the current content of a page as a revision (or fold it into the latest one)
+ */
+export async function recordPageRevision(
+    page: { id: string; content: any },
+    userId: string,
+    options?: { forceNew?: boolean }
+) {
+    const { strokes, rest } = readPageContent(page.content);
+    const { thumbnail, ...fields } = rest;
+    const data = {
+        content: toJson({ ...fields, strokes }),
+        thumbnail: typeof thumbnail === 'string' ? thumbnail : null,
+        version: Number(fields.version) || 0,
+        strokeCount: strokes.length,
+        userId,
+    };
+
+    const latest = await prisma.pageRevision.findFirst({
+        where: { pageId: page.id },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, userId: true, createdAt: true, strokeCount: true },
+    });
+
+    const coalesce = !options?.forceNew
+        && latest
+        && latest.userId === userId
+        && Date.now() - new Date(latest.createdAt).getTime() < REVISION_INTERVAL_MS
+        && strokes.length * 2 >= latest.strokeCount;
+
+    if (coalesce) {
+        return prisma.pageRevision.update({ where: { id: latest.id }, data });
+    }
+
+    const revision = await prisma.pageRevision.create({
+        data: { ...data, pageId: page.id },
+    });
+
+    // Drop the oldest revisions beyond the cap
+    const stale = await prisma.pageRevision.findMany({
+        where: { pageId: page.id },
+        orderBy: { createdAt: 'desc' },
+        skip: MAX_REVISIONS_PER_PAGE,
+        select: { id: true },
+    });
+    if (stale.length > 0) {
+        await prisma.pageRevision.deleteMany({
+            where: { id: { in: stale.map((r: { id: string }) => r.id) } },
+        });
+    }
+
+    return revision;
+}
+
+/**
+ * Restore a page to a revision. The revision is saved as a new snapshot, so
+ * the change goes through the operation log like any other edit and the
+ * restore itself shows up as the newest revision.
+ */
+export async function restorePageRevision(
+    pageId: string,
+    revision: { content: any; thumbnail: string | null },
+    userId: string
+) {
+    const current = await prisma.page.findUnique({
+        where: { id: pageId },
+        select: { content: true },
+    });
+    const { sync } = readPageContent(current?.content);
+    const { strokes, rest } = readPageContent(revision.content);
+
+    // Deleted strokes are tombstoned for good; bring those back under new ids
+    const restored = strokes.map((stroke) =>
+        sync.entries[stroke.id]?.deleted ? { ...stroke, id: crypto.randomUUID() } : stroke
+    );
+
+    const { page } = await savePageSnapshot(pageId, userId, {
+        ...rest,
+        strokes: restored,
+        thumbnail: revision.thumbnail ?? undefined,
+        // Everything logged so far counts as seen, so strokes added since are removed
+        baseSeq: sync.seq,
+    });
+
+    await recordPageRevision(page, userId, { forceNew: true });
+    return page;
+}
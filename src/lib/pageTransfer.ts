@@ -0,0 +1,152 @@
+/**
+ * Page transfer - reordering a board's pages, inserting at a position, and
+ * duplicating pages or moving and copying them to other boards
+ *
+ * Positions are indexes into the board's live pages. Trashed pages keep
+ * their order value so they come back where they were: reordering shuffles
+ * the live pages between the order values they already hold (spreading out
+ * any repeated ones), and inserting shifts every later page (trashed or not)
+ * one along in the same transaction as the insert.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { can, getBoardRole } from './permissions';
+import { copyPageContent } from './pageOperations';
+
+/**
+ * Thrown when pages can't be arranged as asked, with the HTTP status to answer
+ */
+export class PageTransferError extends Error {
+    constructor(message: string, public status: number) {
+        super(message);
+        this.name = 'PageTransferError';
+    }
+}
+
+/**
+ * The board's live pages, in order, as the page list shows them
+ */
+export async function listLivePages(boardId: string, db: Prisma.TransactionClient = prisma) {
+    return db.page.findMany({
+        where: { boardId, deletedAt: null },
+        orderBy: { order: 'asc' },
+        select: { id: true, title: true, order: true },
+    });
+}
+
+/**
+ * Put the board's live pages in the order of `pageIds`, which must name each
+ * of them exactly once
+ */
+export async function reorderPages(boardId: string, pageIds: string[]) {
+    const pages = await listLivePages(boardId);
+
+    const unique = new Set(pageIds);
+    if (unique.size !== pageIds.length || pages.length !== pageIds.length || pages.some((page: any) => !unique.has(page.id))) {
+        throw new PageTransferError('pageIds must list every page of the board once', 400);
+    }
+
+    // The order values the live pages hold, made distinct so the new order sticks
+    const slots: number[] = [];
+    pages.forEach((page: any, index: number) => {
+        slots.push(index === 0 ? page.order : Math.max(page.order, slots[index - 1] + 1));
+    });
+    await prisma.$transaction(
+        pageIds.map((id, index) => prisma.page.update({ where: { id }, data: { order: slots[index] } }))
+    );
+
+    return listLivePages(boardId);
+}
+
+/**
+ * Order value for a page inserted before the live page at `position`, making
+ * room for it; at the end when `position` is omitted or past the last page.
+ * Runs in the transaction that inserts the page.
+ */
+export async function makeRoomAt(tx: Prisma.TransactionClient, boardId: string, position?: number | null) {
+    const pages = await listLivePages(boardId, tx);
+
+    if (typeof position === 'number' && position >= 0 && position < pages.length) {
+        const order = pages[Math.floor(position)].order;
+        await tx.page.updateMany({
+            where: { boardId, order: { gte: order } },
+            data: { order: { increment: 1 } },
+        });
+        return order;
+    }
+
+    const lastPage = await tx.page.findFirst({
+        where: { boardId },
+        orderBy: { order: 'desc' },
+    });
+    return (lastPage?.order ?? -1) + 1;
+}
+
+/**
+ * Boards the user can add pages to, with their workspace's name
+ */
+export async function listPageDestinations(userId: string) {
+    const boards = await prisma.board.findMany({
+        where: {
+            deletedAt: null,
+            OR: [{ userId }, { workspace: { members: { some: { userId } } } }],
+        },
+        include: { workspace: { include: { members: true } } },
+        orderBy: { title: 'asc' },
+    });
+
+    return boards
+        .filter((board: any) => can(getBoardRole(board, userId), 'board:edit'))
+        .map((board: any) => ({ id: board.id, title: board.title, workspaceName: board.workspace?.name ?? null }));
+}
+
+/**
+ * Copy a page to `boardId` at `position`: its content, background and text,
+ * but not its operation log or revisions
+ */
+export async function copyPage(pageId: string, boardId: string, title: string, position?: number | null) {
+    const source = await prisma.page.findUnique({
+        where: { id: pageId },
+        include: { handwritingWords: true },
+    });
+    if (!source) {
+        throw new Error(`Page ${pageId} not found`);
+    }
+
+    return prisma.$transaction(async (tx) => {
+        const order = await makeRoomAt(tx, boardId, position);
+        const id = crypto.randomUUID();
+        const page = await tx.page.create({
+            data: {
+                id,
+                boardId,
+                title,
+                order,
+                content: copyPageContent(source.content, id),
+                searchText: source.searchText,
+                recognizedText: source.recognizedText,
+                inkHash: source.inkHash,
+                indexedInkHash: source.indexedInkHash,
+                handwritingText: source.handwritingText,
+            },
+        });
+        await tx.handwritingWord.createMany({
+            data: source.handwritingWords.map(({ id: _id, pageId: _pageId, ...word }: any) => ({ ...word, pageId: id })),
+        });
+        return page;
+    });
+}
+
+/**
+ * Move a page, with its history, to the end of (or `position` in) another board
+ */
+export async function movePage(pageId: string, boardId: string, position?: number | null) {
+    return prisma.$transaction(async (tx) => {
+        const order = await makeRoomAt(tx, boardId, position);
+        return tx.page.update({
+            where: { id: pageId },
+            data: { boardId, order },
+        });
+    });
+}
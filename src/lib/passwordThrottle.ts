@@ -0,0 +1,105 @@
+/**
+ * Password throttle - counts wrong share link passwords so that guessing one
+ * is slow
+ *
+ * Failures are counted per key in a fixed window that starts with the first
+ * failure. A single node counts in memory (MemoryPasswordThrottle). With
+ * REDIS_URL set the counts live in Redis (RedisPasswordThrottle), so every
+ * node behind a load balancer enforces the same limits.
+ */
+
+export interface ThrottleRule {
+    key: string;
+    limit: number; // Failures allowed per window
+}
+
+export interface PasswordThrottle {
+    /** Milliseconds until none of the rules is over its limit (0 = now) */
+    getRetryAfter(rules: ThrottleRule[]): Promise<number>;
+    /** Count a failure against the key of every rule */
+    recordFailure(rules: ThrottleRule[]): Promise<void>;
+}
+
+export interface ThrottleRedisClient {
+    incr(key: string): Promise<number>;
+    pexpire(key: string, milliseconds: number): Promise<unknown>;
+    pttl(key: string): Promise<number>;
+    get(key: string): Promise<string | null>;
+}
+
+export const PASSWORD_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+const MAX_TRACKED_FAILURES = 10000;
+const KEY_PREFIX = 'aifa:share-password';
+
+export class MemoryPasswordThrottle implements PasswordThrottle {
+    private failures = new Map<string, { count: number; resetAt: number }>();
+
+    async getRetryAfter(rules: ThrottleRule[]) {
+        const now = Date.now();
+        let waitMs = 0;
+        for (const { key, limit } of rules) {
+            const failures = this.failures.get(key);
+            if (failures && failures.resetAt > now && failures.count >= limit) {
+                waitMs = Math.max(waitMs, failures.resetAt - now);
+            }
+        }
+        return waitMs;
+    }
+
+    async recordFailure(rules: ThrottleRule[]) {
+        const now = Date.now();
+        if (this.failures.size >= MAX_TRACKED_FAILURES) {
+            this.failures.forEach((failures, key) => {
+                if (failures.resetAt <= now) this.failures.delete(key);
+            });
+        }
+
+        for (const { key } of rules) {
+            const failures = this.failures.get(key);
+            if (failures && failures.resetAt > now) {
+                failures.count++;
+            } else {
+                this.failures.set(key, { count: 1, resetAt: now + PASSWORD_FAILURE_WINDOW_MS });
+            }
+        }
+    }
+}
+
+/**
+ * Counts as Redis keys that expire with their window
+ */
+export class RedisPasswordThrottle implements PasswordThrottle {
+    constructor(private client: ThrottleRedisClient) {}
+
+    async getRetryAfter(rules: ThrottleRule[]) {
+        const waits = await Promise.all(rules.map(async ({ key, limit }) => {
+            const [count, ttl] = await Promise.all([
+                this.client.get(`${KEY_PREFIX}:${key}`),
+                this.client.pttl(`${KEY_PREFIX}:${key}`),
+            ]);
+            return Number(count) >= limit && ttl > 0 ? ttl : 0;
+        }));
+        return Math.max(0, ...waits);
+    }
+
+    async recordFailure(rules: ThrottleRule[]) {
+        await Promise.all(rules.map(async ({ key }) => {
+            const count = await this.client.incr(`${KEY_PREFIX}:${key}`);
+            // Also when a node died between the two commands and left the key without one
+            if (count === 1 || (await this.client.pttl(`${KEY_PREFIX}:${key}`)) < 0) {
+                await this.client.pexpire(`${KEY_PREFIX}:${key}`, PASSWORD_FAILURE_WINDOW_MS);
+            }
+        }));
+    }
+}
+
+/**
+ * Throttle for this deployment: Redis when REDIS_URL is set, memory otherwise
+ */
+export async function createPasswordThrottle(): Promise<PasswordThrottle> {
+    const url = process.env.REDIS_URL;
+    if (!url) return new MemoryPasswordThrottle();
+
+    const { default: Redis } = await import('ioredis');
+    return new RedisPasswordThrottle(new Redis(url));
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { POLICY, can, canManageMember, getBoardRole, getWorkspaceRole, type Action } from './permissions';
+import type { WorkspaceRole } from './workspace';
+
+const ROLES: WorkspaceRole[] = ['OWNER', 'ADMIN', 'MEMBER', 'VIEWER'];
+
+// Spelled out rather than derived from POLICY, so a change to the policy has to change this too
+const EXPECTED: Record<Action, WorkspaceRole[]> = {
+    'workspace:read': ['OWNER', 'ADMIN', 'MEMBER', 'VIEWER'],
+    'workspace:rename': ['OWNER', 'ADMIN'],
+    'board:read': ['OWNER', 'ADMIN', 'MEMBER', 'VIEWER'],
+    'board:create': ['OWNER', 'ADMIN', 'MEMBER'],
+    'board:edit': ['OWNER', 'ADMIN', 'MEMBER'],
+    'board:delete': ['OWNER', 'ADMIN'],
+    'board:share': ['OWNER', 'ADMIN', 'MEMBER'],
+    'page:read': ['OWNER', 'ADMIN', 'MEMBER', 'VIEWER'],
+    'page:edit': ['OWNER', 'ADMIN', 'MEMBER'],
+    'labels:manage': ['OWNER', 'ADMIN', 'MEMBER'],
+    'topics:manage': ['OWNER', 'ADMIN', 'MEMBER'],
+    'templates:manage': ['OWNER', 'ADMIN', 'MEMBER'],
+    'members:manage': ['OWNER', 'ADMIN'],
+    'invitations:manage': ['OWNER', 'ADMIN'],
+    'audit:read': ['OWNER', 'ADMIN'],
+    'trash:read': ['OWNER', 'ADMIN', 'MEMBER'],
+};
+
+const ACTIONS = Object.keys(POLICY) as Action[];
+
+describe('can', () => {
+    it('has an expectation for every action in the policy', () => {
+        expect(ACTIONS.sort()).toEqual((Object.keys(EXPECTED) as Action[]).sort());
+    });
+
+    it.each(ACTIONS.flatMap((action) => ROLES.map((role) => [role, action, EXPECTED[action].includes(role)] as const)))(
+        '%s may %s: %s',
+        (role, action, allowed) => {
+            expect(can(role, action)).toBe(allowed);
+        }
+    );
+
+    it.each(ACTIONS)('denies %s without a role', (action) => {
+        expect(can(null, action)).toBe(false);
+        expect(can(undefined, action)).toBe(false);
+    });
+});
+
+describe('getWorkspaceRole', () => {
+    const workspace = {
+        ownerId: 'owner',
+        members: [
+            { userId: 'admin', role: 'ADMIN' as const },
+            { userId: 'member', role: 'MEMBER' as const },
+            { userId: 'viewer', role: 'VIEWER' as const },
+        ],
+    };
+
+    it('returns a member their role', () => {
+        expect(getWorkspaceRole(workspace, 'admin')).toBe('ADMIN');
+        expect(getWorkspaceRole(workspace, 'member')).toBe('MEMBER');
+        expect(getWorkspaceRole(workspace, 'viewer')).toBe('VIEWER');
+    });
+
+    it('treats the owner as OWNER even without a membership row', () => {
+        expect(getWorkspaceRole(workspace, 'owner')).toBe('OWNER');
+    });
+
+    it('prefers the membership row of an owner', () => {
+        const demoted = { ...workspace, members: [...workspace.members, { userId: 'owner', role: 'ADMIN' as const }] };
+        expect(getWorkspaceRole(demoted, 'owner')).toBe('ADMIN');
+    });
+
+    it('returns null for a non-member', () => {
+        expect(getWorkspaceRole(workspace, 'stranger')).toBeNull();
+    });
+});
+
+describe('getBoardRole', () => {
+    const workspace = { ownerId: 'owner', members: [{ userId: 'viewer', role: 'VIEWER' as const }] };
+
+    it('uses the workspace role on a workspace board', () => {
+        const board = { userId: 'creator', workspace };
+        expect(getBoardRole(board, 'owner')).toBe('OWNER');
+        expect(getBoardRole(board, 'viewer')).toBe('VIEWER');
+    });
+
+    it('gives a creator who is no longer a member no access', () => {
+        expect(getBoardRole({ userId: 'creator', workspace }, 'creator')).toBeNull();
+    });
+
+    it('gives no access on a workspace board loaded without its workspace', () => {
+        expect(getBoardRole({ userId: 'creator', workspaceId: 'workspace-1' }, 'creator')).toBeNull();
+    });
+
+    it('keeps a creator who is a member at their workspace role', () => {
+        expect(getBoardRole({ userId: 'viewer', workspace }, 'viewer')).toBe('VIEWER');
+    });
+
+    it('gives only the creator access to a personal board', () => {
+        expect(getBoardRole({ userId: 'creator', workspace: null }, 'creator')).toBe('OWNER');
+        expect(getBoardRole({ userId: 'creator' }, 'creator')).toBe('OWNER');
+        expect(getBoardRole({ userId: 'creator', workspace: null }, 'owner')).toBeNull();
+    });
+
+    it('returns null for a non-member', () => {
+        expect(getBoardRole({ userId: 'creator', workspace }, 'stranger')).toBeNull();
+    });
+});
+
+describe('canManageMember', () => {
+    const TARGETS: Array<WorkspaceRole | null> = [...ROLES, null];
+
+    it.each(ROLES.flatMap((target) => TARGETS.map((next) => [target, next] as const)))(
+        'lets an owner change %s to %s',
+        (target, next) => {
+            expect(canManageMember('OWNER', target, next)).toBe(true);
+        }
+    );
+
+    it.each([
+        ['MEMBER', 'VIEWER', true],
+        ['VIEWER', 'MEMBER', true],
+        ['MEMBER', null, true],
+        ['VIEWER', null, true],
+        ['MEMBER', 'ADMIN', false],
+        ['VIEWER', 'OWNER', false],
+        ['ADMIN', 'MEMBER', false],
+        ['ADMIN', null, false],
+        ['OWNER', 'VIEWER', false],
+        ['OWNER', null, false],
+    ] as const)('lets an admin change %s to %s: %s', (target, next, allowed) => {
+        expect(canManageMember('ADMIN', target, next)).toBe(allowed);
+    });
+
+    it.each(['MEMBER', 'VIEWER', null, undefined] as const)('lets %s manage nobody', (actor) => {
+        TARGETS.forEach((next) => {
+            ROLES.forEach((target) => expect(canManageMember(actor, target, next)).toBe(false));
+        });
+    });
+});
@@ -0,0 +1,106 @@
+/**
+ * Access policy - which workspace roles may do what
+ *
+ * API routes and the socket server resolve the caller's role with
+ * getBoardRole / getWorkspaceRole and then ask `can(role, action)`, so the
+ * rules live in one table instead of in every handler.
+ *
+ * VIEWERs can read everything in their workspace but change nothing.
+ */
+
+import type { WorkspaceRole } from './workspace';
+
+export type Action =
+    | 'workspace:read'
+    | 'workspace:rename'
+    | 'board:read'
+    | 'board:create'
+    | 'board:edit' // Rename, save content, create pages
+    | 'board:delete'
+    | 'board:share' // Manage share links
+    | 'page:read'
+    | 'page:edit' // Draw, update, delete, restore revisions
+    | 'labels:manage'
+    | 'topics:manage'
+    | 'templates:manage' // Save boards as templates; delete your own
+    | 'members:manage'
+    | 'invitations:manage'
+    | 'audit:read' // Workspace activity log
+    | 'trash:read';
+
+const EVERYONE: WorkspaceRole[] = ['OWNER', 'ADMIN', 'MEMBER', 'VIEWER'];
+const EDITORS: WorkspaceRole[] = ['OWNER', 'ADMIN', 'MEMBER'];
+const MANAGERS: WorkspaceRole[] = ['OWNER', 'ADMIN'];
+
+export const POLICY: Record<Action, WorkspaceRole[]> = {
+    'workspace:read': EVERYONE,
+    'workspace:rename': MANAGERS,
+    'board:read': EVERYONE,
+    'board:create': EDITORS,
+    'board:edit': EDITORS,
+    'board:delete': MANAGERS,
+    'board:share': EDITORS,
+    'page:read': EVERYONE,
+    'page:edit': EDITORS,
+    'labels:manage': EDITORS,
+    'topics:manage': EDITORS,
+    'templates:manage': EDITORS,
+    'members:manage': MANAGERS,
+    'invitations:manage': MANAGERS,
+    'audit:read': MANAGERS,
+    'trash:read': EDITORS,
+};
+
+interface WorkspaceLike {
+    ownerId: string;
+    members: { userId: string; role: WorkspaceRole }[];
+}
+
+interface BoardLike {
+    userId: string;
+    workspaceId?: string | null;
+    workspace?: WorkspaceLike | null;
+}
+
+export function can(role: WorkspaceRole | null | undefined, action: Action): boolean {
+    return !!role && POLICY[action].includes(role);
+}
+
+/**
+ * Role of a user in a workspace, or null when they aren't in it
+ */
+export function getWorkspaceRole(workspace: WorkspaceLike, userId: string): WorkspaceRole | null {
+    const member = workspace.members.find((m) => m.userId === userId);
+    if (member) return member.role;
+    if (workspace.ownerId === userId) return 'OWNER';
+    return null;
+}
+
+/**
+ * Role of a user on a board: their workspace role on a workspace board (none
+ * once they leave or are removed, even on boards they created), OWNER for
+ * the creator of a personal board, otherwise null (no access)
+ */
+export function getBoardRole(board: BoardLike, userId: string): WorkspaceRole | null {
+    if (board.workspace) return getWorkspaceRole(board.workspace, userId);
+    if (!board.workspaceId && board.userId === userId) return 'OWNER';
+    return null;
+}
+
+/**
+ * Whether a member with `actorRole` may change someone's role from
+ * `targetRole` to `nextRole`, or remove them when `nextRole` is null.
+ * Owners manage everyone; admins only manage members and viewers.
+ * (Keeping at least one owner is checked separately.)
+ */
+export function canManageMember(
+    actorRole: WorkspaceRole | null | undefined,
+    targetRole: WorkspaceRole,
+    nextRole: WorkspaceRole | null
+): boolean {
+    if (!can(actorRole, 'members:manage')) return false;
+    if (actorRole === 'OWNER') return true;
+
+    const manageable: WorkspaceRole[] = ['MEMBER', 'VIEWER'];
+    return manageable.includes(targetRole) && (nextRole === null || manageable.includes(nextRole));
+}
@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 
 const globalForPrisma = globalThis as unknown as {
     prisma: PrismaClient | undefined;
@@ -14,3 +14,11 @@ if (process.env.NODE_ENV !== 'production') {
     globalForPrisma.prisma = prisma;
 }
 
+/**
+ * Plain data (page content, strokes, metadata) bound for a Json column.
+ * Interfaces like Stroke have no index signature, so TypeScript can't see
+ * that they are JSON on its own.
+ */
+export function toJson(value: object): Prisma.InputJsonValue {
+    return value as Prisma.InputJsonValue;
+}
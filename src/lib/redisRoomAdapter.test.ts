@@ -0,0 +1,138 @@
+import RedisMock from 'ioredis-mock';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RedisRoomAdapter } from './redisRoomAdapter';
+import type { RoomBroadcast } from './roomAdapter';
+import type { PresenterState, UserPresence } from './socketProtocol';
+
+// Two server nodes sharing one (in-process) Redis
+function createNode() {
+    const client = new RedisMock();
+    return new RedisRoomAdapter(client, client.duplicate());
+}
+
+function user(socketId: string, lastSeen = Date.now()): UserPresence {
+    return { socketId, userId: `user-${socketId}`, userName: socketId, userColor: '#ff0000', lastSeen };
+}
+
+// Pub/sub delivery is asynchronous
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('RedisRoomAdapter', () => {
+    const redis = new RedisMock();
+    const nodeA = createNode();
+    const nodeB = createNode();
+    const receivedA: RoomBroadcast[] = [];
+    const receivedB: RoomBroadcast[] = [];
+
+    beforeAll(async () => {
+        await nodeA.subscribe((message) => receivedA.push(message));
+        await nodeB.subscribe((message) => receivedB.push(message));
+    });
+
+    beforeEach(async () => {
+        await redis.flushall();
+        receivedA.length = 0;
+        receivedB.length = 0;
+    });
+
+    afterAll(async () => {
+        await Promise.all([nodeA.close(), nodeB.close(), redis.quit()]);
+    });
+
+    describe('presence', () => {
+        it('shares a room between nodes', async () => {
+            await nodeA.addUser('room-1', user('a1'));
+            const users = await nodeB.addUser('room-1', user('b1'));
+
+            expect(users.map((u) => u.socketId).sort()).toEqual(['a1', 'b1']);
+            expect((await nodeA.getUsers('room-1')).map((u) => u.socketId).sort()).toEqual(['a1', 'b1']);
+        });
+
+        it('keeps rooms apart', async () => {
+            await nodeA.addUser('room-1', user('a1'));
+            await nodeB.addUser('room-2', user('b1'));
+
+            expect((await nodeA.getUsers('room-2')).map((u) => u.socketId)).toEqual(['b1']);
+            expect((await nodeB.getUsers('room-1')).map((u) => u.socketId)).toEqual(['a1']);
+        });
+
+        it('sees a user leave from another node', async () => {
+            await nodeA.addUser('room-1', user('a1'));
+            await nodeB.addUser('room-1', user('b1'));
+
+            const left = await nodeA.removeUser('room-1', 'a1');
+            expect(left.map((u) => u.socketId)).toEqual(['b1']);
+            expect((await nodeB.getUsers('room-1')).map((u) => u.socketId)).toEqual(['b1']);
+        });
+
+        it('stores cursor updates for every node', async () => {
+            await nodeA.addUser('room-1', user('a1'));
+            await nodeA.updateUser('room-1', { ...user('a1'), cursor: { x: 10, y: 20 } });
+
+            expect((await nodeB.getUsers('room-1'))[0].cursor).toEqual({ x: 10, y: 20 });
+        });
+
+        it('prunes users a dead node left behind', async () => {
+            await nodeA.addUser('room-1', user('a1', 1000));
+            await nodeB.addUser('room-1', user('b1', 5000));
+            await nodeA.addUser('room-2', user('a2', 1000));
+
+            const changed = await nodeB.removeStaleUsers(2000);
+
+            expect(changed.sort()).toEqual(['room-1', 'room-2']);
+            expect((await nodeB.getUsers('room-1')).map((u) => u.socketId)).toEqual(['b1']);
+            expect(await nodeB.getUsers('room-2')).toEqual([]);
+            // The emptied room is forgotten, so the next sweep reports nothing
+            expect(await nodeB.removeStaleUsers(2000)).toEqual([]);
+        });
+    });
+
+    describe('presenters', () => {
+        it('shares who is presenting a board', async () => {
+            const presenter: PresenterState = {
+                boardId: 'board-1',
+                socketId: 'a1',
+                userId: 'user-a1',
+                userName: 'a1',
+                userColor: '#ff0000',
+                view: null,
+                lastSeen: Date.now(),
+            };
+
+            await nodeA.setPresenter('board-1', presenter);
+            expect(await nodeB.getPresenter('board-1')).toEqual(presenter);
+
+            await nodeB.setPresenter('board-1', null);
+            expect(await nodeA.getPresenter('board-1')).toBeNull();
+        });
+    });
+
+    describe('broadcasts', () => {
+        const broadcast: RoomBroadcast = {
+            roomId: 'room-1',
+            event: 'cursor-update',
+            args: [{ socketId: 'a1', cursor: { x: 1, y: 2 }, userColor: '#ff0000', userName: 'a1' }],
+            exceptSocketId: 'a1',
+        };
+
+        it('delivers to the other nodes but not back to the sender', async () => {
+            await nodeA.publish(broadcast);
+            await settle();
+
+            expect(receivedB).toEqual([broadcast]);
+            expect(receivedA).toEqual([]);
+        });
+
+        it('drops malformed messages', async () => {
+            const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+            await redis.publish('aifa:realtime:broadcast', 'not json');
+            await nodeA.publish(broadcast);
+            await settle();
+
+            expect(receivedB).toEqual([broadcast]);
+            expect(logged).toHaveBeenCalled();
+            logged.mockRestore();
+        });
+    });
+});
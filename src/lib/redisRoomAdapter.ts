@@ -0,0 +1,148 @@
+/**
+ * RedisRoomAdapter - room presence and broadcasts shared by every node
+ *
+ * - Presence: one hash per room (`socketId -> UserPresence` JSON) plus a set
+ *   of room ids, so any node can prune users left behind by a node that died
+ * - Presenters: one JSON string per board
+ * - Broadcasts: one pub/sub channel; each message carries the id of the node
+ *   that sent it, and a node ignores its own
+ *
+ * Needs only the handful of commands in RedisClient, so ioredis or any
+ * Redis-compatible server (or a local stand-in for it) will do.
+ */
+
+import { randomUUID } from 'crypto';
+import type { RoomAdapter, RoomBroadcast } from './roomAdapter';
+import type { PresenterState, UserPresence } from './socketProtocol';
+
+export interface RedisClient {
+    hset(key: string, field: string, value: string): Promise<unknown>;
+    hdel(key: string, field: string): Promise<unknown>;
+    hgetall(key: string): Promise<Record<string, string>>;
+    sadd(key: string, member: string): Promise<unknown>;
+    srem(key: string, member: string): Promise<unknown>;
+    smembers(key: string): Promise<string[]>;
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string): Promise<unknown>;
+    del(key: string): Promise<unknown>;
+    publish(channel: string, message: string): Promise<unknown>;
+    subscribe(channel: string): Promise<unknown>;
+    on(event: 'message', listener: (channel: string, message: string) => void): unknown;
+    quit(): Promise<unknown>;
+}
+
+interface RelayedBroadcast {
+    nodeId: string;
+    broadcast: RoomBroadcast;
+}
+
+const KEY_PREFIX = 'aifa:realtime';
+const ROOMS_KEY = `${KEY_PREFIX}:rooms`;
+const CHANNEL = `${KEY_PREFIX}:broadcast`;
+
+const roomKey = (roomId: string) => `${KEY_PREFIX}:room:${roomId}`;
+const presenterKey = (boardId: string) => `${KEY_PREFIX}:presenter:${boardId}`;
+
+function parseUsers(hash: Record<string, string>): UserPresence[] {
+    const users: UserPresence[] = [];
+    for (const value of Object.values(hash)) {
+        try {
+            users.push(JSON.parse(value));
+        } catch {
+            // Skip entries written by something else
+        }
+    }
+    return users;
+}
+
+export class RedisRoomAdapter implements RoomAdapter {
+    private nodeId = randomUUID();
+
+    /**
+     * @param client - connection for presence commands and publishing
+     * @param subscriber - separate connection, used only for the subscription
+     */
+    constructor(private client: RedisClient, private subscriber: RedisClient) {}
+
+    async addUser(roomId: string, user: UserPresence) {
+        await Promise.all([
+            this.client.hset(roomKey(roomId), user.socketId, JSON.stringify(user)),
+            this.client.sadd(ROOMS_KEY, roomId),
+        ]);
+        return this.getUsers(roomId);
+    }
+
+    async removeUser(roomId: string, socketId: string) {
+        await this.client.hdel(roomKey(roomId), socketId);
+        const users = await this.getUsers(roomId);
+        if (users.length === 0) {
+            await this.client.srem(ROOMS_KEY, roomId);
+        }
+        return users;
+    }
+
+    async updateUser(roomId: string, user: UserPresence) {
+        await this.client.hset(roomKey(roomId), user.socketId, JSON.stringify(user));
+    }
+
+    async getUsers(roomId: string) {
+        return parseUsers(await this.client.hgetall(roomKey(roomId)));
+    }
+
+    async removeStaleUsers(before: number) {
+        const changed: string[] = [];
+        for (const roomId of await this.client.smembers(ROOMS_KEY)) {
+            const users = await this.getUsers(roomId);
+            const stale = users.filter((user) => user.lastSeen < before);
+            if (stale.length === 0 && users.length > 0) continue;
+
+            await Promise.all(stale.map((user) => this.client.hdel(roomKey(roomId), user.socketId)));
+            if (stale.length === users.length) {
+                await this.client.srem(ROOMS_KEY, roomId);
+            }
+            if (stale.length > 0) changed.push(roomId);
+        }
+        return changed;
+    }
+
+    async getPresenter(boardId: string) {
+        const value = await this.client.get(presenterKey(boardId));
+        if (!value) return null;
+        try {
+            return JSON.parse(value) as PresenterState;
+        } catch {
+            return null;
+        }
+    }
+
+    async setPresenter(boardId: string, presenter: PresenterState | null) {
+        if (presenter) {
+            await this.client.set(presenterKey(boardId), JSON.stringify(presenter));
+        } else {
+            await this.client.del(presenterKey(boardId));
+        }
+    }
+
+    async publish(broadcast: RoomBroadcast) {
+        const message: RelayedBroadcast = { nodeId: this.nodeId, broadcast };
+        await this.client.publish(CHANNEL, JSON.stringify(message));
+    }
+
+    async subscribe(handler: (broadcast: RoomBroadcast) => void) {
+        this.subscriber.on('message', (channel, raw) => {
+            if (channel !== CHANNEL) return;
+            try {
+                const message: RelayedBroadcast = JSON.parse(raw);
+                if (message.nodeId === this.nodeId) return;
+                handler(message.broadcast);
+            } catch (error) {
+                console.error('[Socket] Dropped malformed room broadcast:', error);
+            }
+        });
+        await this.subscriber.subscribe(CHANNEL);
+    }
+
+    async close() {
+        await Promise.all([this.subscriber.quit(), this.client.quit()]);
+    }
+}
@@ -0,0 +1,142 @@
+/**
+ * Room adapter - where realtime presence lives and how room broadcasts
+ * reach sockets connected to other server nodes
+ *
+ * A single node keeps everything in memory (MemoryRoomAdapter). With
+ * REDIS_URL set, presence is shared through Redis hashes and broadcasts are
+ * relayed over Redis pub/sub (RedisRoomAdapter), so any number of nodes can
+ * serve the same board behind a load balancer.
+ *
+ * The socket server always emits to its own sockets itself; `publish` only
+ * has to deliver a broadcast to the other nodes.
+ */
+
+import type { PresenterState, ServerToClientEvents, UserPresence } from './socketProtocol';
+
+export type RoomBroadcast = {
+    [E in keyof ServerToClientEvents]: {
+        roomId: string;
+        event: E;
+        args: Parameters<ServerToClientEvents[E]>;
+        exceptSocketId?: string; // The sender, who already has it
+    };
+}[keyof ServerToClientEvents];
+
+export interface RoomAdapter {
+    /** Add or replace a user's presence; resolves to everyone now in the room */
+    addUser(roomId: string, user: UserPresence): Promise<UserPresence[]>;
+    /** Remove a socket from a room; resolves to everyone left in it */
+    removeUser(roomId: string, socketId: string): Promise<UserPresence[]>;
+    /** Store a user's latest cursor and heartbeat */
+    updateUser(roomId: string, user: UserPresence): Promise<void>;
+    getUsers(roomId: string): Promise<UserPresence[]>;
+    /** Drop users not seen since `before`; resolves to the rooms that changed */
+    removeStaleUsers(before: number): Promise<string[]>;
+    getPresenter(boardId: string): Promise<PresenterState | null>;
+    /** Set or (with null) clear who is presenting a board */
+    setPresenter(boardId: string, presenter: PresenterState | null): Promise<void>;
+    /** Send a broadcast to the other nodes */
+    publish(broadcast: RoomBroadcast): Promise<void>;
+    /** Receive broadcasts published by the other nodes */
+    subscribe(handler: (broadcast: RoomBroadcast) => void): Promise<void>;
+    close(): Promise<void>;
+}
+
+/**
+ * Single-node adapter: presence in process memory, nothing to relay
+ */
+export class MemoryRoomAdapter implements RoomAdapter {
+    private rooms = new Map<string, Map<string, UserPresence>>();
+    private presenters = new Map<string, PresenterState>();
+
+    async addUser(roomId: string, user: UserPresence) {
+        if (!this.rooms.has(roomId)) {
+            this.rooms.set(roomId, new Map());
+        }
+        this.rooms.get(roomId)!.set(user.socketId, { ...user });
+        return this.getUsers(roomId);
+    }
+
+    async removeUser(roomId: string, socketId: string) {
+        const users = this.rooms.get(roomId);
+        if (!users) return [];
+
+        users.delete(socketId);
+        // Clean up empty rooms
+        if (users.size === 0) {
+            this.rooms.delete(roomId);
+        }
+        return Array.from(users.values());
+    }
+
+    async updateUser(roomId: string, user: UserPresence) {
+        const users = this.rooms.get(roomId);
+        if (users?.has(user.socketId)) {
+            users.set(user.socketId, { ...user });
+        }
+    }
+
+    async getUsers(roomId: string) {
+        return Array.from(this.rooms.get(roomId)?.values() ?? []);
+    }
+
+    async removeStaleUsers(before: number) {
+        const changed: string[] = [];
+        for (const [roomId, users] of this.rooms) {
+            for (const [socketId, user] of users) {
+                if (user.lastSeen < before) {
+                    users.delete(socketId);
+                    if (!changed.includes(roomId)) changed.push(roomId);
+                }
+            }
+            if (users.size === 0) {
+                this.rooms.delete(roomId);
+            }
+        }
+        return changed;
+    }
+
+    async getPresenter(boardId: string) {
+        return this.presenters.get(boardId) ?? null;
+    }
+
+    async setPresenter(boardId: string, presenter: PresenterState | null) {
+        if (presenter) {
+            this.presenters.set(boardId, { ...presenter });
+        } else {
+            this.presenters.delete(boardId);
+        }
+    }
+
+    async publish() {
+        // Every socket is on this node
+    }
+
+    async subscribe() {
+        // No other nodes to hear from
+    }
+
+    async close() {
+        this.rooms.clear();
+        this.presenters.clear();
+    }
+}
+
+/**
+ * Adapter for this deployment: Redis when REDIS_URL is set, memory otherwise
+ */
+export async function createRoomAdapter(): Promise<RoomAdapter> {
+    const url = process.env.REDIS_URL;
+    if (!url) return new MemoryRoomAdapter();
+
+    const [{ default: Redis }, { RedisRoomAdapter }] = await Promise.all([
+        import('ioredis'),
+        import('./redisRoomAdapter'),
+    ]);
+    const client = new Redis(url);
+    // A subscribed connection can't run other commands
+    const subscriber = client.duplicate();
+
+    console.log('[Socket] Sharing rooms through Redis');
+    return new RedisRoomAdapter(client, subscriber);
+}
@@ -0,0 +1,200 @@
+/**
+ * Search - boards, pages, labels and the words written on pages
+ *
+ * Pages keep plain-text columns next to their content: `searchText`
+ * (the text strokes, rewritten by pageOperations on every commit),
+ * `recognizedText` (handwriting recognized with OcrButton) and
+ * `handwritingText` (the background handwriting index, whose words also
+ * carry their position). Searching matches titles, label names and those
+ * columns case-insensitively, limited to the workspaces the user is a
+ * member of.
+ */
+
+import { prisma } from './prisma';
+import { readPageContent } from './pageOperations';
+
+export type SearchResultType = 'board' | 'page' | 'label' | 'text' | 'handwriting';
+
+export interface SearchResult {
+    type: SearchResultType;
+    workspaceId: string | null;
+    boardId: string;
+    boardTitle: string;
+    pageId?: string;
+    pageTitle?: string;
+    /** Text stroke to zoom to when the match is written on the page */
+    strokeId?: string;
+    /** Area to zoom to when the match is a recognized handwritten word */
+    area?: { x: number; y: number; width: number; height: number };
+    title: string;
+    snippet?: string;
+}
+
+export const MIN_QUERY_LENGTH = 2;
+
+const DEFAULT_LIMIT = 20;
+const SNIPPET_RADIUS = 40;
+
+/**
+ * The part of `text` around the first match of `query`, or null without a match
+ */
+export function getSnippet(text: string | null | undefined, query: string, radius = SNIPPET_RADIUS): string | null {
+    if (!text) return null;
+
+    const index = text.toLowerCase().indexOf(query.toLowerCase());
+    if (index === -1) return null;
+
+    const start = Math.max(0, index - radius);
+    const end = Math.min(text.length, index + query.length + radius);
+    const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+    return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Search everything the user can read, optionally within one workspace
+ */
+export async function searchWorkspaces(
+    userId: string,
+    query: string,
+    options: { workspaceId?: string; limit?: number } = {}
+): Promise<SearchResult[]> {
+    const limit = options.limit ?? DEFAULT_LIMIT;
+
+    const memberships = await prisma.workspaceMember.findMany({
+        where: { userId, ...(options.workspaceId ? { workspaceId: options.workspaceId } : {}) },
+        select: { workspaceId: true },
+    });
+    const workspaceIds = memberships.map((m: { workspaceId: string }) => m.workspaceId);
+    if (workspaceIds.length === 0) return [];
+
+    const matches = { contains: query, mode: 'insensitive' as const };
+    const liveBoard = { workspaceId: { in: workspaceIds }, deletedAt: null };
+
+    const [boards, pages, labels] = await Promise.all([
+        prisma.board.findMany({
+            where: { ...liveBoard, title: matches },
+            orderBy: { updatedAt: 'desc' },
+            take: limit,
+        }),
+        prisma.page.findMany({
+            where: {
+                deletedAt: null,
+                board: liveBoard,
+                OR: [
+                    { title: matches },
+                    { searchText: matches },
+                    { recognizedText: matches },
+                    { handwritingText: matches },
+                ],
+            },
+            select: {
+                id: true,
+                title: true,
+                searchText: true,
+                recognizedText: true,
+                handwritingText: true,
+                board: { select: { id: true, title: true, workspaceId: true } },
+            },
+            orderBy: { updatedAt: 'desc' },
+            take: limit,
+        }),
+        prisma.label.findMany({
+            where: { name: matches, board: liveBoard },
+            include: { board: { select: { id: true, title: true, workspaceId: true } } },
+            take: limit,
+        }),
+    ]);
+
+    const results: SearchResult[] = [];
+
+    for (const board of boards) {
+        results.push({
+            type: 'board',
+            workspaceId: board.workspaceId,
+            boardId: board.id,
+            boardTitle: board.title,
+            title: board.title,
+        });
+    }
+
+    for (const label of labels) {
+        results.push({
+            type: 'label',
+            workspaceId: label.board.workspaceId,
+            boardId: label.board.id,
+            boardTitle: label.board.title,
+            title: label.name,
+        });
+    }
+
+    // Written matches point at the stroke, so the content of those pages is
+    // read only once we know they match
+    const writtenPageIds = pages
+        .filter((page: any) => getSnippet(page.searchText, query))
+        .map((page: any) => page.id);
+    const contents = writtenPageIds.length > 0
+        ? await prisma.page.findMany({
+            where: { id: { in: writtenPageIds } },
+            select: { id: true, content: true },
+        })
+        : [];
+    const contentById = new Map(contents.map((page: any) => [page.id, page.content]));
+
+    // Likewise handwriting matches point at the first recognized word of the query
+    const handwrittenPageIds = pages
+        .filter((page: any) => getSnippet(page.handwritingText, query))
+        .map((page: any) => page.id);
+    const firstTerm = query.trim().split(/\s+/)[0];
+    const words = handwrittenPageIds.length > 0
+        ? await prisma.handwritingWord.findMany({
+            where: { pageId: { in: handwrittenPageIds }, text: { contains: firstTerm, mode: 'insensitive' } },
+            orderBy: { confidence: 'desc' },
+        })
+        : [];
+    const wordByPageId = new Map<string, any>();
+    for (const word of words) {
+        if (!wordByPageId.has(word.pageId)) wordByPageId.set(word.pageId, word);
+    }
+
+    for (const page of pages) {
+        const base = {
+            workspaceId: page.board.workspaceId,
+            boardId: page.board.id,
+            boardTitle: page.board.title,
+            pageId: page.id,
+            pageTitle: page.title,
+        };
+
+        if (page.title.toLowerCase().includes(query.toLowerCase())) {
+            results.push({ ...base, type: 'page', title: page.title });
+        }
+
+        if (contentById.has(page.id)) {
+            const { strokes } = readPageContent(contentById.get(page.id));
+            const stroke = strokes.find(
+                (s) => s.tool === 'text' && s.text?.toLowerCase().includes(query.toLowerCase())
+            );
+            results.push({
+                ...base,
+                type: 'text',
+                strokeId: stroke?.id,
+                title: page.title,
+                snippet: getSnippet(stroke?.text ?? page.searchText, query) ?? undefined,
+            });
+        }
+
+        const recognized = getSnippet(page.handwritingText, query) ?? getSnippet(page.recognizedText, query);
+        if (recognized) {
+            const word = wordByPageId.get(page.id);
+            results.push({
+                ...base,
+                type: 'handwriting',
+                title: page.title,
+                snippet: recognized,
+                area: word ? { x: word.x, y: word.y, width: word.width, height: word.height } : undefined,
+            });
+        }
+    }
+
+    return results;
+}
@@ -0,0 +1,112 @@
+import RedisMock from 'ioredis-mock';
+import { NextRequest } from 'next/server';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getPasswordRetryAfter, recordPasswordFailure } from './shareLinks';
+import { MemoryPasswordThrottle, PASSWORD_FAILURE_WINDOW_MS } from './passwordThrottle';
+
+vi.mock('./prisma', () => ({ prisma: {} }));
+// Every connection the throttle opens is an in-process Redis
+vi.mock('ioredis', async () => ({ default: (await import('ioredis-mock')).default }));
+
+const link = { id: 'link-1' };
+
+function request(address: string) {
+    return new NextRequest('http://localhost/api/share/token', { headers: { 'x-forwarded-for': address } });
+}
+
+async function fail(times: number, address: string, target = link) {
+    for (let i = 0; i < times; i++) {
+        await recordPasswordFailure(target, request(address));
+    }
+}
+
+describe('share link password throttle', () => {
+    const redis = new RedisMock();
+
+    beforeAll(() => {
+        vi.stubEnv('REDIS_URL', 'redis://localhost:6379');
+    });
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+        await redis.flushall();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    afterAll(async () => {
+        vi.unstubAllEnvs();
+        await redis.quit();
+    });
+
+    it('lets an address try 5 wrong passwords, then locks it out for the window', async () => {
+        await fail(4, '10.0.0.1');
+        expect(await getPasswordRetryAfter(link, request('10.0.0.1'))).toBe(0);
+
+        await fail(1, '10.0.0.1');
+        expect(await getPasswordRetryAfter(link, request('10.0.0.1'))).toBe(PASSWORD_FAILURE_WINDOW_MS / 1000);
+
+        // Other addresses and other links are unaffected
+        expect(await getPasswordRetryAfter(link, request('10.0.0.2'))).toBe(0);
+        expect(await getPasswordRetryAfter({ id: 'link-2' }, request('10.0.0.1'))).toBe(0);
+    });
+
+    it('counts down the lockout and lifts it when the window ends', async () => {
+        await fail(5, '10.0.0.1');
+
+        vi.setSystemTime(Date.now() + 10 * 60 * 1000);
+        expect(await getPasswordRetryAfter(link, request('10.0.0.1'))).toBe(5 * 60);
+
+        vi.setSystemTime(Date.now() + 5 * 60 * 1000);
+        expect(await getPasswordRetryAfter(link, request('10.0.0.1'))).toBe(0);
+
+        // A new window starts with the next failure
+        await fail(4, '10.0.0.1');
+        expect(await getPasswordRetryAfter(link, request('10.0.0.1'))).toBe(0);
+    });
+
+    it('locks the link for everyone after 50 wrong passwords from anywhere', async () => {
+        for (let i = 0; i < 50; i++) {
+            await fail(1, `10.0.1.${i}`);
+        }
+
+        expect(await getPasswordRetryAfter(link, request('10.0.2.1'))).toBe(PASSWORD_FAILURE_WINDOW_MS / 1000);
+        expect(await getPasswordRetryAfter({ id: 'link-2' }, request('10.0.2.1'))).toBe(0);
+    });
+
+    it('shares the counts between server nodes', async () => {
+        await fail(5, '10.0.0.1');
+
+        // A node of its own, counting in the same Redis
+        vi.resetModules();
+        const other = await import('./shareLinks');
+        expect(await other.getPasswordRetryAfter(link, request('10.0.0.1'))).toBe(PASSWORD_FAILURE_WINDOW_MS / 1000);
+    });
+});
+
+describe('MemoryPasswordThrottle', () => {
+    const rules = [{ key: 'link-1', limit: 2 }];
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('locks a key at its limit until the window ends', async () => {
+        const throttle = new MemoryPasswordThrottle();
+        await throttle.recordFailure(rules);
+        expect(await throttle.getRetryAfter(rules)).toBe(0);
+
+        await throttle.recordFailure(rules);
+        expect(await throttle.getRetryAfter(rules)).toBe(PASSWORD_FAILURE_WINDOW_MS);
+
+        vi.setSystemTime(Date.now() + PASSWORD_FAILURE_WINDOW_MS);
+        expect(await throttle.getRetryAfter(rules)).toBe(0);
+    });
+});
@@ -0,0 +1,168 @@
+/**
+ * Share links - open a board without being in its workspace
+ *
+ * A link grants the access of its scope, expressed as a workspace role so the
+ * access policy (permissions.ts) decides what it allows. Links can be
+ * revoked, expire, and require a password.
+ *
+ * Endpoints that honour links take the token as `?share=<token>`. Unlocking a
+ * password link sets a cookie derived from the stored hash, so revoking the
+ * link or changing its password locks everyone out again. Wrong passwords are
+ * throttled per link and address, and per link overall (passwordThrottle.ts).
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { NextRequest } from 'next/server';
+import { prisma } from './prisma';
+import { createPasswordThrottle, type PasswordThrottle } from './passwordThrottle';
+import type { WorkspaceRole } from './workspace';
+
+export type ShareScope = 'VIEW' | 'EDIT';
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export const SHARE_SCOPES: ShareScope[] = ['VIEW', 'EDIT'];
+
+export const SHARE_PARAM = 'share';
+
+const SCOPE_ROLES: Record<ShareScope, WorkspaceRole> = {
+    VIEW: 'VIEWER',
+    EDIT: 'MEMBER',
+};
+
+const MAX_EXPIRY_DAYS = 365;
+const COOKIE_PREFIX = 'aifa_share_';
+
+// Wrong passwords allowed per window, from one address and from anywhere
+const MAX_PASSWORD_FAILURES_PER_ADDRESS = 5;
+const MAX_PASSWORD_FAILURES_PER_LINK = 50;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+interface ShareLinkLike {
+    id: string;
+    boardId: string;
+    scope: ShareScope;
+    passwordHash: string | null;
+    expiresAt: Date | string | null;
+    revokedAt: Date | string | null;
+}
+
+export function createShareToken(): string {
+    return randomBytes(24).toString('base64url');
+}
+
+export function getShareLinkStatus(
+    link: Pick<ShareLinkLike, 'expiresAt' | 'revokedAt'>,
+    now = new Date()
+): ShareLinkStatus {
+    if (link.revokedAt) return 'revoked';
+    if (link.expiresAt && new Date(link.expiresAt) <= now) return 'expired';
+    return 'active';
+}
+
+/**
+ * Expiry date for a link valid `days` days from now (null/0 = never expires)
+ */
+export function getShareLinkExpiry(days: unknown, now = new Date()): Date | null {
+    const value = Number(days);
+    if (!value || value < 0) return null;
+    return new Date(now.getTime() + Math.min(value, MAX_EXPIRY_DAYS) * 24 * 60 * 60 * 1000);
+}
+
+export function getShareScopeRole(scope: ShareScope): WorkspaceRole {
+    return SCOPE_ROLES[scope];
+}
+
+export async function hashSharePassword(password: string): Promise<string> {
+    const salt = randomBytes(16).toString('hex');
+    const hash = await scryptAsync(password, salt, 64);
+    return `${salt}:${hash.toString('hex')}`;
+}
+
+export async function verifySharePassword(password: string, passwordHash: string): Promise<boolean> {
+    const [salt, expected] = passwordHash.split(':');
+    if (!salt || !expected) return false;
+
+    const hash = await scryptAsync(password, salt, 64);
+    const expectedBuffer = Buffer.from(expected, 'hex');
+    return hash.length === expectedBuffer.length && timingSafeEqual(hash, expectedBuffer);
+}
+
+export function getShareCookieName(link: Pick<ShareLinkLike, 'id'>) {
+    return `${COOKIE_PREFIX}${link.id}`;
+}
+
+export function getShareCookieValue(link: Pick<ShareLinkLike, 'id' | 'passwordHash'>) {
+    return createHash('sha256').update(`${link.id}:${link.passwordHash}`).digest('base64url');
+}
+
+/**
+ * Whether the request may use the link: always for links without a password,
+ * otherwise once the password has been entered in this browser
+ */
+export function isShareLinkUnlocked(link: Pick<ShareLinkLike, 'id' | 'passwordHash'>, request: NextRequest) {
+    if (!link.passwordHash) return true;
+
+    const cookie = request.cookies.get(getShareCookieName(link))?.value;
+    if (!cookie) return false;
+
+    const expected = Buffer.from(getShareCookieValue(link));
+    const actual = Buffer.from(cookie);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+let passwordThrottle: Promise<PasswordThrottle> | null = null;
+
+function getPasswordThrottle() {
+    if (!passwordThrottle) {
+        passwordThrottle = createPasswordThrottle();
+    }
+    return passwordThrottle;
+}
+
+function getClientAddress(request: NextRequest): string {
+    const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+    return forwarded || request.headers.get('x-real-ip') || 'unknown';
+}
+
+function getFailureRules(link: Pick<ShareLinkLike, 'id'>, request: NextRequest) {
+    return [
+        { key: `${link.id}:${getClientAddress(request)}`, limit: MAX_PASSWORD_FAILURES_PER_ADDRESS },
+        { key: link.id, limit: MAX_PASSWORD_FAILURES_PER_LINK },
+    ];
+}
+
+/**
+ * Seconds until the request may try the link's password again (0 = now)
+ */
+export async function getPasswordRetryAfter(link: Pick<ShareLinkLike, 'id'>, request: NextRequest): Promise<number> {
+    const throttle = await getPasswordThrottle();
+    return Math.ceil((await throttle.getRetryAfter(getFailureRules(link, request))) / 1000);
+}
+
+export async function recordPasswordFailure(link: Pick<ShareLinkLike, 'id'>, request: NextRequest) {
+    const throttle = await getPasswordThrottle();
+    await throttle.recordFailure(getFailureRules(link, request));
+}
+
+export function getShareToken(request: NextRequest): string | null {
+    return request.nextUrl.searchParams.get(SHARE_PARAM);
+}
+
+/**
+ * Role granted on a board by the share link in the request, or null when the
+ * request has no usable link for that board
+ */
+export async function getShareRole(request: NextRequest, boardId: string): Promise<WorkspaceRole | null> {
+    const token = getShareToken(request);
+    if (!token) return null;
+
+    const link = await prisma.shareLink.findUnique({ where: { token } });
+    if (!link || link.boardId !== boardId) return null;
+    if (getShareLinkStatus(link) !== 'active') return null;
+    if (!isShareLinkUnlocked(link, request)) return null;
+
+    return getShareScopeRole(link.scope);
+}
@@ -1,35 +1,59 @@
 /**
  * Real-Time Collaboration Server using Socket.io
  * 
+ * The only realtime server: mounted on the custom HTTP server in server.js
+ * and spoken to through the event map in socketProtocol.ts.
+ *
  * This module handles:
- * - Real-time stroke synchronization
+ * - Real-time stroke synchronization, persisted through the page operation log
+ * - Live streaming of strokes while they are drawn
+ * - Catch-up for late joiners and reconnecting clients
  * - User presence and cursor tracking
- * - Room management for different boards
+ * - Presenter mode: one user per board leads everyone's page and view
+ * - Page list updates after pages are added, reordered, moved or copied
+ * - Room management for different boards, shared across server nodes through
+ *   a RoomAdapter (see roomAdapter.ts)
+ * - Clerk-authenticated handshakes and per-room authorization
+ * - Protocol version handshake
  */
 
-import { Server as SocketIOServer, Socket } from 'socket.io';
+import { Server as SocketIOServer } from 'socket.io';
 import { Server as HTTPServer } from 'http';
+import { appendStrokeOperations, readPageCatchUp } from './pageOperations';
+import { recordAuditEvent } from './audit';
+import { can } from './permissions';
+import { listLivePages } from './pageTransfer';
+import { createRoomAdapter, type RoomAdapter, type RoomBroadcast } from './roomAdapter';
+import {
+    authenticateSocket,
+    createHandshakeError,
+    resolveBoardRole,
+    resolveRoomRole,
+    type RoomRole,
+    type ServerSocket,
+} from './socketAuth';
+import {
+    PROTOCOL_VERSION,
+    SOCKET_PATH,
+    type ClientToServerEvents,
+    type PresenterState,
+    type ServerToClientEvents,
+    type SocketData,
+    type UserPresence,
+} from './socketProtocol';
+import { parseStrokeOperation, type StrokeOperation } from './strokeCrdt';
 
-export interface UserPresence {
-    socketId: string;
-    userId: string;
-    userName: string;
-    userColor: string;
-    cursor?: { x: number; y: number };
-    lastSeen: number;
-}
+export type { StrokeOperation, UserPresence };
 
-export interface StrokeOperation {
-    type: 'add' | 'update' | 'delete' | 'clear';
-    stroke?: any;
-    strokeId?: string;
-    pageId: string;
-    userId: string;
-    timestamp: number;
-}
+const STALE_THRESHOLD = 60000; // 60 seconds
+// How often a user's heartbeat is written back to the (possibly shared) presence store
+const PRESENCE_REFRESH_INTERVAL = 15000;
+
+// Every socket on a board, whichever page it is on (presenter updates go here)
+const boardRoom = (boardId: string) => `board:${boardId}`;
 
-// Store for active rooms and users
-const rooms = new Map<string, Map<string, UserPresence>>();
+// Most boards one page change touches (a move between boards touches two)
+const MAX_PAGE_CHANGE_BOARDS = 2;
 
 // Generate a random color for user cursor
 function generateUserColor(): string {
@@ -40,9 +64,24 @@ function generateUserColor(): string {
     return colors[Math.floor(Math.random() * colors.length)];
 }
 
-export function initSocketServer(httpServer: HTTPServer): SocketIOServer {
-    const io = new SocketIOServer(httpServer, {
-        path: '/api/socket',
+// Refuse clients built against another protocol version
+function checkProtocolVersion(socket: ServerSocket, next: (err?: Error) => void) {
+    const clientVersion = socket.handshake.auth?.protocolVersion;
+    if (clientVersion !== PROTOCOL_VERSION) {
+        console.warn(`[Socket] Rejected protocol v${clientVersion} from ${socket.id} (server speaks v${PROTOCOL_VERSION})`);
+        return next(createHandshakeError(
+            'This page is out of date with the collaboration server. Please reload.',
+            'PROTOCOL_MISMATCH'
+        ));
+    }
+    next();
+}
+
+export async function initSocketServer(httpServer: HTTPServer, adapter?: RoomAdapter) {
+    const rooms = adapter ?? await createRoomAdapter();
+
+    const io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>(httpServer, {
+        path: SOCKET_PATH,
         addTrailingSlash: false,
         cors: {
             origin: process.env.NODE_ENV === 'production'
@@ -54,147 +93,392 @@ export function initSocketServer(httpServer: HTTPServer): SocketIOServer {
         transports: ['websocket', 'polling'],
     });
 
-    io.on('connection', (socket: Socket) => {
+    // Only current clients with a verified Clerk session get a connection
+    io.use(checkProtocolVersion);
+    io.use(authenticateSocket);
+
+    // Emit to this node's sockets in a room
+    const emitLocal = (broadcast: RoomBroadcast) => {
+        const target = broadcast.exceptSocketId
+            ? io.to(broadcast.roomId).except(broadcast.exceptSocketId)
+            : io.to(broadcast.roomId);
+        (target.emit as (event: string, ...args: unknown[]) => boolean)(broadcast.event, ...broadcast.args);
+    };
+
+    // Emit to a room on every node
+    const broadcastToRoom = (broadcast: RoomBroadcast) => {
+        emitLocal(broadcast);
+        rooms.publish(broadcast).catch((error) => {
+            console.error(`[Socket] Failed to relay ${broadcast.event} for room ${broadcast.roomId}:`, error);
+        });
+    };
+
+    const broadcastPresence = async (roomId: string, users?: UserPresence[]) => {
+        broadcastToRoom({
+            roomId,
+            event: 'presence-update',
+            args: [users ?? await rooms.getUsers(roomId)],
+        });
+    };
+
+    // The board's presenter, unless their node stopped refreshing it
+    const loadPresenter = async (boardId: string) => {
+        const presenter = await rooms.getPresenter(boardId);
+        return presenter && Date.now() - presenter.lastSeen <= STALE_THRESHOLD ? presenter : null;
+    };
+
+    await rooms.subscribe(emitLocal);
+
+    io.on('connection', (socket) => {
         console.log(`[Socket] Client connected: ${socket.id}`);
 
+        const userId = socket.data.userId;
         let currentRoom: string | null = null;
+        let currentBoardId: string | null = null;
+        let currentPageId: string | null = null;
+        let currentRole: RoomRole | null = null;
         let currentUser: UserPresence | null = null;
+        let presenting: PresenterState | null = null;
+        let lastStored = 0;
+
+        // Persist the heartbeat now and then rather than on every cursor move
+        const refreshPresence = () => {
+            if (!currentRoom || !currentUser) return;
+            currentUser.lastSeen = Date.now();
+            if (currentUser.lastSeen - lastStored < PRESENCE_REFRESH_INTERVAL) return;
+
+            lastStored = currentUser.lastSeen;
+            rooms.updateUser(currentRoom, currentUser).catch((error) => {
+                console.error(`[Socket] Failed to refresh presence in room ${currentRoom}:`, error);
+            });
+            if (presenting) {
+                presenting.lastSeen = currentUser.lastSeen;
+                rooms.setPresenter(presenting.boardId, presenting).catch((error) => {
+                    console.error(`[Socket] Failed to refresh presenter of board ${presenting?.boardId}:`, error);
+                });
+            }
+        };
+
+        const stopPresenting = async () => {
+            if (!presenting) return;
+            const { boardId } = presenting;
+            presenting = null;
+
+            try {
+                const stored = await rooms.getPresenter(boardId);
+                if (stored?.socketId !== socket.id) return;
+                await rooms.setPresenter(boardId, null);
+                broadcastToRoom({ roomId: boardRoom(boardId), event: 'presenter-update', args: [null] });
+            } catch (error) {
+                console.error(`[Socket] Failed to stop presenting board ${boardId}:`, error);
+            }
+        };
 
         // Join a board room
-        socket.on('join-board', (data: {
-            boardId: string;
-            pageId: string;
-            userId: string;
-            userName: string
-        }) => {
+        socket.on('join-board', async (data) => {
             const roomId = `${data.boardId}:${data.pageId}`;
 
+            let role: RoomRole | null;
+            try {
+                role = await resolveRoomRole(data.boardId, data.pageId, userId);
+            } catch (error) {
+                console.error(`[Socket] Failed to check access to room ${roomId}:`, error);
+                role = null;
+            }
+            if (!role) {
+                socket.emit('join-error', {
+                    boardId: data.boardId,
+                    pageId: data.pageId,
+                    message: 'You do not have access to this board'
+                });
+                return;
+            }
+
             // Leave previous room if any
             if (currentRoom) {
-                socket.leave(currentRoom);
-                const roomUsers = rooms.get(currentRoom);
-                if (roomUsers) {
-                    roomUsers.delete(socket.id);
-                    io.to(currentRoom).emit('presence-update', Array.from(roomUsers.values()));
+                const previousRoom = currentRoom;
+                socket.leave(previousRoom);
+                try {
+                    await broadcastPresence(previousRoom, await rooms.removeUser(previousRoom, socket.id));
+                } catch (error) {
+                    console.error(`[Socket] Failed to leave room ${previousRoom}:`, error);
+                }
+            }
+
+            // Switching boards ends a presentation of the old one
+            if (currentBoardId !== data.boardId) {
+                if (currentBoardId) {
+                    await stopPresenting();
+                    socket.leave(boardRoom(currentBoardId));
                 }
+                socket.join(boardRoom(data.boardId));
+                currentBoardId = data.boardId;
             }
 
             // Join new room
             socket.join(roomId);
             currentRoom = roomId;
+            currentPageId = data.pageId;
+            currentRole = role;
 
             // Create user presence
             currentUser = {
                 socketId: socket.id,
-                userId: data.userId,
+                userId,
                 userName: data.userName || 'Anonymous',
                 userColor: generateUserColor(),
                 lastSeen: Date.now()
             };
 
             // Add user to room
-            if (!rooms.has(roomId)) {
-                rooms.set(roomId, new Map());
+            lastStored = currentUser.lastSeen;
+            let roomUsers: UserPresence[];
+            try {
+                roomUsers = await rooms.addUser(roomId, currentUser);
+            } catch (error) {
+                console.error(`[Socket] Failed to record presence in room ${roomId}:`, error);
+                roomUsers = [currentUser];
             }
-            rooms.get(roomId)!.set(socket.id, currentUser);
 
             // Notify others of new user
-            const roomUsers = Array.from(rooms.get(roomId)!.values());
-            io.to(roomId).emit('presence-update', roomUsers);
+            await broadcastPresence(roomId, roomUsers);
+
+            let presenter: PresenterState | null = null;
+            try {
+                presenter = await loadPresenter(data.boardId);
+            } catch (error) {
+                console.error(`[Socket] Failed to load presenter of board ${data.boardId}:`, error);
+            }
 
             // Send current user their socket id and color
             socket.emit('joined', {
                 socketId: socket.id,
                 userColor: currentUser.userColor,
-                users: roomUsers
+                role,
+                users: roomUsers,
+                presenter
             });
 
             console.log(`[Socket] User ${data.userName} joined room ${roomId}`);
+
+            // Bring the client up to date. It is already in the room, so
+            // anything logged after this read reaches it live.
+            try {
+                const sinceSeq = typeof data.sinceSeq === 'number' ? data.sinceSeq : undefined;
+                const catchUp = await readPageCatchUp(data.pageId, sinceSeq);
+                socket.emit('catch-up', { pageId: data.pageId, ...catchUp });
+            } catch (error) {
+                console.error(`[Socket] Failed to catch up ${socket.id} in room ${roomId}:`, error);
+            }
         });
 
         // Handle cursor movement
-        socket.on('cursor-move', (data: { x: number; y: number }) => {
+        socket.on('cursor-move', (data) => {
             if (!currentRoom || !currentUser) return;
 
             currentUser.cursor = data;
-            currentUser.lastSeen = Date.now();
+            refreshPresence();
 
             // Broadcast cursor position to others in the room
-            socket.to(currentRoom).emit('cursor-update', {
-                socketId: socket.id,
-                cursor: data,
-                userColor: currentUser.userColor,
-                userName: currentUser.userName
+            broadcastToRoom({
+                roomId: currentRoom,
+                event: 'cursor-update',
+                args: [{
+                    socketId: socket.id,
+                    cursor: data,
+                    userColor: currentUser.userColor,
+                    userName: currentUser.userName
+                }],
+                exceptSocketId: socket.id
             });
         });
 
         // Handle stroke operations
-        socket.on('stroke-operation', (operation: StrokeOperation) => {
-            if (!currentRoom) return;
+        socket.on('stroke-operation', async (payload) => {
+            if (!currentRoom || !currentPageId) return;
 
-            // Broadcast the stroke operation to all others in the room
-            socket.to(currentRoom).emit('stroke-operation', {
-                ...operation,
-                senderId: socket.id
-            });
+            // The author is always the authenticated user
+            const operation = parseStrokeOperation({ ...payload, userId });
+            if (!operation) {
+                socket.emit('stroke-error', {
+                    opId: typeof payload?.opId === 'string' ? payload.opId : '',
+                    message: 'Invalid stroke operation',
+                    retryable: false
+                });
+                return;
+            }
+            if (operation.pageId !== currentPageId) return;
+
+            if (!can(currentRole, 'page:edit')) {
+                socket.emit('stroke-error', {
+                    opId: operation.opId,
+                    message: 'You have read-only access to this board',
+                    retryable: false
+                });
+                return;
+            }
+
+            const room = currentRoom;
+            try {
+                // Persist first so the log order is the order everyone applies
+                const { appended, duplicates, rejected } = await appendStrokeOperations(currentPageId, [operation]);
+
+                for (const op of rejected) {
+                    socket.emit('stroke-error', {
+                        opId: op.opId,
+                        message: 'Stroke operation is stamped too far ahead of the page',
+                        retryable: false
+                    });
+                }
+
+                // Broadcast the stroke operation to all others in the room
+                for (const op of appended) {
+                    broadcastToRoom({
+                        roomId: room,
+                        event: 'stroke-operation',
+                        args: [{ ...op, senderId: socket.id }],
+                        exceptSocketId: socket.id
+                    });
+                }
 
-            console.log(`[Socket] Stroke ${operation.type} in room ${currentRoom}`);
+                // Tell the sender where its operation landed in the log
+                for (const op of [...appended, ...duplicates]) {
+                    socket.emit('stroke-ack', { opId: op.opId, pageId: op.pageId, seq: op.seq! });
+                }
+
+                // Clearing wipes a page for everyone, so it goes in the audit log
+                if (appended.some((op) => op.type === 'clear')) {
+                    await recordAuditEvent({
+                        actorId: userId,
+                        action: 'page.cleared',
+                        targetId: operation.pageId,
+                        boardId: currentBoardId,
+                    });
+                }
+
+                console.log(`[Socket] Stroke ${operation.type} in room ${room}`);
+            } catch (error) {
+                console.error(`[Socket] Failed to append stroke operation in room ${room}:`, error);
+                socket.emit('stroke-error', {
+                    opId: operation.opId,
+                    message: 'Failed to save stroke operation',
+                    retryable: true
+                });
+            }
         });
 
-        // Handle page switch
-        socket.on('switch-page', (data: { boardId: string; pageId: string }) => {
-            if (!currentUser) return;
+        // Relay in-progress strokes as they are drawn (live only, never logged)
+        socket.on('stroke-progress', (data) => {
+            if (!currentRoom || data.pageId !== currentPageId) return;
+            if (!can(currentRole, 'page:edit')) return;
 
-            // Re-emit join-board to switch rooms
-            socket.emit('join-board', {
-                boardId: data.boardId,
-                pageId: data.pageId,
-                userId: currentUser.userId,
-                userName: currentUser.userName
+            broadcastToRoom({
+                roomId: currentRoom,
+                event: 'stroke-progress',
+                args: [{ ...data, senderId: socket.id }],
+                exceptSocketId: socket.id
             });
         });
 
-        // Handle disconnect
-        socket.on('disconnect', () => {
-            console.log(`[Socket] Client disconnected: ${socket.id}`);
+        // Take the lead on this board; refused while someone else presents
+        socket.on('start-presenting', async () => {
+            if (!currentBoardId || !currentUser || !can(currentRole, 'page:edit')) return;
+            const boardId = currentBoardId;
 
-            if (currentRoom) {
-                const roomUsers = rooms.get(currentRoom);
-                if (roomUsers) {
-                    roomUsers.delete(socket.id);
-                    io.to(currentRoom).emit('presence-update', Array.from(roomUsers.values()));
-
-                    // Clean up empty rooms
-                    if (roomUsers.size === 0) {
-                        rooms.delete(currentRoom);
-                    }
+            try {
+                const current = await loadPresenter(boardId);
+                if (current && current.socketId !== socket.id) {
+                    socket.emit('presenter-update', current);
+                    return;
                 }
+
+                presenting = {
+                    boardId,
+                    socketId: socket.id,
+                    userId,
+                    userName: currentUser.userName,
+                    userColor: currentUser.userColor,
+                    view: current?.view ?? null,
+                    lastSeen: Date.now()
+                };
+                await rooms.setPresenter(boardId, presenting);
+                broadcastToRoom({ roomId: boardRoom(boardId), event: 'presenter-update', args: [presenting] });
+                console.log(`[Socket] User ${currentUser.userName} is presenting board ${boardId}`);
+            } catch (error) {
+                console.error(`[Socket] Failed to start presenting board ${boardId}:`, error);
             }
         });
 
-        // Ping for presence heartbeat
-        socket.on('ping-presence', () => {
-            if (currentUser) {
-                currentUser.lastSeen = Date.now();
+        socket.on('stop-presenting', stopPresenting);
+
+        // The presenter moved: followers go to the same page and view
+        socket.on('presenter-view', async (view) => {
+            if (!presenting) return;
+
+            const presenter: PresenterState = { ...presenting, view, lastSeen: Date.now() };
+            presenting = presenter;
+            try {
+                await rooms.setPresenter(presenter.boardId, presenter);
+                broadcastToRoom({
+                    roomId: boardRoom(presenter.boardId),
+                    event: 'presenter-update',
+                    args: [presenter],
+                    exceptSocketId: socket.id
+                });
+            } catch (error) {
+                console.error(`[Socket] Failed to update presenter view of board ${presenter.boardId}:`, error);
             }
         });
-    });
 
-    // Cleanup stale users every 30 seconds
-    setInterval(() => {
-        const now = Date.now();
-        const STALE_THRESHOLD = 60000; // 60 seconds
+        // Pages were changed through the API: send everyone on those boards
+        // the new page list (the sender already has it)
+        socket.on('pages-changed', async (data) => {
+            const boardIds = Array.from(new Set(data?.boardIds ?? [])).slice(0, MAX_PAGE_CHANGE_BOARDS);
+
+            for (const boardId of boardIds) {
+                try {
+                    if (!can(await resolveBoardRole(boardId, userId), 'board:edit')) continue;
 
-        for (const [roomId, users] of rooms) {
-            for (const [socketId, user] of users) {
-                if (now - user.lastSeen > STALE_THRESHOLD) {
-                    users.delete(socketId);
-                    io.to(roomId).emit('presence-update', Array.from(users.values()));
+                    const pages = await listLivePages(boardId);
+                    broadcastToRoom({
+                        roomId: boardRoom(boardId),
+                        event: 'pages-update',
+                        args: [{ boardId, pages }],
+                        exceptSocketId: socket.id
+                    });
+                } catch (error) {
+                    console.error(`[Socket] Failed to send page list of board ${boardId}:`, error);
                 }
             }
-            if (users.size === 0) {
-                rooms.delete(roomId);
+        });
+
+        // Handle disconnect
+        socket.on('disconnect', async () => {
+            console.log(`[Socket] Client disconnected: ${socket.id}`);
+            await stopPresenting();
+
+            if (currentRoom) {
+                const room = currentRoom;
+                currentRoom = null;
+                try {
+                    await broadcastPresence(room, await rooms.removeUser(room, socket.id));
+                } catch (error) {
+                    console.error(`[Socket] Failed to leave room ${room}:`, error);
+                }
             }
+        });
+
+        // Ping for presence heartbeat
+        socket.on('ping-presence', refreshPresence);
+    });
+
+    // Cleanup stale users every 30 seconds, including those of nodes that went away
+    setInterval(async () => {
+        try {
+            const changed = await rooms.removeStaleUsers(Date.now() - STALE_THRESHOLD);
+            await Promise.all(changed.map((roomId) => broadcastPresence(roomId)));
+        } catch (error) {
+            console.error('[Socket] Failed to clean up stale users:', error);
         }
     }, 30000);
 
@@ -0,0 +1,80 @@
+/**
+ * Socket authentication and room authorization
+ *
+ * The handshake has to carry a Clerk session token (`auth.token`). The user
+ * id is taken from the verified token, never from event payloads. Room roles
+ * come from the shared access policy (permissions.ts): anyone who can read
+ * the board may join, and VIEWERs can follow along but not draw.
+ */
+
+import type { Socket } from 'socket.io';
+import { verifyToken } from '@clerk/nextjs/server';
+import { prisma } from './prisma';
+import { getBoardRole } from './permissions';
+import { isTrashed } from './trash';
+import {
+    PROTOCOL_VERSION,
+    type ClientToServerEvents,
+    type HandshakeErrorData,
+    type RoomRole,
+    type ServerToClientEvents,
+    type SocketData,
+} from './socketProtocol';
+
+export type { RoomRole };
+
+export type ServerSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+
+/**
+ * Error for a refused handshake; `data` reaches the client's connect_error handler
+ */
+export function createHandshakeError(message: string, code: HandshakeErrorData['code']) {
+    const error = new Error(message) as Error & { data: HandshakeErrorData };
+    error.data = { code, serverVersion: PROTOCOL_VERSION };
+    return error;
+}
+
+/**
+ * Socket.io middleware: verify the session token and record the user on `socket.data`
+ */
+export async function authenticateSocket(socket: ServerSocket, next: (err?: Error) => void) {
+    const token = socket.handshake.auth?.token;
+    if (typeof token !== 'string' || !token) {
+        return next(createHandshakeError('Unauthorized', 'UNAUTHORIZED'));
+    }
+
+    try {
+        const payload = await verifyToken(token, { secretKey: process.env.CLERK_SECRET_KEY });
+        socket.data.userId = payload.sub;
+        next();
+    } catch (error) {
+        console.warn(`[Socket] Rejected handshake from ${socket.id}:`, error instanceof Error ? error.message : error);
+        next(createHandshakeError('Unauthorized', 'UNAUTHORIZED'));
+    }
+}
+
+/**
+ * Role of a user in the room of a board page, or null when they have no access
+ */
+export async function resolveRoomRole(boardId: string, pageId: string, userId: string): Promise<RoomRole | null> {
+    const page = await prisma.page.findUnique({
+        where: { id: pageId },
+        include: { board: { include: { workspace: { include: { members: true } } } } },
+    });
+
+    if (!page || page.boardId !== boardId || isTrashed(page)) return null;
+    return getBoardRole(page.board, userId);
+}
+
+/**
+ * Role of a user on a board, or null when they have no access
+ */
+export async function resolveBoardRole(boardId: string, userId: string): Promise<RoomRole | null> {
+    const board = await prisma.board.findUnique({
+        where: { id: boardId },
+        include: { workspace: { include: { members: true } } },
+    });
+
+    if (!board || isTrashed(board)) return null;
+    return getBoardRole(board, userId);
+}
@@ -0,0 +1,152 @@
+/**
+ * Real-time protocol - the one event map shared by the socket server and
+ * every client hook
+ *
+ * Bump PROTOCOL_VERSION on any incompatible change to the events below. The
+ * client sends its version with the handshake and the server refuses other
+ * versions with a PROTOCOL_MISMATCH error instead of half-working.
+ */
+
+import type { Point, Stroke } from '@/store/whiteboardStore';
+import type { StrokeOperation } from './strokeCrdt';
+
+export const PROTOCOL_VERSION = 1;
+export const SOCKET_PATH = '/api/socket';
+
+export type RoomRole = 'OWNER' | 'ADMIN' | 'MEMBER' | 'VIEWER';
+
+export interface UserPresence {
+    socketId: string;
+    userId: string;
+    userName: string;
+    userColor: string;
+    cursor?: { x: number; y: number };
+    lastSeen: number;
+}
+
+// Sent as `auth` with the socket.io handshake
+export interface HandshakeAuth {
+    token?: string | null; // Clerk session token
+    protocolVersion: number;
+}
+
+// Attached as `data` to a refused handshake (connect_error)
+export interface HandshakeErrorData {
+    code: 'UNAUTHORIZED' | 'PROTOCOL_MISMATCH';
+    serverVersion: number;
+}
+
+// Where the presenter is looking: followers center the same point at the same zoom
+export interface PresenterView {
+    pageId: string;
+    center: { x: number; y: number }; // Scene point in the middle of the presenter's screen
+    scale: number;
+}
+
+// The one user presenting a board; everyone else on the board can follow along
+export interface PresenterState {
+    boardId: string;
+    socketId: string;
+    userId: string;
+    userName: string;
+    userColor: string;
+    view: PresenterView | null;
+    lastSeen: number;
+}
+
+export interface JoinBoardPayload {
+    boardId: string;
+    pageId: string;
+    userName: string;
+    sinceSeq?: number; // Last log position the client has applied; omitted = send a snapshot
+}
+
+export interface JoinedPayload {
+    socketId: string;
+    userColor: string;
+    role: RoomRole;
+    users: UserPresence[];
+    presenter: PresenterState | null;
+}
+
+export interface JoinErrorPayload {
+    boardId: string;
+    pageId: string;
+    message: string;
+}
+
+// What a joining client missed: the operations after its `sinceSeq`, or the
+// whole page when it is too far behind (or the log can't cover the gap)
+export interface CatchUpPayload {
+    pageId: string;
+    seq: number; // Log position the page is at after applying this
+    operations?: StrokeOperation[];
+    snapshot?: Record<string, unknown>; // Page content, as stored
+}
+
+export interface CursorUpdatePayload {
+    socketId: string;
+    cursor: { x: number; y: number };
+    userColor: string;
+    userName: string;
+}
+
+// Points of a stroke still being drawn. Not logged: the finished stroke
+// arrives as an 'add' operation and replaces the ghost on remote canvases.
+export interface StrokeProgressPayload {
+    pageId: string;
+    strokeId: string;
+    offset: number; // Index of the first point below; points before it are unchanged
+    points: Point[];
+    style?: Omit<Stroke, 'points'>; // Sent with the first batch (offset 0)
+    senderId?: string;
+}
+
+export interface StrokeAckPayload {
+    opId: string;
+    pageId: string;
+    seq: number;
+}
+
+export interface StrokeErrorPayload {
+    opId: string;
+    message: string;
+    retryable: boolean; // false when resending can never succeed (no edit access, invalid operation)
+}
+
+// A board's live pages after they were added, reordered, moved or copied
+export interface PagesUpdatePayload {
+    boardId: string;
+    pages: { id: string; title: string; order: number }[];
+}
+
+export interface ClientToServerEvents {
+    'join-board': (data: JoinBoardPayload) => void;
+    'cursor-move': (data: { x: number; y: number }) => void;
+    'stroke-operation': (operation: StrokeOperation) => void;
+    'stroke-progress': (data: StrokeProgressPayload) => void;
+    'ping-presence': () => void;
+    'start-presenting': () => void;
+    'stop-presenting': () => void;
+    'presenter-view': (view: PresenterView) => void;
+    'pages-changed': (data: { boardIds: string[] }) => void; // After a page change through the API
+}
+
+export interface ServerToClientEvents {
+    'joined': (data: JoinedPayload) => void;
+    'join-error': (data: JoinErrorPayload) => void;
+    'catch-up': (data: CatchUpPayload) => void;
+    'presence-update': (users: UserPresence[]) => void;
+    'cursor-update': (data: CursorUpdatePayload) => void;
+    'stroke-operation': (operation: StrokeOperation) => void;
+    'stroke-progress': (data: StrokeProgressPayload) => void;
+    'stroke-ack': (data: StrokeAckPayload) => void;
+    'stroke-error': (data: StrokeErrorPayload) => void;
+    'presenter-update': (presenter: PresenterState | null) => void;
+    'pages-update': (data: PagesUpdatePayload) => void;
+}
+
+// Per-connection state the server keeps on `socket.data`
+export interface SocketData {
+    userId: string;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { Stroke } from '@/store/whiteboardStore';
+import {
+    MAX_STROKE_CLOCK,
+    applyStrokeOperation,
+    createSyncState,
+    parseStrokeOperation,
+    type StrokeOperation,
+} from './strokeCrdt';
+
+function stroke(id: string): Stroke {
+    return {
+        id,
+        tool: 'pen',
+        points: [{ x: 0, y: 0 }, { x: 10, y: 10 }],
+        color: '#000000',
+        width: 2,
+        opacity: 1,
+        pageId: 'page-1',
+        createdAt: '',
+    };
+}
+
+function addOperation(id: string, seq: number): StrokeOperation {
+    return {
+        type: 'add',
+        stroke: stroke(id),
+        pageId: 'page-1',
+        userId: 'user-1',
+        timestamp: 0,
+        opId: `op-${id}`,
+        clock: seq,
+        seq,
+    };
+}
+
+describe('applyStrokeOperation', () => {
+    it('advances the log position over contiguous operations', () => {
+        let { strokes, state } = { strokes: [] as Stroke[], state: createSyncState() };
+        for (const seq of [1, 2, 3]) {
+            ({ strokes, state } = applyStrokeOperation(strokes, state, addOperation(`s${seq}`, seq)));
+        }
+        expect(state.seq).toBe(3);
+        expect(strokes).toHaveLength(3);
+    });
+
+    it('holds the log position at a gap until it is filled', () => {
+        const first = applyStrokeOperation([], createSyncState(), addOperation('s1', 1));
+        const ahead = applyStrokeOperation(first.strokes, first.state, addOperation('s3', 3));
+        expect(ahead.applied).toBe(true);
+        expect(ahead.state.seq).toBe(1);
+
+        // The missing operation, then a replay of the one that ran ahead
+        const filled = applyStrokeOperation(ahead.strokes, ahead.state, addOperation('s2', 2));
+        const replayed = applyStrokeOperation(filled.strokes, filled.state, addOperation('s3', 3));
+        expect(replayed.applied).toBe(false);
+        expect(replayed.state.seq).toBe(3);
+        expect(replayed.strokes.map((s) => s.id)).toEqual(['s1', 's3', 's2']);
+    });
+});
+
+describe('parseStrokeOperation', () => {
+    const valid = {
+        type: 'add',
+        stroke: stroke('s1'),
+        pageId: 'page-1',
+        userId: 'user-1',
+        timestamp: 1,
+        opId: 'op-1',
+        clock: 5,
+    };
+
+    it('accepts a well-formed operation and drops server-assigned fields', () => {
+        expect(parseStrokeOperation({ ...valid, seq: 99, senderId: 'x' })).toEqual({ ...valid, strokeId: 's1' });
+        expect(parseStrokeOperation({ ...valid, type: 'delete', stroke: undefined, strokeId: 's1' }))
+            .toEqual({ type: 'delete', strokeId: 's1', pageId: 'page-1', userId: 'user-1', timestamp: 1, opId: 'op-1', clock: 5 });
+        expect(parseStrokeOperation({ ...valid, type: 'clear', stroke: undefined })?.type).toBe('clear');
+    });
+
+    it.each([
+        ['not an object', 'add'],
+        ['an unknown type', { ...valid, type: 'move' }],
+        ['a missing opId', { ...valid, opId: '' }],
+        ['a negative clock', { ...valid, clock: -1 }],
+        ['a fractional clock', { ...valid, clock: 1.5 }],
+        ['a clock past the column', { ...valid, clock: MAX_STROKE_CLOCK + 1 }],
+        ['an add without a stroke', { ...valid, stroke: undefined }],
+        ['a stroke with bad points', { ...valid, stroke: { ...stroke('s1'), points: [{ x: 'a', y: 0 }] } }],
+        ['a stroke id that disagrees', { ...valid, strokeId: 'other' }],
+        ['a delete without a stroke id', { ...valid, type: 'delete', stroke: undefined }],
+    ])('rejects %s', (_label, payload) => {
+        expect(parseStrokeOperation(payload)).toBeNull();
+    });
+});
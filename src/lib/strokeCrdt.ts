@@ -0,0 +1,318 @@
+/**
+ * Stroke CRDT - convergent merge of concurrent stroke edits
+ *
+ * Every stroke on a page is a last-writer-wins register keyed by its id.
+ * Operations carry a Lamport clock plus the author's id, so the server log
+ * and every connected canvas order concurrent writes the same way no matter
+ * in which order the operations arrive:
+ * - add / update replace the register when their stamp is newer
+ * - delete leaves a tombstone, so a late add or update cannot resurrect it
+ * - clear raises a watermark that hides every stroke stamped before it
+ *
+ * Updates always carry the full stroke so a register can be rebuilt after a
+ * clear. The sync state is persisted next to the strokes in `Page.content.sync`.
+ */
+
+import type { Stroke } from '@/store/whiteboardStore';
+
+export type StrokeOperationType = 'add' | 'update' | 'delete' | 'clear';
+
+export interface StrokeOperation {
+    type: StrokeOperationType;
+    stroke?: Stroke;
+    strokeId?: string;
+    pageId: string;
+    userId: string;
+    timestamp: number;
+    opId: string; // Unique per operation, used to drop replays
+    clock: number; // Lamport clock of the author
+    seq?: number; // Position in the server log, assigned on append
+    senderId?: string;
+}
+
+export interface StrokeStamp {
+    clock: number;
+    actor: string;
+}
+
+export interface StrokeEntry extends StrokeStamp {
+    seq: number; // Log position of the last write (0 = not yet acknowledged)
+    deleted?: boolean;
+}
+
+export interface StrokeSyncState {
+    seq: number; // Log position applied without gaps
+    clock: number; // Highest Lamport clock observed
+    clearedAt: (StrokeStamp & { seq: number }) | null;
+    entries: Record<string, StrokeEntry>;
+}
+
+export interface ApplyResult {
+    strokes: Stroke[];
+    state: StrokeSyncState;
+    applied: boolean;
+}
+
+// Clocks are stored in an Int column
+export const MAX_STROKE_CLOCK = 2_147_483_647;
+
+const OPERATION_TYPES: StrokeOperationType[] = ['add', 'update', 'delete', 'clear'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Whether a value has the fields every stroke needs
+ */
+export function isStroke(value: unknown): value is Stroke {
+    return isRecord(value)
+        && typeof value.id === 'string' && value.id.length > 0
+        && typeof value.tool === 'string'
+        && typeof value.color === 'string'
+        && isFiniteNumber(value.width)
+        && isFiniteNumber(value.opacity)
+        && Array.isArray(value.points)
+        && value.points.every((p) => isRecord(p) && isFiniteNumber(p.x) && isFiniteNumber(p.y));
+}
+
+/**
+ * Check an operation received from a client, keeping only the fields a
+ * client may set. Returns null when it is malformed.
+ */
+export function parseStrokeOperation(value: unknown): StrokeOperation | null {
+    if (!isRecord(value)) return null;
+
+    const { type, stroke, strokeId, pageId, userId, timestamp, opId, clock } = value;
+    if (!OPERATION_TYPES.includes(type as StrokeOperationType)) return null;
+    if (typeof opId !== 'string' || !opId || typeof pageId !== 'string' || typeof userId !== 'string') return null;
+    if (!Number.isSafeInteger(clock) || (clock as number) < 0 || (clock as number) > MAX_STROKE_CLOCK) return null;
+    if (!isFiniteNumber(timestamp)) return null;
+
+    const op: StrokeOperation = {
+        type: type as StrokeOperationType,
+        pageId,
+        userId,
+        timestamp,
+        opId,
+        clock: clock as number,
+    };
+    if (type === 'add' || type === 'update') {
+        if (!isStroke(stroke) || (strokeId !== undefined && strokeId !== stroke.id)) return null;
+        op.stroke = stroke;
+        op.strokeId = stroke.id;
+    } else if (type === 'delete') {
+        if (typeof strokeId !== 'string' || !strokeId) return null;
+        op.strokeId = strokeId;
+    }
+    return op;
+}
+
+// Strokes loaded from a snapshot without an entry predate every operation
+const BASE_STAMP: StrokeStamp = { clock: 0, actor: '' };
+
+/**
+ * Create a sync state, optionally from one persisted in page content
+ */
+export function createSyncState(state?: Partial<StrokeSyncState> | null): StrokeSyncState {
+    return {
+        seq: state?.seq ?? 0,
+        clock: state?.clock ?? 0,
+        clearedAt: state?.clearedAt ?? null,
+        entries: { ...(state?.entries ?? {}) },
+    };
+}
+
+/**
+ * Total order over stamps: Lamport clock first, author id breaks ties
+ */
+export function compareStamps(a: StrokeStamp, b: StrokeStamp): number {
+    if (a.clock !== b.clock) return a.clock - b.clock;
+    if (a.actor === b.actor) return 0;
+    return a.actor < b.actor ? -1 : 1;
+}
+
+/**
+ * Apply a single operation to a page's strokes.
+ * Returns the input arrays untouched (applied: false) when the operation
+ * loses against what the replica has already seen.
+ */
+export function applyStrokeOperation(
+    strokes: Stroke[],
+    state: StrokeSyncState,
+    op: StrokeOperation
+): ApplyResult {
+    const stamp: StrokeStamp = { clock: op.clock, actor: op.userId };
+    const seq = op.seq ?? 0;
+    const next: StrokeSyncState = {
+        ...state,
+        // Only a contiguous log position: past a gap, strokes the base of
+        // the next snapshot save claims to include may not have arrived yet
+        seq: seq === state.seq + 1 ? seq : state.seq,
+        clock: Math.max(state.clock, op.clock),
+    };
+
+    if (op.type === 'clear') {
+        if (state.clearedAt && compareStamps(stamp, state.clearedAt) <= 0) {
+            return { strokes, state: next, applied: false };
+        }
+        // Strokes written after the clear (concurrently) survive it
+        const kept = strokes.filter(
+            (s) => compareStamps(state.entries[s.id] ?? BASE_STAMP, stamp) > 0
+        );
+        return {
+            strokes: kept,
+            state: { ...next, clearedAt: { ...stamp, seq } },
+            applied: true,
+        };
+    }
+
+    const strokeId = op.strokeId ?? op.stroke?.id;
+    if (!strokeId) {
+        return { strokes, state: next, applied: false };
+    }
+
+    const current = state.entries[strokeId];
+    if (current?.deleted) {
+        return { strokes, state: next, applied: false };
+    }
+
+    if (op.type === 'delete') {
+        return {
+            strokes: strokes.filter((s) => s.id !== strokeId),
+            state: {
+                ...next,
+                entries: { ...state.entries, [strokeId]: { ...stamp, seq, deleted: true } },
+            },
+            applied: true,
+        };
+    }
+
+    if (!op.stroke) {
+        return { strokes, state: next, applied: false };
+    }
+    if (compareStamps(stamp, current ?? BASE_STAMP) <= 0) {
+        return { strokes, state: next, applied: false };
+    }
+
+    const entries = { ...state.entries, [strokeId]: { ...stamp, seq } };
+
+    // Written before the last clear: remember the stamp but keep it hidden
+    if (state.clearedAt && compareStamps(stamp, state.clearedAt) < 0) {
+        return {
+            strokes: strokes.filter((s) => s.id !== strokeId),
+            state: { ...next, entries },
+            applied: true,
+        };
+    }
+
+    const stroke: Stroke = { ...op.stroke, id: strokeId };
+    const index = strokes.findIndex((s) => s.id === strokeId);
+    const nextStrokes = index === -1
+        ? [...strokes, stroke]
+        : strokes.map((s, i) => (i === index ? stroke : s));
+
+    return { strokes: nextStrokes, state: { ...next, entries }, applied: true };
+}
+
+/**
+ * Undo a local operation the server turned down, given the page as it was
+ * right before the operation was applied. Writes made since (by anyone) to
+ * the same stroke win and are kept.
+ */
+export function revertStrokeOperation(
+    strokes: Stroke[],
+    state: StrokeSyncState,
+    op: StrokeOperation,
+    before: { strokes: Stroke[]; state: StrokeSyncState }
+): ApplyResult {
+    const stamp: StrokeStamp = { clock: op.clock, actor: op.userId };
+    const isOurs = (entry: StrokeStamp | null | undefined) => !!entry && compareStamps(entry, stamp) === 0;
+
+    if (op.type === 'clear') {
+        if (!isOurs(state.clearedAt)) return { strokes, state, applied: false };
+
+        // Bring back what the clear hid, unless it was written to since
+        const present = new Set(strokes.map((s) => s.id));
+        const restored = before.strokes.filter((s) => {
+            if (present.has(s.id)) return false;
+            const entry = state.entries[s.id];
+            const previous = before.state.entries[s.id];
+            if (!entry || !previous) return entry === previous;
+            return !entry.deleted && compareStamps(entry, previous) === 0;
+        });
+        return {
+            strokes: [...restored, ...strokes],
+            state: { ...state, clearedAt: before.state.clearedAt },
+            applied: true,
+        };
+    }
+
+    const strokeId = op.strokeId ?? op.stroke?.id;
+    if (!strokeId || !isOurs(state.entries[strokeId])) {
+        return { strokes, state, applied: false };
+    }
+
+    const entries = { ...state.entries };
+    const previousEntry = before.state.entries[strokeId];
+    if (previousEntry) entries[strokeId] = previousEntry;
+    else delete entries[strokeId];
+
+    const rest = strokes.filter((s) => s.id !== strokeId);
+    const index = before.strokes.findIndex((s) => s.id === strokeId);
+    if (index !== -1) {
+        rest.splice(Math.min(index, rest.length), 0, before.strokes[index]);
+    }
+
+    return { strokes: rest, state: { ...state, entries }, applied: true };
+}
+
+/**
+ * Turn a full-page snapshot into the operations that reconcile it with the
+ * server copy. `baseSeq` is the last log position the client had applied
+ * when it took the snapshot, which tells a stroke the client removed apart
+ * from one somebody else added after the snapshot was taken.
+ */
+export function diffStrokeSnapshot(
+    serverStrokes: Stroke[],
+    state: StrokeSyncState,
+    clientStrokes: Stroke[],
+    baseSeq: number
+): Array<Pick<StrokeOperation, 'type' | 'stroke' | 'strokeId'>> {
+    const ops: Array<Pick<StrokeOperation, 'type' | 'stroke' | 'strokeId'>> = [];
+    const serverById = new Map(serverStrokes.map((s) => [s.id, s]));
+    const clientIds = new Set<string>();
+    const clearedSinceBase = !!state.clearedAt && state.clearedAt.seq > baseSeq;
+
+    for (const stroke of clientStrokes) {
+        clientIds.add(stroke.id);
+        const entry = state.entries[stroke.id];
+        if (entry?.deleted) continue;
+
+        const changedSinceBase = !!entry && entry.seq > baseSeq;
+        const serverStroke = serverById.get(stroke.id);
+
+        if (!serverStroke) {
+            // Known to the server but hidden: removed by a clear the client missed
+            if (entry && clearedSinceBase) continue;
+            ops.push({ type: 'add', stroke, strokeId: stroke.id });
+        } else if (!changedSinceBase && JSON.stringify(serverStroke) !== JSON.stringify(stroke)) {
+            ops.push({ type: 'update', stroke, strokeId: stroke.id });
+        }
+    }
+
+    for (const stroke of serverStrokes) {
+        if (clientIds.has(stroke.id)) continue;
+        const entry = state.entries[stroke.id];
+        // The client saw this stroke and dropped it
+        if ((entry?.seq ?? 0) <= baseSeq) {
+            ops.push({ type: 'delete', strokeId: stroke.id });
+        }
+    }
+
+    return ops;
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_TEMPLATES, parseTemplatePages } from './templatePages';
+
+describe('parseTemplatePages', () => {
+    const pages = BUILT_IN_TEMPLATES.find((template) => template.id === 'builtin-lesson')!.pages;
+
+    it('reads back pages as they are stored', () => {
+        expect(parseTemplatePages(JSON.parse(JSON.stringify(pages)))).toEqual(pages);
+        expect(parseTemplatePages([])).toEqual([]);
+    });
+
+    it('accepts every built-in template', () => {
+        BUILT_IN_TEMPLATES.forEach((template) => expect(parseTemplatePages(template.pages)).not.toBeNull());
+    });
+
+    it.each([
+        ['not an array', { pages }],
+        ['a null page', [null]],
+        ['a page without a title', [{ ...pages[0], title: undefined }]],
+        ['a page without strokes', [{ ...pages[0], strokes: undefined }]],
+        ['a malformed stroke', [{ ...pages[0], strokes: [{ id: 'x' }] }]],
+    ])('rejects %s', (_label, value) => {
+        expect(parseTemplatePages(value)).toBeNull();
+    });
+});
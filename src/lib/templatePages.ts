@@ -0,0 +1,111 @@
+/**
+ * Template pages - the pages a template is made of, the built-in templates,
+ * and reading pages back from a stored template
+ *
+ * Kept apart from templates.ts, which stores and copies them, so they can be
+ * checked without a database.
+ */
+
+import { isStroke } from './strokeCrdt';
+import type { PageStyleType, Stroke } from '@/store/whiteboardStore';
+
+export interface TemplatePage {
+    title: string;
+    backgroundColor: string;
+    pageStyle: PageStyleType;
+    strokes: Stroke[];
+}
+
+interface BuiltInTemplate {
+    id: string;
+    name: string;
+    description: string;
+    pages: TemplatePage[];
+}
+
+export const DEFAULT_BACKGROUND = '#3b82f6';
+const INK = '#ffffff';
+
+function starterStroke(id: string, fields: Partial<Stroke> & Pick<Stroke, 'tool' | 'points'>): Stroke {
+    return {
+        id,
+        color: INK,
+        width: 3,
+        opacity: 1,
+        pageId: '',
+        createdAt: new Date(0).toISOString(),
+        ...fields,
+    };
+}
+
+function label(id: string, text: string, x: number, y: number, fontSize = 32): Stroke {
+    return starterStroke(id, { tool: 'text', text, points: [{ x, y }], fontSize, fontFamily: 'Caveat' });
+}
+
+// Title, name and date across the top of a lesson page
+const TITLE_BLOCK: Stroke[] = [
+    starterStroke('title-block', {
+        tool: 'rectangle',
+        shapeType: 'rectangle',
+        points: [{ x: 80, y: 60 }, { x: 1840, y: 220 }],
+    }),
+    label('title-label', 'Title:', 110, 80, 40),
+    starterStroke('title-rule', {
+        tool: 'line',
+        shapeType: 'line',
+        width: 2,
+        points: [{ x: 80, y: 150 }, { x: 1840, y: 150 }],
+    }),
+    label('name-label', 'Name:', 110, 165),
+    label('date-label', 'Date:', 1300, 165),
+];
+
+export const BUILT_IN_TEMPLATES: BuiltInTemplate[] = [
+    {
+        id: 'builtin-graph-paper',
+        name: 'Graph paper',
+        description: 'A squared page for maths and diagrams',
+        pages: [{ title: 'Page 1', backgroundColor: DEFAULT_BACKGROUND, pageStyle: 'graph', strokes: [] }],
+    },
+    {
+        id: 'builtin-lesson',
+        name: 'Lesson',
+        description: 'A title block with name and date, then a ruled page for notes',
+        pages: [
+            { title: 'Lesson', backgroundColor: DEFAULT_BACKGROUND, pageStyle: 'plain', strokes: TITLE_BLOCK },
+            { title: 'Notes', backgroundColor: DEFAULT_BACKGROUND, pageStyle: 'ruled', strokes: [] },
+        ],
+    },
+    {
+        id: 'builtin-music-staff',
+        name: 'Music staff',
+        description: 'Staff lines with a title, for composing and theory',
+        pages: [{
+            title: 'Page 1',
+            backgroundColor: DEFAULT_BACKGROUND,
+            pageStyle: 'music',
+            strokes: [label('title-label', 'Title:', 110, 40, 40)],
+        }],
+    },
+];
+
+export function isBuiltInTemplateId(templateId: string) {
+    return templateId.startsWith('builtin-');
+}
+
+function isTemplatePage(value: unknown): value is TemplatePage {
+    if (typeof value !== 'object' || value === null) return false;
+    const page = value as Record<string, unknown>;
+    return typeof page.title === 'string'
+        && typeof page.backgroundColor === 'string'
+        && typeof page.pageStyle === 'string'
+        && Array.isArray(page.strokes)
+        && page.strokes.every(isStroke);
+}
+
+/**
+ * Pages stored in a template, or null when they aren't template pages
+ */
+export function parseTemplatePages(value: unknown): TemplatePage[] | null {
+    return Array.isArray(value) && value.every(isTemplatePage) ? value : null;
+}
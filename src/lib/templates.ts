@@ -0,0 +1,134 @@
+/**
+ * Board templates - reusable page scaffolding (backgrounds, page styles and
+ * starter strokes such as a title block)
+ *
+ * Built-in templates (templatePages.ts) are offered in every workspace;
+ * workspaces add their own by saving a board as a template. Creating a board
+ * from a template copies its pages with fresh stroke ids.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma, toJson } from './prisma';
+import { getPageInkHash, getPageSearchText, readPageContent } from './pageOperations';
+import {
+    BUILT_IN_TEMPLATES,
+    DEFAULT_BACKGROUND,
+    isBuiltInTemplateId,
+    parseTemplatePages,
+    type TemplatePage,
+} from './templatePages';
+import type { PageStyleType } from '@/store/whiteboardStore';
+
+export interface TemplateSummary {
+    id: string;
+    name: string;
+    description: string | null;
+    builtIn: boolean;
+    createdBy: string | null;
+    pageCount: number;
+    /** Look of the first page, for the gallery */
+    preview: { backgroundColor: string; pageStyle: PageStyleType };
+}
+
+function summarize(
+    template: { id: string; name: string; description?: string | null; createdBy?: string; pages: unknown },
+    builtIn: boolean
+): TemplateSummary {
+    const pages = parseTemplatePages(template.pages) ?? [];
+    return {
+        id: template.id,
+        name: template.name,
+        description: template.description ?? null,
+        builtIn,
+        createdBy: template.createdBy ?? null,
+        pageCount: pages.length,
+        preview: {
+            backgroundColor: pages[0]?.backgroundColor ?? DEFAULT_BACKGROUND,
+            pageStyle: pages[0]?.pageStyle ?? 'plain',
+        },
+    };
+}
+
+/**
+ * Built-in templates followed by the workspace's own, newest first
+ */
+export async function listTemplates(workspaceId: string): Promise<TemplateSummary[]> {
+    const templates = await prisma.template.findMany({
+        where: { workspaceId },
+        orderBy: { createdAt: 'desc' },
+    });
+
+    return [
+        ...BUILT_IN_TEMPLATES.map((template) => summarize(template, true)),
+        ...templates.map((template: any) => summarize(template, false)),
+    ];
+}
+
+/**
+ * Pages of a template usable in the workspace, or null when there is no
+ * such template (or it belongs to another workspace)
+ */
+export async function getTemplatePages(templateId: string, workspaceId: string): Promise<TemplatePage[] | null> {
+    if (isBuiltInTemplateId(templateId)) {
+        return BUILT_IN_TEMPLATES.find((template) => template.id === templateId)?.pages ?? null;
+    }
+
+    const template = await prisma.template.findUnique({ where: { id: templateId } });
+    if (!template || template.workspaceId !== workspaceId) {
+        return null;
+    }
+    return parseTemplatePages(template.pages);
+}
+
+/**
+ * A board's live pages in template form: their look and strokes, without
+ * sync state, thumbnails or ids
+ */
+export async function readBoardTemplatePages(boardId: string): Promise<TemplatePage[]> {
+    const pages = await prisma.page.findMany({
+        where: { boardId, deletedAt: null },
+        orderBy: { order: 'asc' },
+        select: { title: true, content: true },
+    });
+
+    return pages.map((page: any) => {
+        const { strokes, rest } = readPageContent(page.content);
+        return {
+            title: page.title,
+            backgroundColor: typeof rest.backgroundColor === 'string' ? rest.backgroundColor : DEFAULT_BACKGROUND,
+            pageStyle: (rest.pageStyle as PageStyleType) || 'plain',
+            strokes,
+        };
+    });
+}
+
+/**
+ * Add a template's pages to a new board. Runs in the caller's transaction,
+ * so the board and all of its pages are created together or not at all.
+ */
+export async function createPagesFromTemplate(tx: Prisma.TransactionClient, boardId: string, pages: TemplatePage[]) {
+    await tx.page.createMany({
+        data: pages.map((templatePage, order) => {
+            const id = crypto.randomUUID();
+            const strokes = templatePage.strokes.map((stroke) => ({
+                ...stroke,
+                id: crypto.randomUUID(),
+                pageId: id,
+                createdAt: new Date().toISOString(),
+            }));
+            return {
+                id,
+                boardId,
+                title: templatePage.title,
+                order,
+                content: toJson({
+                    strokes,
+                    backgroundColor: templatePage.backgroundColor,
+                    pageStyle: templatePage.pageStyle,
+                }),
+                searchText: getPageSearchText(strokes),
+                inkHash: getPageInkHash(strokes),
+            };
+        }),
+    });
+}
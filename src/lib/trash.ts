@@ -0,0 +1,135 @@
+/**
+ * Trash - soft deletion for boards, pages and topics
+ *
+ * Deleting sets `deletedAt` / `deletedBy` instead of removing rows; every read
+ * treats a trashed row (or a page of a trashed board) as gone. Deleting a topic
+ * trashes its boards with the same timestamp, which is how restoring the topic
+ * knows which boards to bring back. A board keeps its pages while in the
+ * trash, so restoring it brings them back too.
+ *
+ * purgeExpiredTrash removes for good whatever has been in the trash longer
+ * than TRASH_RETENTION_DAYS; server.js runs it on a timer.
+ */
+
+import { prisma } from './prisma';
+
+export type TrashItemType = 'board' | 'page' | 'topic';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Trashable {
+    deletedAt?: Date | string | null;
+}
+
+/**
+ * Thrown when restoring a page whose board is still in the trash
+ */
+export class TrashRestoreError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TrashRestoreError';
+    }
+}
+
+/**
+ * Whether a record is in the trash; pages also count as trashed while their
+ * board is
+ */
+export function isTrashed(record: Trashable & { board?: Trashable | null }): boolean {
+    return !!record.deletedAt || !!record.board?.deletedAt;
+}
+
+/**
+ * When a trashed item will be purged
+ */
+export function getPurgeDate(deletedAt: Date | string): Date {
+    return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+export async function trashBoard(boardId: string, userId: string) {
+    return prisma.board.update({
+        where: { id: boardId },
+        data: { deletedAt: new Date(), deletedBy: userId },
+    });
+}
+
+export async function trashPage(pageId: string, userId: string) {
+    return prisma.page.update({
+        where: { id: pageId },
+        data: { deletedAt: new Date(), deletedBy: userId },
+    });
+}
+
+export async function trashTopic(topicId: string, userId: string) {
+    const deletedAt = new Date();
+    const [topic] = await prisma.$transaction([
+        prisma.topic.update({
+            where: { id: topicId },
+            data: { deletedAt, deletedBy: userId },
+        }),
+        prisma.board.updateMany({
+            where: { topicId, deletedAt: null },
+            data: { deletedAt, deletedBy: userId },
+        }),
+    ]);
+    return topic;
+}
+
+/**
+ * Restore a board with its pages. A board whose topic is still in the trash
+ * comes back outside any topic.
+ */
+export async function restoreBoard(board: { id: string; topic?: Trashable | null }) {
+    return prisma.board.update({
+        where: { id: board.id },
+        data: {
+            deletedAt: null,
+            deletedBy: null,
+            ...(board.topic?.deletedAt ? { topicId: null } : {}),
+        },
+    });
+}
+
+export async function restorePage(page: { id: string; board: Trashable }) {
+    if (page.board.deletedAt) {
+        throw new TrashRestoreError('Restore the board this page belongs to first');
+    }
+
+    return prisma.page.update({
+        where: { id: page.id },
+        data: { deletedAt: null, deletedBy: null },
+    });
+}
+
+/**
+ * Restore a topic and the boards that were trashed along with it
+ */
+export async function restoreTopic(topic: { id: string; deletedAt: Date | string | null }) {
+    const [restored] = await prisma.$transaction([
+        prisma.topic.update({
+            where: { id: topic.id },
+            data: { deletedAt: null, deletedBy: null },
+        }),
+        prisma.board.updateMany({
+            where: { topicId: topic.id, deletedAt: topic.deletedAt },
+            data: { deletedAt: null, deletedBy: null },
+        }),
+    ]);
+    return restored;
+}
+
+/**
+ * Permanently delete everything trashed before the retention window. Boards
+ * go first so a topic's boards are removed with their pages, not detached.
+ */
+export async function purgeExpiredTrash(now = new Date()) {
+    const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+
+    const pages = await prisma.page.deleteMany({ where: { deletedAt: { lt: cutoff } } });
+    const boards = await prisma.board.deleteMany({ where: { deletedAt: { lt: cutoff } } });
+    const topics = await prisma.topic.deleteMany({ where: { deletedAt: { lt: cutoff } } });
+
+    return { pages: pages.count, boards: boards.count, topics: topics.count };
+}
@@ -1,5 +1,16 @@
+import { clerkClient } from '@clerk/nextjs/server';
 import { prisma } from './prisma';
 
+export type WorkspaceRole = 'OWNER' | 'ADMIN' | 'MEMBER' | 'VIEWER';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['OWNER', 'ADMIN', 'MEMBER', 'VIEWER'];
+
+export interface MemberProfile {
+    name: string | null;
+    email: string | null;
+    imageUrl: string | null;
+}
+
 /**
  * Creates a default workspace and welcome board for a new user
  * @param userId - The user's ID
@@ -36,3 +47,27 @@ export async function createDefaultWorkspace(userId: string, email?: string | nu
 
     return { workspace, board };
 }
+
+/**
+ * Names, emails and avatars of workspace members from Clerk.
+ * Members Clerk doesn't return (or a Clerk outage) just have no profile.
+ */
+export async function getMemberProfiles(userIds: string[]): Promise<Map<string, MemberProfile>> {
+    const profiles = new Map<string, MemberProfile>();
+    if (userIds.length === 0) return profiles;
+
+    try {
+        const client = await clerkClient();
+        const { data } = await client.users.getUserList({ userId: userIds, limit: userIds.length });
+        for (const user of data) {
+            profiles.set(user.id, {
+                name: user.fullName,
+                email: user.primaryEmailAddress?.emailAddress ?? null,
+                imageUrl: user.imageUrl,
+            });
+        }
+    } catch (error) {
+        console.warn('Failed to load member profiles:', error);
+    }
+    return profiles;
+}
@@ -1,6 +1,13 @@
 import { create } from 'zustand'
 import { temporal } from 'zundo'
 import type { Stage } from 'konva/lib/Stage'
+import { applyStrokeOperation as applyOperation, createSyncState, revertStrokeOperation as revertOperation, type StrokeOperation, type StrokeSyncState } from '@/lib/strokeCrdt'
+import { eraseAlongPath } from '@/utils/strokeEraser'
+import { StrokeIndex } from '@/utils/strokeIndex'
+import type { Bounds } from '@/utils/strokeBounds'
+
+// 'brush' paints the background back over strokes; 'split' cuts them apart
+export type EraserMode = "brush" | "split";
 
 export type ToolType = "select" | "lasso" | "pen" | "highlighter" | "eraser" | "rectangle" | "circle" | "ellipse" | "line" | "arrow" | "triangle" | "pentagon" | "hexagon" | "star" | "text" | "calligraphy";
 export type ShapeType = "rectangle" | "circle" | "ellipse" | "line" | "arrow" | "triangle" | "pentagon" | "hexagon" | "star";
@@ -9,6 +16,10 @@ export type PageStyleType = "ruled" | "wide-ruled" | "graph" | "dotted" | "music
 export interface Point {
     x: number;
     y: number;
+    // From a pen or stylus, or simulated from speed for mouse and finger input
+    pressure?: number; // 0-1
+    tiltX?: number; // Degrees, -90 to 90
+    tiltY?: number;
 }
 
 export interface Stroke {
@@ -36,8 +47,19 @@ export interface Page {
     order: number;
 }
 
+/**
+ * Where the canvas should take the user, e.g. after picking a search result:
+ * the page, then a stroke or an area (recognized handwriting) on it to zoom to
+ */
+export interface FocusTarget {
+    pageId: string;
+    strokeId?: string;
+    area?: { x: number; y: number; width: number; height: number };
+}
+
 interface WhiteboardState {
     currentTool: ToolType;
+    eraserMode: EraserMode;
     currentColor: string;
     currentWidth: number;
     currentOpacity: number;
@@ -46,6 +68,7 @@ interface WhiteboardState {
     backgroundColor: string;
     strokes: Stroke[];
     activeStrokes: Map<string, Stroke>; // Map of touchId -> active stroke
+    strokeIndex: StrokeIndex; // Spatial index over strokes, caught up on query
     stageRef: Stage | null; // Konva Stage reference for export
     selectedStrokeIds: string[]; // Array for multi-select support
     isMagicMode: boolean;
@@ -54,9 +77,11 @@ interface WhiteboardState {
     pages: Page[];
     currentPageId: string | null;
     pageStyle: PageStyleType;
+    focusTarget: FocusTarget | null;
 
     toggleMagicMode: () => void;
     setTool: (tool: ToolType) => void;
+    setEraserMode: (mode: EraserMode) => void;
     setColor: (color: string) => void;
     setBackgroundColor: (color: string) => void;
     setWidth: (width: number) => void;
@@ -66,10 +91,17 @@ interface WhiteboardState {
     setPageStyle: (style: PageStyleType) => void;
 
     // Page content cache
-    pageContents: Record<string, { strokes: Stroke[], backgroundColor: string, pageStyle: PageStyleType }>;
-    updatePageContent: (pageId: string, content: { strokes: Stroke[], backgroundColor: string, pageStyle: PageStyleType }) => void;
+    pageContents: Record<string, { strokes: Stroke[], backgroundColor: string, pageStyle: PageStyleType, sync?: StrokeSyncState }>;
+    updatePageContent: (pageId: string, content: { strokes: Stroke[], backgroundColor: string, pageStyle: PageStyleType, sync?: StrokeSyncState }) => void;
+
+    // Collaboration (CRDT state of the current page's strokes)
+    strokeSync: StrokeSyncState;
+    setStrokeSync: (sync: StrokeSyncState) => void;
+    applyStrokeOperation: (operation: StrokeOperation) => boolean;
+    revertStrokeOperation: (operation: StrokeOperation, before: { strokes: Stroke[]; sync: StrokeSyncState }) => boolean; // Undo a local operation the server refused
 
     setStrokes: (strokes: Stroke[]) => void;
+    queryStrokes: (area: Bounds) => Stroke[]; // Strokes near an area, bottom to top
     addStroke: (stroke: Stroke) => void;
     updateStroke: (id: string, updates: Partial<Stroke>) => void;
     deleteStroke: (id: string) => void;
@@ -82,20 +114,24 @@ interface WhiteboardState {
     addToSelection: (id: string) => void;
     removeFromSelection: (id: string) => void;
     toggleSelection: (id: string) => void;
-    startStroke: (point: Point, touchId?: string, pressure?: number) => void;
-    addPointToStroke: (point: Point, touchId?: string, pressure?: number) => void;
+    startStroke: (point: Point, touchId?: string) => void; // Points carry their own pressure and tilt
+    addPointToStroke: (point: Point, touchId?: string) => void;
     endStroke: (touchId?: string) => void;
+    cancelStroke: (touchId: string) => void; // Drop an active stroke without keeping it
+    eraseAlong: (touchId?: string) => { removedIds: string[]; added: Stroke[] }; // End a split-eraser stroke, cutting what it crossed
 
     // Page actions
     setPages: (pages: Page[]) => void;
     setCurrentPageId: (pageId: string | null) => void;
     addPage: (page: Page) => void;
     removePage: (pageId: string) => void;
+    setFocusTarget: (target: FocusTarget | null) => void;
 }
 
 export const useWhiteboardStore = create<WhiteboardState>()(
     temporal((set, get) => ({
         currentTool: 'pen',
+        eraserMode: 'brush',
         currentColor: '#ffffff',
         currentWidth: 5,
         currentOpacity: 1,
@@ -104,13 +140,16 @@ export const useWhiteboardStore = create<WhiteboardState>()(
         backgroundColor: '#3b82f6',
         strokes: [],
         activeStrokes: new Map(),
+        strokeIndex: new StrokeIndex(),
         stageRef: null,
         selectedStrokeIds: [],
         isMagicMode: false,
         pages: [],
         currentPageId: null,
         pageStyle: 'plain',
+        focusTarget: null,
         pageContents: {}, // Cache for page contents
+        strokeSync: createSyncState(),
 
         toggleMagicMode: () => set((state) => ({ isMagicMode: !state.isMagicMode })),
 
@@ -120,6 +159,7 @@ export const useWhiteboardStore = create<WhiteboardState>()(
                 currentOpacity: tool === 'highlighter' ? 0.5 : 1
             })
         },
+        setEraserMode: (mode) => set({ eraserMode: mode }),
         setColor: (color) => set({ currentColor: color }),
         setBackgroundColor: (color) => set({ backgroundColor: color }),
         setWidth: (width) => set({ currentWidth: width }),
@@ -136,8 +176,46 @@ export const useWhiteboardStore = create<WhiteboardState>()(
             }
         })),
 
+        setStrokeSync: (sync) => set({ strokeSync: sync }),
+
+        applyStrokeOperation: (operation) => {
+            const { strokes, strokeSync, selectedStrokeIds } = get();
+            const result = applyOperation(strokes, strokeSync, operation);
+            if (!result.applied) {
+                set({ strokeSync: result.state });
+                return false;
+            }
+
+            const visibleIds = new Set(result.strokes.map(s => s.id));
+            set({
+                strokes: result.strokes,
+                strokeSync: result.state,
+                selectedStrokeIds: selectedStrokeIds.filter(id => visibleIds.has(id)),
+            });
+            return true;
+        },
+
+        revertStrokeOperation: (operation, before) => {
+            const { strokes, strokeSync, selectedStrokeIds } = get();
+            const result = revertOperation(strokes, strokeSync, operation, { strokes: before.strokes, state: before.sync });
+            if (!result.applied) return false;
+
+            const visibleIds = new Set(result.strokes.map(s => s.id));
+            set({
+                strokes: result.strokes,
+                strokeSync: result.state,
+                selectedStrokeIds: selectedStrokeIds.filter(id => visibleIds.has(id)),
+            });
+            return true;
+        },
+
         setStrokes: (strokes) => set({ strokes }),
 
+        queryStrokes: (area) => {
+            const { strokeIndex, strokes } = get();
+            return strokeIndex.search(strokes, area);
+        },
+
         addStroke: (stroke) => set((state) => ({
             strokes: [...state.strokes, stroke]
         })),
@@ -158,7 +236,7 @@ export const useWhiteboardStore = create<WhiteboardState>()(
                 s.id === id
                     ? {
                         ...s,
-                        points: s.points.map(p => ({ x: p.x + deltaX, y: p.y + deltaY }))
+                        points: s.points.map(p => ({ ...p, x: p.x + deltaX, y: p.y + deltaY }))
                     }
                     : s
             )
@@ -256,6 +334,7 @@ export const useWhiteboardStore = create<WhiteboardState>()(
                     const scaleX = safeWidth / oldWidth;
                     const scaleY = safeHeight / oldHeight;
                     const newPoints = s.points.map(p => ({
+                        ...p,
                         x: newBounds.x + (p.x - oldMinX) * scaleX,
                         y: newBounds.y + (p.y - oldMinY) * scaleY
                     }));
@@ -384,6 +463,33 @@ export const useWhiteboardStore = create<WhiteboardState>()(
             }
         },
 
+        cancelStroke: (touchId) => {
+            const { activeStrokes } = get();
+            if (!activeStrokes.has(touchId)) return;
+
+            const newActiveStrokes = new Map(activeStrokes);
+            newActiveStrokes.delete(touchId);
+            set({ activeStrokes: newActiveStrokes });
+        },
+
+        eraseAlong: (touchId = 'mouse') => {
+            const { activeStrokes, strokes, strokeIndex, selectedStrokeIds } = get();
+            const eraser = activeStrokes.get(touchId);
+            if (!eraser) return { removedIds: [], added: [] };
+
+            const newActiveStrokes = new Map(activeStrokes);
+            newActiveStrokes.delete(touchId);
+
+            // One set, so the cut is a single undo step
+            const result = eraseAlongPath(strokes, eraser.points, eraser.width / 2, strokeIndex);
+            set({
+                strokes: result.strokes,
+                activeStrokes: newActiveStrokes,
+                selectedStrokeIds: selectedStrokeIds.filter(id => !result.removedIds.includes(id)),
+            });
+            return { removedIds: result.removedIds, added: result.added };
+        },
+
         clearPage: () => {
             set({ strokes: [], activeStrokes: new Map(), selectedStrokeIds: [] });
         },
@@ -393,6 +499,7 @@ export const useWhiteboardStore = create<WhiteboardState>()(
         setCurrentPageId: (pageId) => set({ currentPageId: pageId }),
         addPage: (page) => set((state) => ({ pages: [...state.pages, page] })),
         removePage: (pageId) => set((state) => ({ pages: state.pages.filter(p => p.id !== pageId) })),
+        setFocusTarget: (target) => set({ focusTarget: target }),
 
     }), {
         partialize: (state) => ({
@@ -400,9 +507,13 @@ export const useWhiteboardStore = create<WhiteboardState>()(
             backgroundColor: state.backgroundColor
         }),
         equality: (pastState, currentState) => {
-            // Only create a new history entry if the strokes array length changed OR background color changed
-            // This prevents intermediate drawing updates (addPointToStroke) from being tracked
-            return pastState.strokes.length === currentState.strokes.length && pastState.backgroundColor === currentState.backgroundColor;
+            // Only create a new history entry if the strokes (by id) changed OR background color changed
+            // This prevents intermediate drawing updates (addPointToStroke) and drags from being tracked,
+            // while a stroke cut into a single piece still is
+            if (pastState.backgroundColor !== currentState.backgroundColor) return false;
+            if (pastState.strokes === currentState.strokes) return true;
+            return pastState.strokes.length === currentState.strokes.length
+                && pastState.strokes.every((stroke, i) => stroke.id === currentState.strokes[i].id);
         }
     })
 );
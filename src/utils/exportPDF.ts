@@ -1,6 +1,7 @@
 import { jsPDF } from 'jspdf';
 import type Konva from 'konva';
 import { Stroke } from '@/store/whiteboardStore';
+import { getStrokeOutlinePath, isOutlinedStroke } from './strokeOutline';
 
 interface PageData {
     id: string;
@@ -17,6 +18,7 @@ interface ExportOptions {
     boardId: string;
     onProgress?: (current: number, total: number) => void;
     pixelRatio?: number;
+    shareToken?: string | null; // Export through a share link
 }
 
 // Load logo image as base64
@@ -330,6 +332,16 @@ function renderStrokeToKonva(stroke: Stroke, Konva: any): Konva.Shape | Konva.Gr
         }
     }
 
+    // Calligraphy, and pen strokes drawn with pressure
+    if (isOutlinedStroke(stroke)) {
+        return new Konva.Path({
+            data: getStrokeOutlinePath(stroke),
+            fill: stroke.color,
+            opacity: stroke.opacity,
+            globalCompositeOperation: compositeOp,
+        });
+    }
+
     // Handle freehand drawing (pen, highlighter, eraser)
     if (stroke.points.length > 0) {
         const points = stroke.points.flatMap((p) => [p.x, p.y]);
@@ -353,14 +365,14 @@ function renderStrokeToKonva(stroke: Stroke, Konva: any): Konva.Shape | Konva.Gr
  * Exports all pages from a board as a single PDF file
  */
 export async function exportAllPagesAsPDF(options: ExportOptions): Promise<void> {
-    const { boardId, onProgress, pixelRatio = 2 } = options;
+    const { boardId, onProgress, pixelRatio = 2, shareToken } = options;
 
     try {
         // Load logo first
         const logoBase64 = await loadLogoAsBase64();
 
         // Fetch all pages for the board
-        const response = await fetch(`/api/boards/${boardId}/pages`, {
+        const response = await fetch(`/api/boards/${boardId}/pages${shareToken ? `?share=${encodeURIComponent(shareToken)}` : ''}`, {
             cache: 'no-store',
         });
 
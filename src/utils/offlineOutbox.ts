@@ -0,0 +1,229 @@
+/**
+ * OfflineOutbox - Durable queue of unsent page saves and stroke operations
+ *
+ * Features:
+ * - Backed by IndexedDB, so queued work survives reloads and large pages
+ *   don't run into the ~5 MB localStorage quota
+ * - `saves`: the latest unsent snapshot per page (a newer one replaces it)
+ * - `operations`: stroke operations the socket server hasn't acknowledged yet
+ * - Pending-changes count with change listeners for the UI
+ *
+ * Every method resolves quietly when IndexedDB is unavailable (SSR, some
+ * private browsing modes); the outbox then simply holds nothing.
+ */
+
+import type { StrokeOperation } from '@/lib/strokeCrdt';
+import type { PageContent } from './saveManager';
+
+export interface QueuedSave {
+    pageId: string;
+    content: PageContent;
+    baseVersion: number; // Server version the edits were made against
+    queuedAt: number;
+}
+
+export interface QueuedOperation {
+    opId: string;
+    pageId: string;
+    operation: StrokeOperation;
+    queuedAt: number;
+}
+
+type CountListener = (count: number) => void;
+
+const DB_NAME = 'aifa-whiteboard-outbox';
+const DB_VERSION = 1;
+const SAVES = 'saves';
+const OPERATIONS = 'operations';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+class OfflineOutbox {
+    private dbPromise: Promise<IDBDatabase | null> | null = null;
+    private listeners: Set<CountListener> = new Set();
+    private pendingCount = 0;
+
+    private open(): Promise<IDBDatabase | null> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve) => {
+                if (typeof indexedDB === 'undefined') {
+                    resolve(null);
+                    return;
+                }
+
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(SAVES)) {
+                        db.createObjectStore(SAVES, { keyPath: 'pageId' });
+                    }
+                    if (!db.objectStoreNames.contains(OPERATIONS)) {
+                        const operations = db.createObjectStore(OPERATIONS, { keyPath: 'opId' });
+                        operations.createIndex('pageId', 'pageId');
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    console.warn('Failed to open offline outbox:', request.error);
+                    resolve(null);
+                };
+            });
+        }
+        return this.dbPromise;
+    }
+
+    /**
+     * Run a read-write transaction and refresh the pending count afterwards
+     */
+    private async write(stores: string[], action: (tx: IDBTransaction) => void): Promise<void> {
+        const db = await this.open();
+        if (!db) return;
+
+        try {
+            const tx = db.transaction(stores, 'readwrite');
+            action(tx);
+            await completion(tx);
+        } catch (e) {
+            // QuotaExceededError included: the in-memory queue still holds the change
+            console.warn('Offline outbox write failed:', e);
+        }
+        await this.refreshCount();
+    }
+
+    private async read<T>(store: string, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> {
+        const db = await this.open();
+        if (!db) return null;
+
+        try {
+            return await promisify(action(db.transaction(store, 'readonly').objectStore(store)));
+        } catch (e) {
+            console.warn('Offline outbox read failed:', e);
+            return null;
+        }
+    }
+
+    private async refreshCount() {
+        const db = await this.open();
+        if (!db) return;
+
+        try {
+            const tx = db.transaction([SAVES, OPERATIONS], 'readonly');
+            const [saves, operations] = await Promise.all([
+                promisify(tx.objectStore(SAVES).count()),
+                promisify(tx.objectStore(OPERATIONS).count()),
+            ]);
+            this.pendingCount = saves + operations;
+            this.listeners.forEach((listener) => listener(this.pendingCount));
+        } catch (e) {
+            console.warn('Failed to count offline outbox:', e);
+        }
+    }
+
+    /**
+     * Subscribe to the number of queued saves and operations.
+     * Returns an unsubscribe function.
+     */
+    subscribe(listener: CountListener): () => void {
+        this.listeners.add(listener);
+        listener(this.pendingCount);
+        this.refreshCount();
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Queue a page snapshot, replacing any older one for the same page
+     */
+    putSave(save: QueuedSave): Promise<void> {
+        return this.write([SAVES], (tx) => {
+            tx.objectStore(SAVES).put(save);
+        });
+    }
+
+    getSave(pageId: string): Promise<QueuedSave | null> {
+        return this.read(SAVES, (store) => store.get(pageId)).then((save) => save ?? null);
+    }
+
+    getSaves(): Promise<QueuedSave[]> {
+        return this.read(SAVES, (store) => store.getAll()).then((saves) => saves ?? []);
+    }
+
+    /**
+     * Remove a page's snapshot once it is saved. A snapshot queued after
+     * `queuedAt` is newer than the one that was sent and stays queued.
+     */
+    deleteSave(pageId: string, queuedAt?: number): Promise<void> {
+        return this.write([SAVES], (tx) => {
+            const store = tx.objectStore(SAVES);
+            const request = store.get(pageId);
+            request.onsuccess = () => {
+                const save = request.result as QueuedSave | undefined;
+                if (save && (queuedAt === undefined || save.queuedAt <= queuedAt)) {
+                    store.delete(pageId);
+                }
+            };
+        });
+    }
+
+    putOperation(operation: StrokeOperation): Promise<void> {
+        const queued: QueuedOperation = {
+            opId: operation.opId,
+            pageId: operation.pageId,
+            operation,
+            queuedAt: Date.now(),
+        };
+        return this.write([OPERATIONS], (tx) => {
+            tx.objectStore(OPERATIONS).put(queued);
+        });
+    }
+
+    deleteOperation(opId: string): Promise<void> {
+        return this.write([OPERATIONS], (tx) => {
+            tx.objectStore(OPERATIONS).delete(opId);
+        });
+    }
+
+    /**
+     * Queued operations of a page, oldest first
+     */
+    async getOperations(pageId: string): Promise<StrokeOperation[]> {
+        const queued = await this.read(OPERATIONS, (store) => store.index('pageId').getAll(pageId));
+        return (queued ?? [])
+            .sort((a: QueuedOperation, b: QueuedOperation) => a.queuedAt - b.queuedAt)
+            .map((q: QueuedOperation) => q.operation);
+    }
+
+    /**
+     * Drop a page's operations queued before a snapshot that already contains them
+     */
+    deleteOperationsBefore(pageId: string, queuedAt: number): Promise<void> {
+        return this.write([OPERATIONS], (tx) => {
+            const request = tx.objectStore(OPERATIONS).index('pageId').openCursor(pageId);
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) return;
+                if ((cursor.value as QueuedOperation).queuedAt <= queuedAt) {
+                    cursor.delete();
+                }
+                cursor.continue();
+            };
+        });
+    }
+}
+
+// Export singleton instance
+export const offlineOutbox = new OfflineOutbox();
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import type { Stroke } from '@/store/whiteboardStore';
+import type { PageContent } from './saveManager';
+import { mergePageContent } from './pageMerge';
+
+function stroke(id: string, color = '#000000'): Stroke {
+    return {
+        id,
+        tool: 'pen',
+        points: [{ x: 0, y: 0 }, { x: 10, y: 10 }],
+        color,
+        width: 2,
+        opacity: 1,
+        pageId: 'page-1',
+        createdAt: '',
+    };
+}
+
+function page(strokes: Stroke[], overrides: Partial<PageContent> = {}): PageContent {
+    return { strokes, backgroundColor: '#ffffff', pageStyle: 'plain', ...overrides };
+}
+
+const ids = (content: PageContent) => content.strokes.map((s) => s.id);
+
+describe('mergePageContent', () => {
+    const base = page([stroke('a'), stroke('b'), stroke('c')]);
+
+    it('keeps strokes added on both sides, theirs first', () => {
+        const mine = page([...base.strokes, stroke('mine')]);
+        const theirs = page([...base.strokes, stroke('theirs')]);
+
+        const { content, conflicts } = mergePageContent(base, mine, theirs);
+        expect(ids(content)).toEqual(['a', 'b', 'c', 'theirs', 'mine']);
+        expect(conflicts).toEqual([]);
+    });
+
+    it('drops strokes deleted on either side', () => {
+        const mine = page([stroke('a'), stroke('c')]);
+        const theirs = page([stroke('a'), stroke('b')]);
+
+        expect(ids(mergePageContent(base, mine, theirs).content)).toEqual(['a']);
+    });
+
+    it('takes a stroke changed on one side', () => {
+        const mine = page([stroke('a', '#ff0000'), stroke('b'), stroke('c')]);
+        const theirs = page([stroke('a'), stroke('b', '#00ff00'), stroke('c')]);
+
+        const { content, conflicts } = mergePageContent(base, mine, theirs);
+        expect(content.strokes.map((s) => s.color)).toEqual(['#ff0000', '#00ff00', '#000000']);
+        expect(conflicts).toEqual([]);
+    });
+
+    it('matches strokes by id, whatever their order', () => {
+        const mine = page([stroke('c'), stroke('a', '#ff0000'), stroke('b')]);
+        const theirs = page([stroke('b'), stroke('c'), stroke('a')]);
+
+        const { content, conflicts } = mergePageContent(base, mine, theirs);
+        // The server's stacking order wins; the change is kept on the same stroke
+        expect(ids(content)).toEqual(['b', 'c', 'a']);
+        expect(content.strokes[2].color).toBe('#ff0000');
+        expect(conflicts).toEqual([]);
+    });
+
+    it('keeps my copy of a stroke changed differently on both sides, and reports it', () => {
+        const mine = page([stroke('a', '#ff0000'), stroke('b'), stroke('c')]);
+        const theirs = page([stroke('a', '#00ff00'), stroke('b'), stroke('c')]);
+
+        const { content, conflicts } = mergePageContent(base, mine, theirs);
+        expect(content.strokes[0].color).toBe('#ff0000');
+        expect(conflicts).toEqual(['stroke:a']);
+    });
+
+    it('does not report the same change made on both sides', () => {
+        const mine = page([stroke('a', '#ff0000'), stroke('b'), stroke('c')]);
+        const theirs = page([stroke('a', '#ff0000'), stroke('b'), stroke('c')]);
+
+        expect(mergePageContent(base, mine, theirs).conflicts).toEqual([]);
+    });
+
+    it('reports a stroke changed on one side and deleted on the other', () => {
+        const mine = page([stroke('a', '#ff0000'), stroke('b'), stroke('c')]);
+        const theirs = page([stroke('b'), stroke('c')]);
+
+        const { content, conflicts } = mergePageContent(base, mine, theirs);
+        expect(ids(content)).toEqual(['b', 'c', 'a']);
+        expect(conflicts).toEqual(['stroke:a']);
+    });
+
+    it('merges the background and page style like strokes', () => {
+        const mine = page(base.strokes, { backgroundColor: '#fafafa', pageStyle: 'ruled' });
+        const theirs = page(base.strokes, { backgroundColor: '#eeeeee' });
+
+        const { content, conflicts } = mergePageContent(base, mine, theirs);
+        expect(content.backgroundColor).toBe('#fafafa');
+        expect(content.pageStyle).toBe('ruled');
+        expect(conflicts).toEqual(['backgroundColor']);
+
+        const theirStyle = mergePageContent(base, base, page(base.strokes, { pageStyle: 'graph' }));
+        expect(theirStyle.content.pageStyle).toBe('graph');
+    });
+
+    it('keeps the rest of my content', () => {
+        const mine = page(base.strokes, { version: 4, baseSeq: 12 });
+
+        expect(mergePageContent(base, mine, base).content).toMatchObject({ version: 4, baseSeq: 12 });
+    });
+});
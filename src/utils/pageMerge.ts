@@ -0,0 +1,64 @@
+/**
+ * Three-way merge of page content
+ *
+ * Used when a save is rejected because somebody else saved the page first.
+ * `base` is the last copy this client knew to be on the server, `mine` the
+ * local edits and `theirs` the current server copy. A field or stroke changed
+ * on only one side takes that side; one changed on both sides to different
+ * values is reported as a conflict (and keeps the local value).
+ */
+
+import { Stroke } from '@/store/whiteboardStore';
+import type { PageContent } from './saveManager';
+
+export interface PageMergeResult {
+    content: PageContent;
+    conflicts: string[]; // 'backgroundColor', 'pageStyle' or 'stroke:<id>'
+}
+
+function same(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function mergeValue<T>(base: T, mine: T, theirs: T): { value: T; conflict: boolean } {
+    if (same(mine, theirs) || same(theirs, base)) return { value: mine, conflict: false };
+    if (same(mine, base)) return { value: theirs, conflict: false };
+    return { value: mine, conflict: true };
+}
+
+export function mergePageContent(
+    base: PageContent,
+    mine: PageContent,
+    theirs: PageContent
+): PageMergeResult {
+    const conflicts: string[] = [];
+
+    const backgroundColor = mergeValue(base.backgroundColor, mine.backgroundColor, theirs.backgroundColor);
+    if (backgroundColor.conflict) conflicts.push('backgroundColor');
+
+    const pageStyle = mergeValue(base.pageStyle, mine.pageStyle, theirs.pageStyle);
+    if (pageStyle.conflict) conflicts.push('pageStyle');
+
+    const baseById = new Map(base.strokes.map((s) => [s.id, s]));
+    const mineById = new Map(mine.strokes.map((s) => [s.id, s]));
+    const theirsById = new Map(theirs.strokes.map((s) => [s.id, s]));
+
+    // Keep the server's stacking order, then append strokes only we have
+    const ids = [...theirsById.keys(), ...[...mineById.keys()].filter((id) => !theirsById.has(id))];
+    const strokes: Stroke[] = [];
+    for (const id of ids) {
+        const merged = mergeValue(baseById.get(id), mineById.get(id), theirsById.get(id));
+        if (merged.conflict) conflicts.push(`stroke:${id}`);
+        if (merged.value) strokes.push(merged.value);
+    }
+
+    return {
+        content: {
+            ...mine,
+            strokes,
+            backgroundColor: backgroundColor.value,
+            pageStyle: pageStyle.value,
+        },
+        conflicts,
+    };
+}
@@ -1,14 +1,11 @@
-'use client';
+/**
+ * Renders a page's strokes to a standalone image, for read-only views
+ * (flipbook, shared boards) that don't mount the editor canvas
+ */
 
-import { useEffect, useState } from 'react';
-import { useParams } from 'next/navigation';
-import FlipbookViewer from '@/components/FlipbookViewer';
-import { exportAllPagesAsPDF } from '@/utils/exportPDF';
-import Link from 'next/link';
-import { ArrowLeft } from 'lucide-react';
+import { getStrokeOutlinePath, isOutlinedStroke } from './strokeOutline';
 
-
-interface PageData {
+export interface PageData {
     id: string;
     title: string;
     order: number;
@@ -26,7 +23,7 @@ const PAGE_WIDTH = 800;
 const PAGE_HEIGHT = 1100;
 
 // Render strokes to canvas and return data URL
-async function renderPageToImage(pageData: PageData): Promise<string> {
+export async function renderPageToImage(pageData: PageData): Promise<string> {
     const bgColor = pageData.content?.backgroundColor || '#3b82f6';
     const pageStyle = pageData.content?.pageStyle || 'plain';
 
@@ -221,6 +218,13 @@ async function renderPageToImage(pageData: PageData): Promise<string> {
                             points, stroke: stroke.color, strokeWidth: sw, opacity: stroke.opacity || 1, closed: true,
                         }));
                     }
+                } else if (stroke.points?.length > 0 && isOutlinedStroke(stroke)) {
+                    // Calligraphy, and pen strokes drawn with pressure
+                    contentGroup.add(new Konva.Path({
+                        data: getStrokeOutlinePath(stroke),
+                        scaleX: s, scaleY: s,
+                        fill: stroke.color, opacity: stroke.opacity || 1,
+                    }));
                 } else if (stroke.points?.length > 0) {
                     const points = stroke.points.flatMap((p: any) => [p.x * s, p.y * s]);
                     contentGroup.add(new Konva.Line({
@@ -278,94 +282,3 @@ async function renderPageToImage(pageData: PageData): Promise<string> {
         }
     });
 }
-
-export default function FlipbookPage() {
-    const params = useParams();
-    const boardId = params.boardId as string;
-    const [pages, setPages] = useState<PageData[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [isExporting, setIsExporting] = useState(false);
-
-    useEffect(() => {
-        const loadBoard = async () => {
-            try {
-                const res = await fetch(`/api/boards/${boardId}`);
-                if (!res.ok) throw new Error('Failed to load board');
-                const data = await res.json();
-
-                if (data.pages?.length > 0) {
-                    // Load page content
-                    const loadedPages = await Promise.all(
-                        data.pages.map(async (page: any) => {
-                            try {
-                                const pageRes = await fetch(`/api/pages/${page.id}`);
-                                if (pageRes.ok) {
-                                    const pageData = await pageRes.json();
-                                    return { ...page, content: pageData.content };
-                                }
-                            } catch (e) { console.error('Page load error:', e); }
-                            return page;
-                        })
-                    );
-
-                    // Render to images
-                    const pagesWithImages = await Promise.all(
-                        loadedPages.map(async (page) => ({
-                            ...page,
-                            thumbnail: await renderPageToImage(page),
-                        }))
-                    );
-                    setPages(pagesWithImages);
-                }
-            } catch (error) {
-                console.error('Flipbook load error:', error);
-            } finally {
-                setLoading(false);
-            }
-        };
-        loadBoard();
-    }, [boardId]);
-
-    const handleDownloadPDF = async () => {
-        if (isExporting) return;
-        setIsExporting(true);
-        try {
-            await exportAllPagesAsPDF({ boardId, pixelRatio: 2 });
-        } catch (error) {
-            console.error('PDF export failed:', error);
-        } finally {
-            setIsExporting(false);
-        }
-    };
-
-    if (loading) {
-        return (
-            <div className="flex items-center justify-center min-h-screen bg-slate-900">
-                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500" />
-            </div>
-        );
-    }
-
-    if (pages.length === 0) {
-        return (
-            <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 text-white">
-                <h2 className="text-xl mb-4">No pages found</h2>
-                <Link href={`/board/${boardId}`} className="text-blue-400 hover:underline">
-                    Go back to editor
-                </Link>
-            </div>
-        );
-    }
-
-    return (
-        <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800">
-            <div className="absolute top-4 left-4 z-10">
-                <Link href={`/board/${boardId}`} className="flex items-center gap-2 text-white/70 hover:text-white transition-colors">
-                    <ArrowLeft size={20} />
-                    <span>Back to Editor</span>
-                </Link>
-            </div>
-            <FlipbookViewer boardId={boardId} pages={pages} onDownloadPDF={handleDownloadPDF} />
-        </div>
-    );
-}
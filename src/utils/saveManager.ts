@@ -6,11 +6,16 @@
  * - Immediate flush capability for page switches
  * - Retry with exponential backoff
  * - Save queue to prevent concurrent conflicts
- * - Version tracking for conflict detection
- * - Offline handling with localStorage backup
+ * - Version tracking for conflict detection (stale saves get a 409 and the server copy)
+ * - Three-way merge of rejected saves, with keep mine / keep theirs for real conflicts
+ * - Offline handling with a durable IndexedDB outbox, replayed on reconnect
+ * - Stroke merge on the server against the page operation log (via baseSeq)
  */
 
 import { Stroke, PageStyleType } from '@/store/whiteboardStore';
+import type { StrokeSyncState } from '@/lib/strokeCrdt';
+import { mergePageContent } from './pageMerge';
+import { offlineOutbox } from './offlineOutbox';
 
 export interface PageContent {
     strokes: Stroke[];
@@ -18,15 +23,46 @@ export interface PageContent {
     pageStyle: PageStyleType;
     thumbnail?: string;
     version?: number;
+    baseSeq?: number; // Last operation log position reflected in `strokes`
+    sync?: StrokeSyncState; // Only present on content that came from the server
 }
 
+export interface SaveConflict {
+    pageId: string;
+    mine: PageContent;
+    theirs: PageContent;
+    serverVersion: number;
+    conflicts: string[];
+}
+
+export type ConflictResolution = 'mine' | 'theirs';
+
 export interface SaveResult {
     success: boolean;
     error?: string;
     serverVersion?: number;
 }
 
-type SaveCallback = (status: 'saving' | 'saved' | 'error' | 'offline') => void;
+type SaveCallback = (status: 'saving' | 'saved' | 'error' | 'offline' | 'conflict') => void;
+type ConflictCallback = (conflict: SaveConflict | null) => void;
+type RemoteContentCallback = (pageId: string, content: PageContent) => void;
+
+/**
+ * Normalize page content as stored on the server (legacy pages are a bare stroke array)
+ */
+export function toPageContent(content: any): PageContent {
+    if (Array.isArray(content)) {
+        return { strokes: content, backgroundColor: '#ffffff', pageStyle: 'plain', version: 0, baseSeq: 0 };
+    }
+    return {
+        strokes: Array.isArray(content?.strokes) ? content.strokes : [],
+        backgroundColor: content?.backgroundColor || '#ffffff',
+        pageStyle: content?.pageStyle || 'plain',
+        version: Number(content?.version) || 0,
+        baseSeq: content?.sync?.seq ?? 0,
+        sync: content?.sync,
+    };
+}
 
 class SaveManager {
     private pendingSaves: Map<string, PageContent> = new Map();
@@ -34,7 +70,12 @@ class SaveManager {
     private isSaving: Map<string, boolean> = new Map();
     private versions: Map<string, number> = new Map();
     private retryCount: Map<string, number> = new Map();
+    private queuedAt: Map<string, number> = new Map(); // When the pending snapshot was taken
+    private baseContents: Map<string, PageContent> = new Map(); // Last copy known to be on the server
+    private conflicts: Map<string, SaveConflict> = new Map();
     private statusCallback: SaveCallback | null = null;
+    private conflictCallback: ConflictCallback | null = null;
+    private remoteContentCallback: RemoteContentCallback | null = null;
     private stageRef: any = null;
 
     // Configuration
@@ -49,6 +90,21 @@ class SaveManager {
         this.statusCallback = callback;
     }
 
+    /**
+     * Set callback for conflicts that need the user to pick a side (null when resolved)
+     */
+    setConflictCallback(callback: ConflictCallback | null) {
+        this.conflictCallback = callback;
+    }
+
+    /**
+     * Set callback for server content that should replace what the canvas shows
+     * (after a merge or when the user keeps the server copy)
+     */
+    setRemoteContentCallback(callback: RemoteContentCallback | null) {
+        this.remoteContentCallback = callback;
+    }
+
     /**
      * Set stage reference for thumbnail generation
      */
@@ -64,6 +120,7 @@ class SaveManager {
 
         // Store the pending content
         this.pendingSaves.set(pageId, { ...content });
+        this.queuedAt.set(pageId, Date.now());
 
         // Clear existing timeout
         const existingTimeout = this.saveTimeouts.get(pageId);
@@ -71,8 +128,14 @@ class SaveManager {
             clearTimeout(existingTimeout);
         }
 
-        // Backup to localStorage immediately (for offline recovery)
-        this.backupToLocalStorage(pageId, content);
+        // Persist to the outbox immediately (for offline recovery)
+        this.backupToOutbox(pageId);
+
+        // Saving again would only be rejected until the conflict is resolved
+        if (this.conflicts.has(pageId)) {
+            this.statusCallback?.('conflict');
+            return;
+        }
 
         // Set new debounced save
         const timeout = setTimeout(() => {
@@ -90,6 +153,8 @@ class SaveManager {
         const savePromises: Promise<SaveResult>[] = [];
 
         for (const [pageId] of this.pendingSaves) {
+            if (this.conflicts.has(pageId)) continue;
+
             // Clear the debounce timeout
             const timeout = this.saveTimeouts.get(pageId);
             if (timeout) {
@@ -114,6 +179,10 @@ class SaveManager {
             this.saveTimeouts.delete(pageId);
         }
 
+        if (this.conflicts.has(pageId)) {
+            return { success: false, error: 'Conflict' };
+        }
+
         if (this.pendingSaves.has(pageId)) {
             return this.executeSave(pageId);
         }
@@ -149,6 +218,7 @@ class SaveManager {
 
         this.isSaving.set(pageId, true);
         this.statusCallback?.('saving');
+        const queuedAt = this.queuedAt.get(pageId) ?? Date.now();
 
         try {
             // Generate thumbnail
@@ -161,31 +231,46 @@ class SaveManager {
                 }
             }
 
-            // Increment version
-            const currentVersion = this.versions.get(pageId) || 0;
-            const newVersion = currentVersion + 1;
+            // The server rejects the save if the page moved past this version
+            const baseVersion = this.versions.get(pageId) || 0;
+            const { sync: _sync, ...body } = content;
 
             const res = await fetch(`/api/pages/${pageId}`, {
                 method: 'PUT',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
-                    content: { ...content, version: newVersion },
+                    content: body,
+                    baseVersion,
                     thumbnail
                 }),
             });
 
+            if (res.status === 409) {
+                this.retryCount.delete(pageId);
+                return this.handleConflict(pageId, content, await res.json());
+            }
+
             if (!res.ok) {
                 throw new Error(`HTTP ${res.status}: ${res.statusText}`);
             }
 
-            // Success - clear pending and update version
-            this.pendingSaves.delete(pageId);
-            this.versions.set(pageId, newVersion);
+            const saved = await res.json();
+            const serverVersion = Number(saved?.content?.version) || baseVersion + 1;
+
+            // Success - clear pending (unless newer edits came in meanwhile) and update version
+            if (this.pendingSaves.get(pageId) === content) {
+                this.pendingSaves.delete(pageId);
+                this.queuedAt.delete(pageId);
+            }
+            // The snapshot also covers stroke operations queued before it was taken
+            offlineOutbox.deleteSave(pageId, queuedAt);
+            offlineOutbox.deleteOperationsBefore(pageId, queuedAt);
+            this.versions.set(pageId, serverVersion);
+            this.baseContents.set(pageId, { ...content, version: serverVersion });
             this.retryCount.delete(pageId);
-            this.clearLocalStorageBackup(pageId);
             this.statusCallback?.('saved');
 
-            return { success: true, serverVersion: newVersion };
+            return { success: true, serverVersion };
         } catch (error) {
             console.error('Save failed:', error);
 
@@ -211,6 +296,7 @@ class SaveManager {
                 return { success: false, error: 'Retrying...' };
             }
 
+            // Still queued in the outbox: replayOutbox() sends it again later
             this.statusCallback?.('error');
             return { success: false, error: String(error) };
         } finally {
@@ -219,50 +305,142 @@ class SaveManager {
     }
 
     /**
-     * Backup content to localStorage for offline recovery
+     * Somebody else saved the page first: merge on top of their copy when the
+     * edits don't overlap, otherwise hold the save until the user picks a side
      */
-    private backupToLocalStorage(pageId: string, content: PageContent) {
-        try {
-            const key = `whiteboard_backup_${pageId}`;
-            const backup = {
-                content,
-                timestamp: Date.now()
-            };
-            localStorage.setItem(key, JSON.stringify(backup));
-        } catch (e) {
-            console.warn('Failed to backup to localStorage:', e);
+    private handleConflict(
+        pageId: string,
+        sent: PageContent,
+        data: { serverVersion?: number; content?: unknown }
+    ): SaveResult {
+        const theirs = toPageContent(data.content);
+        const serverVersion = Number(data.serverVersion) || theirs.version || 0;
+        // Edits made while the request was in flight are newer than what was sent
+        const mine = this.pendingSaves.get(pageId) ?? sent;
+        const base = this.baseContents.get(pageId);
+
+        const merge = base ? mergePageContent(base, mine, theirs) : null;
+        if (merge && merge.conflicts.length === 0) {
+            const merged: PageContent = { ...merge.content, version: serverVersion, baseSeq: theirs.baseSeq, sync: theirs.sync };
+            this.versions.set(pageId, serverVersion);
+            this.baseContents.set(pageId, theirs);
+            this.pendingSaves.set(pageId, merged);
+            this.backupToOutbox(pageId);
+            this.remoteContentCallback?.(pageId, merged);
+
+            const timeout = setTimeout(() => {
+                this.executeSave(pageId);
+            }, 0);
+            this.saveTimeouts.set(pageId, timeout);
+            return { success: false, error: 'Merged with server copy', serverVersion };
         }
+
+        const conflict: SaveConflict = {
+            pageId,
+            mine,
+            theirs,
+            serverVersion,
+            conflicts: merge?.conflicts ?? [],
+        };
+        this.conflicts.set(pageId, conflict);
+        this.statusCallback?.('conflict');
+        this.conflictCallback?.(conflict);
+        return { success: false, error: 'Conflict', serverVersion };
     }
 
     /**
-     * Clear localStorage backup after successful save
+     * Resolve a held conflict: 'mine' saves the local copy over the server
+     * copy, 'theirs' drops the local edits and loads the server copy
      */
-    private clearLocalStorageBackup(pageId: string) {
-        try {
-            localStorage.removeItem(`whiteboard_backup_${pageId}`);
-        } catch (e) {
-            // Ignore
+    async resolveConflict(pageId: string, resolution: ConflictResolution): Promise<SaveResult> {
+        const conflict = this.conflicts.get(pageId);
+        if (!conflict) {
+            return { success: true };
         }
+
+        this.conflicts.delete(pageId);
+        this.conflictCallback?.(null);
+        this.versions.set(pageId, conflict.serverVersion);
+        this.baseContents.set(pageId, conflict.theirs);
+
+        if (resolution === 'theirs') {
+            this.pendingSaves.delete(pageId);
+            this.queuedAt.delete(pageId);
+            offlineOutbox.deleteSave(pageId);
+            this.remoteContentCallback?.(pageId, conflict.theirs);
+            this.statusCallback?.('saved');
+            return { success: true, serverVersion: conflict.serverVersion };
+        }
+
+        // Strokes removed locally must count as seen, so diff against the server's log position
+        const mine = this.pendingSaves.get(pageId) ?? conflict.mine;
+        this.pendingSaves.set(pageId, { ...mine, baseSeq: conflict.theirs.baseSeq });
+        this.backupToOutbox(pageId);
+        return this.executeSave(pageId);
     }
 
     /**
-     * Recover unsaved content from localStorage
+     * Get the unresolved conflict for a page, if any
      */
-    getLocalStorageBackup(pageId: string): PageContent | null {
-        try {
-            const key = `whiteboard_backup_${pageId}`;
-            const data = localStorage.getItem(key);
-            if (data) {
-                const backup = JSON.parse(data);
-                // Only use backup if it's less than 24 hours old
-                if (Date.now() - backup.timestamp < 24 * 60 * 60 * 1000) {
-                    return backup.content;
-                }
-            }
-        } catch (e) {
-            console.warn('Failed to read localStorage backup:', e);
+    getConflict(pageId: string): SaveConflict | null {
+        return this.conflicts.get(pageId) ?? null;
+    }
+
+    /**
+     * Persist the pending content of a page to the outbox for offline recovery
+     */
+    private backupToOutbox(pageId: string) {
+        const content = this.pendingSaves.get(pageId);
+        if (!content) return;
+
+        offlineOutbox.putSave({
+            pageId,
+            content,
+            baseVersion: this.versions.get(pageId) || 0,
+            queuedAt: this.queuedAt.get(pageId) ?? Date.now(),
+        });
+    }
+
+    /**
+     * Pick up an unsent snapshot of a page left in the outbox (e.g. by a
+     * previous session) and queue it for sending. Returns the content the
+     * canvas should show, or null when nothing is waiting for this page.
+     */
+    async restoreFromOutbox(pageId: string): Promise<PageContent | null> {
+        const pending = this.pendingSaves.get(pageId);
+        if (pending) return pending;
+
+        const queued = await offlineOutbox.getSave(pageId);
+        if (!queued) return null;
+
+        // Edits made while reading the outbox are newer
+        const latest = this.pendingSaves.get(pageId);
+        if (latest) return latest;
+
+        this.pendingSaves.set(pageId, queued.content);
+        this.queuedAt.set(pageId, queued.queuedAt);
+        this.versions.set(pageId, queued.baseVersion);
+
+        const timeout = setTimeout(() => {
+            this.executeSave(pageId);
+        }, 0);
+        this.saveTimeouts.set(pageId, timeout);
+        return queued.content;
+    }
+
+    /**
+     * Send everything still queued, in memory or in the outbox
+     * (call on reconnect and on startup)
+     */
+    async replayOutbox(): Promise<void> {
+        const queued = await offlineOutbox.getSaves();
+        await Promise.all(queued.map((save) => this.restoreFromOutbox(save.pageId)));
+
+        for (const pageId of this.pendingSaves.keys()) {
+            if (this.conflicts.has(pageId) || this.isSaving.get(pageId)) continue;
+            this.retryCount.delete(pageId);
+            this.flushPage(pageId);
         }
-        return null;
     }
 
     /**
@@ -272,6 +450,31 @@ class SaveManager {
         this.versions.set(pageId, version);
     }
 
+    /**
+     * Record page content as loaded from the server (base for merges and version checks)
+     */
+    setServerContent(pageId: string, content: any) {
+        // Unsaved edits keep the version they were made against
+        if (this.hasPendingChanges(pageId) || this.conflicts.has(pageId)) return;
+
+        const serverContent = toPageContent(content);
+        this.versions.set(pageId, serverContent.version || 0);
+        this.baseContents.set(pageId, serverContent);
+    }
+
+    /**
+     * Show a newer server copy on the canvas (e.g. a catch-up snapshot).
+     * Skipped while local edits are unsent: their save merges with the server
+     * copy and brings it back through the remote content callback.
+     */
+    applyServerContent(pageId: string, content: any): boolean {
+        if (this.hasPendingChanges(pageId) || this.conflicts.has(pageId)) return false;
+
+        this.setServerContent(pageId, content);
+        this.remoteContentCallback?.(pageId, toPageContent(content));
+        return true;
+    }
+
     /**
      * Get the current version for a page
      */
@@ -289,8 +492,12 @@ class SaveManager {
         }
         this.saveTimeouts.clear();
         this.pendingSaves.clear();
+        this.queuedAt.clear();
         this.isSaving.clear();
+        this.conflicts.clear();
         this.statusCallback = null;
+        this.conflictCallback = null;
+        this.remoteContentCallback = null;
     }
 }
 
@@ -0,0 +1,42 @@
+/**
+ * Client helpers for boards opened through a share link (shared view, embeds)
+ */
+
+import { renderPageToImage, type PageData } from './renderPageImage';
+
+export interface SharePreview {
+    board: { id: string; title: string } | null; // Null until a password link is unlocked
+    scope: 'VIEW' | 'EDIT';
+    requiresPassword: boolean;
+    unlocked: boolean;
+}
+
+export const shareQuery = (token: string) => `?share=${encodeURIComponent(token)}`;
+
+/**
+ * What a share link opens; throws with the server's message when it can't be used
+ */
+export async function fetchSharePreview(token: string): Promise<SharePreview> {
+    const res = await fetch(`/api/share/${token}`, { cache: 'no-store' });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+        throw new Error(data.error || 'Share link not found');
+    }
+    return data;
+}
+
+/**
+ * A shared board's pages, each rendered to an image
+ */
+export async function fetchSharedPages(boardId: string, token: string): Promise<PageData[]> {
+    const res = await fetch(`/api/boards/${boardId}${shareQuery(token)}`, { cache: 'no-store' });
+    if (!res.ok) throw new Error('Failed to load board');
+    const data = await res.json();
+
+    return Promise.all(
+        (data.pages || []).map(async (page: PageData) => ({
+            ...page,
+            thumbnail: await renderPageToImage(page),
+        }))
+    );
+}
@@ -0,0 +1,40 @@
+/**
+ * Simulated pressure - pressure for mouse and finger input, which reports
+ * none, from how fast the pointer moves
+ *
+ * A slow line comes out full and a quick flick thin, like ink from a nib.
+ * It is recorded on the points like real pen pressure, so strokes drawn
+ * with a mouse or a finger look the same on every canvas and in exports.
+ */
+
+export interface PressureTrace {
+    x: number; // Screen position of the last point
+    y: number;
+    time: number; // ms
+    pressure: number;
+}
+
+const START_PRESSURE = 0.5;
+const SLOW_PRESSURE = 0.7;
+const FAST_PRESSURE = 0.2;
+const FAST_SPEED = 3; // Screen pixels per ms at which the line is thinnest
+// How far each point moves towards the pressure of its speed, so that jitter
+// in event timing doesn't make the line wobble
+const EASING = 0.3;
+
+/**
+ * The trace after the pointer reached (x, y) at `time`; pass null at the
+ * start of a stroke
+ */
+export function tracePressure(previous: PressureTrace | null, x: number, y: number, time: number): PressureTrace {
+    if (!previous) return { x, y, time, pressure: START_PRESSURE };
+
+    const elapsed = time - previous.time;
+    // Events in the same frame: keep the pressure until time has passed
+    if (elapsed <= 0) return { ...previous, x, y };
+
+    const speed = Math.min(1, Math.hypot(x - previous.x, y - previous.y) / elapsed / FAST_SPEED);
+    const target = SLOW_PRESSURE + (FAST_PRESSURE - SLOW_PRESSURE) * speed;
+    const pressure = previous.pressure + (target - previous.pressure) * EASING;
+    return { x, y, time, pressure: Math.round(pressure * 1000) / 1000 };
+}
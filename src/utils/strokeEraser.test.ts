@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { Point, Stroke } from '@/store/whiteboardStore';
+import { eraseAlongPath } from './strokeEraser';
+import { StrokeIndex } from './strokeIndex';
+
+// A horizontal pen line from x = 0 to `length`, with a point every 10 units
+// and pressure rising from 0 to 1 along it
+function line(id: string, length = 100, y = 0): Stroke {
+    const points: Point[] = [];
+    for (let x = 0; x <= length; x += 10) {
+        points.push({ x, y, pressure: x / length, tiltX: 10, tiltY: 20 });
+    }
+    return {
+        id,
+        tool: 'pen',
+        points,
+        color: '#ff0000',
+        width: 2,
+        opacity: 0.8,
+        pageId: 'page-1',
+        createdAt: '',
+    };
+}
+
+// A vertical eraser pass through x
+const cutAt = (x: number): Point[] => [{ x, y: -20 }, { x, y: 20 }];
+
+const xs = (stroke: Stroke) => stroke.points.map((point) => point.x);
+
+describe('eraseAlongPath', () => {
+    // Radius 5 plus half the stroke width: the line is erased within 6 of the cut
+    const RADIUS = 5;
+
+    it('splits a stroke cut through the middle in two', () => {
+        const strokes = [line('a'), line('b', 100, 200)];
+        const result = eraseAlongPath(strokes, cutAt(50), RADIUS);
+
+        expect(result.removedIds).toEqual(['a']);
+        expect(result.added).toHaveLength(2);
+        const [left, right] = result.added;
+        expect(left.points[0].x).toBe(0);
+        expect(left.points[left.points.length - 1].x).toBeCloseTo(44, 0);
+        expect(right.points[0].x).toBeCloseTo(56, 0);
+        expect(right.points[right.points.length - 1].x).toBe(100);
+
+        // The untouched stroke stays where it was, the pieces go on top
+        expect(result.strokes.map((stroke) => stroke.id)).toEqual(['b', left.id, right.id]);
+    });
+
+    it('shortens a stroke cut at an endpoint', () => {
+        const result = eraseAlongPath([line('a')], cutAt(0), RADIUS);
+
+        expect(result.removedIds).toEqual(['a']);
+        expect(result.added).toHaveLength(1);
+        expect(result.added[0].points[0].x).toBeCloseTo(6, 0);
+        expect(xs(result.added[0]).slice(1)).toEqual([10, 20, 30, 40, 50, 60, 70, 80, 90, 100]);
+    });
+
+    it('drops a piece too short to keep', () => {
+        // Erased from 0.5 to 12.5: what is left of the start is half a unit long
+        const result = eraseAlongPath([line('a', 30)], cutAt(6.5), RADIUS);
+
+        expect(result.removedIds).toEqual(['a']);
+        expect(result.added).toHaveLength(1);
+        expect(result.added[0].points[0].x).toBeCloseTo(12.5, 0);
+    });
+
+    it('removes a stroke erased end to end', () => {
+        const result = eraseAlongPath([line('a', 10)], cutAt(5), RADIUS);
+
+        expect(result.removedIds).toEqual(['a']);
+        expect(result.added).toEqual([]);
+        expect(result.strokes).toEqual([]);
+    });
+
+    it('carries style over to the pieces and interpolates pressure at the cuts', () => {
+        const original = line('a');
+        const { added } = eraseAlongPath([original], cutAt(50), RADIUS);
+
+        const { tool, color, width, opacity, pageId } = original;
+        added.forEach((piece) => {
+            expect(piece).toMatchObject({ tool, color, width, opacity, pageId });
+            expect(piece.id).not.toBe(original.id);
+            piece.points.forEach((point) => {
+                expect(point.pressure).toBeCloseTo(point.x / 100, 2);
+                expect(point).toMatchObject({ tiltX: 10, tiltY: 20 });
+            });
+        });
+        expect(new Set(added.map((piece) => piece.id)).size).toBe(2);
+    });
+
+    it('leaves strokes alone when the eraser misses them', () => {
+        const strokes = [line('a')];
+        const result = eraseAlongPath(strokes, cutAt(120), RADIUS);
+
+        expect(result).toEqual({ strokes, removedIds: [], added: [] });
+        expect(result.strokes).toBe(strokes);
+    });
+
+    it('leaves shapes and text alone', () => {
+        const strokes = [{ ...line('shape'), shapeType: 'line' as const }, { ...line('text'), tool: 'text' as const }];
+        expect(eraseAlongPath(strokes, cutAt(50), RADIUS).removedIds).toEqual([]);
+    });
+
+    it('cuts the same strokes with an index', () => {
+        const strokes = [line('a'), line('b', 100, 200), line('c', 100, 2000)];
+        const withIndex = eraseAlongPath(strokes, cutAt(50), RADIUS, new StrokeIndex());
+        const withoutIndex = eraseAlongPath(strokes, cutAt(50), RADIUS);
+
+        expect(withIndex.removedIds).toEqual(withoutIndex.removedIds);
+        expect(withIndex.added.map(xs)).toEqual(withoutIndex.added.map(xs));
+    });
+});
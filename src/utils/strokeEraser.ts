@@ -0,0 +1,195 @@
+/**
+ * Stroke eraser - cut freehand strokes where an eraser path crosses them
+ *
+ * A stroke's centerline is removed wherever it comes within the eraser's
+ * radius plus half the stroke's width of the eraser path, so the round caps
+ * of what is left end at the edge of the erased area. Each surviving run
+ * becomes a new stroke with a new id; pressure and tilt are interpolated at
+ * the cuts. Shapes, text and brush-eraser strokes are left alone.
+ */
+
+import type { Point, Stroke } from '@/store/whiteboardStore';
+import { getStrokeBounds, type Bounds } from './strokeBounds';
+import type { StrokeIndex } from './strokeIndex';
+
+export interface EraseResult {
+    strokes: Stroke[];
+    removedIds: string[];
+    added: Stroke[];
+}
+
+const CUTTABLE_TOOLS = new Set(['pen', 'highlighter', 'calligraphy']);
+// Iterations when narrowing down where a segment leaves or enters the erased area
+const EDGE_ITERATIONS = 6;
+// Pieces shorter than this (in canvas units) are dropped
+const MIN_PIECE_LENGTH = 1;
+
+function isCuttable(stroke: Stroke) {
+    return CUTTABLE_TOOLS.has(stroke.tool) && !stroke.shapeType && stroke.points.length > 0;
+}
+
+function lerp(a: number | undefined, b: number | undefined, t: number) {
+    if (a === undefined || b === undefined) return a ?? b;
+    return a + (b - a) * t;
+}
+
+function interpolate(a: Point, b: Point, t: number): Point {
+    const point: Point = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+    const pressure = lerp(a.pressure, b.pressure, t);
+    if (pressure !== undefined) point.pressure = Math.round(pressure * 1000) / 1000;
+    const tiltX = lerp(a.tiltX, b.tiltX, t);
+    const tiltY = lerp(a.tiltY, b.tiltY, t);
+    if (tiltX !== undefined || tiltY !== undefined) {
+        point.tiltX = Math.round(tiltX ?? 0);
+        point.tiltY = Math.round(tiltY ?? 0);
+    }
+    return point;
+}
+
+function distanceToSegment(p: Point, a: Point, b: Point) {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+    return Math.hypot(p.x - (a.x + dx * t), p.y - (a.y + dy * t));
+}
+
+function intersects(a: Bounds, b: Bounds, margin: number) {
+    return a.x - margin <= b.x + b.width && b.x - margin <= a.x + a.width
+        && a.y - margin <= b.y + b.height && b.y - margin <= a.y + a.height;
+}
+
+function segmentBounds(a: Point, b: Point): Bounds {
+    return {
+        x: Math.min(a.x, b.x),
+        y: Math.min(a.y, b.y),
+        width: Math.abs(b.x - a.x),
+        height: Math.abs(b.y - a.y),
+    };
+}
+
+function pathLength(points: Point[]) {
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+        length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+    }
+    return length;
+}
+
+/**
+ * The runs of `stroke` outside the erased area, or null when the eraser
+ * doesn't touch it
+ */
+function cutStroke(stroke: Stroke, eraser: Point[], radius: number): Point[][] | null {
+    const reach = radius + stroke.width / 2;
+
+    // Only the eraser segments near this stroke matter
+    const bounds = getStrokeBounds(stroke);
+    const path: [Point, Point][] = eraser.length === 1
+        ? [[eraser[0], eraser[0]]]
+        : eraser.slice(1).map((b, i) => [eraser[i], b]);
+    const segments = path.filter(([a, b]) => intersects(segmentBounds(a, b), bounds, reach));
+    if (segments.length === 0) return null;
+
+    const isErased = (p: Point) => segments.some(([a, b]) => distanceToSegment(p, a, b) < reach);
+
+    const points = stroke.points;
+    if (points.length === 1) {
+        return isErased(points[0]) ? [] : null;
+    }
+
+    const pieces: Point[][] = [];
+    let current: Point[] = [];
+    let erased = isErased(points[0]);
+    let touched = erased;
+    if (!erased) current.push(points[0]);
+
+    // Walk each segment in steps short enough not to jump over the eraser
+    const step = Math.max(reach / 2, 0.5);
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / step));
+
+        let prevT = 0;
+        for (let s = 1; s <= steps; s++) {
+            const t = s / steps;
+            const isIn = isErased(s === steps ? b : interpolate(a, b, t));
+
+            if (isIn !== erased) {
+                touched = true;
+
+                // Narrow down the edge, keeping the side outside the erased area
+                let outside = isIn ? prevT : t;
+                let inside = isIn ? t : prevT;
+                for (let k = 0; k < EDGE_ITERATIONS; k++) {
+                    const mid = (outside + inside) / 2;
+                    if (isErased(interpolate(a, b, mid))) inside = mid;
+                    else outside = mid;
+                }
+                const edge = interpolate(a, b, outside);
+
+                if (isIn) {
+                    current.push(edge);
+                    pieces.push(current);
+                    current = [];
+                } else {
+                    current = [edge];
+                }
+                erased = isIn;
+            }
+            prevT = t;
+        }
+
+        if (!erased) current.push(b);
+    }
+
+    if (!touched) return null;
+    if (current.length > 0) pieces.push(current);
+
+    return pieces.filter((piece) => piece.length > 1 && pathLength(piece) >= MIN_PIECE_LENGTH);
+}
+
+/**
+ * Cut the freehand strokes the eraser path crosses. Cut strokes are
+ * replaced by their pieces, added at the end as the stroke operations that
+ * carry them are on other replicas. With an index only the strokes near the
+ * path are looked at.
+ */
+export function eraseAlongPath(strokes: Stroke[], eraser: Point[], radius: number, index?: StrokeIndex): EraseResult {
+    if (eraser.length === 0) return { strokes, removedIds: [], added: [] };
+
+    let nearby: Set<Stroke> | null = null;
+    if (index) {
+        const xs = eraser.map(p => p.x);
+        const ys = eraser.map(p => p.y);
+        const minX = Math.min(...xs);
+        const minY = Math.min(...ys);
+        nearby = new Set(index.search(strokes, {
+            x: minX - radius,
+            y: minY - radius,
+            width: Math.max(...xs) - minX + radius * 2,
+            height: Math.max(...ys) - minY + radius * 2,
+        }));
+        if (nearby.size === 0) return { strokes, removedIds: [], added: [] };
+    }
+
+    const removedIds: string[] = [];
+    const added: Stroke[] = [];
+    const kept: Stroke[] = [];
+
+    for (const stroke of strokes) {
+        const isNearby = !nearby || nearby.has(stroke);
+        const pieces = isNearby && isCuttable(stroke) ? cutStroke(stroke, eraser, radius) : null;
+        if (!pieces) {
+            kept.push(stroke);
+            continue;
+        }
+
+        removedIds.push(stroke.id);
+        pieces.forEach((points) => added.push({ ...stroke, id: crypto.randomUUID(), points }));
+    }
+
+    if (removedIds.length === 0) return { strokes, removedIds, added };
+    return { strokes: [...kept, ...added], removedIds, added };
+}
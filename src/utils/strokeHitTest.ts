@@ -0,0 +1,126 @@
+/**
+ * Stroke hit-testing - which stroke the pointer is on
+ */
+
+import type { Point, Stroke } from '@/store/whiteboardStore';
+import { getHitPadding } from './strokeIndex';
+
+/**
+ * The topmost of `strokes` under `point`. Pass the stroke index's candidates
+ * near the point rather than the whole page.
+ */
+export function findStrokeAtPoint(point: Point, strokes: Stroke[]): Stroke | null {
+    // Check strokes in reverse order (top to bottom in z-order)
+    for (let i = strokes.length - 1; i >= 0; i--) {
+        const stroke = strokes[i];
+
+        // Skip if stroke has no points
+        if (!stroke.points || stroke.points.length === 0) continue;
+
+        let minX: number, minY: number, maxX: number, maxY: number;
+
+        // For text strokes, use proper text bounds calculation
+        if (stroke.tool === 'text' && stroke.text) {
+            const textPoint = stroke.points[0];
+            const fontSize = stroke.fontSize || 20;
+
+            // Match the getStrokeBounds calculation for text
+            const avgCharWidth = 0.6; // Average for most fonts
+            const textWidth = Math.max(stroke.text.length * fontSize * avgCharWidth, fontSize);
+            const textHeight = fontSize * 1.2;
+
+            minX = textPoint.x;
+            minY = textPoint.y; // Konva renders text with y as TOP
+            maxX = textPoint.x + textWidth;
+            maxY = textPoint.y + textHeight;
+        } else {
+            // Get the bounding box for other strokes
+            minX = Infinity;
+            minY = Infinity;
+            maxX = -Infinity;
+            maxY = -Infinity;
+            stroke.points.forEach(p => {
+                minX = Math.min(minX, p.x);
+                minY = Math.min(minY, p.y);
+                maxX = Math.max(maxX, p.x);
+                maxY = Math.max(maxY, p.y);
+            });
+        }
+
+        // Add some padding for easier selection (based on stroke width)
+        const padding = getHitPadding(stroke);
+        minX -= padding;
+        minY -= padding;
+        maxX += padding;
+        maxY += padding;
+
+        // Check if point is within bounding box
+        if (point.x >= minX && point.x <= maxX && point.y >= minY && point.y <= maxY) {
+            // For shapes and text, bounding box is enough
+            if (['rectangle', 'circle', 'triangle', 'pentagon', 'hexagon', 'star', 'text'].includes(stroke.tool)) {
+                return stroke;
+            }
+
+            // For freehand strokes, check if point is close to any segment
+            for (let j = 0; j < stroke.points.length - 1; j++) {
+                const p1 = stroke.points[j];
+                const p2 = stroke.points[j + 1];
+                const distance = distanceToLineSegment(point, p1, p2);
+                if (distance <= padding) {
+                    return stroke;
+                }
+            }
+
+            // For lines and arrows with 2 points
+            if (stroke.points.length === 2 && ['line', 'arrow'].includes(stroke.tool)) {
+                const distance = distanceToLineSegment(point, stroke.points[0], stroke.points[1]);
+                if (distance <= padding) {
+                    return stroke;
+                }
+            }
+
+            // For single point strokes (dots)
+            if (stroke.points.length === 1) {
+                const dx = point.x - stroke.points[0].x;
+                const dy = point.y - stroke.points[0].y;
+                if (Math.sqrt(dx * dx + dy * dy) <= padding) {
+                    return stroke;
+                }
+            }
+        }
+    }
+    return null;
+}
+
+// Helper function to calculate distance from a point to a line segment
+function distanceToLineSegment(point: Point, lineStart: Point, lineEnd: Point): number {
+    const A = point.x - lineStart.x;
+    const B = point.y - lineStart.y;
+    const C = lineEnd.x - lineStart.x;
+    const D = lineEnd.y - lineStart.y;
+
+    const dot = A * C + B * D;
+    const lenSq = C * C + D * D;
+    let param = -1;
+
+    if (lenSq !== 0) {
+        param = dot / lenSq;
+    }
+
+    let xx: number, yy: number;
+
+    if (param < 0) {
+        xx = lineStart.x;
+        yy = lineStart.y;
+    } else if (param > 1) {
+        xx = lineEnd.x;
+        yy = lineEnd.y;
+    } else {
+        xx = lineStart.x + param * C;
+        yy = lineStart.y + param * D;
+    }
+
+    const dx = point.x - xx;
+    const dy = point.y - yy;
+    return Math.sqrt(dx * dx + dy * dy);
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import type { Stroke } from '@/store/whiteboardStore';
+import { getStrokeBounds, type Bounds } from './strokeBounds';
+import { StrokeIndex, getHitPadding } from './strokeIndex';
+
+// Deterministic numbers in [0, 1), so a failure can be replayed
+function random(seed: number) {
+    return () => {
+        seed = (seed * 1664525 + 1013904223) % 4294967296;
+        return seed / 4294967296;
+    };
+}
+
+// What the index should find, worked out stroke by stroke
+function linearSearch(strokes: Stroke[], area: Bounds): Stroke[] {
+    return strokes.filter((stroke) => {
+        if (stroke.points.length === 0) return false;
+        const bounds = getStrokeBounds(stroke);
+        let minX = bounds.x;
+        let minY = bounds.y;
+        let maxX = bounds.x + bounds.width;
+        let maxY = bounds.y + bounds.height;
+        if (stroke.shapeType) {
+            stroke.points.forEach((p) => {
+                minX = Math.min(minX, p.x);
+                minY = Math.min(minY, p.y);
+                maxX = Math.max(maxX, p.x);
+                maxY = Math.max(maxY, p.y);
+            });
+        }
+        const padding = getHitPadding(stroke);
+        return minX - padding <= area.x + area.width && area.x <= maxX + padding
+            && minY - padding <= area.y + area.height && area.y <= maxY + padding;
+    });
+}
+
+function createStrokes(next: () => number) {
+    let count = 0;
+
+    return (): Stroke => {
+        const id = `s${count++}`;
+        // Mostly small strokes, some spanning many grid cells
+        const size = next() < 0.1 ? 2000 + next() * 4000 : next() * 200;
+        const x = (next() - 0.5) * 6000;
+        const y = (next() - 0.5) * 6000;
+        const shape = next() < 0.2;
+        const points = shape
+            ? [{ x, y }, { x: x + size, y: y + size / 2 }, { x: x - size / 3, y: y + size }]
+            : Array.from({ length: 2 + Math.floor(next() * 8) }, () => ({ x: x + next() * size, y: y + next() * size }));
+
+        return {
+            id,
+            tool: shape ? 'triangle' : 'pen',
+            shapeType: shape ? 'triangle' : undefined,
+            points,
+            color: '#000000',
+            width: 1 + Math.floor(next() * 12),
+            opacity: 1,
+            pageId: 'page-1',
+            createdAt: '',
+        };
+    };
+}
+
+function randomArea(next: () => number): Bounds {
+    const size = next() < 0.2 ? 10000 : next() * 800;
+    return { x: (next() - 0.5) * 7000, y: (next() - 0.5) * 7000, width: size, height: size * (0.5 + next()) };
+}
+
+const ids = (strokes: Stroke[]) => strokes.map((stroke) => stroke.id);
+
+describe('StrokeIndex', () => {
+    it('finds what a linear scan finds through adds, deletes, moves and reorders', () => {
+        const next = random(42);
+        const createStroke = createStrokes(next);
+        const index = new StrokeIndex();
+        let strokes: Stroke[] = [];
+
+        for (let round = 0; round < 200; round++) {
+            // A few changes between queries, which the index catches up on lazily
+            const changes = 1 + Math.floor(next() * 5);
+            for (let c = 0; c < changes; c++) {
+                const action = next();
+                const target = Math.floor(next() * strokes.length);
+                if (action < 0.4 || strokes.length === 0) {
+                    strokes = [...strokes, createStroke()];
+                } else if (action < 0.6) {
+                    strokes = strokes.filter((_, i) => i !== target);
+                } else if (action < 0.85) {
+                    const dx = (next() - 0.5) * 1500;
+                    const dy = (next() - 0.5) * 1500;
+                    strokes = strokes.map((stroke, i) => (i !== target ? stroke : {
+                        ...stroke,
+                        points: stroke.points.map((p) => ({ x: p.x + dx, y: p.y + dy })),
+                    }));
+                } else {
+                    // Brought to the front
+                    strokes = [...strokes.filter((_, i) => i !== target), strokes[target]];
+                }
+            }
+
+            for (let q = 0; q < 3; q++) {
+                const area = randomArea(next);
+                expect(ids(index.search(strokes, area))).toEqual(ids(linearSearch(strokes, area)));
+            }
+        }
+    });
+
+    it('catches up with a whole new stroke list, as after a page load or undo', () => {
+        const next = random(7);
+        const createStroke = createStrokes(next);
+        const index = new StrokeIndex();
+        const area = { x: -3000, y: -3000, width: 6000, height: 6000 };
+
+        const first = Array.from({ length: 50 }, createStroke);
+        expect(ids(index.search(first, area))).toEqual(ids(linearSearch(first, area)));
+
+        const second = [...first.slice(10, 30).reverse(), ...Array.from({ length: 20 }, createStroke)];
+        expect(ids(index.search(second, area))).toEqual(ids(linearSearch(second, area)));
+
+        expect(index.search([], area)).toEqual([]);
+        expect(ids(index.search(first, area))).toEqual(ids(linearSearch(first, area)));
+    });
+
+    it('finds a stroke from within its hit padding, and not from beyond it', () => {
+        const strokes: Stroke[] = [{
+            id: 's1',
+            tool: 'pen',
+            points: [{ x: 0, y: 0 }, { x: 100, y: 0 }],
+            color: '#000000',
+            width: 2,
+            opacity: 1,
+            pageId: 'page-1',
+            createdAt: '',
+        }];
+        const index = new StrokeIndex();
+
+        // Padding is 10 for a thin stroke
+        expect(index.search(strokes, { x: 105, y: 9, width: 0, height: 0 })).toHaveLength(1);
+        expect(index.search(strokes, { x: 105, y: 11, width: 0, height: 0 })).toHaveLength(0);
+        expect(index.search(strokes, { x: 111, y: 0, width: 0, height: 0 })).toHaveLength(0);
+    });
+});
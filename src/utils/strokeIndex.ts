@@ -0,0 +1,183 @@
+/**
+ * Stroke index - a uniform grid over stroke bounds, so hit-testing and
+ * erasing look at the strokes near the pointer instead of every stroke and
+ * point on the page
+ *
+ * Each stroke is filed under the grid cells its bounds (grown by its hit
+ * padding) overlap. Strokes in the store are never mutated, so the index
+ * catches up with any change - add, update, delete, move, resize, a remote
+ * operation, undo or a page load - by re-filing only the strokes whose
+ * object changed since it last looked. It does so when queried, so a drag
+ * or a burst of remote operations costs nothing until something asks.
+ */
+
+import type { Stroke } from '@/store/whiteboardStore';
+import { getStrokeBounds, type Bounds } from './strokeBounds';
+
+// Side of a grid cell in canvas units
+const CELL_SIZE = 256;
+// Strokes spanning more cells than this are kept in a list checked on every query
+const MAX_CELLS_PER_STROKE = 64;
+
+interface IndexEntry {
+    stroke: Stroke;
+    bounds: Bounds;
+    cells: string[] | null; // null = too large for the grid
+    order: number; // Position in the strokes array (z-order)
+}
+
+/**
+ * How far from a stroke a pointer still hits it
+ */
+export function getHitPadding(stroke: Stroke): number {
+    return Math.max(stroke.width * 2, 10);
+}
+
+// Bounds over every point, since shapes recognized from ink keep all of theirs
+function getIndexBounds(stroke: Stroke): Bounds {
+    const bounds = getStrokeBounds(stroke);
+    let minX = bounds.x;
+    let minY = bounds.y;
+    let maxX = bounds.x + bounds.width;
+    let maxY = bounds.y + bounds.height;
+    if (stroke.shapeType && stroke.tool !== 'text') {
+        for (const p of stroke.points) {
+            minX = Math.min(minX, p.x);
+            minY = Math.min(minY, p.y);
+            maxX = Math.max(maxX, p.x);
+            maxY = Math.max(maxY, p.y);
+        }
+    }
+
+    const padding = getHitPadding(stroke);
+    return {
+        x: minX - padding,
+        y: minY - padding,
+        width: maxX - minX + padding * 2,
+        height: maxY - minY + padding * 2,
+    };
+}
+
+function overlaps(a: Bounds, b: Bounds) {
+    return a.x <= b.x + b.width && b.x <= a.x + a.width
+        && a.y <= b.y + b.height && b.y <= a.y + a.height;
+}
+
+function cellRange(bounds: Bounds) {
+    return {
+        minX: Math.floor(bounds.x / CELL_SIZE),
+        minY: Math.floor(bounds.y / CELL_SIZE),
+        maxX: Math.floor((bounds.x + bounds.width) / CELL_SIZE),
+        maxY: Math.floor((bounds.y + bounds.height) / CELL_SIZE),
+    };
+}
+
+export class StrokeIndex {
+    private entries = new Map<string, IndexEntry>();
+    private cells = new Map<string, Set<string>>();
+    private oversized = new Set<string>();
+    private source: Stroke[] | null = null;
+
+    /**
+     * Strokes whose bounds, grown by their hit padding, meet `area`,
+     * bottom to top like `strokes`
+     */
+    search(strokes: Stroke[], area: Bounds): Stroke[] {
+        this.sync(strokes);
+
+        const ids = new Set(this.oversized);
+        const range = cellRange(area);
+        const cellCount = (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+
+        if (cellCount > this.cells.size) {
+            // Larger than the occupied grid: walk the occupied cells instead
+            this.cells.forEach((cell, key) => {
+                const [cx, cy] = key.split(':').map(Number);
+                if (cx >= range.minX && cx <= range.maxX && cy >= range.minY && cy <= range.maxY) {
+                    cell.forEach(id => ids.add(id));
+                }
+            });
+        } else {
+            for (let cx = range.minX; cx <= range.maxX; cx++) {
+                for (let cy = range.minY; cy <= range.maxY; cy++) {
+                    this.cells.get(`${cx}:${cy}`)?.forEach(id => ids.add(id));
+                }
+            }
+        }
+
+        const found: IndexEntry[] = [];
+        ids.forEach(id => {
+            const entry = this.entries.get(id);
+            if (entry && overlaps(entry.bounds, area)) found.push(entry);
+        });
+        return found.sort((a, b) => a.order - b.order).map(entry => entry.stroke);
+    }
+
+    /**
+     * Catch up with `strokes`, re-filing the strokes that changed
+     */
+    sync(strokes: Stroke[]) {
+        if (strokes === this.source) return;
+
+        const seen = new Set<string>();
+        strokes.forEach((stroke, order) => {
+            seen.add(stroke.id);
+            const entry = this.entries.get(stroke.id);
+            if (!entry) {
+                this.insert(stroke, order);
+            } else if (entry.stroke !== stroke) {
+                this.remove(stroke.id);
+                this.insert(stroke, order);
+            } else {
+                entry.order = order;
+            }
+        });
+
+        Array.from(this.entries.keys())
+            .filter(id => !seen.has(id))
+            .forEach(id => this.remove(id));
+        this.source = strokes;
+    }
+
+    private insert(stroke: Stroke, order: number) {
+        if (stroke.points.length === 0) return;
+
+        const bounds = getIndexBounds(stroke);
+        const range = cellRange(bounds);
+        const cellCount = (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+
+        let cells: string[] | null = null;
+        if (cellCount > MAX_CELLS_PER_STROKE) {
+            this.oversized.add(stroke.id);
+        } else {
+            cells = [];
+            for (let cx = range.minX; cx <= range.maxX; cx++) {
+                for (let cy = range.minY; cy <= range.maxY; cy++) {
+                    const key = `${cx}:${cy}`;
+                    let cell = this.cells.get(key);
+                    if (!cell) {
+                        cell = new Set();
+                        this.cells.set(key, cell);
+                    }
+                    cell.add(stroke.id);
+                    cells.push(key);
+                }
+            }
+        }
+
+        this.entries.set(stroke.id, { stroke, bounds, cells, order });
+    }
+
+    private remove(id: string) {
+        const entry = this.entries.get(id);
+        if (!entry) return;
+
+        this.entries.delete(id);
+        this.oversized.delete(id);
+        entry.cells?.forEach(key => {
+            const cell = this.cells.get(key);
+            cell?.delete(id);
+            if (cell?.size === 0) this.cells.delete(key);
+        });
+    }
+}